@@ -19,29 +19,82 @@ import {
   Plus,
   ChevronLeft,
   ChevronRight,
+  AlertTriangle,
 } from "lucide-react";
 import { toPng, toSvg } from "html-to-image";
 import jsPDF from "jspdf";
 import AlertContainer, { showAlert } from "./components/AlertContainer";
 
 import StructNode from "./components/StructNode";
+import FunctionNode from "./components/FunctionNode";
+import ValueCellNode from "./components/ValueCellNode";
+import RegionNode from "./components/RegionNode";
 import StructEditor from "./components/StructEditor";
 import Sidebar from "./components/Sidebar";
 import Settings from "./components/Settings";
 import Dock from "./components/Dock";
 import HamburgerMenu from "./components/HamburgerMenu";
 import TemplateManager from "./components/TemplateManager";
+import HeaderImport from "./components/HeaderImport";
+import MemoryLayoutPanel from "./components/MemoryLayoutPanel";
+import ConsolePanel from "./components/ConsolePanel";
+import StepperPanel from "./components/StepperPanel";
 import { Button } from "./components/ui/button";
 import { Input } from "./components/ui/input";
-import { useCanvasStore } from "./store/canvasStore";
-import { canConnectPointer, resolveTypeName } from "./parser/structParser";
+import { getFunctionNodeId, useCanvasStore } from "./store/canvasStore";
+import {
+  canConnectFunctionPointer,
+  canConnectPointer,
+  canPointToValue,
+  findAddressableField,
+  findFieldByPath,
+  formatFieldType,
+  formatFunctionPointer,
+  resolveTypeName,
+} from "./parser/structParser";
+import { formatFunctionDeclaration } from "./parser/functionParser";
+import {
+  parseValueDeclaration,
+  validateValueDeclaration,
+} from "./parser/valueParser";
+import type { CFunction, StackFrame, StructInstance, ValueCell } from "./types";
 import { UI_COLORS } from "./utils/colors";
 import { performSmartLayout } from "./utils/smartLayout";
+import { findLeaks, findWildPointers } from "./utils/graphAnalysis";
+import {
+  findDanglingConnections,
+  findDeadNodeIds,
+  getFreeError,
+  getStorageClass,
+} from "./utils/storage";
+import {
+  formatValueCellType,
+  getValueCellElement,
+  isValueCellPath,
+} from "./utils/valueCells";
 
 const nodeTypes = {
   structNode: StructNode,
+  functionNode: FunctionNode,
+  valueNode: ValueCellNode,
+  regionNode: RegionNode,
 };
 
+// Stack frame and heap containers: space around their members, room for
+// the header, and the size of a container with nothing in it
+const REGION_PADDING = 24;
+const REGION_HEADER = 40;
+const EMPTY_REGION = { width: 280, height: 120 };
+
+interface Region {
+  id: string; // Stack frame id, or "region-heap"
+  frame?: StackFrame;
+  box: { x: number; y: number; width: number; height: number };
+}
+
+// Placement of an object: where addInstance and setStorage put it
+type Placement = Pick<StructInstance, "storage" | "frameId">;
+
 // Edge types removed - using default smoothstep for all connections
 
 function FlowCanvas() {
@@ -49,12 +102,21 @@ function FlowCanvas() {
   const { screenToFlowPosition, fitView } = useReactFlow();
   const {
     instances,
+    valueCells,
     structDefinitions,
+    enumDefinitions,
+    typedefDefinitions,
+    functionDefinitions,
+    constantDefinitions,
     updateInstancePosition,
+    updateFunctionPosition,
+    updateValueCellPosition,
     addInstance,
+    addValueCell,
     addConnection,
     removeConnection,
     removeInstance,
+    removeValueCell,
     removeInstances,
     connections,
     clearAll,
@@ -63,6 +125,15 @@ function FlowCanvas() {
     saveHistory,
     history,
     historyIndex,
+    dataModel,
+    showAddresses,
+    syncAddresses,
+    stackFrames,
+    pushStackFrame,
+    popStackFrame,
+    removeStackFrame,
+    setStorage,
+    freeNode,
   } = useCanvasStore();
 
   const [showEditor, setShowEditor] = useState(false);
@@ -71,14 +142,25 @@ function FlowCanvas() {
   >(undefined);
   const [showSettings, setShowSettings] = useState(false);
   const [showTemplateManager, setShowTemplateManager] = useState(false);
+  const [showHeaderImport, setShowHeaderImport] = useState(false);
+  const [layoutStructName, setLayoutStructName] = useState<
+    string | undefined
+  >(undefined);
   const [showSidebar, setShowSidebar] = useState(true);
+  const [showConsole, setShowConsole] = useState(false);
+  const [showStepper, setShowStepper] = useState(false);
   const [snapToGrid, setSnapToGrid] = useState<boolean>(() => {
     const saved = localStorage.getItem("snap-to-grid");
     return saved ? JSON.parse(saved) : true; // Default to true
   });
   const [copiedNodes, setCopiedNodes] = useState<string[]>([]);
   const [copiedConnections, setCopiedConnections] = useState<
-    Array<{ sourceId: string; targetId: string; fieldName: string }>
+    Array<{
+      sourceId: string;
+      targetId: string;
+      fieldName: string;
+      targetFieldName?: string;
+    }>
   >([]);
   const [highlightedPath, setHighlightedPath] = useState<Set<string>>(
     new Set(),
@@ -96,6 +178,10 @@ function FlowCanvas() {
     flowX: number;
     flowY: number;
   } | null>(null);
+  // Declaration typed into the quick add menu ("int count = 3")
+  const [valueDeclaration, setValueDeclaration] = useState("");
+  // Function named in the canvas menu when pushing a stack frame
+  const [frameFunctionName, setFrameFunctionName] = useState("");
   const [isSelecting, setIsSelecting] = useState(false);
 
   // Persist snap to grid to localStorage
@@ -107,6 +193,7 @@ function FlowCanvas() {
     sourceInstanceId: string;
     sourceFieldName: string;
     pointerType: string;
+    pointerLevel: number;
     position: { x: number; y: number };
     flowPosition?: { x: number; y: number };
   } | null>(null);
@@ -310,8 +397,23 @@ function FlowCanvas() {
     input.click();
   }, []);
 
+  // Heap blocks that no global or live local points to (directly or not)
+  const leakReport = findLeaks(
+    instances,
+    connections,
+    valueCells,
+    stackFrames,
+    structDefinitions,
+    enumDefinitions,
+    dataModel,
+    typedefDefinitions,
+  );
+  // Without a global or local to start from, every block would count as
+  // leaked, so leaks are only reported once there is a root
+  const hasRoots = leakReport.rootIds.length > 0;
+
   // Convert instances to React Flow nodes
-  const reactFlowNodes: Node[] = instances.map((instance) => {
+  const instanceNodes: Node[] = instances.map((instance) => {
     const structDef = structDefinitions.find(
       (s) => s.name === instance.structName,
     );
@@ -326,8 +428,11 @@ function FlowCanvas() {
         instanceId: instance.id,
         structName: instance.structName,
         instanceName: instance.instanceName,
+        kind: structDef?.kind,
         fields: structDef?.fields || [],
         isHighlighted,
+        isLeaked: hasRoots && leakReport.leakedIds.has(instance.id),
+        onShowLayout: setLayoutStructName,
       },
       style: {
         opacity: highlightedPath.size > 0 && !isHighlighted ? 0.3 : 1,
@@ -335,6 +440,50 @@ function FlowCanvas() {
     };
   });
 
+  // Functions are nodes too, so function pointers have something to point to
+  const functionNodes: Node[] = functionDefinitions.map((fn, index) => {
+    const nodeId = getFunctionNodeId(fn.name);
+    const isHighlighted = highlightedPath.has(nodeId);
+
+    return {
+      id: nodeId,
+      type: "functionNode",
+      position: fn.position ?? { x: -320, y: 100 + index * 120 },
+      data: {
+        nodeId,
+        fn,
+        onEdit: (functionName: string) => {
+          setEditingStructName(functionName);
+          setShowEditor(true);
+        },
+      },
+      style: {
+        opacity: highlightedPath.size > 0 && !isHighlighted ? 0.3 : 1,
+      },
+    };
+  });
+
+  // Value cells are the targets of pointers to primitives (int*, char*, double**)
+  const valueNodes: Node[] = valueCells.map((cell) => {
+    const isHighlighted = highlightedPath.has(cell.id);
+
+    return {
+      id: cell.id,
+      type: "valueNode",
+      position: cell.position,
+      data: {
+        cell,
+        isRoot: leakReport.rootIds.includes(cell.id),
+        isLeaked: hasRoots && leakReport.leakedIds.has(cell.id),
+      },
+      style: {
+        opacity: highlightedPath.size > 0 && !isHighlighted ? 0.3 : 1,
+      },
+    };
+  });
+
+  const reactFlowNodes = [...instanceNodes, ...functionNodes, ...valueNodes];
+
   // Calculate pointer path from a node (for highlighting)
   const calculatePointerPath = useCallback(
     (startNodeId: string): { nodeIds: Set<string>; hasCircular: boolean } => {
@@ -373,6 +522,87 @@ function FlowCanvas() {
     [connections],
   );
 
+  // "head" for a value cell, "node.next" for a struct member
+  const formatPointer = useCallback(
+    (nodeId: string, path: string) => {
+      const cell = valueCells.find((c) => c.id === nodeId);
+      if (cell) return `${cell.name}${path.slice("value".length)}`;
+      const instance = instances.find((i) => i.id === nodeId);
+      return `${instance?.instanceName ?? nodeId}.${path}`;
+    },
+    [instances, valueCells],
+  );
+
+  // Warning for uninitialised pointers among the given nodes, e.g. a list
+  // whose tail's next was never set to NULL
+  const describeWildPointers = useCallback(
+    (nodeIds: Set<string>): string | null => {
+      const wildPointers = findWildPointers(
+        instances,
+        connections,
+        structDefinitions,
+        typedefDefinitions,
+        valueCells,
+      ).filter((wild) => nodeIds.has(wild.instanceId));
+      if (wildPointers.length === 0) return null;
+
+      const tail = wildPointers.find((wild) => wild.isListTail);
+      if (tail) {
+        return `List tail ${formatPointer(tail.instanceId, tail.fieldName)} is uninitialised (wild), not NULL.`;
+      }
+      return `Uninitialised (wild) pointer: ${wildPointers
+        .map((wild) => formatPointer(wild.instanceId, wild.fieldName))
+        .join(", ")}`;
+    },
+    [
+      instances,
+      valueCells,
+      connections,
+      structDefinitions,
+      typedefDefinitions,
+      formatPointer,
+    ],
+  );
+
+  // Error for a path that follows a pointer into a freed block or a dead
+  // local: reading through it is a use after free
+  const describeDanglingPointers = useCallback(
+    (nodeIds: Set<string>): string | null => {
+      const dangling = findDanglingConnections(
+        connections,
+        findDeadNodeIds(instances, valueCells, stackFrames),
+      ).find((conn) => nodeIds.has(conn.sourceInstanceId));
+      if (!dangling) return null;
+
+      const pointer = formatPointer(
+        dangling.sourceInstanceId,
+        dangling.sourceFieldName,
+      );
+      const target = [...instances, ...valueCells].find(
+        (node) => node.id === dangling.targetInstanceId,
+      );
+      if (!target || target.freed) {
+        const name = target
+          ? "structName" in target
+            ? target.instanceName
+            : target.name
+          : "block";
+        return `Use after free: ${pointer} points to '${name}', which was freed.`;
+      }
+      const frame = stackFrames.find((f) => f.id === target.frameId);
+      return `Dangling pointer: ${pointer} points to a local of ${frame?.functionName ?? "a"}() after it returned.`;
+    },
+    [instances, valueCells, connections, stackFrames, formatPointer],
+  );
+
+  // Pointers into a popped frame or a freed block still hold its old address
+  const danglingConnectionIds = new Set(
+    findDanglingConnections(
+      connections,
+      findDeadNodeIds(instances, valueCells, stackFrames),
+    ).map((conn) => conn.id),
+  );
+
   // Convert connections to React Flow edges
   const reactFlowEdges: Edge[] = connections.map((conn) => {
     // Check if this edge is part of highlighted path
@@ -380,24 +610,38 @@ function FlowCanvas() {
       highlightedPath.size > 0 &&
       highlightedPath.has(conn.sourceInstanceId) &&
       highlightedPath.has(conn.targetInstanceId);
+    const isDangling = danglingConnectionIds.has(conn.id);
+    const edgeColor = isHighlighted
+      ? "#3b82f6"
+      : isDangling
+        ? "#dc2626"
+        : "#374151";
 
     return {
       id: conn.id,
       source: conn.sourceInstanceId,
       sourceHandle: `${conn.sourceInstanceId}-${conn.sourceFieldName}`,
       target: conn.targetInstanceId,
+      // Interior pointers end at the member's row, others at the node header
+      targetHandle: conn.targetFieldName
+        ? `target-${conn.targetInstanceId}-${conn.targetFieldName}`
+        : `target-left-${conn.targetInstanceId}`,
       type: "smoothstep",
       animated: isHighlighted,
       style: {
-        stroke: isHighlighted ? "#3b82f6" : "#374151",
+        stroke: edgeColor,
         strokeWidth: isHighlighted ? 4 : 3,
         cursor: "pointer",
-        strokeDasharray: "0",
+        strokeDasharray: isDangling ? "8 4" : "0",
         opacity: highlightedPath.size > 0 && !isHighlighted ? 0.2 : 1,
       },
+      ...(isDangling && {
+        label: "DANGLING",
+        labelStyle: { fill: "#dc2626", fontWeight: 700, fontSize: 10 },
+      }),
       markerEnd: {
         type: "arrowclosed" as const,
-        color: isHighlighted ? "#3b82f6" : "#374151",
+        color: edgeColor,
         width: 16,
         height: 16,
       },
@@ -409,6 +653,154 @@ function FlowCanvas() {
   const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
 
+  // Stack frames and the heap become containers around their members once
+  // there is a call stack. Nodes being dragged are left out, so they do not
+  // stretch the container they are leaving.
+  const computeRegions = useCallback(
+    (excludeIds: Set<string> = new Set()): Region[] => {
+      if (stackFrames.length === 0) return [];
+
+      const membersOf = (
+        isMember: (node: StructInstance | ValueCell) => boolean,
+      ) => {
+        const memberIds = new Set(
+          [...instances, ...valueCells].filter(isMember).map((node) => node.id),
+        );
+        return nodes.filter(
+          (node) => memberIds.has(node.id) && !excludeIds.has(node.id),
+        );
+      };
+      const enclose = (
+        members: Node[],
+        fallback: { x: number; y: number },
+      ): Region["box"] => {
+        if (members.length === 0) return { ...fallback, ...EMPTY_REGION };
+        const left = Math.min(...members.map((n) => n.position.x));
+        const top = Math.min(...members.map((n) => n.position.y));
+        const right = Math.max(
+          ...members.map((n) => n.position.x + (n.measured?.width ?? 0)),
+        );
+        const bottom = Math.max(
+          ...members.map((n) => n.position.y + (n.measured?.height ?? 0)),
+        );
+        return {
+          x: left - REGION_PADDING,
+          y: top - REGION_PADDING - REGION_HEADER,
+          width: right - left + 2 * REGION_PADDING,
+          height: bottom - top + 2 * REGION_PADDING + REGION_HEADER,
+        };
+      };
+
+      const frameRegions = stackFrames.map((frame) => ({
+        id: frame.id,
+        frame,
+        box: enclose(
+          membersOf(
+            (node) =>
+              getStorageClass(node) === "stack" && node.frameId === frame.id,
+          ),
+          frame.position,
+        ),
+      }));
+      // An empty heap sits to the right of the frames
+      const heapFallback = {
+        x: Math.max(...stackFrames.map((f) => f.position.x)) + 360,
+        y: Math.min(...stackFrames.map((f) => f.position.y)),
+      };
+      const heapRegion = {
+        id: "region-heap",
+        box: enclose(
+          membersOf((node) => getStorageClass(node) === "heap"),
+          heapFallback,
+        ),
+      };
+      return [...frameRegions, heapRegion];
+    },
+    [stackFrames, instances, valueCells, nodes],
+  );
+
+  // An object dropped inside an active frame becomes one of its locals,
+  // inside the heap container a heap block; elsewhere it stays as it is
+  const findPlacementAt = useCallback(
+    (
+      point: { x: number; y: number },
+      excludeIds?: Set<string>,
+    ): Placement | undefined => {
+      const regions = computeRegions(excludeIds);
+      const contains = ({ box }: Region) =>
+        point.x >= box.x &&
+        point.x <= box.x + box.width &&
+        point.y >= box.y &&
+        point.y <= box.y + box.height;
+
+      const frame = regions
+        .filter((region) => region.frame && !region.frame.popped)
+        .filter(contains)
+        .pop();
+      if (frame) return { storage: "stack", frameId: frame.id };
+      if (regions.some((region) => !region.frame && contains(region))) {
+        return { storage: "heap" };
+      }
+      return undefined;
+    },
+    [computeRegions],
+  );
+
+  const activeFrames = stackFrames.filter((frame) => !frame.popped);
+  const topFrame = activeFrames[activeFrames.length - 1];
+
+  // Object the node context menu was opened on
+  const contextCell = valueCells.find((c) => c.id === contextMenu?.nodeId);
+  const contextNode: StructInstance | ValueCell | undefined =
+    contextCell ?? instances.find((i) => i.id === contextMenu?.nodeId);
+  const regionNodes: Node[] = computeRegions().map((region) => ({
+    id: region.id,
+    type: "regionNode",
+    position: { x: region.box.x, y: region.box.y },
+    data: region.frame
+      ? {
+          title: `${region.frame.functionName}()`,
+          badge: region.frame.popped
+            ? "POPPED"
+            : `FRAME #${activeFrames.indexOf(region.frame)}`,
+          kind: "frame",
+          popped: region.frame.popped,
+          onPop: region.frame === topFrame ? popStackFrame : undefined,
+          onRemove: region.frame.popped
+            ? () => removeStackFrame(region.id)
+            : undefined,
+        }
+      : { title: "HEAP", badge: "MALLOC", kind: "heap" },
+    // Clicks fall through to the canvas and the members, except on the
+    // header buttons
+    style: {
+      width: region.box.width,
+      height: region.box.height,
+      pointerEvents: "none",
+    },
+    zIndex: -1,
+    draggable: false,
+    selectable: false,
+    connectable: false,
+    focusable: false,
+  }));
+
+  // New, resized or re-targeted objects get a simulated address; nothing
+  // shows them while address mode is off, so they are assigned once it is on
+  useEffect(() => {
+    if (showAddresses) syncAddresses();
+  }, [
+    showAddresses,
+    instances,
+    valueCells,
+    functionDefinitions,
+    structDefinitions,
+    enumDefinitions,
+    typedefDefinitions,
+    dataModel,
+    syncAddresses,
+  ]);
+
   // Handle Shift key for selection mode toggle and ESC to cancel operations
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -416,7 +808,8 @@ function FlowCanvas() {
       if (
         event.target instanceof HTMLInputElement ||
         event.target instanceof HTMLTextAreaElement ||
-        showEditor
+        showEditor ||
+        showHeaderImport
       ) {
         return;
       }
@@ -449,7 +842,7 @@ function FlowCanvas() {
 
     const handleKeyUp = (event: KeyboardEvent) => {
       // Ignore if struct editor is open
-      if (showEditor) {
+      if (showEditor || showHeaderImport) {
         return;
       }
 
@@ -464,7 +857,14 @@ function FlowCanvas() {
       window.removeEventListener("keydown", handleKeyDown);
       window.removeEventListener("keyup", handleKeyUp);
     };
-  }, [isSelecting, showEditor, connectionPopup, contextMenu, quickAddMenu]);
+  }, [
+    isSelecting,
+    showEditor,
+    showHeaderImport,
+    connectionPopup,
+    contextMenu,
+    quickAddMenu,
+  ]);
 
   // Handle keyboard shortcuts for bulk operations
   useEffect(() => {
@@ -473,7 +873,8 @@ function FlowCanvas() {
       if (
         event.target instanceof HTMLInputElement ||
         event.target instanceof HTMLTextAreaElement ||
-        showEditor
+        showEditor ||
+        showHeaderImport
       ) {
         return;
       }
@@ -503,7 +904,10 @@ function FlowCanvas() {
 
       // Delete key - remove selected nodes
       if (event.key === "Delete" || event.key === "Backspace") {
-        const selectedNodes = nodes.filter((node) => node.selected);
+        // Functions are definitions; they are deleted from the editor
+        const selectedNodes = nodes.filter(
+          (node) => node.selected && node.type !== "functionNode",
+        );
         if (selectedNodes.length > 0) {
           event.preventDefault();
 
@@ -544,6 +948,7 @@ function FlowCanvas() {
               sourceId: conn.sourceInstanceId,
               targetId: conn.targetInstanceId,
               fieldName: conn.sourceFieldName,
+              targetFieldName: conn.targetFieldName,
             })),
           );
 
@@ -578,6 +983,7 @@ function FlowCanvas() {
                   sourceInstanceId: newSourceId,
                   sourceFieldName: conn.sourceFieldName,
                   targetInstanceId: newTargetId,
+                  targetFieldName: conn.targetFieldName,
                 });
               }
             });
@@ -612,6 +1018,7 @@ function FlowCanvas() {
               sourceId: conn.sourceInstanceId,
               targetId: conn.targetInstanceId,
               fieldName: conn.sourceFieldName,
+              targetFieldName: conn.targetFieldName,
             })),
           );
         }
@@ -672,6 +1079,7 @@ function FlowCanvas() {
                     sourceInstanceId: newSourceId,
                     sourceFieldName: conn.fieldName,
                     targetInstanceId: newTargetId,
+                    targetFieldName: conn.targetFieldName,
                   });
                 }
               });
@@ -741,6 +1149,7 @@ function FlowCanvas() {
     addInstance,
     highlightedPath,
     showEditor,
+    showHeaderImport,
     connectionPopup,
     contextMenu,
     quickAddMenu,
@@ -760,30 +1169,76 @@ function FlowCanvas() {
       }));
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [instances, structDefinitions, highlightedPath]);
+  }, [
+    instances,
+    valueCells,
+    connections,
+    stackFrames,
+    structDefinitions,
+    functionDefinitions,
+    highlightedPath,
+  ]);
 
   useEffect(() => {
     setEdges(reactFlowEdges);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [connections, instances, highlightedPath]); // Re-calculate edges when instances move or path changes
+  }, [connections, instances, valueCells, stackFrames, highlightedPath]); // Re-calculate edges when instances move or path changes
 
   // Sync positions when nodes are dragged
   const handleNodeDragStop = useCallback(
     (_event: React.MouseEvent, node: Node, allNodes: Node[]) => {
-      // If the dragged node is selected, update all selected nodes
-      if (node.selected) {
-        const selectedNodes = allNodes.filter((n) => n.selected);
-        selectedNodes.forEach((n) => {
+      const updatePosition = (n: Node) => {
+        if (n.type === "functionNode") {
+          const { fn } = n.data as { fn: CFunction };
+          updateFunctionPosition(fn.name, n.position);
+        } else if (n.type === "valueNode") {
+          updateValueCellPosition(n.id, n.position);
+        } else {
           updateInstancePosition(n.id, n.position);
-        });
-      } else {
-        // Only update the single node that was dragged
-        updateInstancePosition(node.id, node.position);
-      }
+        }
+      };
+
+      // If the dragged node is selected, update all selected nodes
+      const movedNodes = node.selected
+        ? allNodes.filter((n) => n.selected)
+        : [node];
+      movedNodes.forEach(updatePosition);
       // Save history after drag is complete
       saveHistory();
+
+      // Dropped inside a stack frame or the heap: the object moves there
+      const movedIds = new Set(movedNodes.map((n) => n.id));
+      movedNodes.forEach((n) => {
+        const object =
+          instances.find((i) => i.id === n.id) ??
+          valueCells.find((c) => c.id === n.id);
+        if (!object) return;
+        const placement = findPlacementAt(
+          {
+            x: n.position.x + (n.measured?.width ?? 0) / 2,
+            y: n.position.y + (n.measured?.height ?? 0) / 2,
+          },
+          movedIds,
+        );
+        if (
+          placement &&
+          (placement.storage !== getStorageClass(object) ||
+            placement.frameId !== object.frameId)
+        ) {
+          setStorage([n.id], placement.storage!, placement.frameId);
+        }
+      });
     },
-    [updateInstancePosition, saveHistory],
+    [
+      updateInstancePosition,
+      updateFunctionPosition,
+      updateValueCellPosition,
+      saveHistory,
+      instances,
+      valueCells,
+      findPlacementAt,
+      setStorage,
+    ],
   );
 
   // Handle node click for path highlighting
@@ -806,6 +1261,9 @@ function FlowCanvas() {
   const handleNodeContextMenu = useCallback(
     (event: React.MouseEvent, node: Node) => {
       event.preventDefault();
+      // Value cells get the actions that make sense for them: highlight,
+      // storage, free() and delete
+      if (node.type === "functionNode") return;
       setContextMenu({
         show: true,
         x: event.clientX,
@@ -863,6 +1321,33 @@ function FlowCanvas() {
     );
   }, [highlightedPath, setNodes]);
 
+  // The pointer behind a source handle: a struct member (typedefs expanded)
+  // or an element of a value cell
+  const findSourceField = useCallback(
+    (nodeId: string, fieldName: string) => {
+      const sourceCell = valueCells.find((c) => c.id === nodeId);
+      if (sourceCell) {
+        return isValueCellPath(sourceCell, fieldName)
+          ? getValueCellElement(sourceCell, typedefDefinitions)
+          : undefined;
+      }
+
+      const sourceInstance = instances.find((i) => i.id === nodeId);
+      const sourceStruct = structDefinitions.find(
+        (s) => s.name === sourceInstance?.structName,
+      );
+      return sourceStruct
+        ? findFieldByPath(
+            sourceStruct.fields,
+            fieldName,
+            structDefinitions,
+            typedefDefinitions,
+          )
+        : undefined;
+    },
+    [instances, valueCells, structDefinitions, typedefDefinitions],
+  );
+
   // Handle new pointer connections with type validation and smart targeting
   const handleConnect = useCallback(
     (connection: Connection) => {
@@ -874,20 +1359,20 @@ function FlowCanvas() {
         return;
       }
 
-      // Extract field name from handle ID (format: instanceId-fieldName or instanceId-fieldName[index])
+      // Extract field path from handle ID (format: instanceId-fieldName, instanceId-fieldName[index]
+      // or instanceId-outer.inner for members of nested structs)
       const fieldName = connection.sourceHandle.split("-").pop() || "";
 
-      // Extract base field name (for array fields like "p[0]", extract "p")
-      const baseFieldName = fieldName.split("[")[0];
+      // Get source field info: a struct member or a value cell element
+      const sourceField = findSourceField(connection.source, fieldName);
 
-      // Get source instance and field info
-      const sourceInstance = instances.find((i) => i.id === connection.source);
-      const sourceStruct = structDefinitions.find(
-        (s) => s.name === sourceInstance?.structName,
-      );
-      const sourceField = sourceStruct?.fields.find(
-        (f) => f.name === baseFieldName,
-      );
+      // Handles on a member's row (target-<nodeId>-items[3]) make an interior
+      // pointer; the header handle (target-left-<nodeId>) the whole object
+      const targetFieldName =
+        connection.targetHandle &&
+        connection.targetHandle !== `target-left-${connection.target}`
+          ? connection.targetHandle.split("-").pop()
+          : undefined;
 
       if (!sourceField || !sourceField.isPointer) {
         showAlert({
@@ -897,6 +1382,96 @@ function FlowCanvas() {
         return;
       }
 
+      // IMPORTANT: Check if this pointer already has a connection
+      const existingConnection = connections.find(
+        (conn) =>
+          conn.sourceInstanceId === connection.source &&
+          conn.sourceFieldName === fieldName,
+      );
+
+      if (existingConnection) {
+        showAlert({
+          type: "warning",
+          message: `This pointer is already connected! Right-click the connection arrow to delete it first.`,
+          duration: 4000,
+        });
+        return;
+      }
+
+      // Function pointers point to functions, data pointers to instances
+      const targetFunction = functionDefinitions.find(
+        (f) => getFunctionNodeId(f.name) === connection.target,
+      );
+
+      if (targetFunction || sourceField.isFunctionPointer) {
+        if (!targetFunction || !sourceField.isFunctionPointer) {
+          showAlert({
+            type: "error",
+            message: sourceField.isFunctionPointer
+              ? `A function pointer can only point to a function. Declare one in the editor (e.g. 'int add(int a, int b);').`
+              : `Type mismatch! ${sourceField.type}* cannot point to function ${targetFunction!.name}.`,
+            duration: 4000,
+          });
+          return;
+        }
+
+        if (
+          !canConnectFunctionPointer(
+            sourceField.type,
+            targetFunction.signature,
+            typedefDefinitions,
+          )
+        ) {
+          showAlert({
+            type: "error",
+            message: `Signature mismatch! ${formatFunctionPointer(sourceField.type)} cannot point to ${formatFunctionDeclaration(targetFunction)}.`,
+            duration: 4000,
+          });
+          return;
+        }
+
+        addConnection({
+          sourceInstanceId: connection.source,
+          sourceFieldName: fieldName,
+          targetInstanceId: connection.target,
+        });
+
+        setEdges((eds) => addEdge(connection, eds));
+        return;
+      }
+
+      // Pointers to primitives (and to pointers) point at value cells; the
+      // pointee type and pointer level must match
+      const targetCell = valueCells.find((c) => c.id === connection.target);
+
+      if (targetCell) {
+        if (
+          !canPointToValue(
+            sourceField,
+            targetCell,
+            structDefinitions,
+            typedefDefinitions,
+          )
+        ) {
+          showAlert({
+            type: "error",
+            message: `Type mismatch! ${formatFieldType(sourceField)} cannot point to ${formatValueCellType(targetCell)} ${targetCell.name}.`,
+            duration: 4000,
+          });
+          return;
+        }
+
+        addConnection({
+          sourceInstanceId: connection.source,
+          sourceFieldName: fieldName,
+          targetInstanceId: connection.target,
+          ...(targetFieldName && { targetFieldName }),
+        });
+
+        setEdges((eds) => addEdge(connection, eds));
+        return;
+      }
+
       // Get target instance
       const targetInstance = instances.find((i) => i.id === connection.target);
 
@@ -904,17 +1479,69 @@ function FlowCanvas() {
         return;
       }
 
+      // Interior pointer (&node->data, &arr[3]): checked against the
+      // member's own type rather than the struct's
+      if (targetFieldName) {
+        const targetStruct = structDefinitions.find(
+          (s) => s.name === targetInstance.structName,
+        );
+        const targetField = targetStruct
+          ? findAddressableField(
+              targetStruct.fields,
+              targetFieldName,
+              structDefinitions,
+              typedefDefinitions,
+              targetInstance.flexibleLength,
+            )
+          : undefined;
+
+        if (
+          !targetField ||
+          !canPointToValue(
+            sourceField,
+            targetField,
+            structDefinitions,
+            typedefDefinitions,
+          )
+        ) {
+          showAlert({
+            type: "error",
+            message: `Type mismatch! ${formatFieldType(sourceField)} cannot point to ${targetInstance.instanceName}.${targetFieldName}${targetField ? ` (${formatFieldType(targetField)})` : ""}.`,
+            duration: 4000,
+          });
+          return;
+        }
+
+        addConnection({
+          sourceInstanceId: connection.source,
+          sourceFieldName: fieldName,
+          targetInstanceId: connection.target,
+          targetFieldName,
+        });
+
+        setEdges((eds) => addEdge(connection, eds));
+        return;
+      }
+
       // Type validation - resolve typedef names to struct names
       const resolvedPointerType = resolveTypeName(
         sourceField.type,
         structDefinitions,
+        typedefDefinitions,
       );
       const resolvedTargetType = resolveTypeName(
         targetInstance.structName,
         structDefinitions,
+        typedefDefinitions,
       );
 
-      if (!canConnectPointer(resolvedPointerType, resolvedTargetType)) {
+      if (
+        !canConnectPointer(
+          resolvedPointerType,
+          resolvedTargetType,
+          typedefDefinitions,
+        )
+      ) {
         showAlert({
           type: "error",
           message: `Type mismatch! ${sourceField.type}* cannot point to struct ${targetInstance.structName}. Make sure pointer types match the target struct.`,
@@ -923,22 +1550,6 @@ function FlowCanvas() {
         return;
       }
 
-      // IMPORTANT: Check if this pointer already has a connection
-      const existingConnection = connections.find(
-        (conn) =>
-          conn.sourceInstanceId === connection.source &&
-          conn.sourceFieldName === fieldName,
-      );
-
-      if (existingConnection) {
-        showAlert({
-          type: "warning",
-          message: `This pointer is already connected! Right-click the connection arrow to delete it first.`,
-          duration: 4000,
-        });
-        return;
-      }
-
       // SMART CONNECTION: If user dropped on the main target handle (not a specific field handle),
       // try to find the first compatible pointer target field in the target struct
       if (
@@ -985,7 +1596,17 @@ function FlowCanvas() {
 
       setEdges((eds) => addEdge(connection, eds));
     },
-    [instances, structDefinitions, addConnection, setEdges, connections],
+    [
+      instances,
+      valueCells,
+      structDefinitions,
+      typedefDefinitions,
+      functionDefinitions,
+      findSourceField,
+      addConnection,
+      setEdges,
+      connections,
+    ],
   );
 
   // Handle edge click for highlighting source and target nodes (left-click)
@@ -1061,23 +1682,29 @@ function FlowCanvas() {
 
       if (!sourceHandleId || !sourceInstanceId) return;
 
-      // Extract field name from handle ID (format: instanceId-fieldName or instanceId-fieldName[index])
+      // Extract field path from handle ID (format: instanceId-fieldName, instanceId-fieldName[index]
+      // or instanceId-outer.inner for members of nested structs)
       const fieldName = sourceHandleId.split("-").pop() || "";
 
-      // Extract base field name (for array fields like "p[0]", extract "p")
-      const baseFieldName = fieldName.split("[")[0];
-
       // Get the source field info
-      const sourceInstance = instances.find((i) => i.id === sourceInstanceId);
-      const sourceStruct = structDefinitions.find(
-        (s) => s.name === sourceInstance?.structName,
-      );
-      const sourceField = sourceStruct?.fields.find(
-        (f) => f.name === baseFieldName,
-      );
+      const sourceField = findSourceField(sourceInstanceId, fieldName);
 
       if (!sourceField || !sourceField.isPointer) return;
 
+      // The popup creates struct instances, which a function pointer
+      // cannot point to
+      if (sourceField.isFunctionPointer) {
+        showAlert({
+          type: "info",
+          message:
+            functionDefinitions.length > 0
+              ? "Drop a function pointer on a function node to connect it."
+              : "Declare a function in the editor (e.g. 'int add(int a, int b);') to point this function pointer at it.",
+          duration: 3000,
+        });
+        return;
+      }
+
       // Get mouse position (screen coordinates for popup)
       const mouseEvent = event as MouseEvent;
       const screenPosition = {
@@ -1097,12 +1724,13 @@ function FlowCanvas() {
         sourceInstanceId,
         sourceFieldName: fieldName,
         pointerType: sourceField.type,
+        pointerLevel: sourceField.pointerLevel || 1,
         position: screenPosition,
         flowPosition, // Store flow position for spawning
       });
       setPopupSearch(""); // Reset search when popup opens
     },
-    [instances, structDefinitions, screenToFlowPosition],
+    [functionDefinitions, findSourceField, screenToFlowPosition],
   );
 
   // Smart auto-layout system that detects patterns and applies appropriate layouts
@@ -1110,9 +1738,16 @@ function FlowCanvas() {
     if (instances.length === 0) return;
 
     try {
+      // Function nodes and value cells keep their place; only struct
+      // instances are arranged
+      const instanceIds = new Set(instances.map((i) => i.id));
       await performSmartLayout(
         instances,
-        connections,
+        connections.filter(
+          (c) =>
+            instanceIds.has(c.sourceInstanceId) &&
+            instanceIds.has(c.targetInstanceId),
+        ),
         structDefinitions,
         updateInstancePosition,
       );
@@ -1157,6 +1792,65 @@ function FlowCanvas() {
     [structDefinitions, addInstance, screenToFlowPosition],
   );
 
+  // Variables and heap blocks created from the console line up to the right
+  // of the others in their frame, the heap or the globals; the first ones go
+  // to the middle of the view, heap blocks below the globals
+  const getConsolePosition = useCallback(
+    (placement: Placement) => {
+      const state = useCanvasStore.getState();
+      const members = [...state.instances, ...state.valueCells].filter(
+        (node) =>
+          getStorageClass(node) === placement.storage &&
+          node.frameId === placement.frameId,
+      );
+      if (members.length > 0) {
+        const last = members.reduce((a, b) =>
+          b.position.x > a.position.x ? b : a,
+        );
+        return { x: last.position.x + 340, y: last.position.y };
+      }
+
+      const frame = state.stackFrames.find((f) => f.id === placement.frameId);
+      if (frame) {
+        return {
+          x: frame.position.x + REGION_PADDING,
+          y: frame.position.y + REGION_HEADER + REGION_PADDING,
+        };
+      }
+      const center = screenToFlowPosition({
+        x: window.innerWidth / 2,
+        y: window.innerHeight / 3,
+      });
+      return placement.storage === "heap"
+        ? { x: center.x, y: center.y + 240 }
+        : center;
+    },
+    [screenToFlowPosition],
+  );
+
+  // Frames of stepped calls stack downwards, below every frame so far and
+  // its locals
+  const getFramePosition = useCallback(() => {
+    const state = useCanvasStore.getState();
+    if (state.stackFrames.length === 0) {
+      return screenToFlowPosition({
+        x: window.innerWidth / 4,
+        y: window.innerHeight / 4,
+      });
+    }
+    const locals = [...state.instances, ...state.valueCells].filter(
+      (node) => getStorageClass(node) === "stack",
+    );
+    const points = [
+      ...state.stackFrames.map((frame) => frame.position),
+      ...locals.map((node) => node.position),
+    ];
+    return {
+      x: Math.min(...state.stackFrames.map((frame) => frame.position.x)),
+      y: Math.max(...points.map((point) => point.y)) + 260,
+    };
+  }, [screenToFlowPosition]);
+
   // Handle double-click from sidebar to add instance at center
   const handleAddInstanceFromSidebar = useCallback(
     (structName: string) => {
@@ -1174,6 +1868,118 @@ function FlowCanvas() {
     [structDefinitions, addInstance],
   );
 
+  // What the popup's pointer points at when that is not a struct: an int for
+  // int*, a double* for double**, anything but a struct for void**
+  const popupPointee = connectionPopup
+    ? {
+        type: connectionPopup.pointerType,
+        pointerLevel: connectionPopup.pointerLevel - 1,
+      }
+    : undefined;
+  const canCreatePointee =
+    !!popupPointee &&
+    (popupPointee.pointerLevel > 0 ||
+      (popupPointee.type !== "void" &&
+        !structDefinitions.some(
+          (s) =>
+            s.name ===
+            resolveTypeName(
+              popupPointee.type,
+              structDefinitions,
+              typedefDefinitions,
+            ),
+        )));
+
+  // Create a value cell (or an array block of them) where the pointer was
+  // dropped and point the pointer at it
+  const handleCreatePointee = (length?: number) => {
+    if (!connectionPopup || !popupPointee) return;
+
+    const position = connectionPopup.flowPosition
+      ? {
+          x: Math.round(connectionPopup.flowPosition.x / 20) * 20,
+          y: Math.round(connectionPopup.flowPosition.y / 20) * 20,
+        }
+      : { x: 0, y: 0 };
+
+    addValueCell({
+      name: `${popupPointee.type.replace(/\W+/g, "_")}_${valueCells.length + 1}`,
+      type: popupPointee.type,
+      ...(popupPointee.pointerLevel > 0 && {
+        pointerLevel: popupPointee.pointerLevel,
+      }),
+      ...(length !== undefined && { length }),
+      position,
+    });
+
+    const updatedCells = useCanvasStore.getState().valueCells;
+    const newCell = updatedCells[updatedCells.length - 1];
+    if (newCell) {
+      // Check if this pointer already has a connection and remove it
+      const existingConnection = connections.find(
+        (conn) =>
+          conn.sourceInstanceId === connectionPopup.sourceInstanceId &&
+          conn.sourceFieldName === connectionPopup.sourceFieldName,
+      );
+
+      if (existingConnection) {
+        removeConnection(existingConnection.id);
+      }
+
+      addConnection({
+        sourceInstanceId: connectionPopup.sourceInstanceId,
+        sourceFieldName: connectionPopup.sourceFieldName,
+        targetInstanceId: newCell.id,
+      });
+    }
+    setConnectionPopup(null);
+  };
+
+  // Add a value cell from a declaration such as "int count = 3" or
+  // "char name[16] = "hi"" typed into the quick add menu
+  const handleAddValueCell = () => {
+    if (!quickAddMenu) return;
+
+    // int values[N] may use the #defines of earlier code
+    const constants = new Map<string, number>(
+      Object.entries(constantDefinitions),
+    );
+    const errors = validateValueDeclaration(
+      valueDeclaration,
+      structDefinitions,
+      enumDefinitions,
+      typedefDefinitions,
+      constants,
+    );
+    const firstError = errors.find((e) => e.type === "error");
+    const declaration = parseValueDeclaration(
+      valueDeclaration,
+      constants,
+      typedefDefinitions,
+    );
+    if (firstError || !declaration) {
+      showAlert({
+        type: "error",
+        message: firstError?.message ?? "Invalid declaration.",
+        duration: 4000,
+      });
+      return;
+    }
+
+    const warning = errors.find((e) => e.type === "warning");
+    if (warning) {
+      showAlert({ type: "warning", message: warning.message, duration: 4000 });
+    }
+
+    const position = {
+      x: Math.round(quickAddMenu.flowX / 20) * 20,
+      y: Math.round(quickAddMenu.flowY / 20) * 20,
+    };
+    addValueCell({ ...declaration, position, ...findPlacementAt(position) });
+    setValueDeclaration("");
+    setQuickAddMenu(null);
+  };
+
   return (
     <div ref={reactFlowWrapper} className="w-screen h-screen bg-gray-50">
       <AlertContainer />
@@ -1213,11 +2019,12 @@ function FlowCanvas() {
             setEditingStructName(undefined);
             setShowEditor(true);
           }}
+          onShowLayout={setLayoutStructName}
         />
       </div>
 
       <ReactFlow
-        nodes={nodes}
+        nodes={[...regionNodes, ...nodes]}
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
@@ -1262,12 +2069,36 @@ function FlowCanvas() {
         />
       </ReactFlow>
 
+      {/* Leak summary - only once there are roots to reach the heap from */}
+      {hasRoots && (
+        <div
+          className="fixed top-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 px-3 py-1.5 border-2 border-black rounded-base shadow-shadow text-sm font-heading"
+          style={{
+            backgroundColor:
+              leakReport.leakedIds.size > 0 ? UI_COLORS.red : UI_COLORS.green,
+          }}
+          title="Heap blocks that no global or live local can reach"
+        >
+          {leakReport.leakedIds.size > 0 ? (
+            <>
+              <AlertTriangle size={14} strokeWidth={2.5} />
+              {leakReport.leakedIds.size} block
+              {leakReport.leakedIds.size === 1 ? "" : "s"} leaked ·{" "}
+              {leakReport.leakedBytes} B
+            </>
+          ) : (
+            "No leaks"
+          )}
+        </div>
+      )}
+
       {/* Hamburger Menu - Top Right */}
       <div className="fixed top-4 right-4 z-10">
         <HamburgerMenu
           onOpenSettings={() => setShowSettings(true)}
           onSaveWorkspace={handleSaveWorkspace}
           onLoadWorkspace={handleLoadWorkspace}
+          onImportHeader={() => setShowHeaderImport(true)}
           onOpenTemplates={() => setShowTemplateManager(true)}
           onExportPNG={handleExportPNG}
           onExportSVG={handleExportSVG}
@@ -1290,6 +2121,10 @@ function FlowCanvas() {
         }}
         onFitView={() => fitView({ padding: 0.3, duration: 300, maxZoom: 0.9 })}
         onAutoLayout={handleCleanupLayout}
+        isConsoleOpen={showConsole}
+        onToggleConsole={() => setShowConsole(!showConsole)}
+        isStepperOpen={showStepper}
+        onToggleStepper={() => setShowStepper(!showStepper)}
         onClearWorkspace={() => {
           showAlert({
             type: "confirm",
@@ -1333,6 +2168,34 @@ function FlowCanvas() {
         />
       )}
 
+      {showHeaderImport && (
+        <HeaderImport onClose={() => setShowHeaderImport(false)} />
+      )}
+
+      {layoutStructName && (
+        <MemoryLayoutPanel
+          structName={layoutStructName}
+          onClose={() => setLayoutStructName(undefined)}
+        />
+      )}
+
+      {/* C Console */}
+      {showConsole && (
+        <ConsolePanel
+          getPosition={getConsolePosition}
+          onClose={() => setShowConsole(false)}
+        />
+      )}
+
+      {/* Function stepper */}
+      {showStepper && (
+        <StepperPanel
+          getPosition={getConsolePosition}
+          getFramePosition={getFramePosition}
+          onClose={() => setShowStepper(false)}
+        />
+      )}
+
       {/* Template Manager */}
       {showTemplateManager && (
         <TemplateManager
@@ -1359,7 +2222,8 @@ function FlowCanvas() {
             }}
           >
             <div className="text-sm font-mono font-bold text-black px-2 py-1 border-b-2 border-black mb-2">
-              {connectionPopup.pointerType}*
+              {connectionPopup.pointerType}
+              {"*".repeat(connectionPopup.pointerLevel)}
             </div>
 
             {/* Search input */}
@@ -1479,11 +2343,41 @@ function FlowCanvas() {
                       }
                       setConnectionPopup(null);
                     }, 50);
+                  } else if (canCreatePointee) {
+                    handleCreatePointee();
                   }
                 }
               }}
             />
 
+            {/* Pointers to primitives point at a new value cell or array block */}
+            {canCreatePointee && popupPointee && (
+              <div className="space-y-1 mb-2">
+                {[
+                  undefined,
+                  popupPointee.type === "char" &&
+                  popupPointee.pointerLevel === 0
+                    ? 16
+                    : 4,
+                ].map((length) => (
+                  <button
+                    key={length ?? "value"}
+                    onClick={() => handleCreatePointee(length)}
+                    className="w-full text-left px-3 py-2 text-sm font-mono font-bold hover:bg-[#90CAF9] rounded-none transition flex items-center gap-2 border-2 border-black"
+                    style={{ backgroundColor: UI_COLORS.yellow }}
+                  >
+                    <Plus size={16} strokeWidth={2.5} className="text-black" />
+                    <span className="text-black">
+                      {formatValueCellType({ ...popupPointee, length })}
+                    </span>
+                    <span className="ml-auto text-[10px] font-heading">
+                      {length === undefined ? "VALUE" : "ARRAY"}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+
             <div className="space-y-1 max-h-[300px] overflow-y-auto">
               {structDefinitions
                 .slice() // Create a copy to avoid mutating original
@@ -1627,38 +2521,40 @@ function FlowCanvas() {
                 })}
 
               {/* Show message if no compatible structs found */}
-              {structDefinitions.filter((struct) => {
-                const resolvedPointerType = resolveTypeName(
-                  connectionPopup.pointerType,
-                  structDefinitions,
-                );
-                const resolvedStructName = resolveTypeName(
-                  struct.name,
-                  structDefinitions,
-                );
-                const isCompatible =
-                  connectionPopup.pointerType === "void" ||
-                  resolvedPointerType === resolvedStructName ||
-                  struct.name === connectionPopup.pointerType ||
-                  struct.typedef === connectionPopup.pointerType;
-                return isCompatible;
-              }).length === 0 && (
-                <div className="px-3 py-4 text-center text-sm font-base text-gray-600 border-2 border-dashed border-gray-300 rounded-base mx-2">
-                  <p className="font-heading mb-1">
-                    No compatible struct found
-                  </p>
-                  <p className="text-xs">
-                    Pointer type:{" "}
-                    <span className="font-mono font-bold">
-                      {connectionPopup.pointerType}*
-                    </span>
-                  </p>
-                  <p className="text-xs mt-2 opacity-70">
-                    Define struct "{connectionPopup.pointerType}" first to
-                    create instances
-                  </p>
-                </div>
-              )}
+              {!canCreatePointee &&
+                structDefinitions.filter((struct) => {
+                  const resolvedPointerType = resolveTypeName(
+                    connectionPopup.pointerType,
+                    structDefinitions,
+                  );
+                  const resolvedStructName = resolveTypeName(
+                    struct.name,
+                    structDefinitions,
+                  );
+                  const isCompatible =
+                    connectionPopup.pointerType === "void" ||
+                    resolvedPointerType === resolvedStructName ||
+                    struct.name === connectionPopup.pointerType ||
+                    struct.typedef === connectionPopup.pointerType;
+                  return isCompatible;
+                }).length === 0 && (
+                  <div className="px-3 py-4 text-center text-sm font-base text-gray-600 border-2 border-dashed border-gray-300 rounded-base mx-2">
+                    <p className="font-heading mb-1">
+                      No compatible struct found
+                    </p>
+                    <p className="text-xs">
+                      Pointer type:{" "}
+                      <span className="font-mono font-bold">
+                        {connectionPopup.pointerType}
+                        {"*".repeat(connectionPopup.pointerLevel)}
+                      </span>
+                    </p>
+                    <p className="text-xs mt-2 opacity-70">
+                      Define struct "{connectionPopup.pointerType}" first to
+                      create instances
+                    </p>
+                  </div>
+                )}
 
               {/* Option to cancel */}
               <div className="border-t-2 border-black mt-2 pt-2">
@@ -1701,9 +2597,7 @@ function FlowCanvas() {
                 <button
                   onClick={() => {
                     if (contextMenu.nodeId) {
-                      const node = instances.find(
-                        (i) => i.id === contextMenu.nodeId,
-                      );
+                      const node = contextNode;
                       if (node) {
                         const { nodeIds, hasCircular } = calculatePointerPath(
                           contextMenu.nodeId,
@@ -1716,6 +2610,22 @@ function FlowCanvas() {
                             duration: 3000,
                           });
                         }
+                        const danglingError = describeDanglingPointers(nodeIds);
+                        if (danglingError) {
+                          showAlert({
+                            type: "error",
+                            message: danglingError,
+                            duration: 5000,
+                          });
+                        }
+                        const wildWarning = describeWildPointers(nodeIds);
+                        if (wildWarning) {
+                          showAlert({
+                            type: "warning",
+                            message: wildWarning,
+                            duration: 5000,
+                          });
+                        }
                       }
                     }
                     setContextMenu(null);
@@ -1724,51 +2634,131 @@ function FlowCanvas() {
                 >
                   Highlight Path
                 </button>
-                <button
-                  onClick={() => {
-                    setCopiedNodes([contextMenu.nodeId!]);
-                    setContextMenu(null);
-                    showAlert({
-                      type: "success",
-                      message: "Node copied",
-                      duration: 2000,
-                    });
-                  }}
-                  className="w-full text-left px-4 py-3 text-sm font-heading border-b-2 border-black hover:bg-main hover:text-white transition-colors"
-                >
-                  Copy Node
-                </button>
-                <button
-                  onClick={() => {
-                    const instance = instances.find(
-                      (i) => i.id === contextMenu.nodeId,
-                    );
-                    if (instance) {
-                      const struct = structDefinitions.find(
-                        (s) => s.name === instance.structName,
-                      );
-                      if (struct) {
-                        // Create duplicate at offset position
-                        addInstance(
-                          struct,
-                          {
-                            x: instance.position.x + 50,
-                            y: instance.position.y + 50,
-                          },
-                          undefined,
-                        );
+                {!contextCell && (
+                  <>
+                    <button
+                      onClick={() => {
+                        setCopiedNodes([contextMenu.nodeId!]);
+                        setContextMenu(null);
                         showAlert({
                           type: "success",
-                          message: "Node duplicated",
+                          message: "Node copied",
                           duration: 2000,
                         });
-                      }
-                    }
+                      }}
+                      className="w-full text-left px-4 py-3 text-sm font-heading border-b-2 border-black hover:bg-main hover:text-white transition-colors"
+                    >
+                      Copy Node
+                    </button>
+                    <button
+                      onClick={() => {
+                        const instance = instances.find(
+                          (i) => i.id === contextMenu.nodeId,
+                        );
+                        if (instance) {
+                          const struct = structDefinitions.find(
+                            (s) => s.name === instance.structName,
+                          );
+                          if (struct) {
+                            // Create duplicate at offset position
+                            addInstance(
+                              struct,
+                              {
+                                x: instance.position.x + 50,
+                                y: instance.position.y + 50,
+                              },
+                              undefined,
+                            );
+                            showAlert({
+                              type: "success",
+                              message: "Node duplicated",
+                              duration: 2000,
+                            });
+                          }
+                        }
+                        setContextMenu(null);
+                      }}
+                      className="w-full text-left px-4 py-3 text-sm font-heading border-b-2 border-black hover:bg-main hover:text-white transition-colors"
+                    >
+                      Duplicate Node
+                    </button>
+                  </>
+                )}
+                {/* Storage: malloc'ed, a global, or a local of an active call */}
+                {(
+                  [
+                    { label: "Move to Heap", storage: "heap" },
+                    { label: "Make Global", storage: "static" },
+                    ...activeFrames.map((frame) => ({
+                      label: `Local in ${frame.functionName}()`,
+                      storage: "stack",
+                      frameId: frame.id,
+                    })),
+                  ] as (Placement & { label: string })[]
+                ).map((option) => {
+                  const isCurrent =
+                    !!contextNode &&
+                    getStorageClass(contextNode) === option.storage &&
+                    contextNode.frameId === option.frameId;
+                  return (
+                    <button
+                      key={option.label}
+                      onClick={() => {
+                        setStorage(
+                          [contextMenu.nodeId!],
+                          option.storage!,
+                          option.frameId,
+                        );
+                        setContextMenu(null);
+                      }}
+                      className="w-full text-left px-4 py-3 text-sm font-heading border-b-2 border-black hover:bg-main hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-white disabled:hover:text-black"
+                      disabled={isCurrent}
+                    >
+                      {option.label}
+                    </button>
+                  );
+                })}
+                <button
+                  onClick={() => {
+                    const node = contextNode;
                     setContextMenu(null);
+                    if (!node) return;
+                    const name =
+                      "structName" in node ? node.instanceName : node.name;
+
+                    const freeError = getFreeError(node);
+                    if (freeError === "double-free") {
+                      showAlert({
+                        type: "error",
+                        message: `Double free: '${name}' was already freed.`,
+                        duration: 5000,
+                      });
+                    } else if (freeError === "invalid-free") {
+                      showAlert({
+                        type: "error",
+                        message: `Invalid free: '${name}' was not allocated with malloc().`,
+                        duration: 5000,
+                      });
+                    } else {
+                      const danglingCount = connections.filter(
+                        (conn) =>
+                          conn.targetInstanceId === node.id &&
+                          conn.sourceInstanceId !== node.id,
+                      ).length;
+                      freeNode(node.id);
+                      showAlert({
+                        type: danglingCount > 0 ? "warning" : "success",
+                        message:
+                          danglingCount > 0
+                            ? `'${name}' freed: ${danglingCount} pointer${danglingCount === 1 ? " still points" : "s still point"} to it.`
+                            : `'${name}' freed`,
+                        duration: 3000,
+                      });
+                    }
                   }}
                   className="w-full text-left px-4 py-3 text-sm font-heading border-b-2 border-black hover:bg-main hover:text-white transition-colors"
                 >
-                  Duplicate Node
+                  free()
                 </button>
                 <button
                   onClick={() => {
@@ -1779,7 +2769,8 @@ function FlowCanvas() {
                       type: "confirm",
                       message: "Delete this node and all its connections?",
                       onConfirm: () => {
-                        removeInstance(nodeId);
+                        if (contextCell) removeValueCell(nodeId);
+                        else removeInstance(nodeId);
                         showAlert({
                           type: "success",
                           message: "Node deleted",
@@ -1834,6 +2825,59 @@ function FlowCanvas() {
                 >
                   Clear Highlights
                 </button>
+                {/* Call stack: a call pushes a frame, a return pops it */}
+                <form
+                  className="flex gap-2 p-2 border-b-2 border-black"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    const functionName = frameFunctionName.trim();
+                    if (!/^[A-Za-z_]\w*$/.test(functionName)) {
+                      showAlert({
+                        type: "error",
+                        message: "Enter the name of the function being called.",
+                        duration: 3000,
+                      });
+                      return;
+                    }
+                    pushStackFrame(
+                      functionName,
+                      screenToFlowPosition({
+                        x: contextMenu.x,
+                        y: contextMenu.y,
+                      }),
+                    );
+                    setFrameFunctionName("");
+                    setContextMenu(null);
+                  }}
+                >
+                  <Input
+                    type="text"
+                    value={frameFunctionName}
+                    onChange={(e) => setFrameFunctionName(e.target.value)}
+                    className="flex-1 h-9 font-mono text-sm"
+                    placeholder="Call function..."
+                  />
+                  <Button
+                    type="submit"
+                    size="icon"
+                    className="size-9"
+                    style={{ backgroundColor: UI_COLORS.cyan }}
+                    title="Push a stack frame"
+                    disabled={!frameFunctionName.trim()}
+                  >
+                    <Plus size={16} strokeWidth={2.5} />
+                  </Button>
+                </form>
+                <button
+                  onClick={() => {
+                    popStackFrame();
+                    setContextMenu(null);
+                  }}
+                  className="w-full text-left px-4 py-3 text-sm font-heading border-b-2 border-black hover:bg-main hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-white disabled:hover:text-black"
+                  disabled={!topFrame}
+                >
+                  Return from {topFrame ? `${topFrame.functionName}()` : "Call"}
+                </button>
                 <button
                   onClick={() => {
                     handleCleanupLayout();
@@ -1878,7 +2922,12 @@ function FlowCanvas() {
                       x: Math.round(quickAddMenu.flowX / 20) * 20,
                       y: Math.round(quickAddMenu.flowY / 20) * 20,
                     };
-                    addInstance(struct, position, undefined);
+                    addInstance(
+                      struct,
+                      position,
+                      undefined,
+                      findPlacementAt(position),
+                    );
                     setQuickAddMenu(null);
                   }}
                   className="w-full text-left px-4 py-3 text-sm font-mono border-b-2 border-black hover:bg-main hover:text-white transition-colors"
@@ -1894,6 +2943,33 @@ function FlowCanvas() {
               )}
             </div>
 
+            {/* Standalone value: "int count = 3", "char name[16] = "hi"" */}
+            <form
+              className="flex gap-2 p-2 border-t-2 border-black"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleAddValueCell();
+              }}
+            >
+              <Input
+                type="text"
+                value={valueDeclaration}
+                onChange={(e) => setValueDeclaration(e.target.value)}
+                className="flex-1 h-9 font-mono text-sm"
+                placeholder="int count = 3"
+              />
+              <Button
+                type="submit"
+                size="icon"
+                className="size-9"
+                style={{ backgroundColor: UI_COLORS.yellow }}
+                title="Add value"
+                disabled={!valueDeclaration.trim()}
+              >
+                <Plus size={16} strokeWidth={2.5} />
+              </Button>
+            </form>
+
             <div className="p-2 border-t-2 border-black bg-gray-50">
               <Button
                 onClick={() => {
@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from "react";
+import { Play, SquareTerminal, X } from "lucide-react";
+import { useCanvasStore } from "../store/canvasStore";
+import type { InterpreterOptions } from "../utils/interpreter";
+import { runStatements } from "../utils/stepper";
+import { UI_COLORS } from "../utils/colors";
+
+interface Props {
+  getPosition: InterpreterOptions["getPosition"];
+  onClose: () => void;
+}
+
+interface LogEntry {
+  kind: "input" | "output" | "error";
+  text: string;
+}
+
+const EXAMPLE = "Node* n = malloc(sizeof(Node)); n->data = 5; head->next = n;";
+
+// Docked console: C statements typed here are applied to the canvas
+export default function ConsolePanel({ getPosition, onClose }: Props) {
+  const [code, setCode] = useState("");
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [history, setHistory] = useState<string[]>([]);
+  const [historyIndex, setHistoryIndex] = useState(-1);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [log]);
+
+  const handleRun = () => {
+    if (!code.trim()) return;
+    const result = runStatements(code, {
+      getState: useCanvasStore.getState,
+      getPosition,
+    });
+    setLog((entries) => [
+      ...entries,
+      { kind: "input", text: code },
+      ...result.output.map((text) => ({ kind: "output" as const, text })),
+      ...(result.error ? [{ kind: "error" as const, text: result.error }] : []),
+    ]);
+    setHistory((commands) => [...commands, code]);
+    setHistoryIndex(-1);
+    setCode("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter runs, Shift+Enter starts a new line
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleRun();
+      return;
+    }
+    // Up/Down walk through earlier commands while the input is one line
+    if (
+      (e.key === "ArrowUp" || e.key === "ArrowDown") &&
+      !code.includes("\n")
+    ) {
+      if (history.length === 0) return;
+      e.preventDefault();
+      const index =
+        e.key === "ArrowUp"
+          ? historyIndex === -1
+            ? history.length - 1
+            : Math.max(0, historyIndex - 1)
+          : historyIndex === -1 || historyIndex === history.length - 1
+            ? -1
+            : historyIndex + 1;
+      setHistoryIndex(index);
+      setCode(index === -1 ? "" : history[index]);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-24 right-4 z-20 w-[440px] bg-white rounded-base border-2 border-black shadow-shadow overflow-hidden">
+      {/* Header */}
+      <div
+        className="px-3 py-2 border-b-2 border-black flex items-center justify-between"
+        style={{ backgroundColor: UI_COLORS.lime }}
+      >
+        <div className="flex items-center gap-2">
+          <SquareTerminal size={16} strokeWidth={2.5} />
+          <h2 className="text-sm font-mono font-heading tracking-tight">
+            CONSOLE
+          </h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="border-2 border-black p-1 rounded-base transition"
+          style={{ backgroundColor: UI_COLORS.redDelete }}
+          title="Close console"
+        >
+          <X size={14} strokeWidth={2.5} />
+        </button>
+      </div>
+
+      {/* Log */}
+      <div
+        ref={logRef}
+        className="max-h-64 overflow-y-auto px-3 py-2 space-y-1 font-mono text-xs border-b-2 border-black"
+      >
+        {log.length === 0 ? (
+          <div className="text-gray-500 font-base">
+            Type C statements to run them on the canvas, e.g.
+            <div className="mt-1 text-black">{EXAMPLE}</div>
+          </div>
+        ) : (
+          log.map((entry, index) => (
+            <div
+              key={index}
+              className={`whitespace-pre-wrap break-words ${
+                entry.kind === "error"
+                  ? "text-red-600 font-heading"
+                  : entry.kind === "output"
+                    ? "text-gray-600 pl-3"
+                    : ""
+              }`}
+            >
+              {entry.kind === "input" ? `> ${entry.text}` : entry.text}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Input */}
+      <div className="flex items-stretch gap-2 p-2">
+        <textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={Math.min(6, code.split("\n").length)}
+          placeholder="head->next = n;"
+          spellCheck={false}
+          autoFocus
+          className="flex-1 resize-none font-mono text-sm border-2 border-black rounded-base px-2 py-1.5 focus:outline-none"
+        />
+        <button
+          onClick={handleRun}
+          disabled={!code.trim()}
+          className="px-3 border-2 border-black rounded-base inline-flex items-center gap-1 text-sm font-heading disabled:opacity-40 disabled:cursor-not-allowed"
+          style={{ backgroundColor: UI_COLORS.green }}
+          title="Run (Enter)"
+        >
+          <Play size={14} strokeWidth={2.5} />
+          Run
+        </button>
+      </div>
+    </div>
+  );
+}
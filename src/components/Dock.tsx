@@ -6,6 +6,8 @@ import {
   Maximize2,
   Wand2,
   Trash2,
+  SquareTerminal,
+  Footprints,
 } from "lucide-react";
 import { UI_COLORS } from "../utils/colors";
 
@@ -17,6 +19,10 @@ interface DockProps {
   onFitView: () => void;
   onAutoLayout: () => void;
   onClearWorkspace: () => void;
+  isConsoleOpen: boolean;
+  onToggleConsole: () => void;
+  isStepperOpen: boolean;
+  onToggleStepper: () => void;
   undoDisabled: boolean;
   redoDisabled: boolean;
 }
@@ -29,6 +35,10 @@ const Dock = ({
   onFitView,
   onAutoLayout,
   onClearWorkspace,
+  isConsoleOpen,
+  onToggleConsole,
+  isStepperOpen,
+  onToggleStepper,
   undoDisabled,
   redoDisabled,
 }: DockProps) => {
@@ -97,6 +107,32 @@ const Dock = ({
           <Wand2 size={18} strokeWidth={2.5} />
         </button>
 
+        {/* C Console */}
+        <button
+          onClick={onToggleConsole}
+          className="p-2 border-2 border-black rounded-base hover:translate-x-1 hover:translate-y-1 transition-transform shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:shadow-none"
+          style={{
+            backgroundColor: isConsoleOpen ? UI_COLORS.lime : UI_COLORS.teal,
+          }}
+          title={isConsoleOpen ? "Close C console" : "Open C console"}
+        >
+          <SquareTerminal size={18} strokeWidth={2.5} />
+        </button>
+
+        {/* Step through a function */}
+        <button
+          onClick={onToggleStepper}
+          className="p-2 border-2 border-black rounded-base hover:translate-x-1 hover:translate-y-1 transition-transform shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:shadow-none"
+          style={{
+            backgroundColor: isStepperOpen ? UI_COLORS.cyan : UI_COLORS.teal,
+          }}
+          title={
+            isStepperOpen ? "Close the code pane" : "Step through a C function"
+          }
+        >
+          <Footprints size={18} strokeWidth={2.5} />
+        </button>
+
         {/* Separator */}
         <div className="w-px h-8 bg-black mx-1" />
 
@@ -0,0 +1,99 @@
+import { memo } from "react";
+import { Handle, Position } from "@xyflow/react";
+import { Edit2 } from "lucide-react";
+import { useCanvasStore } from "../store/canvasStore";
+import { UI_COLORS } from "../utils/colors";
+import { formatAddress } from "../utils/addresses";
+import { Button } from "./ui/button";
+import { splitSignature } from "../parser/structParser";
+import { formatFunctionDeclaration } from "../parser/functionParser";
+import type { CFunction } from "../types";
+
+interface FunctionNodeData {
+  nodeId: string;
+  fn: CFunction;
+  onEdit?: (functionName: string) => void;
+}
+
+// A function in the workspace: the target of function pointer members
+function FunctionNode({
+  data,
+  selected,
+}: {
+  data: FunctionNodeData;
+  selected?: boolean;
+}) {
+  const { connections, showAddresses, dataModel } = useCanvasStore();
+  const { returnType, params } = splitSignature(data.fn.signature);
+  const pointerCount = connections.filter(
+    (conn) => conn.targetInstanceId === data.nodeId,
+  ).length;
+
+  return (
+    <div
+      className={`group/card bg-white rounded-base shadow-shadow border-2 min-w-[220px] ${
+        selected
+          ? 'border-blue-600 ring-4 ring-blue-400 ring-opacity-50'
+          : 'border-black'
+      }`}
+    >
+      {/* Target handle - function pointers connect here */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id={`target-left-${data.nodeId}`}
+        className="!bg-black !w-6 !h-6 !border-4 !border-white !rounded-full"
+        style={{ top: "28px" }}
+        isConnectable={true}
+      />
+
+      {/* Header */}
+      <div
+        className="px-3 py-2 border-b-2 border-black flex justify-between items-center"
+        style={{ backgroundColor: UI_COLORS.blue }}
+      >
+        <div className="flex-1">
+          <div className="text-xs font-heading font-mono flex items-center gap-2">
+            {returnType}
+            <span
+              className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading bg-white"
+            >
+              FUNCTION
+            </span>
+            {showAddresses && data.fn.address !== undefined && (
+              <span className="text-[10px] font-mono font-heading">
+                @ {formatAddress(data.fn.address, dataModel)}
+              </span>
+            )}
+          </div>
+          <div className="font-mono text-sm font-heading">{data.fn.name}</div>
+        </div>
+        <Button
+          size="icon"
+          variant="noShadow"
+          onClick={() => data.onEdit?.(data.fn.name)}
+          className="size-7 opacity-0 group-hover/card:opacity-100"
+          title="Edit"
+        >
+          <Edit2 size={12} strokeWidth={2.5} />
+        </Button>
+      </div>
+
+      {/* Signature */}
+      <div className="p-2 space-y-1">
+        <div className="text-xs font-mono font-base text-gray-600 break-all">
+          {formatFunctionDeclaration(data.fn)}
+        </div>
+        <div className="text-[10px] font-heading">
+          {params.length === 1 && params[0] === "void"
+            ? "NO PARAMETERS"
+            : `${params.length} PARAMETER${params.length === 1 ? "" : "S"}`}
+          {pointerCount > 0 &&
+            ` · ${pointerCount} POINTER${pointerCount === 1 ? "" : "S"}`}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default memo(FunctionNode);
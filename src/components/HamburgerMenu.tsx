@@ -9,6 +9,7 @@ import {
   Copy,
   X,
   Layers,
+  FileUp,
 } from "lucide-react";
 import { useState } from "react";
 import { UI_COLORS } from "../utils/colors";
@@ -17,6 +18,7 @@ interface HamburgerMenuProps {
   onOpenSettings: () => void;
   onSaveWorkspace: () => void;
   onLoadWorkspace: () => void;
+  onImportHeader: () => void;
   onOpenTemplates: () => void;
   onExportPNG: () => void;
   onExportSVG: () => void;
@@ -28,6 +30,7 @@ const HamburgerMenu = ({
   onOpenSettings,
   onSaveWorkspace,
   onLoadWorkspace,
+  onImportHeader,
   onOpenTemplates,
   onExportPNG,
   onExportSVG,
@@ -96,6 +99,13 @@ const HamburgerMenu = ({
                 <Upload size={18} strokeWidth={2.5} />
                 <span>Load Workspace</span>
               </button>
+              <button
+                onClick={() => handleItemClick(onImportHeader)}
+                className="w-full text-left px-4 py-2.5 font-heading text-sm hover:bg-gray-100 transition-colors flex items-center gap-3"
+              >
+                <FileUp size={18} strokeWidth={2.5} />
+                <span>Import C Header</span>
+              </button>
             </div>
 
             {/* Divider */}
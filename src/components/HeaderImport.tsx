@@ -0,0 +1,264 @@
+import { useState, useMemo } from "react";
+import {
+  FileUp,
+  X,
+  CheckCircle,
+  AlertCircle,
+  AlertTriangle,
+  FolderOpen,
+} from "lucide-react";
+import CodeMirror from "@uiw/react-codemirror";
+import { cpp } from "@codemirror/lang-cpp";
+import { useCanvasStore } from "../store/canvasStore";
+import { parseHeader } from "../parser/headerParser";
+import { parseDefines } from "../parser/constantExpression";
+import type { CEnum, CFunction, CStruct, CTypedef } from "../types";
+import { Button } from "./ui/button";
+import { UI_COLORS } from "../utils/colors";
+import { showAlert } from "./AlertContainer";
+
+interface Props {
+  onClose: () => void;
+}
+
+export default function HeaderImport({ onClose }: Props) {
+  const {
+    structDefinitions,
+    enumDefinitions,
+    typedefDefinitions,
+    functionDefinitions,
+    importDefinitions,
+    dataModel,
+    constantDefinitions,
+    addConstantDefinitions,
+  } = useCanvasStore();
+
+  const [code, setCode] = useState(`// Paste a C header (.h) here
+typedef struct Node Node_t;
+
+struct List {
+  Node_t* head;
+  int length;
+};
+
+struct Node {
+  int data;
+  struct Node* next;
+};`);
+
+  // #defines of earlier code can be used by the header
+  const knownConstants = useMemo(
+    () => new Map<string, number>(Object.entries(constantDefinitions)),
+    [constantDefinitions],
+  );
+
+  // Re-parse on every edit so the preview always matches the editor
+  const result = useMemo(
+    () =>
+      parseHeader(
+        code,
+        structDefinitions,
+        enumDefinitions,
+        dataModel,
+        typedefDefinitions,
+        functionDefinitions,
+        knownConstants,
+      ),
+    [
+      code,
+      structDefinitions,
+      enumDefinitions,
+      dataModel,
+      typedefDefinitions,
+      functionDefinitions,
+      knownConstants,
+    ],
+  );
+
+  const importable = result.declarations.filter(
+    (d) => !d.errors.some((e) => e.type === "error"),
+  );
+
+  const handleOpenFile = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".h,.c,.txt";
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        const reader = new FileReader();
+        reader.onload = (event) => {
+          setCode(event.target?.result as string);
+        };
+        reader.readAsText(file);
+      }
+    };
+    input.click();
+  };
+
+  const handleImport = () => {
+    const structs = importable
+      .map((d) => d.struct)
+      .filter((s): s is CStruct => !!s);
+    const enums = importable
+      .map((d) => d.enumDef)
+      .filter((e): e is CEnum => !!e);
+    const typedefs = importable
+      .map((d) => d.typedefDef)
+      .filter((t): t is CTypedef => !!t);
+    const functions = importable
+      .map((d) => d.functionDef)
+      .filter((f): f is CFunction => !!f);
+
+    importDefinitions(structs, enums, typedefs, functions);
+    addConstantDefinitions(parseDefines(code, knownConstants));
+
+    const failedCount = result.declarations.length - importable.length;
+    showAlert({
+      type: failedCount > 0 ? "warning" : "success",
+      message:
+        failedCount > 0
+          ? `Imported ${importable.length} declaration${importable.length === 1 ? "" : "s"}, skipped ${failedCount} with errors`
+          : `Imported ${importable.length} declaration${importable.length === 1 ? "" : "s"}`,
+      duration: 3000,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 modal-backdrop">
+      <div className="bg-white rounded-base shadow-shadow w-full max-w-3xl mx-4 border-2 border-black animate-scaleIn">
+        {/* Header */}
+        <div
+          className="px-6 py-3 border-b-2 border-black flex items-center justify-between"
+          style={{ backgroundColor: UI_COLORS.cyan }}
+        >
+          <div className="flex items-center gap-3">
+            <FileUp size={20} strokeWidth={2.5} />
+            <h2 className="text-sm font-mono font-heading tracking-tight">
+              IMPORT HEADER
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="border-2 border-black p-1.5 rounded-base transition"
+            style={{ backgroundColor: UI_COLORS.redDelete }}
+          >
+            <X size={16} strokeWidth={2.5} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {/* Editor */}
+          <div className="border-2 border-black rounded-base overflow-hidden">
+            <CodeMirror
+              value={code}
+              height="260px"
+              extensions={[cpp()]}
+              onChange={(value) => setCode(value)}
+              theme="light"
+              basicSetup={{
+                lineNumbers: true,
+                foldGutter: true,
+                bracketMatching: true,
+                closeBrackets: true,
+                highlightActiveLine: true,
+              }}
+              className="font-mono text-sm"
+            />
+          </div>
+
+          {/* Declarations in the order they will be added */}
+          <div className="mt-3 space-y-2 max-h-48 overflow-y-auto">
+            {result.declarations.map((decl, idx) => {
+              const declErrors = decl.errors.filter((e) => e.type === "error");
+              return (
+                <div
+                  key={`${decl.name}-${decl.line}`}
+                  className={`p-2 border-2 border-black rounded-base text-xs ${
+                    declErrors.length > 0 ? "bg-red-100" : "bg-green-50"
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    {declErrors.length > 0 ? (
+                      <AlertCircle
+                        size={14}
+                        strokeWidth={2.5}
+                        className="flex-shrink-0"
+                      />
+                    ) : (
+                      <CheckCircle
+                        size={14}
+                        strokeWidth={2.5}
+                        className="flex-shrink-0"
+                      />
+                    )}
+                    <span className="font-heading w-5 text-right">
+                      {idx + 1}.
+                    </span>
+                    <span className="font-mono font-heading">
+                      {decl.kind} {decl.name}
+                    </span>
+                    <span className="font-base text-gray-600 ml-auto">
+                      Line {decl.line}
+                    </span>
+                  </div>
+                  {decl.errors.map((err, errIdx) => (
+                    <div key={errIdx} className="ml-11 mt-1 font-base">
+                      <span className="font-heading">Line {err.line}:</span>{" "}
+                      {err.message}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+
+            {result.skipped.map((warning, idx) => (
+              <div
+                key={`skipped-${idx}`}
+                className="p-2 border-2 border-black rounded-base flex items-start gap-2 text-xs bg-yellow-100"
+              >
+                <AlertTriangle
+                  size={14}
+                  strokeWidth={2.5}
+                  className="flex-shrink-0 mt-0.5"
+                />
+                <div className="flex-1">
+                  <span className="font-heading">Line {warning.line}:</span>{" "}
+                  <span className="font-base">{warning.message}</span>
+                </div>
+              </div>
+            ))}
+
+            {result.declarations.length === 0 && (
+              <div className="text-center text-gray-500 text-xs font-heading py-4">
+                No struct, union, enum, typedef or function declarations found
+              </div>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="mt-6 flex gap-2 justify-between">
+            <Button onClick={handleOpenFile} variant="neutral">
+              <FolderOpen size={16} strokeWidth={2.5} />
+              <span>Open .h</span>
+            </Button>
+
+            <div className="flex gap-2 ml-auto">
+              <Button onClick={onClose} variant="neutral">
+                esc
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={importable.length === 0}
+                style={{ backgroundColor: UI_COLORS.green }}
+              >
+                Import {importable.length}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
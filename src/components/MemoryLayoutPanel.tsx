@@ -0,0 +1,388 @@
+import { useMemo } from "react";
+import { ArrowDownUp, Ruler, X } from "lucide-react";
+import { useCanvasStore } from "../store/canvasStore";
+import {
+  computeStructLayout,
+  findPaddingHoles,
+  formatFieldType,
+  getFieldByteSpan,
+  type FieldLayout,
+  type PaddingHole,
+} from "../parser/structParser";
+import { getDataModel } from "../parser/dataModels";
+import {
+  countPaddingBytes,
+  suggestFieldOrder,
+} from "../parser/layoutOptimizer";
+import { Button } from "./ui/button";
+import { UI_COLORS, getFieldColor } from "../utils/colors";
+import { showAlert } from "./AlertContainer";
+
+interface Props {
+  structName: string;
+  onClose: () => void;
+}
+
+// Bytes per row of the ruler
+const BYTES_PER_ROW = 8;
+// Larger structs (big arrays) only show their first bytes in the ruler
+const MAX_RULER_BYTES = 1024;
+
+const PADDING_STYLE = {
+  backgroundImage:
+    "repeating-linear-gradient(45deg, #d1d5db 0 3px, #ffffff 3px 6px)",
+};
+
+type LayoutRow =
+  | { kind: "field"; index: number; fieldLayout: FieldLayout }
+  | { kind: "padding"; hole: PaddingHole };
+
+function memberLabel(fieldLayout: FieldLayout): string {
+  const { field } = fieldLayout;
+  if (field.name) return field.name;
+  if (field.nestedFields) return `(anonymous ${field.nestedKind ?? "struct"})`;
+  return "(unnamed)";
+}
+
+export default function MemoryLayoutPanel({ structName, onClose }: Props) {
+  const {
+    structDefinitions,
+    enumDefinitions,
+    typedefDefinitions,
+    dataModel,
+    updateStructDefinition,
+  } = useCanvasStore();
+  const struct = structDefinitions.find((s) => s.name === structName);
+  const model = getDataModel(dataModel);
+
+  const layout = useMemo(
+    () =>
+      struct
+        ? computeStructLayout(
+            struct,
+            structDefinitions,
+            enumDefinitions,
+            dataModel,
+            typedefDefinitions,
+          )
+        : null,
+    [struct, structDefinitions, enumDefinitions, dataModel, typedefDefinitions],
+  );
+
+  const holes = useMemo(
+    () => (layout ? findPaddingHoles(layout) : []),
+    [layout],
+  );
+
+  // Owner of every byte: index of the first member that uses it, or -1
+  const byteOwners = useMemo(() => {
+    if (!layout) return [];
+    const owners = new Array<number>(layout.size).fill(-1);
+    layout.fields.forEach((fieldLayout, index) => {
+      if (fieldLayout.field.bitWidth !== undefined && !fieldLayout.field.name) {
+        return;
+      }
+      const { start, end } = getFieldByteSpan(fieldLayout);
+      for (let byte = start; byte < end && byte < layout.size; byte++) {
+        if (owners[byte] === -1) owners[byte] = index;
+      }
+    });
+    return owners;
+  }, [layout]);
+
+  const suggestion = useMemo(
+    () =>
+      struct
+        ? suggestFieldOrder(
+            struct,
+            structDefinitions,
+            enumDefinitions,
+            dataModel,
+            typedefDefinitions,
+          )
+        : null,
+    [struct, structDefinitions, enumDefinitions, dataModel, typedefDefinitions],
+  );
+
+  // Members in declaration order with the padding holes slotted in
+  const rows = useMemo(() => {
+    if (!layout) return [];
+    const result: LayoutRow[] = [];
+    const pending = [...holes];
+    layout.fields.forEach((fieldLayout, index) => {
+      const { start } = getFieldByteSpan(fieldLayout);
+      while (pending.length > 0 && pending[0].offset < start) {
+        result.push({ kind: "padding", hole: pending.shift()! });
+      }
+      result.push({ kind: "field", index, fieldLayout });
+    });
+    pending.forEach((hole) => result.push({ kind: "padding", hole }));
+    return result;
+  }, [layout, holes]);
+
+  if (!struct || !layout) return null;
+
+  // Field names do not change, so instances and connections stay valid
+  const handleApplyReorder = () => {
+    if (!suggestion) return;
+    updateStructDefinition(struct.name, {
+      ...struct,
+      fields: suggestion.fields,
+    });
+    showAlert({
+      type: "success",
+      message: `Reordered ${struct.name}: ${suggestion.before.size} → ${suggestion.after.size} bytes`,
+      duration: 2000,
+    });
+  };
+
+  const isUnion = struct.kind === "union";
+  const wastedBytes = holes.reduce((sum, hole) => sum + hole.size, 0);
+  const wastedPercent =
+    layout.size > 0 ? Math.round((wastedBytes / layout.size) * 100) : 0;
+  const rulerBytes = Math.min(layout.size, MAX_RULER_BYTES);
+  const rulerRows = Math.ceil(rulerBytes / BYTES_PER_ROW);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 modal-backdrop">
+      <div className="bg-white rounded-base shadow-shadow w-full max-w-3xl mx-4 border-2 border-black animate-scaleIn">
+        {/* Header */}
+        <div
+          className="px-6 py-3 border-b-2 border-black flex items-center justify-between"
+          style={{ backgroundColor: UI_COLORS.teal }}
+        >
+          <div className="flex items-center gap-3">
+            <Ruler size={20} strokeWidth={2.5} />
+            <h2 className="text-sm font-mono font-heading tracking-tight">
+              MEMORY LAYOUT · {struct.kind ?? "struct"} {struct.name}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="border-2 border-black p-1.5 rounded-base transition"
+            style={{ backgroundColor: UI_COLORS.redDelete }}
+          >
+            <X size={16} strokeWidth={2.5} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* Summary */}
+          <div className="flex flex-wrap gap-2 text-xs font-mono">
+            <span className="border-2 border-black px-2 py-1 rounded-base font-heading bg-white">
+              sizeof = {layout.size} B
+            </span>
+            <span className="border-2 border-black px-2 py-1 rounded-base font-heading bg-white">
+              alignof = {layout.alignment}
+            </span>
+            {struct.pack && (
+              <span
+                className="border-2 border-black px-2 py-1 rounded-base font-heading"
+                style={{ backgroundColor: UI_COLORS.cyan }}
+              >
+                {struct.pack === 1 ? "packed" : `#pragma pack(${struct.pack})`}
+              </span>
+            )}
+            <span
+              className="border-2 border-black px-2 py-1 rounded-base font-heading"
+              style={{
+                backgroundColor:
+                  wastedBytes > 0 ? UI_COLORS.orange : UI_COLORS.green,
+              }}
+            >
+              padding = {wastedBytes} B ({wastedPercent}%)
+            </span>
+            <span
+              className="border-2 border-black px-2 py-1 rounded-base font-heading ml-auto"
+              style={{ backgroundColor: UI_COLORS.yellow }}
+              title={model.description}
+            >
+              {model.name}
+            </span>
+          </div>
+
+          {/* Byte ruler */}
+          <div className="border-2 border-black rounded-base p-3 max-h-56 overflow-y-auto">
+            {isUnion && (
+              <div className="text-[10px] font-heading mb-2">
+                All members overlap at offset 0; bytes show the first member
+                that uses them.
+              </div>
+            )}
+            {Array.from({ length: rulerRows }, (_, row) => (
+              <div key={row} className="flex items-center gap-1 mb-1">
+                <span className="w-10 text-right text-[10px] font-mono text-gray-600 mr-1">
+                  +{row * BYTES_PER_ROW}
+                </span>
+                {Array.from({ length: BYTES_PER_ROW }, (_, col) => {
+                  const byte = row * BYTES_PER_ROW + col;
+                  if (byte >= rulerBytes) return null;
+                  const owner = byteOwners[byte];
+                  const ownerLayout =
+                    owner >= 0 ? layout.fields[owner] : undefined;
+                  return (
+                    <div
+                      key={col}
+                      className="w-12 h-7 border-2 border-black rounded-sm text-[9px] font-mono flex items-center justify-center truncate px-0.5"
+                      style={
+                        ownerLayout
+                          ? { backgroundColor: getFieldColor(owner) }
+                          : PADDING_STYLE
+                      }
+                      title={
+                        ownerLayout
+                          ? `byte ${byte}: ${memberLabel(ownerLayout)}`
+                          : `byte ${byte}: padding`
+                      }
+                    >
+                      {ownerLayout &&
+                      getFieldByteSpan(ownerLayout).start === byte
+                        ? memberLabel(ownerLayout)
+                        : ""}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+            {layout.size > rulerBytes && (
+              <div className="text-[10px] font-heading text-gray-600 mt-1">
+                … {layout.size - rulerBytes} more bytes
+              </div>
+            )}
+          </div>
+
+          {/* offsetof table */}
+          <div className="border-2 border-black rounded-base max-h-64 overflow-y-auto">
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="border-b-2 border-black bg-gray-100 text-left">
+                  <th className="px-2 py-1 font-heading">Member</th>
+                  <th className="px-2 py-1 font-heading">Type</th>
+                  <th className="px-2 py-1 font-heading text-right">
+                    offsetof
+                  </th>
+                  <th className="px-2 py-1 font-heading text-right">Size</th>
+                  <th className="px-2 py-1 font-heading text-right">Align</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) =>
+                  row.kind === "padding" ? (
+                    <tr
+                      key={`pad-${row.hole.offset}`}
+                      className="border-b border-gray-300 text-gray-600"
+                    >
+                      <td className="px-2 py-1" colSpan={2}>
+                        <span
+                          className="inline-block w-3 h-3 border border-black mr-2 align-middle"
+                          style={PADDING_STYLE}
+                        />
+                        {row.hole.offset + row.hole.size === layout.size
+                          ? "(tail padding)"
+                          : "(padding)"}
+                      </td>
+                      <td className="px-2 py-1 text-right">
+                        {row.hole.offset}
+                      </td>
+                      <td className="px-2 py-1 text-right">
+                        {row.hole.size} B
+                      </td>
+                      <td className="px-2 py-1" />
+                    </tr>
+                  ) : (
+                    <tr
+                      key={`field-${row.index}`}
+                      className="border-b border-gray-300"
+                    >
+                      <td className="px-2 py-1 font-heading">
+                        <span
+                          className="inline-block w-3 h-3 border border-black mr-2 align-middle"
+                          style={{ backgroundColor: getFieldColor(row.index) }}
+                        />
+                        {memberLabel(row.fieldLayout)}
+                      </td>
+                      <td className="px-2 py-1">
+                        {formatFieldType(row.fieldLayout.field)}
+                      </td>
+                      <td className="px-2 py-1 text-right">
+                        {row.fieldLayout.offset}
+                        {row.fieldLayout.bitOffset !== undefined &&
+                          ` +${row.fieldLayout.bitOffset}b`}
+                      </td>
+                      <td className="px-2 py-1 text-right">
+                        {row.fieldLayout.field.bitWidth !== undefined
+                          ? `${row.fieldLayout.field.bitWidth} bits`
+                          : `${row.fieldLayout.size} B`}
+                      </td>
+                      <td className="px-2 py-1 text-right">
+                        {row.fieldLayout.alignment}
+                      </td>
+                    </tr>
+                  ),
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Padding-minimising order, current vs suggested */}
+          {suggestion && (
+            <div
+              className="border-2 border-black rounded-base p-3"
+              style={{ backgroundColor: UI_COLORS.lime }}
+            >
+              <div className="text-xs font-heading mb-2 flex items-center gap-2">
+                <ArrowDownUp size={14} strokeWidth={2.5} />
+                REORDER SAVES {suggestion.savedBytes} BYTES
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {[
+                  { title: "Current", result: suggestion.before },
+                  { title: "Suggested", result: suggestion.after },
+                ].map(({ title, result }) => (
+                  <div
+                    key={title}
+                    className="border-2 border-black rounded-base bg-white p-2"
+                  >
+                    <div className="text-xs font-heading mb-1">
+                      {title} · {result.size} B ({countPaddingBytes(result)} B
+                      padding)
+                    </div>
+                    {result.fields.map((fieldLayout, idx) => (
+                      <div
+                        key={idx}
+                        className="text-[11px] font-mono flex justify-between gap-2"
+                      >
+                        <span className="truncate">
+                          {formatFieldType(fieldLayout.field)}{" "}
+                          {memberLabel(fieldLayout)}
+                        </span>
+                        <span className="text-gray-600">
+                          @{fieldLayout.offset}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button onClick={onClose} variant="neutral">
+              esc
+            </Button>
+            {suggestion && (
+              <Button
+                onClick={handleApplyReorder}
+                style={{ backgroundColor: UI_COLORS.green }}
+              >
+                <ArrowDownUp size={16} strokeWidth={2.5} />
+                <span>Apply reorder</span>
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
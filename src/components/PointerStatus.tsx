@@ -0,0 +1,78 @@
+import { AlertTriangle } from "lucide-react";
+import { UI_COLORS } from "../utils/colors";
+import type { PointerState, UnsetPointerState } from "../types";
+
+interface PointerStatusProps {
+  state: PointerState;
+  onChange: (state: UnsetPointerState) => void;
+  address?: string; // Hex value shown instead of CONNECTED in address mode
+  className?: string; // Extra classes for the CONNECTED box
+}
+
+// Electrical ground: the conventional picture of a NULL pointer
+function GroundSymbol() {
+  return (
+    <svg
+      width="12"
+      height="12"
+      viewBox="0 0 12 12"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="1.5"
+      aria-hidden="true"
+    >
+      <path d="M6 0v5M1 5h10M3 8h6M5 11h2" />
+    </svg>
+  );
+}
+
+/**
+ * Status of one pointer: CONNECTED, NULL (ground symbol) or uninitialised
+ * (WILD warning badge). Clicking an unconnected pointer toggles between the
+ * two, like writing "p = NULL" or leaving "T* p;" unassigned.
+ */
+export default function PointerStatus({
+  state,
+  onChange,
+  address,
+  className = "py-0.5",
+}: PointerStatusProps) {
+  if (state === "connected") {
+    return (
+      <div
+        className={`flex items-center gap-2 text-sm font-heading font-mono border-2 border-black px-2 rounded-base ${className}`}
+        style={{ backgroundColor: UI_COLORS.green }}
+      >
+        <span className="inline-block w-2.5 h-2.5 bg-black rounded-none"></span>
+        {address ?? "CONNECTED"}
+      </div>
+    );
+  }
+
+  if (state === "uninitialized") {
+    return (
+      <button
+        type="button"
+        onClick={() => onChange("null")}
+        className="nodrag flex items-center gap-1 text-[10px] border-2 border-black px-1.5 py-0.5 rounded-base font-heading font-mono cursor-pointer"
+        style={{ backgroundColor: UI_COLORS.yellow, color: "#b91c1c" }}
+        title="Uninitialised: holds a garbage address. Click to set it to NULL."
+      >
+        <AlertTriangle size={12} strokeWidth={2.5} />
+        WILD
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => onChange("uninitialized")}
+      className="nodrag flex items-center gap-2 text-xs text-gray-500 font-base font-mono cursor-pointer hover:text-black"
+      title="NULL. Click to mark it uninitialised (wild)."
+    >
+      <GroundSymbol />
+      NULL
+    </button>
+  );
+}
@@ -0,0 +1,71 @@
+import { memo } from "react";
+import { Trash2, CornerDownLeft } from "lucide-react";
+import { UI_COLORS } from "../utils/colors";
+
+interface RegionNodeData {
+  title: string; // "insert()" for a stack frame, "HEAP" for the heap
+  badge: string; // "FRAME #2", "POPPED", "MALLOC"
+  kind: "frame" | "heap";
+  popped?: boolean;
+  onPop?: () => void; // Innermost active frame only
+  onRemove?: () => void;
+}
+
+// Container drawn behind the locals of a stack frame or the heap's blocks.
+// It is sized to enclose its members, so it is never dragged itself.
+function RegionNode({ data }: { data: RegionNodeData }) {
+  const color = data.kind === "heap" ? UI_COLORS.orange : UI_COLORS.cyan;
+
+  return (
+    <div
+      className={`w-full h-full rounded-base border-4 ${
+        data.popped ? "border-dashed border-gray-400" : "border-black"
+      }`}
+      style={{
+        backgroundColor: data.popped
+          ? "rgba(229, 231, 235, 0.5)"
+          : `${color}40`,
+      }}
+    >
+      <div
+        className="flex items-center gap-2 px-3 py-1 border-b-4 border-inherit"
+        style={{ backgroundColor: data.popped ? "#e5e7eb" : color }}
+      >
+        <span
+          className={`font-mono text-sm font-heading ${
+            data.popped ? "line-through text-gray-500" : ""
+          }`}
+        >
+          {data.title}
+        </span>
+        <span className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading bg-white">
+          {data.badge}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          {data.onPop && (
+            <button
+              onClick={data.onPop}
+              className="nodrag pointer-events-auto text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading inline-flex items-center gap-1 bg-white hover:scale-105 transition"
+              title="Return from this call: its locals die"
+            >
+              <CornerDownLeft size={10} strokeWidth={2.5} />
+              POP
+            </button>
+          )}
+          {data.onRemove && (
+            <button
+              onClick={data.onRemove}
+              className="nodrag pointer-events-auto size-6 border-2 border-black rounded-base inline-flex items-center justify-center"
+              style={{ backgroundColor: UI_COLORS.redDelete }}
+              title="Remove the frame and its locals"
+            >
+              <Trash2 size={12} strokeWidth={2.5} />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default memo(RegionNode);
@@ -1,7 +1,9 @@
-import { X, BookOpen, Grid3x3, Github } from "lucide-react";
+import { X, BookOpen, Grid3x3, Github, Cpu, Hash } from "lucide-react";
 import { useState } from "react";
 import { Button } from "./ui/button";
 import { UI_COLORS } from "../utils/colors";
+import { useCanvasStore } from "../store/canvasStore";
+import { DATA_MODELS } from "../parser/dataModels";
 
 interface SettingsProps {
   onClose: () => void;
@@ -15,6 +17,8 @@ const Settings = ({
   onSnapToGridChange,
 }: SettingsProps) => {
   const [showGuide, setShowGuide] = useState(false);
+  const { dataModel, setDataModel, showAddresses, setShowAddresses } =
+    useCanvasStore();
 
   return (
     <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 modal-backdrop">
@@ -133,6 +137,66 @@ const Settings = ({
                     />
                   </button>
                 </div>
+                <div
+                  className="w-full px-4 py-3 mt-2 rounded-base border-2 border-black flex items-center justify-between"
+                  style={{
+                    backgroundColor: showAddresses
+                      ? UI_COLORS.green
+                      : UI_COLORS.lime,
+                  }}
+                >
+                  <div className="flex items-center gap-3">
+                    <Hash size={20} strokeWidth={2.5} />
+                    <div>
+                      <div className="text-sm font-heading">Show Addresses</div>
+                      <div className="text-xs font-base">
+                        Simulated addresses, pointers as hex values
+                      </div>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setShowAddresses(!showAddresses)}
+                    className={`w-12 h-6 rounded-full border-2 border-black relative transition-all focus:outline-none hover:scale-105`}
+                    style={{
+                      backgroundColor: showAddresses ? "#4ade80" : "#9ca3af",
+                    }}
+                  >
+                    <div
+                      className={`absolute top-0.5 w-4 h-4 rounded-full bg-white border-2 border-black transition-transform ${
+                        showAddresses ? "translate-x-6" : "translate-x-0.5"
+                      }`}
+                    />
+                  </button>
+                </div>
+              </div>
+
+              {/* Target ABI - drives every size, offset and padding */}
+              <div>
+                <h3 className="text-sm font-heading tracking-tight mb-3 flex items-center gap-2">
+                  <Cpu size={16} strokeWidth={2.5} />
+                  TARGET ABI
+                </h3>
+                <div className="space-y-2">
+                  {Object.values(DATA_MODELS).map((model) => (
+                    <button
+                      key={model.id}
+                      onClick={() => setDataModel(model.id)}
+                      className="w-full px-4 py-2 rounded-base border-2 border-black text-left transition hover:translate-x-0.5"
+                      style={{
+                        backgroundColor:
+                          dataModel === model.id
+                            ? UI_COLORS.green
+                            : UI_COLORS.lime,
+                      }}
+                    >
+                      <div className="text-sm font-heading">{model.name}</div>
+                      <div className="text-xs font-base">
+                        {model.description} · int {model.sizes.int}B, long{" "}
+                        {model.sizes.long}B, pointer {model.sizes.pointer}B
+                      </div>
+                    </button>
+                  ))}
+                </div>
               </div>
 
               {/* How to Use Button */}
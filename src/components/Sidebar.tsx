@@ -8,9 +8,13 @@ import {
   Layers,
   Plus,
   Box,
+  Ruler,
 } from "lucide-react";
 import { useCanvasStore } from "../store/canvasStore";
 import type { CStruct } from "../types";
+import { calculateStructSize } from "../parser/structParser";
+import { formatAliasedType } from "../parser/typedefParser";
+import { formatFunctionDeclaration } from "../parser/functionParser";
 import { getStructColor, UI_COLORS } from "../utils/colors";
 import { Button } from "./ui/button";
 import { showAlert } from "./AlertContainer";
@@ -19,6 +23,7 @@ interface SidebarProps {
   onEditStruct: (structName: string) => void;
   onAddInstance: (structName: string) => void;
   onDefineStruct: () => void;
+  onShowLayout: (structName: string) => void;
 }
 
 // Template data structures
@@ -394,11 +399,19 @@ const Sidebar = ({
   onEditStruct,
   onAddInstance,
   onDefineStruct,
+  onShowLayout,
 }: SidebarProps) => {
   const {
     structDefinitions,
     deleteStructDefinition,
+    enumDefinitions,
+    deleteEnumDefinition,
+    typedefDefinitions,
+    deleteTypedefDefinition,
+    functionDefinitions,
+    deleteFunctionDefinition,
     instances,
+    dataModel,
   } = useCanvasStore();
 
   const handleDragStart = (event: React.DragEvent, structName: string) => {
@@ -435,6 +448,56 @@ const Sidebar = ({
     });
   };
 
+  const handleDeleteEnum = (enumName: string) => {
+    showAlert({
+      type: "confirm",
+      message: `Are you sure you want to delete enum "${enumName}"?`,
+      onConfirm: () => {
+        deleteEnumDefinition(enumName);
+        showAlert({
+          type: "success",
+          message: `Enum "${enumName}" deleted`,
+          duration: 2000,
+        });
+      },
+      confirmText: "Delete",
+      cancelText: "Cancel",
+    });
+  };
+
+  const handleDeleteTypedef = (typedefName: string) => {
+    showAlert({
+      type: "confirm",
+      message: `Are you sure you want to delete typedef "${typedefName}"?`,
+      onConfirm: () => {
+        deleteTypedefDefinition(typedefName);
+        showAlert({
+          type: "success",
+          message: `Typedef "${typedefName}" deleted`,
+          duration: 2000,
+        });
+      },
+      confirmText: "Delete",
+      cancelText: "Cancel",
+    });
+  };
+
+  const handleDeleteFunction = (functionName: string) => {
+    showAlert({
+      type: "confirm",
+      message: `Are you sure you want to delete function "${functionName}"? Function pointers to it will be disconnected.`,
+      onConfirm: () => {
+        deleteFunctionDefinition(functionName);
+        showAlert({
+          type: "success",
+          message: `Function "${functionName}" deleted`,
+          duration: 2000,
+        });
+      },
+      confirmText: "Delete",
+      cancelText: "Cancel",
+    });
+  };
 
   return (
     <div className="h-screen w-64 bg-white border-r-4 border-black flex flex-col">
@@ -488,8 +551,17 @@ const Sidebar = ({
                     {struct.name}
                   </div>
                   <div className="text-xs font-base text-gray-700 mt-0.5">
+                    {struct.kind === "union" && "union · "}
                     {struct.fields.length} field
-                    {struct.fields.length !== 1 ? "s" : ""}
+                    {struct.fields.length !== 1 ? "s" : ""} ·{" "}
+                    {calculateStructSize(
+                      struct,
+                      structDefinitions,
+                      enumDefinitions,
+                      dataModel,
+                      typedefDefinitions,
+                    )}{" "}
+                    B
                   </div>
                 </div>
 
@@ -507,6 +579,18 @@ const Sidebar = ({
                   >
                     <Edit2 size={12} strokeWidth={2.5} />
                   </Button>
+                  <Button
+                    size="icon"
+                    variant="noShadow"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onShowLayout(struct.name);
+                    }}
+                    className="size-7 p-0"
+                    title="Memory layout"
+                  >
+                    <Ruler size={12} strokeWidth={2.5} />
+                  </Button>
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -524,11 +608,162 @@ const Sidebar = ({
           })}
         </div>
 
-        {structDefinitions.length === 0 && (
-          <div className="text-center text-gray-500 text-xs font-heading mt-8 mb-4">
-            No structs defined
+        {/* Enum List - enums are types only, they cannot be placed on the canvas */}
+        {enumDefinitions.length > 0 && (
+          <div className="mt-4">
+            <div className="text-xs font-heading text-gray-500 uppercase tracking-wider mb-2">
+              Enums
+            </div>
+            <div className="space-y-2">
+              {enumDefinitions.map((enumDef) => (
+                <div
+                  key={enumDef.name}
+                  className="group border-2 border-black rounded-base p-2.5 shadow-shadow flex items-center gap-2"
+                  style={{ backgroundColor: UI_COLORS.lime }}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-mono font-heading text-xs truncate">
+                      {enumDef.name}
+                    </div>
+                    <div className="text-xs font-base text-gray-700 mt-0.5 truncate">
+                      {enumDef.enumerators.map((e) => e.name).join(", ")}
+                    </div>
+                  </div>
+
+                  <div className="flex-shrink-0 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      size="icon"
+                      variant="noShadow"
+                      onClick={() => onEditStruct(enumDef.name)}
+                      className="size-7 p-0"
+                      title="Edit"
+                    >
+                      <Edit2 size={12} strokeWidth={2.5} />
+                    </Button>
+                    <button
+                      onClick={() => handleDeleteEnum(enumDef.name)}
+                      className="size-7 p-0 border-2 border-black rounded-base inline-flex items-center justify-center"
+                      style={{ backgroundColor: UI_COLORS.redDelete }}
+                      title="Delete"
+                    >
+                      <X size={12} strokeWidth={2.5} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Typedef List - aliases for other types, resolved wherever they are used */}
+        {typedefDefinitions.length > 0 && (
+          <div className="mt-4">
+            <div className="text-xs font-heading text-gray-500 uppercase tracking-wider mb-2">
+              Typedefs
+            </div>
+            <div className="space-y-2">
+              {typedefDefinitions.map((typedef) => (
+                <div
+                  key={typedef.name}
+                  className="group border-2 border-black rounded-base p-2.5 shadow-shadow flex items-center gap-2"
+                  style={{ backgroundColor: UI_COLORS.teal }}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-mono font-heading text-xs truncate">
+                      {typedef.name}
+                    </div>
+                    <div className="text-xs font-mono text-gray-700 mt-0.5 truncate">
+                      {formatAliasedType(
+                        typedef,
+                        structDefinitions,
+                        enumDefinitions,
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex-shrink-0 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      size="icon"
+                      variant="noShadow"
+                      onClick={() => onEditStruct(typedef.name)}
+                      className="size-7 p-0"
+                      title="Edit"
+                    >
+                      <Edit2 size={12} strokeWidth={2.5} />
+                    </Button>
+                    <button
+                      onClick={() => handleDeleteTypedef(typedef.name)}
+                      className="size-7 p-0 border-2 border-black rounded-base inline-flex items-center justify-center"
+                      style={{ backgroundColor: UI_COLORS.redDelete }}
+                      title="Delete"
+                    >
+                      <X size={12} strokeWidth={2.5} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
           </div>
         )}
+
+        {/* Function List - targets for function pointer members, shown as nodes on the canvas */}
+        {functionDefinitions.length > 0 && (
+          <div className="mt-4">
+            <div className="text-xs font-heading text-gray-500 uppercase tracking-wider mb-2">
+              Functions
+            </div>
+            <div className="space-y-2">
+              {functionDefinitions.map((fn) => (
+                <div
+                  key={fn.name}
+                  className="group border-2 border-black rounded-base p-2.5 shadow-shadow flex items-center gap-2"
+                  style={{ backgroundColor: UI_COLORS.blue }}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-mono font-heading text-xs truncate">
+                      {fn.name}
+                    </div>
+                    <div
+                      className="text-xs font-mono text-gray-700 mt-0.5 truncate"
+                      title={formatFunctionDeclaration(fn)}
+                    >
+                      {formatFunctionDeclaration(fn)}
+                    </div>
+                  </div>
+
+                  <div className="flex-shrink-0 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      size="icon"
+                      variant="noShadow"
+                      onClick={() => onEditStruct(fn.name)}
+                      className="size-7 p-0"
+                      title="Edit"
+                    >
+                      <Edit2 size={12} strokeWidth={2.5} />
+                    </Button>
+                    <button
+                      onClick={() => handleDeleteFunction(fn.name)}
+                      className="size-7 p-0 border-2 border-black rounded-base inline-flex items-center justify-center"
+                      style={{ backgroundColor: UI_COLORS.redDelete }}
+                      title="Delete"
+                    >
+                      <X size={12} strokeWidth={2.5} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {structDefinitions.length === 0 &&
+          enumDefinitions.length === 0 &&
+          typedefDefinitions.length === 0 &&
+          functionDefinitions.length === 0 && (
+            <div className="text-center text-gray-500 text-xs font-heading mt-8 mb-4">
+              No structs defined
+            </div>
+          )}
       </div>
 
     </div>
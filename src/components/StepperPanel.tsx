@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  FastForward,
+  Footprints,
+  Pencil,
+  Play,
+  StepForward,
+  X,
+} from "lucide-react";
+import { useCanvasStore } from "../store/canvasStore";
+import {
+  createStepper,
+  type StepResult,
+  type StepperOptions,
+} from "../utils/stepper";
+import { UI_COLORS } from "../utils/colors";
+
+interface Props {
+  getPosition: StepperOptions["getPosition"];
+  getFramePosition: StepperOptions["getFramePosition"];
+  onClose: () => void;
+}
+
+const EXAMPLE_CODE = `void insert(Node** head, int v) {
+    Node* n = malloc(sizeof(Node));
+    n->data = v;
+    n->next = *head;
+    *head = n;
+}`;
+
+// Code pane: paste C functions, call one and step through it line by line
+// while the canvas shows its frame, locals and heap blocks
+export default function StepperPanel({
+  getPosition,
+  getFramePosition,
+  onClose,
+}: Props) {
+  const [code, setCode] = useState(EXAMPLE_CODE);
+  const [callText, setCallText] = useState("insert(&head, 5)");
+  const [result, setResult] = useState<StepResult | null>(null);
+  const [startError, setStartError] = useState<string | null>(null);
+  const stepperRef = useRef<ReturnType<typeof createStepper> | null>(null);
+  const currentLineRef = useRef<HTMLDivElement>(null);
+
+  const isRunning = result !== null;
+  const isPaused = result?.status === "paused";
+
+  useEffect(() => {
+    currentLineRef.current?.scrollIntoView({ block: "nearest" });
+  }, [result]);
+
+  // Closing the pane from the dock stops a call that is still running
+  useEffect(() => () => stepperRef.current?.stop(), []);
+
+  const handleStart = () => {
+    try {
+      stepperRef.current = createStepper(code, callText, {
+        getState: useCanvasStore.getState,
+        getPosition,
+        getFramePosition,
+      });
+    } catch (error) {
+      setStartError((error as Error).message);
+      return;
+    }
+    setStartError(null);
+    setResult(stepperRef.current.step());
+  };
+
+  // Back to editing; a call that is paused or crashed returns from the
+  // frames it left on the stack
+  const handleEdit = () => {
+    if (result?.status !== "done") stepperRef.current?.stop();
+    stepperRef.current = null;
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    handleEdit();
+    onClose();
+  };
+
+  const highlightedLine =
+    result?.status === "paused" || result?.status === "error"
+      ? result.line
+      : undefined;
+  const output = result && result.status !== "paused" ? result.output : [];
+
+  return (
+    <div className="fixed top-20 right-4 z-20 w-[460px] bg-white rounded-base border-2 border-black shadow-shadow overflow-hidden">
+      {/* Header */}
+      <div
+        className="px-3 py-2 border-b-2 border-black flex items-center justify-between"
+        style={{ backgroundColor: UI_COLORS.cyan }}
+      >
+        <div className="flex items-center gap-2">
+          <Footprints size={16} strokeWidth={2.5} />
+          <h2 className="text-sm font-mono font-heading tracking-tight">
+            STEP THROUGH
+          </h2>
+          {isRunning && (
+            <span className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading bg-white">
+              {result.status === "paused"
+                ? "PAUSED"
+                : result.status === "done"
+                  ? "RETURNED"
+                  : "CRASHED"}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={handleClose}
+          className="border-2 border-black p-1 rounded-base transition"
+          style={{ backgroundColor: UI_COLORS.redDelete }}
+          title="Close"
+        >
+          <X size={14} strokeWidth={2.5} />
+        </button>
+      </div>
+
+      {/* Code */}
+      {isRunning ? (
+        <div className="max-h-[50vh] overflow-y-auto py-2 font-mono text-xs border-b-2 border-black">
+          {code.split("\n").map((text, index) => {
+            const isCurrent = index + 1 === highlightedLine;
+            return (
+              <div
+                key={index}
+                ref={isCurrent ? currentLineRef : undefined}
+                className={`flex whitespace-pre ${isCurrent ? "font-heading" : ""}`}
+                style={
+                  isCurrent
+                    ? {
+                        backgroundColor:
+                          result.status === "error"
+                            ? UI_COLORS.red
+                            : UI_COLORS.yellow,
+                      }
+                    : undefined
+                }
+              >
+                <span className="w-10 shrink-0 pr-2 text-right text-gray-400 select-none">
+                  {index + 1}
+                </span>
+                <span>{text || " "}</span>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          rows={12}
+          spellCheck={false}
+          className="block w-full resize-y font-mono text-xs px-3 py-2 border-b-2 border-black focus:outline-none"
+          placeholder="void insert(Node** head, int v) { ... }"
+        />
+      )}
+
+      {/* Status */}
+      {(startError ||
+        (result && result.status !== "paused") ||
+        result?.message) && (
+        <div className="px-3 py-2 space-y-1 font-mono text-xs border-b-2 border-black whitespace-pre-wrap break-words">
+          {output.map((line, index) => (
+            <div key={index} className="text-gray-600">
+              {line}
+            </div>
+          ))}
+          {startError && (
+            <div className="text-red-600 font-heading">{startError}</div>
+          )}
+          {result?.status === "error" && (
+            <div className="text-red-600 font-heading">
+              {result.line !== undefined && `Line ${result.line}: `}
+              {result.message}
+            </div>
+          )}
+          {result?.status === "paused" && result.message && (
+            <div className="text-orange-600 font-heading">{result.message}</div>
+          )}
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="flex items-center gap-2 p-2">
+        {isRunning ? (
+          <>
+            <button
+              onClick={() => setResult(stepperRef.current!.step())}
+              disabled={!isPaused}
+              className="px-3 h-9 border-2 border-black rounded-base inline-flex items-center gap-1 text-sm font-heading disabled:opacity-40 disabled:cursor-not-allowed"
+              style={{ backgroundColor: UI_COLORS.yellow }}
+              title="Run the highlighted line"
+            >
+              <StepForward size={14} strokeWidth={2.5} />
+              Step
+            </button>
+            <button
+              onClick={() => setResult(stepperRef.current!.finish())}
+              disabled={!isPaused}
+              className="px-3 h-9 border-2 border-black rounded-base inline-flex items-center gap-1 text-sm font-heading disabled:opacity-40 disabled:cursor-not-allowed"
+              style={{ backgroundColor: UI_COLORS.green }}
+              title="Run to the end of the call"
+            >
+              <FastForward size={14} strokeWidth={2.5} />
+              Run
+            </button>
+            <button
+              onClick={handleEdit}
+              className="ml-auto px-3 h-9 border-2 border-black rounded-base inline-flex items-center gap-1 text-sm font-heading"
+              style={{ backgroundColor: UI_COLORS.purple }}
+              title={
+                isPaused ? "Stop the call and edit the code" : "Edit the code"
+              }
+            >
+              <Pencil size={14} strokeWidth={2.5} />
+              {isPaused ? "Stop" : "Edit"}
+            </button>
+          </>
+        ) : (
+          <form
+            className="flex flex-1 items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleStart();
+            }}
+          >
+            <input
+              value={callText}
+              onChange={(e) => setCallText(e.target.value)}
+              spellCheck={false}
+              className="flex-1 h-9 font-mono text-sm border-2 border-black rounded-base px-2 focus:outline-none"
+              placeholder="insert(&head, 5)"
+              title="The call to step through"
+            />
+            <button
+              type="submit"
+              disabled={!code.trim() || !callText.trim()}
+              className="px-3 h-9 border-2 border-black rounded-base inline-flex items-center gap-1 text-sm font-heading disabled:opacity-40 disabled:cursor-not-allowed"
+              style={{ backgroundColor: UI_COLORS.green }}
+              title="Call the function and stop on its first line"
+            >
+              <Play size={14} strokeWidth={2.5} />
+              Call
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
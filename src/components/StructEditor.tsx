@@ -9,13 +9,35 @@ import {
 } from "lucide-react";
 import CodeMirror from "@uiw/react-codemirror";
 import { cpp } from "@codemirror/lang-cpp";
-import { useCanvasStore } from "../store/canvasStore";
+import {
+  filterValidConnections,
+  getFunctionNodeId,
+  useCanvasStore,
+} from "../store/canvasStore";
 import {
   parseStruct,
+  formatStructCode,
   validateStructCode,
-  canConnectPointer,
-  resolveTypeName,
 } from "../parser/structParser";
+import {
+  isEnumCode,
+  parseEnum,
+  formatEnumCode,
+  validateEnumCode,
+} from "../parser/enumParser";
+import {
+  isTypedefCode,
+  parseTypedef,
+  formatTypedefCode,
+  validateTypedefCode,
+} from "../parser/typedefParser";
+import {
+  isFunctionCode,
+  parseFunction,
+  formatFunctionCode,
+  validateFunctionCode,
+} from "../parser/functionParser";
+import { parseDefines } from "../parser/constantExpression";
 import { Button } from "./ui/button";
 import { Alert, AlertDescription } from "./ui/alert";
 import { UI_COLORS } from "../utils/colors";
@@ -32,42 +54,49 @@ export default function StructEditor({ onClose, editStructName }: Props) {
     updateStructDefinition,
     deleteStructDefinition,
     structDefinitions,
+    enumDefinitions,
+    addEnumDefinition,
+    updateEnumDefinition,
+    deleteEnumDefinition,
+    typedefDefinitions,
+    addTypedefDefinition,
+    updateTypedefDefinition,
+    deleteTypedefDefinition,
+    functionDefinitions,
+    addFunctionDefinition,
+    updateFunctionDefinition,
+    deleteFunctionDefinition,
     instances,
+    valueCells,
     connections,
+    dataModel,
+    constantDefinitions,
+    addConstantDefinitions,
   } = useCanvasStore();
 
   // Load existing struct if editing
   const existingStruct = editStructName
     ? structDefinitions.find((s) => s.name === editStructName)
     : null;
+  const existingEnum = editStructName
+    ? enumDefinitions.find((e) => e.name === editStructName)
+    : null;
+  const existingTypedef = editStructName
+    ? typedefDefinitions.find((t) => t.name === editStructName)
+    : null;
+  const existingFunction = editStructName
+    ? functionDefinitions.find((f) => f.name === editStructName)
+    : null;
 
   const defaultCode = existingStruct
-    ? existingStruct.typedef
-      ? `typedef struct ${existingStruct.name} {
-${existingStruct.fields
-  .map((f) => {
-    let fieldDef = `  ${f.type}`;
-    if (f.isPointer) fieldDef += "*";
-    fieldDef += ` ${f.name}`;
-    if (f.isArray) fieldDef += `[${f.arraySize}]`;
-    fieldDef += ";";
-    return fieldDef;
-  })
-  .join("\n")}
-} ${existingStruct.typedef};`
-      : `struct ${existingStruct.name} {
-${existingStruct.fields
-  .map((f) => {
-    let fieldDef = `  ${f.type}`;
-    if (f.isPointer) fieldDef += "*";
-    fieldDef += ` ${f.name}`;
-    if (f.isArray) fieldDef += `[${f.arraySize}]`;
-    fieldDef += ";";
-    return fieldDef;
-  })
-  .join("\n")}
-};`
-    : `typedef struct Node {
+    ? formatStructCode(existingStruct)
+    : existingEnum
+      ? formatEnumCode(existingEnum)
+      : existingTypedef
+        ? formatTypedefCode(existingTypedef, structDefinitions, enumDefinitions)
+        : existingFunction
+          ? formatFunctionCode(existingFunction)
+          : `typedef struct Node {
   int data;
   struct Node* next;
 } Node_t;`;
@@ -76,19 +105,120 @@ ${existingStruct.fields
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
 
+  // #defines of earlier code stay usable, followed by the ones in this code
+  const constants = useMemo(
+    () => parseDefines(code, new Map(Object.entries(constantDefinitions))),
+    [code, constantDefinitions],
+  );
+
   // Real-time validation using useMemo instead of setState in effect
   const validationErrors = useMemo(() => {
+    if (isEnumCode(code)) {
+      return validateEnumCode(
+        code,
+        structDefinitions,
+        enumDefinitions,
+        !!editStructName,
+        editStructName,
+        constants,
+      );
+    }
+    if (isTypedefCode(code)) {
+      return validateTypedefCode(
+        code,
+        structDefinitions,
+        enumDefinitions,
+        typedefDefinitions,
+        !!editStructName,
+        editStructName,
+        constants,
+      );
+    }
+    if (isFunctionCode(code)) {
+      return validateFunctionCode(
+        code,
+        structDefinitions,
+        enumDefinitions,
+        typedefDefinitions,
+        functionDefinitions,
+        !!editStructName,
+        editStructName,
+        constants,
+      );
+    }
     return validateStructCode(
       code,
       structDefinitions,
       !!editStructName,
       editStructName,
+      enumDefinitions,
+      constants,
+      dataModel,
+      undefined,
+      typedefDefinitions,
     );
-  }, [code, structDefinitions, editStructName]);
+  }, [
+    code,
+    structDefinitions,
+    enumDefinitions,
+    typedefDefinitions,
+    functionDefinitions,
+    editStructName,
+    dataModel,
+    constants,
+  ]);
 
   const handleDelete = () => {
     if (!editStructName) return;
 
+    if (existingEnum) {
+      showAlert({
+        type: "confirm",
+        message: `Are you sure you want to delete enum "${editStructName}"?`,
+        onConfirm: () => {
+          deleteEnumDefinition(editStructName);
+          onClose();
+        },
+        confirmText: "Delete",
+        cancelText: "Cancel",
+      });
+      return;
+    }
+
+    if (existingTypedef) {
+      showAlert({
+        type: "confirm",
+        message: `Are you sure you want to delete typedef "${editStructName}"?`,
+        onConfirm: () => {
+          deleteTypedefDefinition(editStructName);
+          onClose();
+        },
+        confirmText: "Delete",
+        cancelText: "Cancel",
+      });
+      return;
+    }
+
+    if (existingFunction) {
+      const pointerCount = connections.filter(
+        (conn) => conn.targetInstanceId === getFunctionNodeId(editStructName),
+      ).length;
+      showAlert({
+        type: "confirm",
+        message:
+          pointerCount > 0
+            ? `${pointerCount} function pointer${pointerCount === 1 ? "" : "s"} point${pointerCount === 1 ? "s" : ""} to "${editStructName}" and will be disconnected.\n\nAre you sure you want to delete function "${editStructName}"?`
+            : `Are you sure you want to delete function "${editStructName}"?`,
+        onConfirm: () => {
+          deleteFunctionDefinition(editStructName);
+          onClose();
+        },
+        confirmText: "Delete",
+        cancelText: "Cancel",
+      });
+      return;
+    }
+
     // Count instances of this struct
     const instanceCount = instances.filter(
       (inst) => inst.structName === editStructName,
@@ -113,6 +243,85 @@ ${existingStruct.fields
     });
   };
 
+  const handleSaveEnum = () => {
+    const parsedEnum = parseEnum(code, constants);
+
+    if (!parsedEnum) {
+      setError("Failed to parse enum. Check your syntax!");
+      return;
+    }
+
+    if (existingStruct) {
+      setError("A struct cannot be changed into an enum. Delete it first.");
+      return;
+    }
+
+    if (existingEnum && editStructName) {
+      updateEnumDefinition(editStructName, parsedEnum);
+    } else {
+      addEnumDefinition(parsedEnum);
+    }
+    setSuccess(true);
+
+    setTimeout(() => {
+      onClose();
+    }, 1500);
+  };
+
+  const handleSaveTypedef = () => {
+    const parsedTypedef = parseTypedef(code, constants);
+
+    if (!parsedTypedef) {
+      setError("Failed to parse typedef. Check your syntax!");
+      return;
+    }
+
+    if (existingStruct || existingEnum || existingFunction) {
+      setError(
+        `${existingEnum ? "An enum" : existingFunction ? "A function" : "A struct"} cannot be changed into a typedef. Delete it first.`,
+      );
+      return;
+    }
+
+    if (existingTypedef && editStructName) {
+      updateTypedefDefinition(editStructName, parsedTypedef);
+    } else {
+      addTypedefDefinition(parsedTypedef);
+    }
+    setSuccess(true);
+
+    setTimeout(() => {
+      onClose();
+    }, 1500);
+  };
+
+  const handleSaveFunction = () => {
+    const parsedFunction = parseFunction(code, constants);
+
+    if (!parsedFunction) {
+      setError("Failed to parse function. Check your syntax!");
+      return;
+    }
+
+    if (existingStruct || existingEnum || existingTypedef) {
+      setError(
+        `${existingEnum ? "An enum" : existingTypedef ? "A typedef" : "A struct"} cannot be changed into a function. Delete it first.`,
+      );
+      return;
+    }
+
+    if (existingFunction && editStructName) {
+      updateFunctionDefinition(editStructName, parsedFunction);
+    } else {
+      addFunctionDefinition(parsedFunction);
+    }
+    setSuccess(true);
+
+    setTimeout(() => {
+      onClose();
+    }, 1500);
+  };
+
   const handleParse = () => {
     setError(null);
     setSuccess(false);
@@ -123,7 +332,32 @@ ${existingStruct.fields
       return;
     }
 
-    const parsed = parseStruct(code);
+    // Keep the #defines for the code written after this
+    addConstantDefinitions(constants);
+
+    if (isEnumCode(code)) {
+      handleSaveEnum();
+      return;
+    }
+
+    if (isTypedefCode(code)) {
+      handleSaveTypedef();
+      return;
+    }
+
+    if (isFunctionCode(code)) {
+      handleSaveFunction();
+      return;
+    }
+
+    if (existingEnum || existingTypedef || existingFunction) {
+      setError(
+        `${existingEnum ? "An enum" : existingTypedef ? "A typedef" : "A function"} cannot be changed into a struct. Delete it first.`,
+      );
+      return;
+    }
+
+    const parsed = parseStruct(code, constants);
 
     if (!parsed) {
       setError("Failed to parse struct. Check your syntax!");
@@ -145,53 +379,30 @@ ${existingStruct.fields
         s.name === editStructName ? parsed : s,
       );
 
-      const affectedConnections = connections.filter((conn) => {
-        const sourceInstance = instances.find(
-          (i) => i.id === conn.sourceInstanceId,
-        );
-        const targetInstance = instances.find(
-          (i) => i.id === conn.targetInstanceId,
-        );
-
-        if (!sourceInstance || !targetInstance) return false;
-
-        // Only check connections from instances of this struct
-        if (sourceInstance.structName !== editStructName) return false;
-
-        const sourceStruct = updatedStructDefinitions.find(
-          (s) => s.name === sourceInstance.structName,
-        );
-
-        if (!sourceStruct) return false;
-
-        const baseFieldName = conn.sourceFieldName.split("[")[0];
-        const sourceField = sourceStruct.fields.find(
-          (f) => f.name === baseFieldName,
-        );
-
-        // Connection will be removed if:
-        // 1. Field doesn't exist anymore
-        // 2. Field is no longer a pointer
-        // 3. Pointer type no longer matches target
-        if (!sourceField || !sourceField.isPointer) return true;
-
-        const resolvedPointerType = resolveTypeName(
-          sourceField.type,
-          updatedStructDefinitions,
-        );
-        const resolvedTargetType = resolveTypeName(
-          targetInstance.structName,
+      // Count the connections the update will drop, with the same rules
+      // the store applies. Instances of other structs are affected too when
+      // they embed this struct by value (e.g. a pointer at "origin.next").
+      const updatedInstances = instances.map((inst) =>
+        inst.structName === editStructName
+          ? { ...inst, structName: parsed.name }
+          : inst,
+      );
+      const affectedConnections =
+        connections.length -
+        filterValidConnections(
+          connections,
+          updatedInstances,
           updatedStructDefinitions,
-        );
-
-        return !canConnectPointer(resolvedPointerType, resolvedTargetType);
-      });
+          typedefDefinitions,
+          functionDefinitions,
+          valueCells,
+        ).length;
 
       // If connections will be removed, show confirmation
-      if (affectedConnections.length > 0) {
+      if (affectedConnections > 0) {
         showAlert({
           type: "confirm",
-          message: `Updating this struct will remove ${affectedConnections.length} connection${affectedConnections.length === 1 ? "" : "s"} that are no longer valid.\n\nDo you want to continue?`,
+          message: `Updating this struct will remove ${affectedConnections} connection${affectedConnections === 1 ? "" : "s"} that are no longer valid.\n\nDo you want to continue?`,
           onConfirm: () => {
             updateStructDefinition(editStructName, parsed);
             setSuccess(true);
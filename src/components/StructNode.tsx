@@ -1,53 +1,801 @@
-import { memo, useState } from "react";
-import { Handle, Position } from "@xyflow/react";
-import { useCanvasStore } from "../store/canvasStore";
-import { Trash2, Edit2, Check } from "lucide-react";
+import { memo, useEffect, useState } from "react";
+import { Handle, Position, useUpdateNodeInternals } from "@xyflow/react";
+import { getConnectionAddress, useCanvasStore } from "../store/canvasStore";
+import {
+  Trash2,
+  Edit2,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Ruler,
+} from "lucide-react";
 import { getStructColor, UI_COLORS } from "../utils/colors";
 import { Input } from "./ui/input";
 import { Button } from "./ui/button";
 import { Checkbox } from "./ui/checkbox";
+import {
+  computeStructLayout,
+  findFieldByPath,
+  formatFieldType,
+  getAllocatedSize,
+  getArrayDimensions,
+  getBitFieldRange,
+  getMemberOffset,
+  getNestedStruct,
+  isBooleanType,
+  isNumericType,
+  resolveFieldType,
+  type FieldLayout,
+} from "../parser/structParser";
+import { findEnum } from "../parser/enumParser";
+import { getPointerState } from "../utils/pointerStates";
+import { formatAddress } from "../utils/addresses";
+import PointerStatus from "./PointerStatus";
+import type { CAggregateKind, CEnum, CField } from "../types";
 
 interface StructNodeData {
   instanceId: string;
   structName: string;
   instanceName: string;
-  fields: Array<{
-    name: string;
-    type: string;
-    isPointer: boolean;
-    isArray: boolean;
-    arraySize?: number;
-    pointerLevel?: number;
-    isFunctionPointer?: boolean;
-  }>;
+  kind?: CAggregateKind;
+  fields: CField[];
+  isLeaked?: boolean; // Heap block no root can reach any more
+  onShowLayout?: (structName: string) => void;
+}
+
+// Upper bound for the element count of a flexible array member
+const MAX_FLEXIBLE_LENGTH = 256;
+
+// "[1][2]" for element 5 of a [2][3] array (row-major order)
+function formatArrayIndex(index: number, dimensions: number[]): string {
+  const indices: number[] = [];
+  let remaining = index;
+  for (let d = dimensions.length - 1; d >= 0; d--) {
+    indices.unshift(remaining % dimensions[d]);
+    remaining = Math.floor(remaining / dimensions[d]);
+  }
+  return indices.map((i) => `[${i}]`).join("");
+}
+
+function asValueObject(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
 }
 
 function StructNode({ data, selected }: { data: StructNodeData; selected?: boolean }) {
+  const store = useCanvasStore();
   const {
     updateFieldValue,
+    setFlexibleLength,
+    setPointerState,
     removeInstance,
     updateInstanceName,
     instances,
     connections,
     structDefinitions,
-  } = useCanvasStore();
+    enumDefinitions,
+    typedefDefinitions,
+    dataModel,
+    showAddresses,
+  } = store;
   const instance = instances.find((i) => i.id === data.instanceId);
   const [isEditingName, setIsEditingName] = useState(false);
   const [tempName, setTempName] = useState(data.instanceName);
+  // Nested struct/union sections the user has folded away (UI state only)
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  // Pointer handles move (or appear) when a section is folded or unfolded
+  useEffect(() => {
+    updateNodeInternals(data.instanceId);
+  }, [collapsedSections, data.instanceId, updateNodeInternals]);
+
+  const toggleSection = (sectionKey: string) => {
+    setCollapsedSections((prev) => {
+      const next = new Set(prev);
+      if (next.has(sectionKey)) {
+        next.delete(sectionKey);
+      } else {
+        next.add(sectionKey);
+      }
+      return next;
+    });
+  };
 
   // Get a deterministic color for this struct type
   const allStructNames = structDefinitions.map((s) => s.name);
   const structColor = getStructColor(data.structName, allStructNames);
+  // A freed block stays as a read-only tombstone
+  const isFreed = !!instance?.freed;
+
+  // Union members overlap: only the last-written member holds a real value,
+  // every other member is a reinterpretation of the same bytes
+  const isUnion = data.kind === "union";
+  const structDef = structDefinitions.find((s) => s.name === data.structName);
+  const layout = structDef
+    ? computeStructLayout(
+        structDef,
+        structDefinitions,
+        enumDefinitions,
+        dataModel,
+        typedefDefinitions,
+      )
+    : null;
+  // Last-written member of each union, keyed as getActiveUnionMembers does
+  const activeMembers: Record<string, string> = instance?.activeMembers ?? {};
 
-  // Helper to check if a pointer is connected
-  const isPointerConnected = (fieldName: string) => {
-    return connections.some(
-      (conn) =>
-        conn.sourceInstanceId === data.instanceId &&
-        conn.sourceFieldName === fieldName,
+  // Elements allocated for a flexible array member (char data[])
+  const flexibleLength = instance?.flexibleLength ?? 0;
+  const flexibleLayout = layout?.fields.find((f) => f.field.isFlexibleArray);
+
+  // Simulated address of the member at path (address mode only)
+  const getFieldAddress = (path: string) => {
+    if (!showAddresses || instance?.address === undefined || !structDef) {
+      return undefined;
+    }
+    const offset = getMemberOffset(
+      structDef,
+      path,
+      structDefinitions,
+      enumDefinitions,
+      dataModel,
+      typedefDefinitions,
+    );
+    return offset === undefined
+      ? undefined
+      : formatAddress(instance.address + offset, dataModel);
+  };
+
+  // Hex value of a connected pointer (address mode only)
+  const getPointerValue = (path: string) => {
+    if (!showAddresses) return undefined;
+    const conn = connections.find(
+      (c) =>
+        c.sourceInstanceId === data.instanceId && c.sourceFieldName === path,
     );
+    const address = conn && getConnectionAddress(conn, store);
+    return address === undefined
+      ? undefined
+      : formatAddress(address, dataModel);
   };
 
+  // CONNECTED, NULL or uninitialised status of the pointer at path
+  const renderPointerStatus = (path: string, className?: string) => (
+    <PointerStatus
+      state={getPointerState(
+        data.instanceId,
+        path,
+        instance?.pointerStates,
+        connections,
+      )}
+      onChange={(state) => setPointerState(data.instanceId, path, state)}
+      address={getPointerValue(path)}
+      className={className}
+    />
+  );
+
+  // Interior pointers (&node->data, &arr[3]) land on a small handle at the
+  // left edge of the member's row
+  const renderTargetHandle = (
+    path: string,
+    style?: React.CSSProperties,
+    isConnectable = true,
+  ) => (
+    <Handle
+      key={`target-${path}`}
+      type="target"
+      position={Position.Left}
+      id={`target-${data.instanceId}-${path}`}
+      data-field-name={path}
+      className="!bg-white !w-3.5 !h-3.5 !border-2 !border-black !rounded-full"
+      style={style}
+      isConnectable={isConnectable}
+      title={`Point at ${path}`}
+    />
+  );
+
+  // Dropdown of enumerator names (with their numeric values) for enum fields
+  const renderEnumSelect = (
+    enumDef: CEnum,
+    value: string,
+    onChange: (value: string) => void,
+    className: string,
+  ) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={`w-full rounded-base border-2 border-border bg-secondary-background px-2 text-sm font-mono focus-visible:outline-hidden focus-visible:ring-2 focus-visible:ring-black ${className}`}
+    >
+      <option value="">-- {enumDef.name} --</option>
+      {enumDef.enumerators.map((enumerator) => (
+        <option key={enumerator.name} value={enumerator.name}>
+          {enumerator.name} = {enumerator.value}
+        </option>
+      ))}
+    </select>
+  );
+
+  // Marks a union member that only reinterprets the bytes of another
+  const renderReinterpretedBadge = (activeMember: string) => (
+    <span
+      className="text-[10px] border-2 border-black px-1.5 py-0.5 rounded-base font-heading"
+      style={{ backgroundColor: UI_COLORS.yellow }}
+      title={`Shares storage with ${
+        activeMember.startsWith("#")
+          ? "an anonymous member"
+          : `'${activeMember}'`
+      }, which was written last`}
+    >
+      REINTERPRETED
+    </span>
+  );
+
+  // Collapsible section for a struct stored inside a field. While folded,
+  // connected pointers inside it keep their handles on the section header.
+  // scopeKey names the section's own union, if it is one; reinterpretedBy
+  // is the member written last when the section is an inactive union member.
+  const renderNestedSection = (
+    field: CField,
+    sectionKey: string,
+    childPath: string,
+    childValues: Record<string, unknown>,
+    fieldLayout: FieldLayout | undefined,
+    scopeKey: string,
+    reinterpretedBy: string | undefined,
+  ) => {
+    const nested = getNestedStruct(field, structDefinitions)!;
+    const nestedLayout = computeStructLayout(
+      nested,
+      structDefinitions,
+      enumDefinitions,
+      dataModel,
+      typedefDefinitions,
+    );
+    const isCollapsed = collapsedSections.has(sectionKey);
+    const isNestedUnion = nested.kind === "union";
+    const label = field.name ? sectionKey.split(".").pop() : "(anonymous)";
+    const sectionAddress = field.name ? getFieldAddress(childPath) : undefined;
+
+    const pathPrefix = childPath ? `${childPath}.` : "";
+    const hiddenConnections = isCollapsed
+      ? connections.filter(
+          (conn) =>
+            conn.sourceInstanceId === data.instanceId &&
+            conn.sourceFieldName.startsWith(pathPrefix) &&
+            !!findFieldByPath(
+              nested.fields,
+              conn.sourceFieldName.slice(pathPrefix.length),
+              structDefinitions,
+              typedefDefinitions,
+            ),
+        )
+      : [];
+    // Interior pointers into folded members stay attached to the header
+    const hiddenTargets = isCollapsed
+      ? connections.filter(
+          (conn) =>
+            conn.targetInstanceId === data.instanceId &&
+            conn.targetFieldName?.startsWith(pathPrefix) &&
+            !!findFieldByPath(
+              nested.fields,
+              conn.targetFieldName.slice(pathPrefix.length),
+              structDefinitions,
+              typedefDefinitions,
+            ),
+        )
+      : [];
+
+    return (
+      <div
+        key={sectionKey}
+        className={`relative bg-white border-2 border-black rounded-base shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ${
+          reinterpretedBy ? "border-dashed opacity-60" : ""
+        }`}
+      >
+        {/* A named section can be pointed at as a whole (&node->pos) */}
+        {field.name && renderTargetHandle(childPath, { top: "14px" })}
+        {hiddenTargets.map((conn) =>
+          renderTargetHandle(conn.targetFieldName!, { top: "14px" }, false),
+        )}
+        <button
+          type="button"
+          onClick={() => toggleSection(sectionKey)}
+          className={`w-full flex items-center gap-2 px-2 py-1 text-left ${
+            isCollapsed ? "" : "border-b-2 border-black"
+          }`}
+        >
+          {isCollapsed ? (
+            <ChevronRight size={14} strokeWidth={2.5} />
+          ) : (
+            <ChevronDown size={14} strokeWidth={2.5} />
+          )}
+          <span className="font-heading text-sm tracking-tight">{label}</span>
+          <span className="text-xs font-mono font-base text-gray-600">
+            {formatFieldType(field)}
+          </span>
+          {isNestedUnion && (
+            <span
+              className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading"
+              style={{ backgroundColor: UI_COLORS.orange }}
+            >
+              UNION
+            </span>
+          )}
+          {reinterpretedBy && renderReinterpretedBadge(reinterpretedBy)}
+          <span className="ml-auto text-[10px] font-heading font-mono text-gray-500">
+            {sectionAddress
+              ? `${sectionAddress} · `
+              : fieldLayout
+                ? `@${fieldLayout.offset} · `
+                : ""}
+            {nestedLayout.size}B
+          </span>
+        </button>
+
+        {isCollapsed ? (
+          hiddenConnections.map((conn) => (
+            <Handle
+              key={conn.id}
+              type="source"
+              position={Position.Right}
+              id={`${data.instanceId}-${conn.sourceFieldName}`}
+              data-field-name={conn.sourceFieldName}
+              data-is-pointer="true"
+              className="!bg-black !w-6 !h-6 !border-4 !border-white !rounded-none"
+              style={{ top: "50%" }}
+              isConnectable={false}
+            />
+          ))
+        ) : (
+          <div
+            className={`p-2 space-y-2 ${
+              isNestedUnion ? "border-l-8 border-dashed border-black ml-2" : ""
+            }`}
+          >
+            {renderFields(
+              nested.fields,
+              nestedLayout.fields,
+              childPath,
+              childValues,
+              { key: scopeKey, isUnion: isNestedUnion },
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Render a list of members. Nested struct/union members recurse with
+  // their own member path ("pos.next"), values object and layout.
+  // Typedefs are expanded for behaviour ('NodePtr next' gets a pointer
+  // handle) but the member keeps its declared type in the label.
+  // scope is the object the members belong to: its union key and whether
+  // it is a union, whose members all share the same bytes.
+  const renderFields = (
+    fields: CField[],
+    fieldLayouts: FieldLayout[] | undefined,
+    parentPath: string,
+    values: Record<string, unknown>,
+    scope: { key: string; isUnion: boolean },
+  ): React.ReactNode =>
+    fields.map((declaredField, fieldIndex) => {
+      const resolvedField = resolveFieldType(declaredField, typedefDefinitions);
+      // A flexible array member has as many elements as were allocated
+      const field =
+        resolvedField.isFlexibleArray && !parentPath
+          ? { ...resolvedField, arraySize: flexibleLength }
+          : resolvedField;
+
+      // Unnamed bit-fields are pure padding - nothing to edit
+      if (!field.name && !field.nestedFields) {
+        return (
+          <div
+            key={`padding-${fieldIndex}`}
+            className="text-[10px] font-mono font-heading text-gray-500 border-2 border-dashed border-gray-400 rounded-base px-2 py-1"
+          >
+            {formatFieldType(declaredField)} (
+            {field.bitWidth === 0 ? "align to next unit" : "padding bits"})
+          </div>
+        );
+      }
+
+      const fieldPath = parentPath
+        ? `${parentPath}.${field.name}`
+        : field.name;
+      const fieldValue = values[field.name];
+      const fieldLayout = fieldLayouts?.[fieldIndex];
+      // Only the union member written last holds a real value
+      const activeMember = scope.isUnion ? activeMembers[scope.key] : undefined;
+      const reinterpretedBy =
+        activeMember && activeMember !== (field.name || `#${fieldIndex}`)
+          ? activeMember
+          : undefined;
+
+      const flexibleLengthInput = field.isFlexibleArray && !parentPath && (
+        <label className="nodrag flex items-center gap-2 mt-1 text-[10px] font-heading">
+          ELEMENTS
+          <Input
+            type="number"
+            min={0}
+            max={MAX_FLEXIBLE_LENGTH}
+            value={flexibleLength}
+            onChange={(e) => {
+              const length = Math.trunc(Number(e.target.value));
+              if (Number.isNaN(length)) return;
+              setFlexibleLength(
+                data.instanceId,
+                Math.min(MAX_FLEXIBLE_LENGTH, Math.max(0, length)),
+              );
+            }}
+            className="h-7 w-20 text-sm font-base"
+          />
+        </label>
+      );
+
+      // Inline and embedded (by-value) structs get their own collapsible
+      // section. Anonymous members share the parent's path and values, as in C.
+      if (getNestedStruct(field, structDefinitions)) {
+        if (!field.name) {
+          return renderNestedSection(
+            field,
+            `${parentPath}#${fieldIndex}`,
+            parentPath,
+            values,
+            fieldLayout,
+            `${scope.key}#${fieldIndex}`,
+            reinterpretedBy,
+          );
+        }
+        if (!field.isArray) {
+          return renderNestedSection(
+            field,
+            fieldPath,
+            fieldPath,
+            asValueObject(fieldValue),
+            fieldLayout,
+            fieldPath,
+            reinterpretedBy,
+          );
+        }
+        const elements = Array.isArray(fieldValue) ? fieldValue : [];
+        return (
+          <div key={fieldPath} className="space-y-2">
+            {flexibleLengthInput}
+            {Array.from({ length: field.arraySize || 0 }).map((_, idx) => {
+              const elementPath = `${fieldPath}${formatArrayIndex(
+                idx,
+                getArrayDimensions(field),
+              )}`;
+              return renderNestedSection(
+                field,
+                elementPath,
+                `${fieldPath}[${idx}]`,
+                asValueObject(elements[idx]),
+                fieldLayout,
+                `${fieldPath}[${idx}]`,
+                reinterpretedBy,
+              );
+            })}
+          </div>
+        );
+      }
+
+      const fieldValueStr =
+        typeof fieldValue === "string" ? fieldValue : "";
+      const handleId = `${data.instanceId}-${fieldPath}`;
+      const fieldEnum = findEnum(field.type, enumDefinitions);
+      const bitRange = getBitFieldRange(field, enumDefinitions);
+      const arrayDimensions = field.isArray
+        ? getArrayDimensions(field)
+        : [];
+      const columnCount = arrayDimensions[arrayDimensions.length - 1] || 1;
+      const arrayValues = Array.isArray(fieldValue) ? fieldValue : [];
+
+      // Input (or enum dropdown) for one element of a value array,
+      // addressed by its row-major index
+      const renderArrayElement = (idx: number, className: string) => {
+        const value =
+          typeof arrayValues[idx] === "string" ? arrayValues[idx] : "";
+        const handleElementChange = (newValue: string) => {
+          const newArray = [...arrayValues];
+          newArray[idx] = newValue;
+          updateFieldValue(data.instanceId, fieldPath, newArray);
+        };
+
+        return fieldEnum ? (
+          renderEnumSelect(fieldEnum, value, handleElementChange, className)
+        ) : (
+          <Input
+            type={isNumericType(field.type) ? "number" : "text"}
+            value={value}
+            onChange={(e) => handleElementChange(e.target.value)}
+            placeholder={field.type}
+            className={`${className} text-sm`}
+          />
+        );
+      };
+
+      return (
+        <div key={fieldPath} className="relative">
+          {/* Bit-fields and whole arrays have no single address to point at */}
+          {!field.isArray &&
+            field.bitWidth === undefined &&
+            renderTargetHandle(fieldPath)}
+
+          {/* Field Row */}
+          <div
+            className={`flex items-start gap-2 bg-white border-2 border-black p-2 rounded-base shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ${
+              reinterpretedBy ? "border-dashed opacity-60" : ""
+            }`}
+          >
+            {/* Field name and type */}
+            <div className="flex-1">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="font-heading text-base tracking-tight">
+                  {field.name}
+                </span>
+                {field.pointerLevel &&
+                  field.pointerLevel > 1 &&
+                  !field.isFunctionPointer && (
+                    <span
+                      className="text-[10px] border-2 border-black px-1.5 py-0.5 rounded-base font-heading"
+                      style={{ backgroundColor: UI_COLORS.purple }}
+                    >
+                      {field.pointerLevel}x PTR
+                    </span>
+                  )}
+                {field.isFunctionPointer && (
+                  <span
+                    className="text-[10px] border-2 border-black px-1.5 py-0.5 rounded-base font-heading"
+                    style={{ backgroundColor: UI_COLORS.blue }}
+                  >
+                    FN PTR
+                  </span>
+                )}
+                {field.isFlexibleArray && (
+                  <span
+                    className="text-[10px] border-2 border-black px-1.5 py-0.5 rounded-base font-heading"
+                    style={{ backgroundColor: UI_COLORS.lime }}
+                    title="Flexible array member: not counted in sizeof, its length is chosen per allocation"
+                  >
+                    FLEX
+                  </span>
+                )}
+                {reinterpretedBy && renderReinterpretedBadge(reinterpretedBy)}
+                {field.bitWidth !== undefined &&
+                  fieldLayout?.bitOffset !== undefined && (
+                    <span
+                      className="text-[10px] border-2 border-black px-1.5 py-0.5 rounded-base font-heading"
+                      style={{ backgroundColor: UI_COLORS.teal }}
+                      title={`${field.bitWidth}-bit field in the ${fieldLayout.size}-byte unit at offset ${fieldLayout.offset}`}
+                    >
+                      BITS {fieldLayout.bitOffset}–
+                      {fieldLayout.bitOffset + field.bitWidth - 1}
+                    </span>
+                  )}
+              </div>
+              <div className="text-xs font-mono font-base text-gray-600 mb-1">
+                {formatFieldType(declaredField)}
+                {showAddresses && (
+                  <span className="ml-2 text-gray-400">
+                    {getFieldAddress(fieldPath)}
+                  </span>
+                )}
+              </div>
+              {flexibleLengthInput}
+
+              {/* Enum dropdown for non-pointer, non-array enum fields */}
+              {!field.isPointer &&
+                !field.isArray &&
+                fieldEnum &&
+                renderEnumSelect(
+                  fieldEnum,
+                  fieldValueStr,
+                  (value) =>
+                    updateFieldValue(data.instanceId, fieldPath, value),
+                  "h-9",
+                )}
+
+              {/* Value input for non-pointer, non-array fields */}
+              {!field.isPointer &&
+                !field.isArray &&
+                !fieldEnum &&
+                !isBooleanType(field.type) && (
+                  <Input
+                    type={
+                      bitRange || isNumericType(field.type)
+                        ? "number"
+                        : "text"
+                    }
+                    min={bitRange?.min}
+                    max={bitRange?.max}
+                    step={bitRange ? 1 : undefined}
+                    value={fieldValueStr}
+                    onChange={(e) => {
+                      let value = e.target.value;
+                      // Bit-fields can only hold values that fit their width
+                      if (bitRange && value !== "" && value !== "-") {
+                        const parsed = Math.trunc(Number(value));
+                        if (Number.isNaN(parsed)) return;
+                        value = String(
+                          Math.min(
+                            bitRange.max,
+                            Math.max(bitRange.min, parsed),
+                          ),
+                        );
+                      }
+                      updateFieldValue(data.instanceId, fieldPath, value);
+                    }}
+                    placeholder={
+                      bitRange
+                        ? `${bitRange.min}–${bitRange.max}`
+                        : `${field.type} value`
+                    }
+                    className="w-full h-9 text-sm font-base"
+                  />
+                )}
+
+              {/* Checkbox for bool type */}
+              {!field.isPointer &&
+                !field.isArray &&
+                isBooleanType(field.type) && (
+                  <label className="flex items-center gap-2 mt-1 cursor-pointer">
+                    <Checkbox
+                      checked={fieldValueStr === "true"}
+                      onCheckedChange={(checked) =>
+                        updateFieldValue(
+                          data.instanceId,
+                          fieldPath,
+                          checked ? "true" : "false",
+                        )
+                      }
+                    />
+                    <span className="text-xs font-base">
+                      {fieldValueStr === "true" ? "true" : "false"}
+                    </span>
+                  </label>
+                )}
+
+              {/* Array visualization */}
+              {field.isArray &&
+                !field.isPointer &&
+                arrayDimensions.length === 1 && (
+                  <div className="mt-2 space-y-1">
+                    {Array.from({ length: field.arraySize || 0 }).map(
+                      (_, idx) => (
+                        <div
+                          key={idx}
+                          className="flex items-center gap-2 relative"
+                        >
+                          {renderTargetHandle(`${fieldPath}[${idx}]`, {
+                            left: "-8px",
+                          })}
+                          <span className="text-xs font-heading w-10 text-right">
+                            [{idx}]
+                          </span>
+                          {renderArrayElement(idx, "flex-1 h-8")}
+                        </div>
+                      ),
+                    )}
+                  </div>
+                )}
+
+              {/* Multi-dimensional arrays: one row per leading index, last dimension as columns */}
+              {field.isArray &&
+                !field.isPointer &&
+                arrayDimensions.length > 1 && (
+                  <div className="mt-2 space-y-1 overflow-x-auto">
+                    <div className="flex items-center gap-1">
+                      <span className="min-w-10 flex-shrink-0" />
+                      {Array.from({ length: columnCount }).map((_, col) => (
+                        <span
+                          key={col}
+                          className="w-14 flex-shrink-0 text-center text-[10px] font-heading"
+                        >
+                          [{col}]
+                        </span>
+                      ))}
+                    </div>
+                    {Array.from({
+                      length: (field.arraySize || 0) / columnCount,
+                    }).map((_, row) => (
+                      <div key={row} className="flex items-center gap-1">
+                        <span className="min-w-10 flex-shrink-0 text-xs font-heading text-right">
+                          {formatArrayIndex(
+                            row,
+                            arrayDimensions.slice(0, -1),
+                          )}
+                        </span>
+                        {Array.from({ length: columnCount }).map(
+                          (_, col) => (
+                            <div key={col} className="w-14 flex-shrink-0">
+                              {renderArrayElement(
+                                row * columnCount + col,
+                                "w-full h-8 px-1",
+                              )}
+                            </div>
+                          ),
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+              {/* Array of pointers visualization */}
+              {field.isPointer && field.isArray && (
+                <div className="mt-2 space-y-1">
+                  {Array.from({ length: field.arraySize || 0 }).map(
+                    (_, idx) => {
+                      const arrayFieldName = `${fieldPath}[${idx}]`;
+
+                      return (
+                        <div
+                          key={idx}
+                          className="flex items-center gap-2 relative pr-6"
+                        >
+                          {renderTargetHandle(arrayFieldName, {
+                            left: "-8px",
+                          })}
+                          <span className="text-xs font-heading min-w-10 text-right">
+                            {formatArrayIndex(idx, arrayDimensions)}
+                          </span>
+                          <div className="flex-1">
+                            {renderPointerStatus(arrayFieldName)}
+                          </div>
+                          {/* Source handle for each array element */}
+                          <Handle
+                            type="source"
+                            position={Position.Right}
+                            id={`${data.instanceId}-${arrayFieldName}`}
+                            data-field-type={field.type}
+                            data-field-name={arrayFieldName}
+                            data-is-pointer="true"
+                            className="!bg-black !w-5 !h-5 !border-3 !border-white cursor-pointer !absolute !right-0 !rounded-none"
+                            style={{
+                              top: "50%",
+                              transform: "translateY(-50%)",
+                            }}
+                            title={`Connect ${fieldPath}${formatArrayIndex(idx, arrayDimensions)}`}
+                          />
+                        </div>
+                      );
+                    },
+                  )}
+                </div>
+              )}
+
+              {/* Pointer status indicator (single pointer, not array) */}
+              {field.isPointer && !field.isArray && (
+                <div>
+                  {renderPointerStatus(
+                    fieldPath,
+                    "py-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,0.3)]",
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Source handle (gray circle) for single pointers on the right */}
+            {field.isPointer && !field.isArray && (
+              <Handle
+                type="source"
+                position={Position.Right}
+                id={handleId}
+                data-field-type={field.type}
+                data-field-name={fieldPath}
+                data-is-pointer="true"
+                className="!bg-black !w-6 !h-6 !border-4 !border-white cursor-pointer !rounded-none"
+                title={`Connect ${fieldPath}`}
+              />
+            )}
+          </div>
+        </div>
+      );
+    });
+
   const handleDelete = () => {
     removeInstance(data.instanceId);
   };
@@ -78,7 +826,9 @@ function StructNode({ data, selected }: { data: StructNodeData; selected?: boole
       className={`group/card bg-white rounded-base shadow-shadow border-2 min-w-[280px] ${
         selected
           ? 'border-blue-600 ring-4 ring-blue-400 ring-opacity-50'
-          : 'border-black'
+          : data.isLeaked
+            ? 'border-red-600 border-dashed'
+            : 'border-black'
       }`}
     >
       {/* Target handle - left (aligned with instance name) */}
@@ -94,11 +844,69 @@ function StructNode({ data, selected }: { data: StructNodeData; selected?: boole
       {/* Header */}
       <div
         className="px-3 py-2 border-b-2 border-black flex justify-between items-center"
-        style={{ backgroundColor: structColor }}
+        style={{ backgroundColor: isFreed ? "#e5e7eb" : structColor }}
       >
         <div className="flex-1">
-          <div className="text-xs font-heading font-mono">
+          <div className="text-xs font-heading font-mono flex items-center gap-2">
             {data.structName}
+            {isUnion && (
+              <span
+                className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading"
+                style={{ backgroundColor: UI_COLORS.orange }}
+              >
+                UNION
+              </span>
+            )}
+            {structDef?.pack && (
+              <span
+                className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading"
+                style={{ backgroundColor: UI_COLORS.cyan }}
+                title="Members are packed without alignment padding"
+              >
+                {structDef.pack === 1 ? "PACKED" : `PACK(${structDef.pack})`}
+              </span>
+            )}
+            {layout && (
+              <button
+                onClick={() => data.onShowLayout?.(data.structName)}
+                className="nodrag text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading inline-flex items-center gap-1 bg-white hover:scale-105 transition"
+                title="Show memory layout"
+              >
+                <Ruler size={10} strokeWidth={2.5} />
+                {layout.size} B
+              </button>
+            )}
+            {layout && flexibleLayout && (
+              <span
+                className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading"
+                style={{ backgroundColor: UI_COLORS.lime }}
+                title={`Allocated for ${flexibleLength} element${flexibleLength === 1 ? "" : "s"} of '${flexibleLayout.field.name}' (${flexibleLayout.elementSize} B each)`}
+              >
+                ALLOC {getAllocatedSize(layout, flexibleLength)} B
+              </span>
+            )}
+            {isFreed && (
+              <span
+                className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading bg-white"
+                title="free()d: pointers still aimed here dangle"
+              >
+                FREED
+              </span>
+            )}
+            {data.isLeaked && (
+              <span
+                className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading"
+                style={{ backgroundColor: UI_COLORS.red }}
+                title="Unreachable from every global and live local"
+              >
+                LEAKED
+              </span>
+            )}
+            {showAddresses && instance?.address !== undefined && (
+              <span className="text-[10px] font-mono font-heading">
+                @ {formatAddress(instance.address, dataModel)}
+              </span>
+            )}
           </div>
           {isEditingName ? (
             <div className="flex items-center gap-2">
@@ -124,7 +932,11 @@ function StructNode({ data, selected }: { data: StructNodeData; selected?: boole
             </div>
           ) : (
             <div className="flex items-center gap-2 group">
-              <div className="font-mono text-sm font-heading">
+              <div
+                className={`font-mono text-sm font-heading ${
+                  isFreed ? "line-through text-gray-500" : ""
+                }`}
+              >
                 {data.instanceName}
               </div>
               <Button
@@ -149,243 +961,29 @@ function StructNode({ data, selected }: { data: StructNodeData; selected?: boole
         </button>
       </div>
 
-      {/* Fields */}
-      <div className="p-2 space-y-2">
-        {data.fields.map((field) => {
-          const fieldValue = instance?.fieldValues[field.name];
-          const fieldValueStr =
-            typeof fieldValue === "string" ? fieldValue : "";
-          const handleId = `${data.instanceId}-${field.name}`;
-
-          return (
-            <div key={field.name} className="relative">
-              {/* Field Row */}
-              <div className="flex items-start gap-2 bg-white border-2 border-black p-2 rounded-base shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
-                {/* Field name and type */}
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 mb-1">
-                    <span className="font-heading text-base tracking-tight">
-                      {field.name}
-                    </span>
-                    {field.pointerLevel &&
-                      field.pointerLevel > 1 &&
-                      !field.isFunctionPointer && (
-                        <span
-                          className="text-[10px] border-2 border-black px-1.5 py-0.5 rounded-base font-heading"
-                          style={{ backgroundColor: UI_COLORS.purple }}
-                        >
-                          {field.pointerLevel}x PTR
-                        </span>
-                      )}
-                    {field.isFunctionPointer && (
-                      <span
-                        className="text-[10px] border-2 border-black px-1.5 py-0.5 rounded-base font-heading"
-                        style={{ backgroundColor: UI_COLORS.blue }}
-                      >
-                        FN PTR
-                      </span>
-                    )}
-                  </div>
-                  <div className="text-xs font-mono font-base text-gray-600 mb-1">
-                    {field.isFunctionPointer
-                      ? `(*${field.name})()`
-                      : field.isPointer && field.isArray
-                        ? `${field.type}${"*".repeat(field.pointerLevel || 1)}[${field.arraySize}]`
-                        : field.isPointer
-                          ? `${field.type}${"*".repeat(field.pointerLevel || 1)}`
-                          : field.isArray
-                            ? `${field.type}[${field.arraySize}]`
-                            : field.type}
-                  </div>
-
-                  {/* Value input for non-pointer, non-array fields */}
-                  {!field.isPointer &&
-                    !field.isArray &&
-                    field.type !== "bool" && (
-                      <Input
-                        type={
-                          field.type === "int" ||
-                          field.type === "float" ||
-                          field.type === "double"
-                            ? "number"
-                            : "text"
-                        }
-                        value={fieldValueStr}
-                        onChange={(e) =>
-                          updateFieldValue(
-                            data.instanceId,
-                            field.name,
-                            e.target.value,
-                          )
-                        }
-                        placeholder={`${field.type} value`}
-                        className="w-full h-9 text-sm font-base"
-                      />
-                    )}
-
-                  {/* Checkbox for bool type */}
-                  {!field.isPointer &&
-                    !field.isArray &&
-                    field.type === "bool" && (
-                      <label className="flex items-center gap-2 mt-1 cursor-pointer">
-                        <Checkbox
-                          checked={fieldValueStr === "true"}
-                          onCheckedChange={(checked) =>
-                            updateFieldValue(
-                              data.instanceId,
-                              field.name,
-                              checked ? "true" : "false",
-                            )
-                          }
-                        />
-                        <span className="text-xs font-base">
-                          {fieldValueStr === "true" ? "true" : "false"}
-                        </span>
-                      </label>
-                    )}
-
-                  {/* Array visualization */}
-                  {field.isArray && !field.isPointer && (
-                    <div className="mt-2 space-y-1">
-                      {Array.from({ length: field.arraySize || 0 }).map(
-                        (_, idx) => {
-                          const arrayValues = Array.isArray(fieldValue)
-                            ? fieldValue
-                            : [];
-                          const value =
-                            typeof arrayValues[idx] === "string"
-                              ? arrayValues[idx]
-                              : "";
-
-                          return (
-                            <div key={idx} className="flex items-center gap-2">
-                              <span className="text-xs font-heading w-10 text-right">
-                                [{idx}]
-                              </span>
-                              <Input
-                                type={
-                                  field.type === "int" ||
-                                  field.type === "float" ||
-                                  field.type === "double"
-                                    ? "number"
-                                    : "text"
-                                }
-                                value={value}
-                                onChange={(e) => {
-                                  const newArray = [...arrayValues];
-                                  newArray[idx] = e.target.value;
-                                  updateFieldValue(
-                                    data.instanceId,
-                                    field.name,
-                                    newArray,
-                                  );
-                                }}
-                                placeholder={field.type}
-                                className="flex-1 h-8 text-sm"
-                              />
-                            </div>
-                          );
-                        },
-                      )}
-                    </div>
-                  )}
-
-                  {/* Array of pointers visualization */}
-                  {field.isPointer && field.isArray && (
-                    <div className="mt-2 space-y-1">
-                      {Array.from({ length: field.arraySize || 0 }).map(
-                        (_, idx) => {
-                          const arrayFieldName = `${field.name}[${idx}]`;
-                          const isConnected = connections.some(
-                            (conn) =>
-                              conn.sourceInstanceId === data.instanceId &&
-                              conn.sourceFieldName === arrayFieldName,
-                          );
-
-                          return (
-                            <div
-                              key={idx}
-                              className="flex items-center gap-2 relative pr-6"
-                            >
-                              <span className="text-xs font-heading w-10 text-right">
-                                [{idx}]
-                              </span>
-                              <div className="flex-1">
-                                {isConnected ? (
-                                  <div
-                                    className="flex items-center gap-2 text-sm font-heading font-mono border-2 border-black px-2 py-0.5 rounded-base"
-                                    style={{ backgroundColor: UI_COLORS.green }}
-                                  >
-                                    <span className="inline-block w-2.5 h-2.5 bg-black rounded-none"></span>
-                                    CONNECTED
-                                  </div>
-                                ) : (
-                                  <div className="flex items-center gap-2 text-xs text-gray-500 font-base font-mono">
-                                    <span className="inline-block w-2 h-2 bg-gray-400 rounded-none"></span>
-                                    NULL
-                                  </div>
-                                )}
-                              </div>
-                              {/* Source handle for each array element */}
-                              <Handle
-                                type="source"
-                                position={Position.Right}
-                                id={`${data.instanceId}-${arrayFieldName}`}
-                                data-field-type={field.type}
-                                data-field-name={arrayFieldName}
-                                data-is-pointer="true"
-                                className="!bg-black !w-5 !h-5 !border-3 !border-white cursor-pointer !absolute !right-0 !rounded-none"
-                                style={{
-                                  top: "50%",
-                                  transform: "translateY(-50%)",
-                                }}
-                                title={`Connect ${field.name}[${idx}]`}
-                              />
-                            </div>
-                          );
-                        },
-                      )}
-                    </div>
-                  )}
-
-                  {/* Pointer status indicator (single pointer, not array) */}
-                  {field.isPointer && !field.isArray && (
-                    <div>
-                      {isPointerConnected(field.name) ? (
-                        <div
-                          className="flex items-center gap-2 text-sm font-heading font-mono border-2 border-black px-2 py-1 rounded-base shadow-[2px_2px_0px_0px_rgba(0,0,0,0.3)]"
-                          style={{ backgroundColor: UI_COLORS.green }}
-                        >
-                          <span className="inline-block w-2.5 h-2.5 bg-black rounded-none"></span>
-                          CONNECTED
-                        </div>
-                      ) : (
-                        <div className="flex items-center gap-2 text-xs text-gray-500 font-base font-mono">
-                          <span className="inline-block w-2 h-2 bg-gray-400 rounded-none"></span>
-                          NULL
-                        </div>
-                      )}
-                    </div>
-                  )}
-                </div>
+      {/* Shared storage banner for unions */}
+      {isUnion && (
+        <div
+          className="px-3 py-1 border-b-2 border-black text-[10px] font-heading font-mono"
+          style={{ backgroundColor: UI_COLORS.yellow }}
+        >
+          SHARED STORAGE: {layout?.size ?? 0} BYTES @ OFFSET 0
+        </div>
+      )}
 
-                {/* Source handle (gray circle) for single pointers on the right */}
-                {field.isPointer && !field.isArray && (
-                  <Handle
-                    type="source"
-                    position={Position.Right}
-                    id={handleId}
-                    data-field-type={field.type}
-                    data-field-name={field.name}
-                    data-is-pointer="true"
-                    className="!bg-black !w-6 !h-6 !border-4 !border-white cursor-pointer !rounded-none"
-                    title={`Connect ${field.name}`}
-                  />
-                )}
-              </div>
-            </div>
-          );
-        })}
+      {/* Fields */}
+      <div
+        className={`p-2 space-y-2 ${
+          isUnion ? "border-l-8 border-dashed border-black ml-2" : ""
+        } ${isFreed ? "opacity-50 pointer-events-none" : ""}`}
+      >
+        {renderFields(
+          data.fields,
+          layout?.fields,
+          "",
+          instance?.fieldValues ?? {},
+          { key: "", isUnion },
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,344 @@
+import { memo } from "react";
+import { Handle, Position } from "@xyflow/react";
+import { Trash2 } from "lucide-react";
+import { getConnectionAddress, useCanvasStore } from "../store/canvasStore";
+import { UI_COLORS } from "../utils/colors";
+import { Input } from "./ui/input";
+import { Checkbox } from "./ui/checkbox";
+import { isBooleanType, isNumericType } from "../parser/structParser";
+import { findEnum } from "../parser/enumParser";
+import { getPointerState } from "../utils/pointerStates";
+import { formatAddress } from "../utils/addresses";
+import PointerStatus from "./PointerStatus";
+import {
+  formatValueCellType,
+  getValueCellElement,
+  getValueCellPaths,
+  getValueCellSize,
+  isStringCell,
+} from "../utils/valueCells";
+import type { ValueCell } from "../types";
+
+interface ValueCellNodeData {
+  cell: ValueCell;
+  isRoot?: boolean; // Global or live local: leak detection starts here
+  isLeaked?: boolean; // Heap block no root can reach any more
+}
+
+// A standalone int, double*, char[16]... that pointers to primitives point at
+function ValueCellNode({
+  data,
+  selected,
+}: {
+  data: ValueCellNodeData;
+  selected?: boolean;
+}) {
+  const store = useCanvasStore();
+  const {
+    updateValueCellValue,
+    removeValueCell,
+    setPointerState,
+    connections,
+    structDefinitions,
+    enumDefinitions,
+    typedefDefinitions,
+    dataModel,
+    showAddresses,
+  } = store;
+  const { cell } = data;
+  const element = getValueCellElement(cell, typedefDefinitions);
+  const elementEnum = element.isPointer
+    ? undefined
+    : findEnum(element.type, enumDefinitions);
+  const isArray = cell.length !== undefined;
+  const isRoot = !!data.isRoot && element.isPointer;
+  const isString = isStringCell(cell, typedefDefinitions);
+  const size = getValueCellSize(
+    cell,
+    structDefinitions,
+    enumDefinitions,
+    dataModel,
+    typedefDefinitions,
+  );
+  const values = Array.isArray(cell.value) ? cell.value : [];
+
+  // Hex value of a connected pointer element in address mode
+  const getPointerValue = (path: string) => {
+    if (!showAddresses) return undefined;
+    const conn = connections.find(
+      (c) => c.sourceInstanceId === cell.id && c.sourceFieldName === path,
+    );
+    const address = conn && getConnectionAddress(conn, store);
+    return address === undefined
+      ? undefined
+      : formatAddress(address, dataModel);
+  };
+
+  // Pointers into the block (&arr[3], name + 2) land on an element's handle
+  const renderTargetHandle = (
+    path: string,
+    position: Position,
+    style?: React.CSSProperties,
+    size = "!w-3.5 !h-3.5",
+  ) => (
+    <Handle
+      type="target"
+      position={position}
+      id={`target-${cell.id}-${path}`}
+      data-field-name={path}
+      className={`!bg-white ${size} !border-2 !border-black !rounded-full`}
+      style={style}
+      isConnectable={true}
+      title={`Point at ${cell.name}${path.slice("value".length)}`}
+    />
+  );
+
+  // Input (enum dropdown, checkbox or text box) for one element
+  const renderScalarInput = (
+    path: string,
+    value: unknown,
+    className: string,
+  ) => {
+    const valueStr = typeof value === "string" ? value : "";
+    const onChange = (newValue: string) =>
+      updateValueCellValue(cell.id, path, newValue);
+
+    if (elementEnum) {
+      return (
+        <select
+          value={valueStr}
+          onChange={(e) => onChange(e.target.value)}
+          className={`w-full rounded-base border-2 border-border bg-secondary-background px-2 text-sm font-mono focus-visible:outline-hidden focus-visible:ring-2 focus-visible:ring-black ${className}`}
+        >
+          <option value="">-- {elementEnum.name} --</option>
+          {elementEnum.enumerators.map((enumerator) => (
+            <option key={enumerator.name} value={enumerator.name}>
+              {enumerator.name} = {enumerator.value}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    if (isBooleanType(element.type)) {
+      return (
+        <label className="flex items-center gap-2 cursor-pointer">
+          <Checkbox
+            checked={valueStr === "true"}
+            onCheckedChange={(checked) => onChange(checked ? "true" : "false")}
+          />
+          <span className="text-xs font-base">
+            {valueStr === "true" ? "true" : "false"}
+          </span>
+        </label>
+      );
+    }
+
+    return (
+      <Input
+        type={isNumericType(element.type) ? "number" : "text"}
+        value={valueStr}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={`${element.type} value`}
+        className={`${className} text-sm font-base`}
+      />
+    );
+  };
+
+  // CONNECTED / NULL / WILD status with the pointer's source handle on the right
+  const renderPointer = (path: string, label?: string) => (
+    <div key={path} className="flex items-center gap-2 relative pr-6">
+      {label && renderTargetHandle(path, Position.Left, { left: "-8px" })}
+      {label && (
+        <span className="text-xs font-heading min-w-10 text-right">
+          {label}
+        </span>
+      )}
+      <div className="flex-1">
+        <PointerStatus
+          state={getPointerState(
+            cell.id,
+            path,
+            cell.pointerStates,
+            connections,
+          )}
+          onChange={(state) => setPointerState(cell.id, path, state)}
+          address={getPointerValue(path)}
+        />
+      </div>
+      <Handle
+        type="source"
+        position={Position.Right}
+        id={`${cell.id}-${path}`}
+        data-field-type={element.type}
+        data-field-name={path}
+        data-is-pointer="true"
+        className="!bg-black !w-5 !h-5 !border-3 !border-white cursor-pointer !absolute !right-0 !rounded-none"
+        style={{ top: "50%", transform: "translateY(-50%)" }}
+        title={`Connect ${cell.name}${label ?? ""}`}
+      />
+    </div>
+  );
+
+  // char name[16]: edited as a string, shown byte by byte with its '\0'
+  const renderString = () => {
+    const text = typeof cell.value === "string" ? cell.value : "";
+    return (
+      <div className="space-y-2">
+        <Input
+          type="text"
+          value={text}
+          maxLength={Math.max(0, (cell.length ?? 0) - 1)}
+          onChange={(e) =>
+            updateValueCellValue(cell.id, "value", e.target.value)
+          }
+          placeholder="string contents"
+          className="w-full h-9 text-sm font-base"
+        />
+        <div className="flex flex-wrap gap-1">
+          {Array.from({ length: cell.length ?? 0 }).map((_, idx) => (
+            <span
+              key={idx}
+              className={`relative w-6 h-6 border-2 border-black rounded-base inline-flex items-center justify-center text-[10px] font-mono ${
+                idx < text.length ? "bg-white" : "bg-gray-100 text-gray-400"
+              }`}
+              title={`${cell.name}[${idx}]`}
+            >
+              {renderTargetHandle(
+                `value[${idx}]`,
+                Position.Top,
+                undefined,
+                "!w-2 !h-2",
+              )}
+              {idx < text.length ? text[idx] : idx === text.length ? "\\0" : ""}
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderBody = () => {
+    if (isString) return renderString();
+
+    if (element.isPointer) {
+      return (
+        <div className="space-y-1">
+          {getValueCellPaths(cell).map((path, idx) =>
+            renderPointer(path, isArray ? `[${idx}]` : undefined),
+          )}
+        </div>
+      );
+    }
+
+    if (!isArray) return renderScalarInput("value", cell.value, "w-full h-9");
+
+    return (
+      <div className="space-y-1">
+        {getValueCellPaths(cell).map((path, idx) => (
+          <div key={path} className="flex items-center gap-2 relative">
+            {renderTargetHandle(path, Position.Left, { left: "-8px" })}
+            <span className="text-xs font-heading w-10 text-right">
+              [{idx}]
+            </span>
+            {renderScalarInput(path, values[idx], "flex-1 h-8")}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className={`group/card bg-white rounded-base shadow-shadow border-2 min-w-[220px] ${
+        selected
+          ? 'border-blue-600 ring-4 ring-blue-400 ring-opacity-50'
+          : data.isLeaked
+            ? 'border-red-600 border-dashed'
+            : 'border-black'
+      }`}
+    >
+      {/* Target handle - pointers to this value (or to the array's first element) connect here */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id={`target-left-${cell.id}`}
+        className="!bg-black !w-6 !h-6 !border-4 !border-white !rounded-none"
+        style={{ top: "28px" }}
+        isConnectable={true}
+      />
+
+      {/* Header */}
+      <div
+        className="px-3 py-2 border-b-2 border-black flex justify-between items-center"
+        style={{ backgroundColor: cell.freed ? "#e5e7eb" : UI_COLORS.yellow }}
+      >
+        <div className="flex-1">
+          <div className="text-xs font-heading font-mono flex items-center gap-2">
+            {formatValueCellType(cell)}
+            <span className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading bg-white">
+              {isString ? "STRING" : isArray ? "ARRAY" : "VALUE"}
+            </span>
+            <span className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading bg-white">
+              {size} B
+            </span>
+            {cell.freed && (
+              <span
+                className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading bg-white"
+                title="free()d: pointers still aimed here dangle"
+              >
+                FREED
+              </span>
+            )}
+            {isRoot && (
+              <span
+                className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading"
+                style={{ backgroundColor: UI_COLORS.green }}
+                title="Root pointer: leak detection starts from here"
+              >
+                ROOT
+              </span>
+            )}
+            {data.isLeaked && (
+              <span
+                className="text-[10px] border-2 border-black px-1.5 py-0 rounded-base font-heading"
+                style={{ backgroundColor: UI_COLORS.red }}
+                title="Unreachable from every global and live local"
+              >
+                LEAKED
+              </span>
+            )}
+            {showAddresses && cell.address !== undefined && (
+              <span className="text-[10px] font-mono font-heading">
+                @ {formatAddress(cell.address, dataModel)}
+              </span>
+            )}
+          </div>
+          <div
+            className={`font-mono text-sm font-heading ${
+              cell.freed ? "line-through text-gray-500" : ""
+            }`}
+          >
+            {cell.name}
+          </div>
+        </div>
+        <button
+          onClick={() => removeValueCell(cell.id)}
+          className="opacity-0 group-hover/card:opacity-100 size-8 border-2 border-black rounded-base inline-flex items-center justify-center transition"
+          style={{ backgroundColor: UI_COLORS.redDelete }}
+          title="Delete"
+        >
+          <Trash2 size={14} strokeWidth={2.5} />
+        </button>
+      </div>
+
+      <div
+        className={`p-2 ${cell.freed ? "opacity-50 pointer-events-none" : ""}`}
+      >
+        {renderBody()}
+      </div>
+    </div>
+  );
+}
+
+export default memo(ValueCellNode);
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { evaluateConstantExpression, parseDefines } from "./constantExpression";
+
+const evaluate = (expr: string, constants = new Map<string, number>()) =>
+  evaluateConstantExpression(expr, constants);
+
+describe("evaluateConstantExpression", () => {
+  it("reads decimal, hex and octal literals with suffixes", () => {
+    expect(evaluate("42")).toBe(42);
+    expect(evaluate("0x1F")).toBe(31);
+    expect(evaluate("010")).toBe(8);
+    expect(evaluate("16u")).toBe(16);
+    expect(evaluate("4UL")).toBe(4);
+  });
+
+  it("follows C operator precedence", () => {
+    expect(evaluate("2 + 3 * 4")).toBe(14);
+    expect(evaluate("(2 + 3) * 4")).toBe(20);
+    expect(evaluate("1 << 4 | 1")).toBe(17);
+    expect(evaluate("0xFF & 0x0F ^ 0x03")).toBe(12);
+    expect(evaluate("-2 + ~0")).toBe(-3);
+  });
+
+  it("truncates integer division", () => {
+    expect(evaluate("7 / 2")).toBe(3);
+    expect(evaluate("-7 / 2")).toBe(-3);
+    expect(evaluate("7 % 3")).toBe(1);
+  });
+
+  it("looks up named constants", () => {
+    const constants = new Map([["N", 8]]);
+    expect(evaluate("N * 2", constants)).toBe(16);
+    expect(evaluate("M * 2", constants)).toBeNull();
+  });
+
+  it("rejects malformed expressions and division by zero", () => {
+    expect(evaluate("")).toBeNull();
+    expect(evaluate("1 +")).toBeNull();
+    expect(evaluate("(1 + 2")).toBeNull();
+    expect(evaluate("1 2")).toBeNull();
+    expect(evaluate("4 / 0")).toBeNull();
+    expect(evaluate("2.5")).toBeNull();
+  });
+});
+
+describe("parseDefines", () => {
+  it("lets each define use the ones above it", () => {
+    const constants = parseDefines(`
+      #define WIDTH 16
+      #define AREA (WIDTH * WIDTH + 4)
+    `);
+    expect(Object.fromEntries(constants)).toEqual({ WIDTH: 16, AREA: 260 });
+  });
+
+  it("skips function-like macros and non-integer defines", () => {
+    const constants = parseDefines(`
+      #define SQUARE(x) ((x) * (x))
+      #define NAME "list"
+      #define PI 3.14
+      // #define COMMENTED 1
+      #define SIZE 4
+    `);
+    expect([...constants.keys()]).toEqual(["SIZE"]);
+  });
+
+  it("starts from the defines of earlier code", () => {
+    const known = new Map([["N", 4]]);
+    const constants = parseDefines("#define M (N * 2)", known);
+    expect(Object.fromEntries(constants)).toEqual({ N: 4, M: 8 });
+    expect(known.has("M")).toBe(false);
+  });
+});
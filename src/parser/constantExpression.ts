@@ -0,0 +1,147 @@
+/**
+ * Integer constant expressions
+ * Evaluates the expressions C allows in array sizes and enumerator values:
+ * integer literals, named constants (#define or enumerators), parentheses,
+ * unary + - ~ and the binary operators * / % + - << >> & ^ |
+ *
+ * #define NAME 16
+ * #define AREA (NAME * NAME + 4)
+ */
+
+// Binary operators from lowest to highest precedence
+const BINARY_PRECEDENCE: string[][] = [
+  ["|"],
+  ["^"],
+  ["&"],
+  ["<<", ">>"],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+/**
+ * Evaluate an integer constant expression
+ * Returns null if it uses unknown names, is malformed or divides by zero.
+ */
+export function evaluateConstantExpression(
+  expr: string,
+  constants: Map<string, number>,
+): number | null {
+  const tokens = expr.match(
+    /0[xX][0-9a-fA-F]+\w*|\d+\w*|[A-Za-z_]\w*|<<|>>|\S/g,
+  );
+  if (!tokens) return null;
+
+  let position = 0;
+
+  const parseBinary = (level: number): number | null => {
+    if (level === BINARY_PRECEDENCE.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    while (
+      left !== null &&
+      BINARY_PRECEDENCE[level].includes(tokens[position])
+    ) {
+      const operator = tokens[position++];
+      const right = parseBinary(level + 1);
+      if (right === null) return null;
+      left = applyOperator(operator, left, right);
+    }
+    return left;
+  };
+
+  const parseUnary = (): number | null => {
+    const token = tokens[position++];
+    if (token === undefined) return null;
+
+    if (token === "-" || token === "+" || token === "~") {
+      const operand = parseUnary();
+      if (operand === null) return null;
+      return token === "-" ? -operand : token === "~" ? ~operand : operand;
+    }
+
+    if (token === "(") {
+      const value = parseBinary(0);
+      if (tokens[position++] !== ")") return null;
+      return value;
+    }
+
+    if (/^\d/.test(token)) return parseIntegerLiteral(token);
+    return constants.get(token) ?? null;
+  };
+
+  const result = parseBinary(0);
+  return position === tokens.length ? result : null;
+}
+
+/**
+ * Collect object-like `#define NAME value` constants from source code
+ * Each value may use constants defined above it, starting from `known`
+ * (the defines of earlier submissions); function-like macros and defines
+ * that are not integer constants are ignored.
+ */
+export function parseDefines(
+  code: string,
+  known: ReadonlyMap<string, number> = new Map(),
+): Map<string, number> {
+  const constants = new Map(known);
+  const cleaned = code
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/\/\/.*$/gm, "");
+
+  for (const match of cleaned.matchAll(
+    /^[ \t]*#[ \t]*define[ \t]+([A-Za-z_]\w*)[ \t]+(.+)$/gm,
+  )) {
+    const value = evaluateConstantExpression(match[2], constants);
+    if (value !== null) {
+      constants.set(match[1], value);
+    }
+  }
+
+  return constants;
+}
+
+function parseIntegerLiteral(token: string): number | null {
+  const literal = token.replace(/[uUlL]+$/, "");
+  let value: number;
+  if (/^0[xX][0-9a-fA-F]+$/.test(literal)) {
+    value = Number(literal);
+  } else if (/^0[0-7]+$/.test(literal)) {
+    value = parseInt(literal, 8);
+  } else if (/^\d+$/.test(literal)) {
+    value = parseInt(literal, 10);
+  } else {
+    return null;
+  }
+  return Number.isSafeInteger(value) ? value : null;
+}
+
+function applyOperator(
+  operator: string,
+  left: number,
+  right: number,
+): number | null {
+  switch (operator) {
+    case "*":
+      return left * right;
+    case "/":
+      return right === 0 ? null : Math.trunc(left / right);
+    case "%":
+      return right === 0 ? null : left % right;
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "<<":
+      return left * 2 ** right;
+    case ">>":
+      return Math.floor(left / 2 ** right);
+    case "&":
+      return left & right;
+    case "^":
+      return left ^ right;
+    case "|":
+      return left | right;
+    default:
+      return null;
+  }
+}
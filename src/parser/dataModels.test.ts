@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { DATA_MODELS, getDataModel, type DataModelId } from "./dataModels";
+import { computeStructLayout, getTypeSize, parseStruct } from "./structParser";
+
+function layoutOf(code: string, dataModel: DataModelId) {
+  const struct = parseStruct(code)!;
+  return computeStructLayout(struct, [struct], [], dataModel);
+}
+
+describe("getDataModel", () => {
+  it("falls back to LP64", () => {
+    expect(getDataModel(undefined).id).toBe("LP64");
+    expect(getDataModel("AVR").id).toBe("AVR");
+  });
+
+  it("never aligns a type beyond its size", () => {
+    for (const model of Object.values(DATA_MODELS)) {
+      for (const [kind, alignment] of Object.entries(model.alignments)) {
+        expect(alignment).toBeLessThanOrEqual(
+          model.sizes[kind as keyof typeof model.sizes],
+        );
+      }
+    }
+  });
+});
+
+describe("primitive sizes", () => {
+  it.each([
+    ["LP64", 4, 8, 8, 8],
+    ["LLP64", 4, 4, 8, 8],
+    ["ILP32", 4, 4, 8, 4],
+    ["AVR", 2, 4, 8, 2],
+  ] as const)(
+    "%s: int %i, long %i, long long %i, pointer %i",
+    (model, int, long, longLong, pointer) => {
+      expect(getTypeSize("int", [], [], model)).toBe(int);
+      expect(getTypeSize("long", [], [], model)).toBe(long);
+      expect(getTypeSize("long long", [], [], model)).toBe(longLong);
+      expect(getTypeSize("unsigned long", [], [], model)).toBe(long);
+      expect(DATA_MODELS[model].sizes.pointer).toBe(pointer);
+    },
+  );
+
+  it("keeps fixed-width types fixed", () => {
+    for (const model of Object.keys(DATA_MODELS) as DataModelId[]) {
+      expect(getTypeSize("uint8_t", [], [], model)).toBe(1);
+      expect(getTypeSize("int32_t", [], [], model)).toBe(4);
+      expect(getTypeSize("uint64_t", [], [], model)).toBe(8);
+    }
+  });
+});
+
+describe("struct layout per data model", () => {
+  // A list node: pointer width and alignment decide where next goes
+  const node = "struct Node { char tag; struct Node* next; long value; };";
+
+  it.each([
+    ["LP64", [0, 8, 16], 24],
+    ["LLP64", [0, 8, 16], 24],
+    ["ILP32", [0, 4, 8], 12],
+    ["AVR", [0, 1, 3], 7],
+  ] as const)("%s", (model, offsets, size) => {
+    const layout = layoutOf(node, model);
+    expect(layout.fields.map((f) => f.offset)).toEqual(offsets);
+    expect(layout.size).toBe(size);
+  });
+
+  it("aligns long long and double to 8 on ILP32 (AAPCS)", () => {
+    const layout = layoutOf("struct S { int i; double d; };", "ILP32");
+    expect(layout.fields[1].offset).toBe(8);
+    expect(layout.size).toBe(16);
+  });
+
+  it("has no alignment padding on AVR", () => {
+    const layout = layoutOf("struct S { char c; double d; int i; };", "AVR");
+    expect(layout.fields.map((f) => f.offset)).toEqual([0, 1, 5]);
+    expect(layout.size).toBe(7);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Target data models (ABIs)
+ * The same struct has a different size and layout depending on the
+ * platform it is compiled for: how wide int, long and pointers are, and
+ * how strictly each type must be aligned.
+ *
+ *            int  long  long long  pointer
+ * LP64        4     8       8         8     Linux/macOS x86-64, AArch64
+ * LLP64       4     4       8         8     Windows x64
+ * ILP32       4     4       8         4     32-bit ARM (AAPCS)
+ * AVR         2     4       8         2     8/16-bit AVR microcontrollers
+ *
+ * 32-bit x86 (i386) is not ILP32 here: inside structs it aligns long long
+ * and double to 4 bytes.
+ */
+
+export type DataModelId = "LP64" | "LLP64" | "ILP32" | "AVR";
+
+// Every primitive spelling maps onto one of these storage classes
+export type PrimitiveKind =
+  | "char"
+  | "short"
+  | "int"
+  | "long"
+  | "long long"
+  | "float"
+  | "double"
+  | "long double"
+  | "pointer";
+
+export interface DataModel {
+  id: DataModelId;
+  name: string;
+  description: string;
+  sizes: Record<PrimitiveKind, number>;
+  alignments: Record<PrimitiveKind, number>;
+}
+
+export const DEFAULT_DATA_MODEL: DataModelId = "LP64";
+
+export const DATA_MODELS: Record<DataModelId, DataModel> = {
+  LP64: {
+    id: "LP64",
+    name: "LP64",
+    description: "64-bit Linux / macOS (x86-64, AArch64)",
+    sizes: {
+      char: 1,
+      short: 2,
+      int: 4,
+      long: 8,
+      "long long": 8,
+      float: 4,
+      double: 8,
+      "long double": 16,
+      pointer: 8,
+    },
+    alignments: {
+      char: 1,
+      short: 2,
+      int: 4,
+      long: 8,
+      "long long": 8,
+      float: 4,
+      double: 8,
+      "long double": 16,
+      pointer: 8,
+    },
+  },
+  LLP64: {
+    id: "LLP64",
+    name: "LLP64",
+    description: "64-bit Windows (MSVC)",
+    sizes: {
+      char: 1,
+      short: 2,
+      int: 4,
+      long: 4,
+      "long long": 8,
+      float: 4,
+      double: 8,
+      "long double": 8,
+      pointer: 8,
+    },
+    alignments: {
+      char: 1,
+      short: 2,
+      int: 4,
+      long: 4,
+      "long long": 8,
+      float: 4,
+      double: 8,
+      "long double": 8,
+      pointer: 8,
+    },
+  },
+  ILP32: {
+    id: "ILP32",
+    name: "ILP32",
+    description: "32-bit ARM firmware (AAPCS)",
+    sizes: {
+      char: 1,
+      short: 2,
+      int: 4,
+      long: 4,
+      "long long": 8,
+      float: 4,
+      double: 8,
+      "long double": 8,
+      pointer: 4,
+    },
+    alignments: {
+      char: 1,
+      short: 2,
+      int: 4,
+      long: 4,
+      "long long": 8,
+      float: 4,
+      double: 8,
+      "long double": 8,
+      pointer: 4,
+    },
+  },
+  AVR: {
+    id: "AVR",
+    name: "16-bit (AVR)",
+    description: "8/16-bit microcontrollers (avr-gcc), no alignment padding",
+    sizes: {
+      char: 1,
+      short: 2,
+      int: 2,
+      long: 4,
+      "long long": 8,
+      float: 4,
+      double: 4,
+      "long double": 4,
+      pointer: 2,
+    },
+    alignments: {
+      char: 1,
+      short: 1,
+      int: 1,
+      long: 1,
+      "long long": 1,
+      float: 1,
+      double: 1,
+      "long double": 1,
+      pointer: 1,
+    },
+  },
+};
+
+export function getDataModel(id: DataModelId | undefined): DataModel {
+  return DATA_MODELS[id ?? DEFAULT_DATA_MODEL] ?? DATA_MODELS.LP64;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  findEnum,
+  formatEnumCode,
+  isEnumCode,
+  parseEnum,
+  validateEnumCode,
+} from "./enumParser";
+
+describe("parseEnum", () => {
+  it("numbers enumerators like a C compiler", () => {
+    const enumDef = parseEnum("enum State { IDLE, RUNNING = 4, STOPPED };");
+    expect(enumDef).toEqual({
+      name: "State",
+      typedef: undefined,
+      enumerators: [
+        { name: "IDLE", value: 0 },
+        { name: "RUNNING", value: 4 },
+        { name: "STOPPED", value: 5 },
+      ],
+    });
+  });
+
+  it("evaluates values from literals and earlier enumerators", () => {
+    const enumDef = parseEnum(
+      "enum Bits { A = 0x10, B = 010, C = A + B - 1, D = -1, E };",
+    );
+    expect(enumDef?.enumerators.map((e) => e.value)).toEqual([
+      16, 8, 23, -1, 0,
+    ]);
+  });
+
+  it("uses #define constants and full constant expressions", () => {
+    const enumDef = parseEnum(
+      "#define BASE 8\nenum Flags { F1 = 1 << 2, F2 = BASE * 2 | 1, F3 = F1 + F2 };",
+    );
+    expect(enumDef?.enumerators.map((e) => e.value)).toEqual([4, 17, 21]);
+  });
+
+  it("names anonymous typedef'd enums after the typedef", () => {
+    const enumDef = parseEnum("typedef enum { LOW = -1, HIGH = 1 } Level;");
+    expect(enumDef?.name).toBe("Level");
+    expect(enumDef?.typedef).toBe("Level");
+  });
+
+  it("accepts a trailing comma", () => {
+    expect(parseEnum("enum E { A, B, };")?.enumerators).toHaveLength(2);
+  });
+});
+
+describe("formatEnumCode", () => {
+  it("only spells out values that break the implicit sequence", () => {
+    const enumDef = parseEnum(
+      "typedef enum Color { RED, GREEN, BLUE = 7, CYAN } Color_t;",
+    )!;
+    expect(formatEnumCode(enumDef)).toBe(
+      "typedef enum Color {\n  RED,\n  GREEN,\n  BLUE = 7,\n  CYAN\n} Color_t;",
+    );
+  });
+});
+
+describe("validateEnumCode", () => {
+  const messages = (code: string, existing = [parseEnum("enum Old { X };")!]) =>
+    validateEnumCode(code, [], existing, false).map((e) => e.message);
+
+  it("accepts a valid enum", () => {
+    expect(messages("enum State { IDLE, RUNNING };")).toEqual([]);
+  });
+
+  it("reports duplicate names and enumerators", () => {
+    expect(messages("enum Old { Y };")).toEqual([
+      "Enum name 'Old' already exists!",
+    ]);
+    expect(messages("enum New { X };")).toEqual([
+      "Enumerator 'X' is already declared in another enum.",
+    ]);
+    expect(messages("enum New { A, A };")).toEqual([
+      "Duplicate enumerator 'A'",
+    ]);
+  });
+
+  it("reports empty enums and bad values", () => {
+    expect(messages("enum New { };")).toEqual([
+      "Enum must declare at least one enumerator.",
+    ]);
+    expect(messages("enum New { A = B };")).toEqual([
+      "Cannot evaluate value 'B' for enumerator 'A'",
+    ]);
+  });
+
+  it("points errors at the enumerator's line", () => {
+    const errors = validateEnumCode(
+      "enum New {\n  A,\n  B = ?,\n};",
+      [],
+      [],
+      false,
+    );
+    expect(errors.map((e) => e.line)).toEqual([3]);
+  });
+});
+
+describe("isEnumCode and findEnum", () => {
+  it("tells enums from structs", () => {
+    expect(isEnumCode("// states\ntypedef enum { A } E;")).toBe(true);
+    expect(isEnumCode("struct S { enum State s; };")).toBe(false);
+  });
+
+  it("finds an enum by tag or typedef", () => {
+    const enumDef = parseEnum("typedef enum Color { RED } Color_t;")!;
+    expect(findEnum("Color", [enumDef])).toBe(enumDef);
+    expect(findEnum("Color_t", [enumDef])).toBe(enumDef);
+    expect(findEnum("Other", [enumDef])).toBeUndefined();
+  });
+});
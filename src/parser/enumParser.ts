@@ -0,0 +1,280 @@
+import type { CEnum, CEnumerator, CStruct } from "../types";
+import type { ValidationError } from "./structParser";
+import { evaluateConstantExpression, parseDefines } from "./constantExpression";
+
+/**
+ * C enum parser
+ * Parses enum definitions like:
+ *
+ * enum State { IDLE, RUNNING = 4, STOPPED };
+ * typedef enum Color { RED, GREEN, BLUE } Color_t;
+ * typedef enum { LOW = -1, HIGH = 1 } Level;
+ *
+ * Enumerators without an explicit value continue counting from the
+ * previous one (starting at 0), exactly like a C compiler does.
+ * Explicit values may use earlier enumerators and #define constants.
+ */
+
+const TYPEDEF_ENUM_PATTERN =
+  /typedef\s+enum\s*(\w+)?\s*\{([\s\S]*)\}\s*(\w+)\s*;/;
+const ENUM_PATTERN = /enum\s+(\w+)\s*\{([\s\S]*)\}\s*;/;
+
+/**
+ * Check whether a code snippet declares an enum (rather than a struct/union)
+ */
+export function isEnumCode(code: string): boolean {
+  // Skip any #define lines in front of the declaration
+  const cleaned = stripComments(code).replace(/^[ \t]*#.*$/gm, "");
+  return /^\s*(typedef\s+)?enum\b/.test(cleaned);
+}
+
+export function parseEnum(
+  enumCode: string,
+  constants: Map<string, number> = parseDefines(enumCode),
+): CEnum | null {
+  try {
+    const cleaned = stripComments(enumCode);
+    const header = matchEnumHeader(cleaned);
+    if (!header) {
+      throw new Error(
+        "Invalid enum syntax. Expected: enum Name { A, B = 4, C }; or typedef enum Name { ... } TypedefName;",
+      );
+    }
+
+    const { enumerators, errors } = parseEnumBody(header.body, constants);
+    if (errors.length > 0) {
+      throw new Error(errors[0].message);
+    }
+
+    return { name: header.name, typedef: header.typedef, enumerators };
+  } catch (error) {
+    console.error("Parse error:", error);
+    return null;
+  }
+}
+
+/**
+ * Convert an enum definition back into C source code (for editing)
+ */
+export function formatEnumCode(enumDef: CEnum): string {
+  let nextImplicit = 0;
+  const body = enumDef.enumerators
+    .map((e) => {
+      // Only spell out values that differ from the implicit sequence
+      const line =
+        e.value === nextImplicit ? `  ${e.name}` : `  ${e.name} = ${e.value}`;
+      nextImplicit = e.value + 1;
+      return line;
+    })
+    .join(",\n");
+
+  return enumDef.typedef
+    ? `typedef enum ${enumDef.name} {\n${body}\n} ${enumDef.typedef};`
+    : `enum ${enumDef.name} {\n${body}\n};`;
+}
+
+/**
+ * Validate enum code and return detailed errors
+ */
+export function validateEnumCode(
+  code: string,
+  existingStructs: CStruct[],
+  existingEnums: CEnum[],
+  isEditing: boolean,
+  editingEnumName?: string,
+  constants: Map<string, number> = parseDefines(code),
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const cleaned = stripComments(code);
+  const header = matchEnumHeader(cleaned);
+
+  if (!header) {
+    errors.push({
+      line: 1,
+      message:
+        "Invalid enum syntax. Use 'enum Name { A, B = 4, C };' or 'typedef enum Name { ... } TypedefName;'",
+      type: "error",
+    });
+    return errors;
+  }
+
+  // Struct, union and enum tags share a single namespace in C
+  if (!isEditing || editingEnumName !== header.name) {
+    const nameExists =
+      existingEnums.some((e) => e.name === header.name) ||
+      existingStructs.some((s) => s.name === header.name);
+    if (nameExists) {
+      errors.push({
+        line: 1,
+        message: `Enum name '${header.name}' already exists!`,
+        type: "error",
+      });
+    }
+
+    if (
+      header.typedef &&
+      (existingEnums.some((e) => e.typedef === header.typedef) ||
+        existingStructs.some((s) => s.typedef === header.typedef))
+    ) {
+      errors.push({
+        line: cleaned.split("\n").length,
+        message: `Typedef name '${header.typedef}' already exists!`,
+        type: "error",
+      });
+    }
+  }
+
+  // Enumerator constants live in the ordinary identifier namespace,
+  // so they must be unique across every enum in the workspace
+  const otherEnumerators = new Set(
+    existingEnums
+      .filter((e) => !isEditing || e.name !== editingEnumName)
+      .flatMap((e) => e.enumerators.map((en) => en.name)),
+  );
+
+  const bodyStartLine = cleaned
+    .slice(0, cleaned.indexOf("{"))
+    .split("\n").length;
+  const {
+    enumerators,
+    lineOffsets,
+    errors: bodyErrors,
+  } = parseEnumBody(header.body, constants);
+
+  for (const err of bodyErrors) {
+    errors.push({
+      line: bodyStartLine + err.lineOffset,
+      message: err.message,
+      type: "error",
+    });
+  }
+
+  enumerators.forEach((enumerator, index) => {
+    if (otherEnumerators.has(enumerator.name)) {
+      errors.push({
+        line: bodyStartLine + lineOffsets[index],
+        message: `Enumerator '${enumerator.name}' is already declared in another enum.`,
+        type: "error",
+      });
+    }
+  });
+
+  if (enumerators.length === 0 && bodyErrors.length === 0) {
+    errors.push({
+      line: bodyStartLine,
+      message: "Enum must declare at least one enumerator.",
+      type: "error",
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Look up the enum a field type refers to (by tag or typedef name)
+ */
+export function findEnum(type: string, enums: CEnum[]): CEnum | undefined {
+  return enums.find((e) => e.name === type || e.typedef === type);
+}
+
+function stripComments(code: string): string {
+  return code.replace(/\/\/.*$/gm, "").replace(/\/\*[\s\S]*?\*\//g, "");
+}
+
+function matchEnumHeader(
+  cleaned: string,
+): { name: string; typedef?: string; body: string } | null {
+  const typedefMatch = cleaned.match(TYPEDEF_ENUM_PATTERN);
+  if (typedefMatch) {
+    return {
+      // Anonymous typedef'd enums are named after their typedef
+      name: typedefMatch[1] ?? typedefMatch[3],
+      typedef: typedefMatch[3],
+      body: typedefMatch[2],
+    };
+  }
+
+  const enumMatch = cleaned.match(ENUM_PATTERN);
+  if (enumMatch) {
+    return { name: enumMatch[1], body: enumMatch[2] };
+  }
+
+  return null;
+}
+
+function parseEnumBody(
+  body: string,
+  constants: Map<string, number>,
+): {
+  enumerators: CEnumerator[];
+  lineOffsets: number[];
+  errors: Array<{ lineOffset: number; message: string }>;
+} {
+  const enumerators: CEnumerator[] = [];
+  const lineOffsets: number[] = [];
+  const errors: Array<{ lineOffset: number; message: string }> = [];
+  const known = new Map<string, number>();
+  let nextValue = 0;
+  let lineOffset = 0;
+
+  const parts = body.split(",");
+  parts.forEach((part, index) => {
+    // Report errors on the line the enumerator itself starts on
+    const leading = part.slice(0, part.length - part.trimStart().length);
+    const partLineOffset = lineOffset + leading.split("\n").length - 1;
+    lineOffset += part.split("\n").length - 1;
+
+    const trimmed = part.trim();
+    // A trailing comma after the last enumerator is legal C
+    if (trimmed.length === 0) {
+      if (index !== parts.length - 1) {
+        errors.push({
+          lineOffset: partLineOffset,
+          message: "Empty enumerator (duplicate comma?)",
+        });
+      }
+      return;
+    }
+
+    const match = trimmed.match(/^([A-Za-z_]\w*)\s*(?:=\s*([\s\S]+))?$/);
+    if (!match) {
+      errors.push({
+        lineOffset: partLineOffset,
+        message: `Invalid enumerator syntax: ${trimmed.substring(0, 30)}`,
+      });
+      return;
+    }
+
+    const [, name, valueExpr] = match;
+    if (known.has(name)) {
+      errors.push({
+        lineOffset: partLineOffset,
+        message: `Duplicate enumerator '${name}'`,
+      });
+      return;
+    }
+
+    let value = nextValue;
+    if (valueExpr !== undefined) {
+      const resolved = evaluateConstantExpression(
+        valueExpr,
+        new Map([...constants, ...known]),
+      );
+      if (resolved === null) {
+        errors.push({
+          lineOffset: partLineOffset,
+          message: `Cannot evaluate value '${valueExpr.trim()}' for enumerator '${name}'`,
+        });
+        return;
+      }
+      value = resolved;
+    }
+
+    known.set(name, value);
+    enumerators.push({ name, value });
+    lineOffsets.push(partLineOffset);
+    nextValue = value + 1;
+  });
+
+  return { enumerators, lineOffsets, errors };
+}
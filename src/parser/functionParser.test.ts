@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatFunctionCode,
+  formatFunctionDeclaration,
+  isFunctionCode,
+  parseFunction,
+  validateFunctionCode,
+} from "./functionParser";
+import { parseStruct } from "./structParser";
+import type { CFunction } from "../types";
+
+const node = parseStruct("struct Node { int data; struct Node* next; };")!;
+
+describe("isFunctionCode", () => {
+  it("matches prototypes but not variables or typedefs", () => {
+    expect(isFunctionCode("int add(int a, int b);")).toBe(true);
+    expect(isFunctionCode("extern char *strdup(const char *s);")).toBe(true);
+    expect(isFunctionCode("int (*cmp)(int, int);")).toBe(false);
+    expect(isFunctionCode("typedef void (*Callback)(int);")).toBe(false);
+    expect(isFunctionCode("int add(int a, int b) { return a + b; }")).toBe(
+      false,
+    );
+  });
+});
+
+describe("parseFunction", () => {
+  it("keeps the signature in function pointer form", () => {
+    expect(parseFunction("int add(int a, int b);")).toEqual({
+      name: "add",
+      signature: "int(int, int)",
+      paramNames: ["a", "b"],
+    });
+  });
+
+  it("drops storage specifiers and omits unnamed parameters", () => {
+    expect(parseFunction("static void reset(void);")).toEqual({
+      name: "reset",
+      signature: "void(void)",
+    });
+  });
+});
+
+describe("formatFunctionDeclaration", () => {
+  it("puts parameter names back, inside function pointer parameters too", () => {
+    const fn = parseFunction(
+      "void sort(struct Node* list, int (*cmp)(int, int));",
+    )!;
+    expect(formatFunctionDeclaration(fn)).toBe(
+      "void sort(Node* list, int (*cmp)(int, int))",
+    );
+    expect(formatFunctionCode(parseFunction(formatFunctionCode(fn))!)).toBe(
+      formatFunctionCode(fn),
+    );
+  });
+});
+
+describe("validateFunctionCode", () => {
+  const messages = (code: string, functions: CFunction[] = []) =>
+    validateFunctionCode(code, [node], [], [], functions, false).map(
+      (e) => e.message,
+    );
+
+  it("accepts prototypes over known types and opaque pointers", () => {
+    expect(messages("struct Node* push(struct Node* head, int v);")).toEqual(
+      [],
+    );
+    expect(messages("void close(struct File* f);")).toEqual([]);
+  });
+
+  it("rejects duplicate names and parameters", () => {
+    expect(
+      messages("int add(int a, int b);", [
+        { name: "add", signature: "int(int, int)" },
+      ]),
+    ).toEqual(["Function 'add' already exists!"]);
+    expect(messages("int add(int a, int a);")).toEqual([
+      "Duplicate parameter 'a' in 'add'.",
+    ]);
+  });
+
+  it("needs complete types for values passed by value", () => {
+    expect(messages("void close(struct File f);")).toEqual([
+      "Unknown type 'File' in 'close'. Define it first or pass a pointer.",
+    ]);
+    expect(messages("int f(int a, void);")).toEqual([
+      "'void' must be the only parameter, as in 'f(void)'.",
+    ]);
+  });
+});
@@ -0,0 +1,217 @@
+import type { CEnum, CFunction, CStruct, CTypedef } from "../types";
+import {
+  formatParameterType,
+  isValidType,
+  parseSignature,
+  resolveFieldType,
+  splitSignature,
+  type ValidationError,
+} from "./structParser";
+import { parseDefines } from "./constantExpression";
+
+/**
+ * Function declaration parser
+ * Parses prototypes of functions that live in the workspace, so that
+ * function pointer members have something to point to:
+ *
+ * int add(int a, int b);
+ * char *strdup(const char *s);
+ * void qsort(void *base, size_t n, size_t size, int (*cmp)(const void *, const void *));
+ *
+ * The signature is kept in the same "ret(params)" form as the type of a
+ * function pointer member, so the two can be compared directly.
+ */
+
+// returnType name(params) - a function pointer variable has '(' before the name
+const PROTOTYPE_PATTERN =
+  /^\s*([^(){};=]*?)\b([A-Za-z_]\w*)\s*\(([^{};]*)\)\s*;\s*$/;
+const STORAGE_SPECIFIERS = /\b(extern|static|inline|_Noreturn)\b/g;
+
+/**
+ * Check whether a code snippet is a function prototype
+ */
+export function isFunctionCode(code: string): boolean {
+  return matchPrototype(stripComments(code)) !== null;
+}
+
+export function parseFunction(
+  functionCode: string,
+  constants: Map<string, number> = parseDefines(functionCode),
+): CFunction | null {
+  try {
+    const prototype = matchPrototype(stripComments(functionCode));
+    if (!prototype) {
+      throw new Error(
+        "Invalid function syntax. Expected: int add(int a, int b);",
+      );
+    }
+
+    const parsed = parseSignature(
+      prototype.returnText,
+      prototype.paramText,
+      constants,
+    );
+    if (!parsed) {
+      throw new Error(`Invalid signature for function '${prototype.name}'.`);
+    }
+
+    const paramNames = parsed.parameters.map((p) => p.name);
+    return {
+      name: prototype.name,
+      signature: parsed.signature,
+      ...(paramNames.some(Boolean) && { paramNames }),
+    };
+  } catch (error) {
+    console.error("Parse error:", error);
+    return null;
+  }
+}
+
+/**
+ * Convert a function back into C source code (for editing)
+ */
+export function formatFunctionCode(fn: CFunction): string {
+  return `${formatFunctionDeclaration(fn)};`;
+}
+
+/**
+ * Prototype of a function without the semicolon, with parameter names:
+ * "char* strdup(const char* s)"
+ */
+export function formatFunctionDeclaration(fn: CFunction): string {
+  const { returnType, params } = splitSignature(fn.signature);
+  const named = params.map((param, index) => {
+    const name = fn.paramNames?.[index];
+    if (!name || param === "void" || param === "...") return param;
+    // The name goes inside a function pointer parameter: int (*cmp)(...)
+    return param.includes("(*)")
+      ? param.replace("(*)", `(*${name})`)
+      : `${param} ${name}`;
+  });
+  return `${returnType} ${fn.name}(${named.join(", ")})`;
+}
+
+/**
+ * Validate function code and return detailed errors
+ */
+export function validateFunctionCode(
+  code: string,
+  existingStructs: CStruct[],
+  existingEnums: CEnum[],
+  existingTypedefs: CTypedef[],
+  existingFunctions: CFunction[],
+  isEditing: boolean,
+  editingFunctionName?: string,
+  constants: Map<string, number> = parseDefines(code),
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const cleaned = stripComments(code).replace(/^[ \t]*#.*$/gm, "");
+  const prototype = matchPrototype(cleaned);
+  const line = Math.max(
+    1,
+    cleaned.slice(0, cleaned.search(/\S/)).split("\n").length,
+  );
+
+  if (!prototype) {
+    errors.push({
+      line,
+      message:
+        "Invalid function syntax. Use a prototype such as 'int add(int a, int b);'",
+      type: "error",
+    });
+    return errors;
+  }
+
+  const parsed = parseSignature(
+    prototype.returnText,
+    prototype.paramText,
+    constants,
+  );
+  if (!parsed) {
+    errors.push({
+      line,
+      message: `Invalid signature for function '${prototype.name}'. Check the return type and every parameter.`,
+      type: "error",
+    });
+    return errors;
+  }
+
+  const otherFunctions = existingFunctions.filter(
+    (f) => !isEditing || f.name !== editingFunctionName,
+  );
+  if (otherFunctions.some((f) => f.name === prototype.name)) {
+    errors.push({
+      line,
+      message: `Function '${prototype.name}' already exists!`,
+      type: "error",
+    });
+  }
+  // Functions share the ordinary identifier namespace with typedef names
+  if (
+    existingTypedefs.some((t) => t.name === prototype.name) ||
+    existingStructs.some((s) => s.typedef === prototype.name) ||
+    existingEnums.some((e) => e.typedef === prototype.name)
+  ) {
+    errors.push({
+      line,
+      message: `'${prototype.name}' is already a typedef name.`,
+      type: "error",
+    });
+  }
+
+  const names = new Set<string>();
+  for (const param of parsed.parameters) {
+    if (!param.name) continue;
+    if (names.has(param.name)) {
+      errors.push({
+        line,
+        message: `Duplicate parameter '${param.name}' in '${prototype.name}'.`,
+        type: "error",
+      });
+    }
+    names.add(param.name);
+  }
+
+  // Parameters and the return value are passed by value, so they need a
+  // complete type; pointers may refer to types that are not defined yet
+  for (const field of [parsed.returnField, ...parsed.parameters]) {
+    if (field.type === "...") continue;
+    const resolved = resolveFieldType(field, existingTypedefs);
+    if (resolved.isPointer || resolved.isArray) continue;
+
+    if (field !== parsed.returnField && resolved.type === "void") {
+      errors.push({
+        line,
+        message: "'void' must be the only parameter, as in 'f(void)'.",
+        type: "error",
+      });
+    } else if (
+      !isValidType(field.type, existingStructs, existingEnums, existingTypedefs)
+    ) {
+      errors.push({
+        line,
+        message: `Unknown type '${formatParameterType(field) ?? field.type}' in '${prototype.name}'. Define it first or pass a pointer.`,
+        type: "error",
+      });
+    }
+  }
+
+  return errors;
+}
+
+function stripComments(code: string): string {
+  return code.replace(/\/\/.*$/gm, "").replace(/\/\*[\s\S]*?\*\//g, "");
+}
+
+function matchPrototype(
+  cleaned: string,
+): { returnText: string; name: string; paramText: string } | null {
+  const withoutDefines = cleaned.replace(/^[ \t]*#.*$/gm, "");
+  if (/^\s*typedef\b/.test(withoutDefines)) return null;
+  const match = withoutDefines.match(PROTOTYPE_PATTERN);
+  if (!match) return null;
+
+  const returnText = match[1].replace(STORAGE_SPECIFIERS, " ").trim();
+  if (!returnText) return null;
+  return { returnText, name: match[2], paramText: match[3] };
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { parseHeader } from "./headerParser";
+import { parseStruct } from "./structParser";
+
+const names = (code: string) =>
+  parseHeader(code, [], []).declarations.map((d) => d.name);
+
+describe("parseHeader", () => {
+  it("orders by-value dependencies before their users", () => {
+    expect(
+      names(`
+        struct Line { struct Point a; struct Point b; };
+        struct Point { int x; int y; };
+      `),
+    ).toEqual(["Point", "Line"]);
+  });
+
+  it("keeps source order when only pointers refer ahead", () => {
+    expect(
+      names(`
+        struct List { struct Node* head; int length; };
+        struct Node { int data; struct Node* next; };
+      `),
+    ).toEqual(["List", "Node"]);
+  });
+
+  it("orders enums used by value before the structs using them", () => {
+    const { declarations } = parseHeader(
+      `
+        struct Task { enum State state; int id; };
+        enum State { IDLE, RUNNING };
+      `,
+      [],
+      [],
+    );
+    expect(declarations.map((d) => [d.kind, d.name])).toEqual([
+      ["enum", "State"],
+      ["struct", "Task"],
+    ]);
+    expect(declarations.flatMap((d) => d.errors)).toEqual([]);
+  });
+
+  it("reports every declaration in a by-value cycle", () => {
+    const { declarations } = parseHeader(
+      `
+        struct A { struct B b; };
+        struct B { struct A a; };
+        struct C { int c; };
+      `,
+      [],
+      [],
+    );
+    expect(declarations.map((d) => d.name)).toEqual(["C", "A", "B"]);
+    const cycleMessage = (name: string) =>
+      `'${name}' is part of a circular by-value dependency. Use a pointer to break the cycle.`;
+    expect(declarations[0].errors).toEqual([]);
+    expect(declarations[1].errors.map((e) => e.message)).toContain(
+      cycleMessage("A"),
+    );
+    expect(declarations[2].errors.map((e) => e.message)).toContain(
+      cycleMessage("B"),
+    );
+  });
+
+  it("sizes arrays with the header's #define constants", () => {
+    const { declarations } = parseHeader(
+      "#define LEN 16\nstruct Name { char text[LEN + 1]; };",
+      [],
+      [],
+    );
+    expect(declarations[0].struct?.fields[0].arraySize).toBe(17);
+    expect(declarations[0].errors).toEqual([]);
+  });
+
+  it("attaches separate tag typedefs and skips forward declarations", () => {
+    const { declarations, skipped } = parseHeader(
+      `
+        struct Node;
+        typedef struct Node Node_t;
+        struct Node { int data; Node_t* next; };
+      `,
+      [],
+      [],
+    );
+    expect(declarations).toHaveLength(1);
+    expect(declarations[0].struct?.typedef).toBe("Node_t");
+    expect(declarations[0].errors).toEqual([]);
+    expect(skipped).toEqual([]);
+  });
+
+  it("skips code that is not a type declaration", () => {
+    const { declarations, skipped } = parseHeader(
+      `#include <stdio.h>
+#define MAX 10
+extern "C" {
+int counter;
+struct P { int x; };
+}`,
+      [],
+      [],
+    );
+    expect(declarations.map((d) => d.name)).toEqual(["P"]);
+    expect(skipped).toMatchObject([{ line: 4, type: "warning" }]);
+  });
+
+  it("reports lines relative to the whole header", () => {
+    const { declarations } = parseHeader(
+      "struct A { int a; };\n\nstruct B { Unknown u; };",
+      [],
+      [],
+    );
+    expect(declarations[1].errors).toMatchObject([{ line: 3, type: "error" }]);
+  });
+
+  it("validates against the workspace's existing structs", () => {
+    const existing = parseStruct("struct Point { int x; int y; };")!;
+    const { declarations } = parseHeader(
+      "struct Point { int x; }; struct Rect { struct Point min; };",
+      [existing],
+      [],
+    );
+    expect(declarations[0].errors.map((e) => e.message)).toEqual([
+      "Struct name 'Point' already exists!",
+    ]);
+    expect(declarations[1].errors).toEqual([]);
+  });
+});
@@ -0,0 +1,424 @@
+import type { CEnum, CField, CFunction, CStruct, CTypedef } from "../types";
+import {
+  collectPragmaPacks,
+  getPackAtLine,
+  parseStruct,
+  splitSignature,
+  validateStructCode,
+  type ValidationError,
+} from "./structParser";
+import { parseEnum, validateEnumCode } from "./enumParser";
+import { parseTypedef, validateTypedefCode } from "./typedefParser";
+import {
+  isFunctionCode,
+  parseFunction,
+  validateFunctionCode,
+} from "./functionParser";
+import { parseDefines } from "./constantExpression";
+import { DEFAULT_DATA_MODEL, type DataModelId } from "./dataModels";
+
+/**
+ * C header importer
+ * Splits a whole .h file into its top-level struct/union/enum/typedef
+ * declarations and function prototypes, and orders them so that every
+ * by-value dependency is defined before it is used. Pointer fields do
+ * not create a dependency because a pointer to an incomplete type is
+ * legal C (forward declaration).
+ */
+
+export interface HeaderDeclaration {
+  kind: "struct" | "union" | "enum" | "typedef" | "function";
+  name: string;
+  line: number; // Line where the declaration starts in the header
+  code: string; // Source of this declaration (comments stripped)
+  pack?: number; // #pragma pack in effect where the declaration starts
+  struct?: CStruct;
+  enumDef?: CEnum;
+  typedefDef?: CTypedef; // Standalone typedef (typedef unsigned int u32;)
+  functionDef?: CFunction; // Function prototype (int add(int a, int b);)
+  errors: ValidationError[]; // Line numbers are relative to the whole header
+}
+
+export interface HeaderParseResult {
+  declarations: HeaderDeclaration[]; // In dependency order
+  skipped: ValidationError[]; // Top-level code that is not a type declaration
+}
+
+interface RawDeclaration {
+  text: string;
+  line: number;
+}
+
+export function parseHeader(
+  code: string,
+  existingStructs: CStruct[],
+  existingEnums: CEnum[],
+  dataModel: DataModelId = DEFAULT_DATA_MODEL,
+  existingTypedefs: CTypedef[] = [],
+  existingFunctions: CFunction[] = [],
+  knownConstants: ReadonlyMap<string, number> = new Map(),
+): HeaderParseResult {
+  const skipped: ValidationError[] = [];
+  const declarations: HeaderDeclaration[] = [];
+  const tagTypedefs: Array<{ tag: string; typedef: string; line: number }> = [];
+  // #define constants, here or from earlier code, may be used in array
+  // sizes and enumerator values
+  const constants = parseDefines(code, knownConstants);
+  // #pragma pack(push, n) ... #pragma pack(pop) around declarations
+  const packDirectives = collectPragmaPacks(code);
+
+  for (const raw of splitDeclarations(code)) {
+    const text = raw.text.trim();
+
+    // Forward declarations (struct Node;) carry no layout information
+    if (/^(struct|union|enum)\s+\w+\s*;$/.test(text)) {
+      continue;
+    }
+
+    // typedef struct Node Node_t; - attach the typedef to the tag later
+    const tagTypedef = text.match(
+      /^typedef\s+(?:struct|union|enum)\s+(\w+)\s+(\w+)\s*;$/,
+    );
+    if (tagTypedef) {
+      tagTypedefs.push({
+        tag: tagTypedef[1],
+        typedef: tagTypedef[2],
+        line: raw.line,
+      });
+      continue;
+    }
+
+    if (/^(typedef\s+)?enum\b[^;{]*\{/.test(text)) {
+      const enumDef = parseEnum(text, constants);
+      declarations.push({
+        kind: "enum",
+        name: enumDef?.name ?? "(enum)",
+        line: raw.line,
+        code: text,
+        enumDef: enumDef ?? undefined,
+        errors: enumDef
+          ? []
+          : [
+              {
+                line: raw.line,
+                message: "Failed to parse enum",
+                type: "error",
+              },
+            ],
+      });
+      continue;
+    }
+
+    if (/^(typedef\s+)?(struct|union)\b[^;{]*\{/.test(text)) {
+      const pack = getPackAtLine(packDirectives, raw.line);
+      const struct = parseStruct(text, constants, pack);
+      declarations.push({
+        kind: struct?.kind ?? "struct",
+        name: struct?.name ?? "(struct)",
+        line: raw.line,
+        code: text,
+        pack,
+        struct: struct ?? undefined,
+        errors: struct
+          ? []
+          : [
+              {
+                line: raw.line,
+                message: "Failed to parse struct",
+                type: "error",
+              },
+            ],
+      });
+      continue;
+    }
+
+    // typedef unsigned int u32; typedef struct Node* NodePtr;
+    if (/^typedef\b[^{]*;$/.test(text)) {
+      const typedefDef = parseTypedef(text, constants);
+      if (typedefDef) {
+        declarations.push({
+          kind: "typedef",
+          name: typedefDef.name,
+          line: raw.line,
+          code: text,
+          typedefDef,
+          errors: [],
+        });
+        continue;
+      }
+    }
+
+    // int add(int a, int b); - target for function pointer members
+    if (isFunctionCode(text)) {
+      const functionDef = parseFunction(text, constants);
+      if (functionDef) {
+        declarations.push({
+          kind: "function",
+          name: functionDef.name,
+          line: raw.line,
+          code: text,
+          functionDef,
+          errors: [],
+        });
+        continue;
+      }
+    }
+
+    skipped.push({
+      line: raw.line,
+      message: text.startsWith("typedef")
+        ? `Unsupported typedef skipped: ${text.substring(0, 40)}`
+        : `Not a type declaration, skipped: ${text.substring(0, 40)}`,
+      type: "warning",
+    });
+  }
+
+  for (const directive of packDirectives) {
+    if (directive.error) {
+      skipped.push({
+        line: directive.line,
+        message: directive.error,
+        type: "warning",
+      });
+    }
+  }
+
+  // Apply separate "typedef struct Tag Alias;" declarations to their tag
+  for (const alias of tagTypedefs) {
+    const target = declarations.find((d) => d.name === alias.tag);
+    const definition = target?.struct ?? target?.enumDef;
+    if (!target || !definition) {
+      skipped.push({
+        line: alias.line,
+        message: `Typedef '${alias.typedef}' refers to '${alias.tag}', which is not defined in this header`,
+        type: "warning",
+      });
+    } else if (definition.typedef && definition.typedef !== alias.typedef) {
+      skipped.push({
+        line: alias.line,
+        message: `'${alias.tag}' already has typedef '${definition.typedef}'; only one typedef per type is supported`,
+        type: "warning",
+      });
+    } else {
+      definition.typedef = alias.typedef;
+    }
+  }
+
+  const ordered = orderByDependencies(declarations);
+
+  // Validate each declaration against the workspace plus everything that
+  // is ordered before it, exactly as if they were entered one by one
+  const knownStructs = [...existingStructs];
+  const knownEnums = [...existingEnums];
+  const knownTypedefs = [...existingTypedefs];
+  const knownFunctions = [...existingFunctions];
+
+  for (const decl of ordered) {
+    const relativeErrors = decl.enumDef
+      ? validateEnumCode(
+          decl.code,
+          knownStructs,
+          knownEnums,
+          false,
+          undefined,
+          constants,
+        )
+      : decl.struct
+        ? validateStructCode(
+            decl.code,
+            knownStructs,
+            false,
+            undefined,
+            knownEnums,
+            constants,
+            dataModel,
+            decl.pack,
+            knownTypedefs,
+          )
+        : decl.typedefDef
+          ? validateTypedefCode(
+              decl.code,
+              knownStructs,
+              knownEnums,
+              knownTypedefs,
+              false,
+              undefined,
+              constants,
+            )
+          : decl.functionDef
+            ? validateFunctionCode(
+                decl.code,
+                knownStructs,
+                knownEnums,
+                knownTypedefs,
+                knownFunctions,
+                false,
+                undefined,
+                constants,
+              )
+            : [];
+
+    decl.errors.push(
+      ...relativeErrors.map((err) => ({
+        ...err,
+        line: decl.line + err.line - 1,
+      })),
+    );
+
+    // Typedefs attached from a separate declaration are not in decl.code
+    const typedef = (decl.struct ?? decl.enumDef)?.typedef;
+    if (
+      typedef &&
+      !decl.errors.some((e) => e.message.includes(`'${typedef}'`)) &&
+      ([...knownStructs, ...knownEnums].some((d) => d.typedef === typedef) ||
+        knownTypedefs.some((t) => t.name === typedef))
+    ) {
+      decl.errors.push({
+        line: decl.line,
+        message: `Typedef name '${typedef}' already exists!`,
+        type: "error",
+      });
+    }
+
+    if (decl.errors.some((e) => e.type === "error")) continue;
+
+    if (decl.struct) knownStructs.push(decl.struct);
+    if (decl.enumDef) knownEnums.push(decl.enumDef);
+    if (decl.typedefDef) knownTypedefs.push(decl.typedefDef);
+    if (decl.functionDef) knownFunctions.push(decl.functionDef);
+  }
+
+  return { declarations: ordered, skipped };
+}
+
+/**
+ * Split header source into top-level declarations terminated by ';'
+ * Comments and preprocessor lines are blanked out first (keeping line
+ * numbers intact) and `extern "C" { ... }` wrappers are ignored.
+ */
+function splitDeclarations(code: string): RawDeclaration[] {
+  const blanked = code
+    .replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, " "))
+    .replace(/\/\/.*$/gm, "")
+    // Preprocessor directives, including backslash-continued lines
+    .replace(/^[ \t]*#(?:[^\n]*\\\n)*[^\n]*/gm, (directive) =>
+      directive.replace(/[^\n]/g, " "),
+    )
+    .replace(/extern\s+"C"\s*\{/g, (wrapper) => wrapper.replace(/[^\n]/g, " "));
+
+  const declarations: RawDeclaration[] = [];
+  let depth = 0;
+  let line = 1;
+  let start = 0;
+  let startLine = 1;
+
+  const beginIfEmpty = (index: number) => {
+    if (blanked.slice(start, index).trim().length === 0) {
+      start = index;
+      startLine = line;
+    }
+  };
+
+  for (let i = 0; i < blanked.length; i++) {
+    const ch = blanked[i];
+    if (!/\s/.test(ch)) beginIfEmpty(i);
+
+    if (ch === "\n") {
+      line++;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      if (depth === 0) {
+        // Closing brace of an extern "C" block
+        start = i + 1;
+        continue;
+      }
+      depth--;
+    } else if (ch === ";" && depth === 0) {
+      declarations.push({ text: blanked.slice(start, i + 1), line: startLine });
+      start = i + 1;
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * Stable topological sort on by-value field dependencies (Kahn's algorithm)
+ * Declarations caught in a by-value cycle get an error and keep source order.
+ */
+function orderByDependencies(
+  declarations: HeaderDeclaration[],
+): HeaderDeclaration[] {
+  const providerOf = (type: string) =>
+    declarations.find((d) => {
+      if (d.typedefDef) return d.typedefDef.name === type;
+      if (d.functionDef) return false;
+      const def = d.struct ?? d.enumDef;
+      return def && (def.name === type || def.typedef === type);
+    });
+
+  const dependencies = new Map<HeaderDeclaration, Set<HeaderDeclaration>>();
+  for (const decl of declarations) {
+    const deps = new Set<HeaderDeclaration>();
+    // A typedef needs its type first unless it only adds a pointer to it
+    const types = decl.typedefDef
+      ? decl.typedefDef.pointerLevel
+        ? []
+        : [decl.typedefDef.type]
+      : decl.functionDef
+        ? byValueSignatureTypes(decl.functionDef.signature)
+        : byValueTypes(decl.struct?.fields ?? []);
+    for (const type of types) {
+      const provider = providerOf(type);
+      if (provider && provider !== decl) deps.add(provider);
+    }
+    dependencies.set(decl, deps);
+  }
+
+  const ordered: HeaderDeclaration[] = [];
+  const remaining = [...declarations];
+
+  while (remaining.length > 0) {
+    const readyIndex = remaining.findIndex((decl) =>
+      [...dependencies.get(decl)!].every((dep) => ordered.includes(dep)),
+    );
+
+    if (readyIndex === -1) {
+      // Every remaining declaration waits on another one: a by-value cycle
+      for (const decl of remaining) {
+        decl.errors.push({
+          line: decl.line,
+          message: `'${decl.name}' is part of a circular by-value dependency. Use a pointer to break the cycle.`,
+          type: "error",
+        });
+      }
+      ordered.push(...remaining);
+      break;
+    }
+
+    ordered.push(remaining.splice(readyIndex, 1)[0]);
+  }
+
+  return ordered;
+}
+
+// Types a function takes or returns by value ("Point(const Point*, Size)"
+// needs Point and Size; pointers and function pointers need nothing)
+function byValueSignatureTypes(signature: string): string[] {
+  const { returnType, params } = splitSignature(signature);
+  return [returnType, ...params]
+    .filter((type) => !type.endsWith("*") && !type.includes("("))
+    .map((type) => type.split(" ").pop() ?? type);
+}
+
+// Types embedded by value, including those inside inline struct/union members
+function byValueTypes(fields: CField[]): string[] {
+  return fields.flatMap((field) =>
+    field.isPointer
+      ? []
+      : field.nestedFields
+        ? byValueTypes(field.nestedFields)
+        : [field.type],
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { countPaddingBytes, suggestFieldOrder } from "./layoutOptimizer";
+import { parseStruct } from "./structParser";
+import type { DataModelId } from "./dataModels";
+
+function suggest(code: string, dataModel?: DataModelId) {
+  const struct = parseStruct(code)!;
+  return suggestFieldOrder(struct, [struct], [], dataModel);
+}
+
+describe("suggestFieldOrder", () => {
+  it("orders members from the strictest alignment down", () => {
+    const suggestion = suggest(
+      "struct S { char a; double d; char b; int i; char c; };",
+    )!;
+    expect(suggestion.fields.map((f) => f.name)).toEqual([
+      "d",
+      "i",
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(suggestion.before.size).toBe(32);
+    expect(suggestion.after.size).toBe(16);
+    expect(suggestion.savedBytes).toBe(16);
+    expect(countPaddingBytes(suggestion.before)).toBe(17);
+    expect(countPaddingBytes(suggestion.after)).toBe(1);
+  });
+
+  it("depends on the data model", () => {
+    const code = "struct S { char c; long l; char d; };";
+    expect(suggest(code, "LP64")?.savedBytes).toBe(8);
+    expect(suggest(code, "AVR")).toBeNull();
+  });
+
+  it("moves a run of bit-fields as one block", () => {
+    const suggestion = suggest(
+      "struct F { char tag; double d; unsigned a : 3; unsigned b : 5; char t; };",
+    )!;
+    expect(suggestion.fields.map((f) => f.name)).toEqual([
+      "d",
+      "a",
+      "b",
+      "tag",
+      "t",
+    ]);
+    expect(suggestion.before.size).toBe(24);
+    expect(suggestion.after.size).toBe(16);
+  });
+
+  it("has nothing to suggest for tight structs and unions", () => {
+    expect(suggest("struct S { double d; int i; char c; };")).toBeNull();
+    expect(suggest("union U { char c; double d; };")).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import type { CEnum, CField, CStruct, CTypedef } from "../types";
+import {
+  computeStructLayout,
+  findPaddingHoles,
+  type StructLayout,
+} from "./structParser";
+import { DEFAULT_DATA_MODEL, type DataModelId } from "./dataModels";
+
+/**
+ * Field reordering to minimise padding
+ * Members are placed from the strictest alignment to the loosest, so every
+ * member starts on a boundary the previous ones already satisfy and only
+ * tail padding remains. A run of consecutive bit-fields is moved as one
+ * block because splitting it would change how the bits are packed.
+ */
+
+export interface ReorderSuggestion {
+  fields: CField[];
+  before: StructLayout;
+  after: StructLayout;
+  savedBytes: number;
+}
+
+interface FieldBlock {
+  fields: CField[];
+  alignment: number;
+  size: number;
+  position: number; // Original position, keeps the sort stable
+}
+
+/**
+ * Suggest a member order with the least padding for the given data model
+ * Returns null for unions (every member starts at offset 0) and when the
+ * current order is already as small as the suggestion.
+ */
+export function suggestFieldOrder(
+  struct: CStruct,
+  structs: CStruct[],
+  enums: CEnum[] = [],
+  dataModel: DataModelId = DEFAULT_DATA_MODEL,
+  typedefs: CTypedef[] = [],
+): ReorderSuggestion | null {
+  if (struct.kind === "union" || struct.fields.length < 2) return null;
+
+  const before = computeStructLayout(
+    struct,
+    structs,
+    enums,
+    dataModel,
+    typedefs,
+  );
+  const blocks = groupFieldBlocks(before);
+  const flexible = struct.fields.filter((field) => field.isFlexibleArray);
+
+  blocks.sort(
+    (a, b) =>
+      b.alignment - a.alignment || b.size - a.size || a.position - b.position,
+  );
+
+  // A flexible array member has to stay the last member
+  const fields = [...blocks.flatMap((block) => block.fields), ...flexible];
+  const after = computeStructLayout(
+    { ...struct, fields },
+    structs,
+    enums,
+    dataModel,
+    typedefs,
+  );
+
+  const savedBytes = before.size - after.size;
+  if (savedBytes <= 0) return null;
+
+  return { fields, before, after, savedBytes };
+}
+
+/**
+ * Total padding bytes in a layout (holes between members plus the tail)
+ */
+export function countPaddingBytes(layout: StructLayout): number {
+  return findPaddingHoles(layout).reduce((sum, hole) => sum + hole.size, 0);
+}
+
+function groupFieldBlocks(layout: StructLayout): FieldBlock[] {
+  const blocks: FieldBlock[] = [];
+  let bitFieldRun: FieldBlock | null = null;
+
+  layout.fields.forEach((fieldLayout, position) => {
+    const { field, alignment, size } = fieldLayout;
+    if (field.isFlexibleArray) return;
+
+    if (field.bitWidth !== undefined) {
+      if (!bitFieldRun) {
+        bitFieldRun = { fields: [], alignment: 1, size: 0, position };
+        blocks.push(bitFieldRun);
+      }
+      bitFieldRun.fields.push(field);
+      bitFieldRun.alignment = Math.max(bitFieldRun.alignment, alignment);
+      bitFieldRun.size = Math.max(bitFieldRun.size, size);
+      return;
+    }
+
+    bitFieldRun = null;
+    blocks.push({ fields: [field], alignment, size, position });
+  });
+
+  return blocks;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  STANDARD_TYPES,
+  getStandardTypeKind,
+  isStandardType,
+} from "./standardTypes";
+
+describe("isStandardType", () => {
+  it("knows the stdint, stddef and stdbool names", () => {
+    expect(isStandardType("uint8_t")).toBe(true);
+    expect(isStandardType("int_least16_t")).toBe(true);
+    expect(isStandardType("size_t")).toBe(true);
+    expect(isStandardType("bool")).toBe(true);
+    expect(isStandardType("int")).toBe(false);
+    expect(isStandardType("toString")).toBe(false);
+  });
+
+  it("records the header and signedness", () => {
+    expect(STANDARD_TYPES.uint16_t).toMatchObject({
+      header: "stdint.h",
+      unsigned: true,
+    });
+    expect(STANDARD_TYPES.ptrdiff_t).toMatchObject({
+      header: "stddef.h",
+      unsigned: false,
+    });
+  });
+});
+
+describe("getStandardTypeKind", () => {
+  it("picks the first integer type with the exact width", () => {
+    expect(getStandardTypeKind("int32_t", "LP64")).toBe("int");
+    expect(getStandardTypeKind("int32_t", "AVR")).toBe("long");
+    expect(getStandardTypeKind("int64_t", "LP64")).toBe("long");
+    expect(getStandardTypeKind("int64_t", "LLP64")).toBe("long long");
+    expect(getStandardTypeKind("uint8_t", "ILP32")).toBe("char");
+  });
+
+  it("makes pointer-sized types as wide as a pointer", () => {
+    expect(getStandardTypeKind("size_t", "LP64")).toBe("long");
+    expect(getStandardTypeKind("size_t", "LLP64")).toBe("long long");
+    expect(getStandardTypeKind("size_t", "ILP32")).toBe("int");
+  });
+
+  it("makes wchar_t 16 bits only on Windows", () => {
+    expect(getStandardTypeKind("wchar_t", "LLP64")).toBe("short");
+    expect(getStandardTypeKind("wchar_t", "LP64")).toBe("int");
+  });
+
+  it("ignores names outside the catalogue", () => {
+    expect(getStandardTypeKind("Node", "LP64")).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  getDataModel,
+  type DataModelId,
+  type PrimitiveKind,
+} from "./dataModels";
+
+/**
+ * Standard library types
+ * The typedefs from stdint.h, stddef.h, stdbool.h, wchar.h and uchar.h
+ * that real-world structs use all the time. They are not keywords, so each
+ * is mapped onto the integer type the C library declares it as for the
+ * selected data model:
+ *
+ * - exact/least-width types use the first of char, short, int, long and
+ *   long long with that many bits (int32_t is long on 16-bit AVR)
+ * - pointer-sized types (size_t, uintptr_t, ptrdiff_t, ...) use the
+ *   integer as wide as a pointer (long long on LLP64, int on ILP32)
+ * - wchar_t is 16 bits on Windows (LLP64) and int everywhere else
+ */
+
+export type StandardTypeWidth =
+  | { bits: number } // Integer with exactly this many bits
+  | "pointer" // Integer as wide as a data pointer
+  | "wchar"; // Platform wide character
+
+export interface StandardType {
+  header: string;
+  width: StandardTypeWidth;
+  unsigned: boolean;
+  isBoolean?: boolean;
+}
+
+const INTEGER_KINDS: PrimitiveKind[] = [
+  "char",
+  "short",
+  "int",
+  "long",
+  "long long",
+];
+
+function fixedWidthTypes(): Record<string, StandardType> {
+  const types: Record<string, StandardType> = {};
+  for (const bits of [8, 16, 32, 64]) {
+    for (const prefix of ["int", "int_least"]) {
+      types[`${prefix}${bits}_t`] = {
+        header: "stdint.h",
+        width: { bits },
+        unsigned: false,
+      };
+      types[`u${prefix}${bits}_t`] = {
+        header: "stdint.h",
+        width: { bits },
+        unsigned: true,
+      };
+    }
+  }
+  return types;
+}
+
+export const STANDARD_TYPES: Record<string, StandardType> = {
+  bool: {
+    header: "stdbool.h",
+    width: { bits: 8 },
+    unsigned: true,
+    isBoolean: true,
+  },
+  _Bool: {
+    header: "stdbool.h",
+    width: { bits: 8 },
+    unsigned: true,
+    isBoolean: true,
+  },
+  ...fixedWidthTypes(),
+  intmax_t: { header: "stdint.h", width: { bits: 64 }, unsigned: false },
+  uintmax_t: { header: "stdint.h", width: { bits: 64 }, unsigned: true },
+  intptr_t: { header: "stdint.h", width: "pointer", unsigned: false },
+  uintptr_t: { header: "stdint.h", width: "pointer", unsigned: true },
+  size_t: { header: "stddef.h", width: "pointer", unsigned: true },
+  ssize_t: { header: "sys/types.h", width: "pointer", unsigned: false },
+  ptrdiff_t: { header: "stddef.h", width: "pointer", unsigned: false },
+  wchar_t: { header: "wchar.h", width: "wchar", unsigned: false },
+  char16_t: { header: "uchar.h", width: { bits: 16 }, unsigned: true },
+  char32_t: { header: "uchar.h", width: { bits: 32 }, unsigned: true },
+};
+
+export function isStandardType(type: string): boolean {
+  return Object.hasOwn(STANDARD_TYPES, type);
+}
+
+/**
+ * Integer type a standard library typedef is declared as on this data model
+ * Returns undefined for names that are not in the catalogue.
+ */
+export function getStandardTypeKind(
+  type: string,
+  dataModel: DataModelId,
+): PrimitiveKind | undefined {
+  if (!isStandardType(type)) return undefined;
+
+  const model = getDataModel(dataModel);
+  const { width } = STANDARD_TYPES[type];
+  if (width === "wchar") {
+    return model.id === "LLP64" ? "short" : "int";
+  }
+
+  const bytes = width === "pointer" ? model.sizes.pointer : width.bits / 8;
+  return INTEGER_KINDS.find((kind) => model.sizes[kind] === bytes);
+}
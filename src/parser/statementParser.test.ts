@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { formatExpression, parseStatements } from "./statementParser";
+
+const isTypeName = (name: string) => name === "Node";
+
+describe("parseStatements", () => {
+  it("tells declarations apart from multiplication by the type names", () => {
+    const [declaration, product] = parseStatements(
+      "Node * n = NULL;\nx * n;",
+      isTypeName,
+    );
+    expect(declaration).toMatchObject({
+      kind: "declaration",
+      line: 1,
+      type: { type: "Node", pointerLevel: 0 },
+      declarators: [{ name: "n", pointerLevel: 1, init: { kind: "null" } }],
+    });
+    expect(product).toMatchObject({
+      kind: "expression",
+      line: 2,
+      expression: { kind: "binary", operator: "*" },
+    });
+  });
+
+  it("splits declarator lists and array lengths", () => {
+    const [statement] = parseStatements("int *p, q, values[4];", isTypeName);
+    expect(
+      statement.kind === "declaration" &&
+        statement.declarators.map((d) => [d.name, d.pointerLevel, d.length]),
+    ).toEqual([
+      ["p", 1, undefined],
+      ["q", 0, undefined],
+      ["values", 0, 4],
+    ]);
+  });
+
+  it("reports the line of a syntax error", () => {
+    expect(() => parseStatements("int x = 1;\nx = (2 + ;", isTypeName)).toThrow(
+      /^Line 2: /,
+    );
+  });
+});
+
+describe("formatExpression", () => {
+  it("parenthesises nested operators", () => {
+    const [statement] = parseStatements(
+      "head->next->data = x * 2 + 1;",
+      isTypeName,
+    );
+    expect(
+      statement.kind === "expression" && formatExpression(statement.expression),
+    ).toBe("head->next->data = (x * 2) + 1");
+  });
+});
@@ -0,0 +1,653 @@
+/**
+ * C statements for the console and the function stepper
+ * Parses statements and function definitions into a small syntax tree that
+ * the interpreter runs against the canvas:
+ *
+ * Node* n = malloc(sizeof(Node));
+ * n->data = 5;
+ * head->next = n;
+ * free(tmp);
+ *
+ * Expressions cover what pointer code needs: -> . [] & * and calls,
+ * sizeof, casts, arithmetic, comparisons, && || !, (compound) assignment
+ * and ++/--. Statements add blocks, if/else, while, for, break, continue
+ * and return. Errors are thrown with the line they were found on.
+ */
+
+// Type as written in a declaration, cast or sizeof, without struct/union/enum
+export interface TypeName {
+  type: string; // "Node", "int", "unsigned long"
+  pointerLevel: number;
+}
+
+export type Expression =
+  | { kind: "number"; value: number; isFloat?: boolean }
+  | { kind: "string"; value: string }
+  | { kind: "null" }
+  | { kind: "name"; name: string }
+  | { kind: "member"; object: Expression; member: string; arrow: boolean }
+  | { kind: "index"; object: Expression; index: Expression }
+  | { kind: "call"; callee: string; args: Expression[] }
+  | { kind: "unary"; operator: string; operand: Expression } // & * ! - + ~ ++ --
+  | { kind: "postfix"; operator: "++" | "--"; operand: Expression }
+  | { kind: "binary"; operator: string; left: Expression; right: Expression }
+  | { kind: "assign"; operator: string; target: Expression; value: Expression }
+  | { kind: "sizeof"; type?: TypeName; operand?: Expression }
+  | { kind: "cast"; type: TypeName; operand: Expression };
+
+export interface Declarator {
+  name: string;
+  pointerLevel: number; // Stars on the declarator itself: "int *p, q"
+  length?: number; // Array: "int values[4]"
+  init?: Expression;
+}
+
+export type Statement =
+  | {
+      kind: "declaration";
+      line: number;
+      type: TypeName;
+      declarators: Declarator[];
+    }
+  | { kind: "expression"; line: number; expression: Expression }
+  | { kind: "block"; line: number; body: Statement[] } // Also ";" (empty)
+  | {
+      kind: "if";
+      line: number;
+      condition: Expression;
+      then: Statement;
+      else?: Statement;
+    }
+  | { kind: "while"; line: number; condition: Expression; body: Statement }
+  | {
+      kind: "for";
+      line: number;
+      init?: SimpleStatement;
+      condition?: Expression;
+      update?: Expression;
+      body: Statement;
+    }
+  | { kind: "return"; line: number; value?: Expression }
+  | { kind: "break" | "continue"; line: number };
+
+// Statements without control flow
+export type SimpleStatement = Extract<
+  Statement,
+  { kind: "declaration" | "expression" }
+>;
+
+export interface Parameter {
+  name: string;
+  type: TypeName; // "int a[]" is passed as int*
+}
+
+export interface FunctionDefinition {
+  name: string;
+  returnType: TypeName;
+  parameters: Parameter[];
+  body: Statement[];
+  line: number;
+  endLine: number; // Line of the closing brace
+}
+
+interface Token {
+  text: string;
+  line: number;
+}
+
+// Binary operators from lowest to highest precedence
+const BINARY_PRECEDENCE: string[][] = [
+  ["||"],
+  ["&&"],
+  ["|"],
+  ["^"],
+  ["&"],
+  ["==", "!="],
+  ["<", ">", "<=", ">="],
+  ["<<", ">>"],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+const ASSIGNMENT_OPERATORS = ["=", "+=", "-=", "*=", "/=", "%="];
+
+// Keywords that can only start a type
+const TYPE_KEYWORDS = [
+  "struct",
+  "union",
+  "enum",
+  "const",
+  "volatile",
+  "signed",
+  "unsigned",
+  "short",
+  "long",
+  "int",
+  "char",
+  "float",
+  "double",
+  "void",
+  "_Bool",
+];
+
+const TOKEN_PATTERN =
+  /\/\/[^\n]*|\/\*[\s\S]*?\*\/|\n|[ \t\r]+|0[xX][0-9a-fA-F]+[uUlL]*|(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?[uUlLfF]*|[A-Za-z_]\w*|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)+'|->|\+\+|--|<<|>>|<=|>=|==|!=|&&|\|\||[-+*/%]=|\S/g;
+
+function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  for (const [text] of code.matchAll(TOKEN_PATTERN)) {
+    line += (text.match(/\n/g) ?? []).length;
+    if (/^\s|^\/[/*]/.test(text)) continue;
+    tokens.push({ text, line });
+  }
+  return tokens;
+}
+
+/**
+ * Parse statements as typed into the console
+ * isTypeName tells declarations apart from expressions: "Node * n" declares
+ * n when Node is a type and multiplies otherwise.
+ */
+export function parseStatements(
+  code: string,
+  isTypeName: (name: string) => boolean,
+): Statement[] {
+  const parser = createParser(tokenize(code), isTypeName);
+  const statements: Statement[] = [];
+  while (!parser.atEnd()) statements.push(parser.parseStatement());
+  return statements;
+}
+
+/**
+ * Parse function definitions for the stepper. Prototypes are skipped, so
+ * a pasted file may declare its helpers before defining them.
+ *
+ * void insert(Node** head, int v) { ... }
+ */
+export function parseFunctions(
+  code: string,
+  isTypeName: (name: string) => boolean,
+): FunctionDefinition[] {
+  const parser = createParser(tokenize(code), isTypeName);
+  const functions: FunctionDefinition[] = [];
+  while (!parser.atEnd()) {
+    const fn = parser.parseFunction();
+    if (!fn) continue;
+    if (functions.some((f) => f.name === fn.name)) {
+      throw new Error(`Line ${fn.line}: Redefinition of '${fn.name}'.`);
+    }
+    functions.push(fn);
+  }
+  if (functions.length === 0) {
+    throw new Error(
+      "No function found. Expected: void insert(Node** head, int v) { ... }",
+    );
+  }
+  return functions;
+}
+
+function createParser(tokens: Token[], isTypeName: (name: string) => boolean) {
+  let position = 0;
+  // Enclosing loops and whether a function body is being parsed, for
+  // break, continue and return
+  let loopDepth = 0;
+  let inFunction = false;
+
+  const peek = (offset = 0) => tokens[position + offset]?.text;
+  const currentLine = () =>
+    (tokens[position] ?? tokens[tokens.length - 1])?.line ?? 1;
+  const fail = (message: string): never => {
+    throw new Error(`Line ${currentLine()}: ${message}`);
+  };
+  const expect = (text: string) => {
+    if (peek() !== text) {
+      fail(
+        peek() === undefined
+          ? `Expected '${text}' at the end of the input.`
+          : `Expected '${text}' but found '${peek()}'.`,
+      );
+    }
+    position++;
+  };
+  const expectIdentifier = (what: string): string => {
+    const token = peek();
+    if (!token || !/^[A-Za-z_]\w*$/.test(token)) {
+      fail(`Expected ${what} but found '${token ?? "end of input"}'.`);
+    }
+    position++;
+    return token!;
+  };
+
+  const isTypeStart = (offset = 0) => {
+    const token = peek(offset);
+    return (
+      !!token &&
+      (TYPE_KEYWORDS.includes(token) ||
+        (/^[A-Za-z_]\w*$/.test(token) && isTypeName(token)))
+    );
+  };
+
+  const parseTypeName = (): TypeName => {
+    const words: string[] = [];
+    while (peek() === "const" || peek() === "volatile") position++;
+
+    if (["struct", "union", "enum"].includes(peek()!)) {
+      position++;
+      words.push(expectIdentifier("a type name"));
+    } else if (TYPE_KEYWORDS.includes(peek()!)) {
+      while (TYPE_KEYWORDS.includes(peek()!)) {
+        const word = tokens[position++].text;
+        if (word !== "const" && word !== "volatile") words.push(word);
+      }
+    } else {
+      words.push(expectIdentifier("a type name"));
+    }
+    while (peek() === "const" || peek() === "volatile") position++;
+
+    return { type: words.join(" "), pointerLevel: parseStars() };
+  };
+
+  const parseStars = (): number => {
+    let stars = 0;
+    while (peek() === "*" || peek() === "const") {
+      if (tokens[position++].text === "*") stars++;
+    }
+    return stars;
+  };
+
+  const parseExpression = (): Expression => parseAssignment();
+
+  const parseAssignment = (): Expression => {
+    const target = parseBinary(0);
+    if (ASSIGNMENT_OPERATORS.includes(peek()!)) {
+      const operator = tokens[position++].text;
+      return { kind: "assign", operator, target, value: parseAssignment() };
+    }
+    return target;
+  };
+
+  const parseBinary = (level: number): Expression => {
+    if (level === BINARY_PRECEDENCE.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    while (BINARY_PRECEDENCE[level].includes(peek()!)) {
+      const operator = tokens[position++].text;
+      left = { kind: "binary", operator, left, right: parseBinary(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expression => {
+    const token = peek();
+    if (["&", "*", "!", "-", "+", "~", "++", "--"].includes(token!)) {
+      position++;
+      return { kind: "unary", operator: token!, operand: parseUnary() };
+    }
+
+    if (token === "sizeof") {
+      position++;
+      if (peek() === "(" && isTypeStart(1)) {
+        position++;
+        const type = parseTypeName();
+        expect(")");
+        return { kind: "sizeof", type };
+      }
+      return { kind: "sizeof", operand: parseUnary() };
+    }
+
+    // Cast: (Node*)malloc(...)
+    if (token === "(" && isTypeStart(1)) {
+      position++;
+      const type = parseTypeName();
+      expect(")");
+      return { kind: "cast", type, operand: parseUnary() };
+    }
+
+    return parsePostfix(parsePrimary());
+  };
+
+  const parsePostfix = (expression: Expression): Expression => {
+    for (;;) {
+      const token = peek();
+      if (token === "[") {
+        position++;
+        const index = parseExpression();
+        expect("]");
+        expression = { kind: "index", object: expression, index };
+      } else if (token === "." || token === "->") {
+        position++;
+        const member = expectIdentifier("a member name");
+        expression = {
+          kind: "member",
+          object: expression,
+          member,
+          arrow: token === "->",
+        };
+      } else if (token === "++" || token === "--") {
+        position++;
+        expression = { kind: "postfix", operator: token, operand: expression };
+      } else if (token === "(") {
+        if (expression.kind !== "name") {
+          return fail("Only named functions can be called.");
+        }
+        position++;
+        const args: Expression[] = [];
+        while (peek() !== ")") {
+          args.push(parseAssignment());
+          if (peek() !== ")") expect(",");
+        }
+        position++;
+        expression = {
+          kind: "call",
+          callee: expression.name,
+          args,
+        };
+      } else {
+        return expression;
+      }
+    }
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = peek();
+    if (token === undefined) return fail("Expected an expression.");
+    position++;
+
+    if (token === "(") {
+      const expression = parseExpression();
+      expect(")");
+      return expression;
+    }
+    if (token === "NULL") return { kind: "null" };
+    if (token === "true" || token === "false") {
+      return { kind: "number", value: token === "true" ? 1 : 0 };
+    }
+    if (/^[A-Za-z_]/.test(token)) return { kind: "name", name: token };
+    if (/^[\d.]/.test(token)) return parseNumber(token);
+    if (token.startsWith("'")) {
+      const value = decodeEscapes(token.slice(1, -1));
+      if (value.length !== 1) fail(`Invalid character constant ${token}.`);
+      return { kind: "number", value: value.charCodeAt(0) };
+    }
+    if (token.startsWith('"')) {
+      return { kind: "string", value: decodeEscapes(token.slice(1, -1)) };
+    }
+
+    position--;
+    return fail(`Unexpected '${token}'.`);
+  };
+
+  const parseNumber = (token: string): Expression => {
+    const isFloat =
+      !/^0[xX]/.test(token) &&
+      /[.eE]|[fF]$/.test(token.replace(/[uUlL]+$/, ""));
+    const value = isFloat
+      ? parseFloat(token)
+      : /^0[0-7]+$/.test(token.replace(/[uUlL]+$/, ""))
+        ? parseInt(token, 8)
+        : Number(token.replace(/[uUlL]+$/, ""));
+    if (Number.isNaN(value)) {
+      position--;
+      fail(`Invalid number '${token}'.`);
+    }
+    return { kind: "number", value, ...(isFloat && { isFloat }) };
+  };
+
+  const parseDeclaration = (line: number): SimpleStatement => {
+    const type = parseTypeName();
+    const declarators: Declarator[] = [];
+    // "Node *a, *b": the stars after the type belong to the first declarator
+    let pointerLevel = type.pointerLevel;
+    type.pointerLevel = 0;
+
+    for (;;) {
+      pointerLevel += parseStars();
+      const name = expectIdentifier("a variable name");
+      const declarator: Declarator = { name, pointerLevel };
+      if (peek() === "[") {
+        position++;
+        const length = Number(peek());
+        if (!Number.isInteger(length) || length <= 0) {
+          fail("Array lengths must be positive integer constants.");
+        }
+        position++;
+        expect("]");
+        declarator.length = length;
+      }
+      if (peek() === "=") {
+        position++;
+        declarator.init = parseAssignment();
+      }
+      declarators.push(declarator);
+
+      if (peek() !== ",") break;
+      position++;
+      pointerLevel = 0;
+    }
+
+    return { kind: "declaration", line, type, declarators };
+  };
+
+  // Declaration or expression statement, without the semicolon
+  const parseSimpleStatement = (): SimpleStatement => {
+    const line = currentLine();
+    return isTypeStart()
+      ? parseDeclaration(line)
+      : { kind: "expression", line, expression: parseExpression() };
+  };
+
+  const parseCondition = (): Expression => {
+    expect("(");
+    const condition = parseExpression();
+    expect(")");
+    return condition;
+  };
+
+  const parseLoopBody = (): Statement => {
+    loopDepth++;
+    try {
+      return parseStatement();
+    } finally {
+      loopDepth--;
+    }
+  };
+
+  const parseBlock = (): Statement & { kind: "block" } => {
+    const line = currentLine();
+    expect("{");
+    const body: Statement[] = [];
+    while (peek() !== "}") {
+      if (peek() === undefined) fail("Expected '}' at the end of the input.");
+      body.push(parseStatement());
+    }
+    position++;
+    return { kind: "block", line, body };
+  };
+
+  const parseStatement = (): Statement => {
+    const line = currentLine();
+    switch (peek()) {
+      case "{":
+        return parseBlock();
+      case ";":
+        position++;
+        return { kind: "block", line, body: [] };
+      case "if": {
+        position++;
+        const condition = parseCondition();
+        const then = parseStatement();
+        if (peek() !== "else") return { kind: "if", line, condition, then };
+        position++;
+        return { kind: "if", line, condition, then, else: parseStatement() };
+      }
+      case "while": {
+        position++;
+        const condition = parseCondition();
+        return { kind: "while", line, condition, body: parseLoopBody() };
+      }
+      case "for": {
+        position++;
+        expect("(");
+        const init = peek() === ";" ? undefined : parseSimpleStatement();
+        expect(";");
+        const condition = peek() === ";" ? undefined : parseExpression();
+        expect(";");
+        const update = peek() === ")" ? undefined : parseExpression();
+        expect(")");
+        return {
+          kind: "for",
+          line,
+          ...(init && { init }),
+          ...(condition && { condition }),
+          ...(update && { update }),
+          body: parseLoopBody(),
+        };
+      }
+      case "return": {
+        if (!inFunction) fail("'return' is only allowed inside a function.");
+        position++;
+        const value = peek() === ";" ? undefined : parseExpression();
+        expect(";");
+        return { kind: "return", line, ...(value && { value }) };
+      }
+      case "break":
+      case "continue": {
+        const kind = tokens[position].text as "break" | "continue";
+        if (loopDepth === 0) fail(`'${kind}' is only allowed inside a loop.`);
+        position++;
+        expect(";");
+        return { kind, line };
+      }
+      case "else":
+        return fail("'else' without a matching 'if'.");
+    }
+    const statement = parseSimpleStatement();
+    expect(";");
+    return statement;
+  };
+
+  // Definition, or undefined for a prototype
+  const parseFunction = (): FunctionDefinition | undefined => {
+    const line = currentLine();
+    while (["static", "inline", "extern"].includes(peek()!)) position++;
+    if (!isTypeStart()) {
+      fail(
+        `Expected a function definition but found '${peek() ?? "end of input"}'.`,
+      );
+    }
+    const returnType = parseTypeName();
+    const name = expectIdentifier("a function name");
+    expect("(");
+
+    const parameters: Parameter[] = [];
+    if (peek() === "void" && peek(1) === ")") position++;
+    while (peek() !== ")") {
+      const type = parseTypeName();
+      const parameterName = expectIdentifier("a parameter name");
+      // "int values[]" and "int values[4]" are pointers
+      if (peek() === "[") {
+        while (peek() !== "]") {
+          if (peek() === undefined) expect("]");
+          position++;
+        }
+        position++;
+        type.pointerLevel++;
+      }
+      parameters.push({ name: parameterName, type });
+      if (peek() !== ")") expect(",");
+    }
+    position++;
+
+    if (peek() === ";") {
+      position++;
+      return undefined;
+    }
+    inFunction = true;
+    try {
+      const { body } = parseBlock();
+      return {
+        name,
+        returnType,
+        parameters,
+        body,
+        line,
+        endLine: tokens[position - 1].line,
+      };
+    } finally {
+      inFunction = false;
+    }
+  };
+
+  return {
+    atEnd: () => position >= tokens.length,
+    parseStatement,
+    parseFunction,
+  };
+}
+
+/**
+ * C source of an expression, for messages ("head->next", "*pp")
+ */
+export function formatExpression(expression: Expression): string {
+  const operand = (e: Expression) =>
+    ["binary", "assign", "cast"].includes(e.kind)
+      ? `(${formatExpression(e)})`
+      : formatExpression(e);
+  // Postfix operators bind tighter than unary ones: (*pp)->next
+  const postfixOperand = (e: Expression) =>
+    ["unary", "sizeof"].includes(e.kind)
+      ? `(${formatExpression(e)})`
+      : operand(e);
+
+  switch (expression.kind) {
+    case "number":
+      return String(expression.value);
+    case "string":
+      return JSON.stringify(expression.value);
+    case "null":
+      return "NULL";
+    case "name":
+      return expression.name;
+    case "member":
+      return `${postfixOperand(expression.object)}${expression.arrow ? "->" : "."}${expression.member}`;
+    case "index":
+      return `${postfixOperand(expression.object)}[${formatExpression(expression.index)}]`;
+    case "call":
+      return `${expression.callee}(${expression.args.map(formatExpression).join(", ")})`;
+    case "unary":
+      return `${expression.operator}${operand(expression.operand)}`;
+    case "postfix":
+      return `${postfixOperand(expression.operand)}${expression.operator}`;
+    case "binary":
+      return `${operand(expression.left)} ${expression.operator} ${operand(expression.right)}`;
+    case "assign":
+      return `${formatExpression(expression.target)} ${expression.operator} ${formatExpression(expression.value)}`;
+    case "sizeof":
+      return expression.type
+        ? `sizeof(${formatTypeName(expression.type)})`
+        : `sizeof ${operand(expression.operand!)}`;
+    case "cast":
+      return `(${formatTypeName(expression.type)})${operand(expression.operand)}`;
+  }
+}
+
+export function formatTypeName(type: TypeName): string {
+  return `${type.type}${"*".repeat(type.pointerLevel)}`;
+}
+
+/**
+ * Text of a character or string literal with its escapes (\n, \t, \0) decoded
+ */
+export function decodeEscapes(text: string): string {
+  const escapes: Record<string, string> = {
+    n: "\n",
+    t: "\t",
+    r: "\r",
+    "0": "\0",
+    "\\": "\\",
+    "'": "'",
+    '"': '"',
+  };
+  return text.replace(/\\(.)/g, (_, c: string) => escapes[c] ?? c);
+}
@@ -0,0 +1,384 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateStructSize,
+  canPointToValue,
+  computeStructLayout,
+  findAddressableField,
+  findFieldByPath,
+  findPaddingHoles,
+  formatStructCode,
+  getActiveUnionMembers,
+  getAllocatedSize,
+  getBitFieldRange,
+  parseStruct,
+  validateStructCode,
+} from "./structParser";
+import type { CStruct } from "../types";
+
+function layoutOf(code: string) {
+  const struct = parseStruct(code);
+  if (!struct) throw new Error(`Failed to parse: ${code}`);
+  return computeStructLayout(struct, [struct]);
+}
+
+// [name, offset] pairs, with the bit offset for bit-fields
+function offsets(code: string) {
+  return layoutOf(code).fields.map((f) =>
+    f.bitOffset === undefined
+      ? [f.field.name, f.offset]
+      : [f.field.name, f.offset, f.bitOffset],
+  );
+}
+
+describe("parseStruct", () => {
+  it("parses a typedef'd self-referential struct", () => {
+    const struct = parseStruct(
+      "typedef struct Node { int data; struct Node* next; } Node_t;",
+    );
+    expect(struct?.name).toBe("Node");
+    expect(struct?.typedef).toBe("Node_t");
+    expect(struct?.kind).toBe("struct");
+    expect(struct?.fields.map((f) => [f.name, f.type, f.isPointer])).toEqual([
+      ["data", "int", false],
+      ["next", "Node", true],
+    ]);
+  });
+
+  it("splits comma-separated declarators", () => {
+    const struct = parseStruct("struct P { int x, *y, z[2]; };");
+    expect(
+      struct?.fields.map((f) => [f.name, f.isPointer, f.arraySize]),
+    ).toEqual([
+      ["x", false, undefined],
+      ["y", true, undefined],
+      ["z", false, 2],
+    ]);
+  });
+
+  it("sizes multi-dimensional arrays with #define constants", () => {
+    const struct = parseStruct(
+      "#define N 4\nstruct Grid { int cells[N][N + 1]; };",
+    );
+    expect(struct?.fields[0].arraySize).toBe(20);
+    expect(struct?.fields[0].arrayDimensions).toEqual([4, 5]);
+    expect(calculateStructSize(struct!, [struct!])).toBe(80);
+  });
+
+  it("keeps qualifiers on the type and on the pointer", () => {
+    const struct = parseStruct(
+      "struct S { const char* name; char* const cursor; volatile int flag; };",
+    );
+    expect(
+      struct?.fields.map((f) => [f.name, f.qualifiers, f.pointerQualifiers]),
+    ).toEqual([
+      ["name", ["const"], undefined],
+      ["cursor", undefined, ["const"]],
+      ["flag", ["volatile"], undefined],
+    ]);
+    expect(formatStructCode(struct!)).toContain("char* const cursor;");
+  });
+
+  it("parses nested and anonymous members", () => {
+    const struct = parseStruct(`struct Shape {
+      int kind;
+      struct { int x, y; } pos;
+      union { float radius; int side; };
+    };`)!;
+    const [, pos, anonymous] = struct.fields;
+    expect(pos).toMatchObject({ name: "pos", nestedKind: "struct" });
+    expect(pos.nestedFields?.map((f) => f.name)).toEqual(["x", "y"]);
+    expect(anonymous.name).toBeFalsy();
+    expect(anonymous.nestedKind).toBe("union");
+
+    expect(findFieldByPath(struct.fields, "pos.y")?.type).toBe("int");
+    expect(findFieldByPath(struct.fields, "radius")?.type).toBe("float");
+    expect(findFieldByPath(struct.fields, "pos.z")).toBeUndefined();
+
+    const layout = computeStructLayout(struct, [struct]);
+    expect(layout.fields.map((f) => f.offset)).toEqual([0, 4, 12]);
+    expect(layout.size).toBe(16);
+  });
+
+  it("parses unions", () => {
+    const union = parseStruct("union Value { int i; float f; char c[8]; };");
+    expect(union?.kind).toBe("union");
+    expect(union?.fields.map((f) => f.name)).toEqual(["i", "f", "c"]);
+  });
+
+  it("finds the union members a write makes active", () => {
+    const shape = parseStruct(`struct Shape {
+      int kind;
+      union { int i; struct { float x, y; }; };
+      union { int n; char c[4]; } data[2];
+    };`)!;
+    expect(getActiveUnionMembers(shape, "i")).toEqual({ "#1": "i" });
+    // The anonymous struct is the member of the union that was written
+    expect(getActiveUnionMembers(shape, "y")).toEqual({ "#1": "#1" });
+    expect(getActiveUnionMembers(shape, "data[1].c[2]")).toEqual({
+      "data[1]": "c",
+    });
+    expect(getActiveUnionMembers(shape, "kind")).toEqual({});
+
+    const value = parseStruct("union Value { int i; struct Shape s; };")!;
+    expect(getActiveUnionMembers(value, "s.i", [shape, value])).toEqual({
+      "": "s",
+      "s#1": "i",
+    });
+  });
+
+  it("formats a union back into source that parses the same", () => {
+    const union = parseStruct(
+      "typedef union Value { int i; double d; } Value_t;",
+    )!;
+    expect(formatStructCode(union)).toBe(
+      "typedef union Value {\n  int i;\n  double d;\n} Value_t;",
+    );
+    expect(parseStruct(formatStructCode(union))).toEqual(union);
+  });
+});
+
+describe("calculateStructSize", () => {
+  it("pads struct members to their alignment", () => {
+    const struct = parseStruct("struct S { char c; int i; double d; };")!;
+    expect(calculateStructSize(struct, [struct])).toBe(16);
+  });
+
+  it("sizes a union by its largest member, rounded to its alignment", () => {
+    const union = parseStruct("union U { char c[9]; int i; double d; };")!;
+    expect(calculateStructSize(union, [union])).toBe(16);
+  });
+});
+
+describe("computeStructLayout", () => {
+  it("aligns each member and pads the tail", () => {
+    const code = "struct S { char c; int i; char d; double x; char e; };";
+    expect(offsets(code)).toEqual([
+      ["c", 0],
+      ["i", 4],
+      ["d", 8],
+      ["x", 16],
+      ["e", 24],
+    ]);
+    const layout = layoutOf(code);
+    expect(layout.size).toBe(32);
+    expect(layout.alignment).toBe(8);
+    expect(findPaddingHoles(layout)).toEqual([
+      { offset: 1, size: 3 },
+      { offset: 9, size: 7 },
+      { offset: 25, size: 7 },
+    ]);
+  });
+
+  it("counts unnamed bit-fields as padding", () => {
+    expect(
+      findPaddingHoles(
+        layoutOf("struct F { unsigned a : 1; unsigned : 0; char b; };"),
+      ),
+    ).toEqual([
+      { offset: 1, size: 3 },
+      { offset: 5, size: 3 },
+    ]);
+  });
+
+  it("removes padding from packed structs", () => {
+    const code =
+      "struct __attribute__((packed)) P { char c; int i; short s; };";
+    expect(offsets(code)).toEqual([
+      ["c", 0],
+      ["i", 1],
+      ["s", 5],
+    ]);
+    expect(layoutOf(code).size).toBe(7);
+  });
+
+  it("caps member alignment with #pragma pack", () => {
+    const code =
+      "#pragma pack(2)\nstruct P { char c; int i; };\n#pragma pack()";
+    expect(offsets(code)).toEqual([
+      ["c", 0],
+      ["i", 2],
+    ]);
+    expect(layoutOf(code).size).toBe(6);
+  });
+
+  it("raises alignment with _Alignas", () => {
+    const code = "struct A { char c; _Alignas(16) int i; };";
+    expect(offsets(code)).toEqual([
+      ["c", 0],
+      ["i", 16],
+    ]);
+    expect(layoutOf(code).size).toBe(32);
+  });
+
+  it("lays out a flexible array member after the fixed part", () => {
+    const layout = layoutOf("struct Buf { int len; char data[]; };");
+    expect(layout.fields[1].offset).toBe(4);
+    expect(layout.fields[1].elementSize).toBe(1);
+    expect(layout.size).toBe(4);
+    expect(getAllocatedSize(layout, 10)).toBe(14);
+    expect(getAllocatedSize(layout, 0)).toBe(4);
+  });
+
+  it("rejects misplaced flexible array members", () => {
+    const messages = (code: string) =>
+      validateStructCode(code, [], false).map((e) => e.message);
+    expect(messages("struct B { char data[]; int len; };")).toContain(
+      "Flexible array member 'data' must be the last member.",
+    );
+    expect(messages("struct B { char data[]; };")).toContain(
+      "Flexible array member 'data' cannot be the only member. Declare at least one other member before it.",
+    );
+    expect(messages("union U { int a; char data[]; };")).toEqual([
+      "Flexible array member 'data' is not allowed in a union. Give it a size or move it into a struct.",
+    ]);
+    expect(
+      messages("struct B { int len; union { int a; char data[]; } u; };"),
+    ).toContain(
+      "Flexible array member 'data' is not allowed in a union. Give it a size or move it into a struct.",
+    );
+  });
+
+  it("places union members at offset 0", () => {
+    const layout = layoutOf("union U { char c; int i; double d; };");
+    expect(layout.fields.map((f) => f.offset)).toEqual([0, 0, 0]);
+    expect(layout.size).toBe(8);
+  });
+});
+
+describe("embedded structs", () => {
+  const inner = parseStruct("struct Inner { char c; double d; };")!;
+  const outer = parseStruct(
+    "struct Outer { char tag; struct Inner in; Inner* link; };",
+  )!;
+
+  it("lays them out with their own alignment", () => {
+    const layout = computeStructLayout(outer, [inner, outer]);
+    expect(layout.fields.map((f) => [f.offset, f.size])).toEqual([
+      [0, 1],
+      [8, 16],
+      [24, 8],
+    ]);
+    expect(layout.size).toBe(32);
+  });
+
+  it("follows member paths into them", () => {
+    expect(findFieldByPath(outer.fields, "in.d", [inner, outer])?.type).toBe(
+      "double",
+    );
+    expect(findFieldByPath(outer.fields, "link.d", [inner, outer])).toBe(
+      undefined,
+    );
+  });
+
+  it("rejects by-value cycles through another struct", () => {
+    const messages = validateStructCode(
+      "struct Inner { struct Outer o; };",
+      [inner, outer],
+      true,
+      "Inner",
+    ).map((e) => e.message);
+    expect(messages).toEqual([
+      "'Outer' already contains 'Inner' by value, so embedding it here would make the size infinite. Use a pointer ('Outer*') instead.",
+    ]);
+  });
+});
+
+describe("bit-field packing", () => {
+  it("packs consecutive bit-fields into one storage unit", () => {
+    const code =
+      "struct F { unsigned a : 3; unsigned b : 5; unsigned c : 24; };";
+    expect(offsets(code)).toEqual([
+      ["a", 0, 0],
+      ["b", 0, 3],
+      ["c", 0, 8],
+    ]);
+    expect(layoutOf(code).size).toBe(4);
+  });
+
+  it("starts a new unit instead of straddling a boundary", () => {
+    const code = "struct F { unsigned a : 20; unsigned b : 20; };";
+    expect(offsets(code)).toEqual([
+      ["a", 0, 0],
+      ["b", 4, 0],
+    ]);
+    expect(layoutOf(code).size).toBe(8);
+  });
+
+  it("moves to the next unit after a zero-width bit-field", () => {
+    const code = "struct F { unsigned a : 1; unsigned : 0; unsigned b : 1; };";
+    const layout = layoutOf(code);
+    expect(layout.fields.find((f) => f.field.name === "b")?.offset).toBe(4);
+    expect(layout.size).toBe(8);
+  });
+
+  it("places an ordinary member in the byte after the bit-fields", () => {
+    const code = "struct F { char a : 4; char b : 4; char c; };";
+    expect(offsets(code)).toEqual([
+      ["a", 0, 0],
+      ["b", 0, 4],
+      ["c", 1],
+    ]);
+    expect(layoutOf(code).size).toBe(2);
+  });
+
+  it("lays out packed bit-fields back to back", () => {
+    const code =
+      "struct __attribute__((packed)) F { char c; unsigned a : 12; unsigned b : 12; };";
+    const layout = layoutOf(code);
+    expect(layout.size).toBe(4);
+  });
+
+  it("gives the value range from width and signedness", () => {
+    const struct = parseStruct(
+      "struct F { int s : 3; unsigned u : 3; };",
+    ) as CStruct;
+    expect(getBitFieldRange(struct.fields[0])).toEqual({ min: -4, max: 3 });
+    expect(getBitFieldRange(struct.fields[1])).toEqual({ min: 0, max: 7 });
+  });
+
+  it("rejects widths that do not fit the type", () => {
+    const messages = (code: string) =>
+      validateStructCode(code, [], false).map((e) => e.message);
+    expect(messages("struct F { char c : 9; };")).toEqual([
+      "Width of bit-field 'c' (9 bits) exceeds its type 'char' (8 bits).",
+    ]);
+    expect(messages("struct F { int z : 0; };")).toEqual([
+      "Zero-width bit-field 'z' must be unnamed.",
+    ]);
+  });
+});
+
+describe("interior pointers", () => {
+  const item = parseStruct(
+    "struct Item { int id; unsigned flag : 1; int counts[3]; struct Item* next; };",
+  )!;
+
+  it("finds members and array elements that have an address", () => {
+    expect(findAddressableField(item.fields, "id", [item])?.type).toBe("int");
+    expect(
+      findAddressableField(item.fields, "counts[2]", [item]),
+    ).toMatchObject({ type: "int", isArray: false });
+    expect(findAddressableField(item.fields, "counts[3]", [item])).toBe(
+      undefined,
+    );
+    expect(findAddressableField(item.fields, "counts", [item])).toBe(undefined);
+    expect(findAddressableField(item.fields, "flag", [item])).toBe(undefined);
+  });
+
+  it("matches pointer levels against the target", () => {
+    const intPointer = {
+      name: "p",
+      type: "int",
+      isPointer: true,
+      isArray: false,
+    };
+    const next = findAddressableField(item.fields, "next", [item])!;
+    expect(canPointToValue(intPointer, { type: "int" }, [item])).toBe(true);
+    expect(canPointToValue(intPointer, next, [item])).toBe(false);
+    expect(
+      canPointToValue({ ...intPointer, type: "Item", pointerLevel: 2 }, next, [
+        item,
+      ]),
+    ).toBe(true);
+  });
+});
@@ -1,4 +1,61 @@
-import type { CStruct, CField } from "../types";
+import type {
+  CStruct,
+  CField,
+  CAggregateKind,
+  CEnum,
+  CTypedef,
+} from "../types";
+import { evaluateConstantExpression, parseDefines } from "./constantExpression";
+import {
+  DEFAULT_DATA_MODEL,
+  getDataModel,
+  type DataModelId,
+  type PrimitiveKind,
+} from "./dataModels";
+import {
+  getStandardTypeKind,
+  isStandardType,
+  STANDARD_TYPES,
+} from "./standardTypes";
+
+// Primitive type spellings and the storage class that sizes them
+// (actual sizes and alignments come from the selected data model)
+const PRIMITIVE_KINDS: Record<string, PrimitiveKind | "void"> = {
+  char: "char",
+  "signed char": "char",
+  "unsigned char": "char",
+  short: "short",
+  "short int": "short",
+  "signed short": "short",
+  "unsigned short": "short",
+  int: "int",
+  "signed int": "int",
+  unsigned: "int",
+  "unsigned int": "int",
+  long: "long",
+  "long int": "long",
+  "signed long": "long",
+  "unsigned long": "long",
+  "long long": "long long",
+  "long long int": "long long",
+  "unsigned long long": "long long",
+  float: "float",
+  double: "double",
+  "long double": "long double",
+  void: "void",
+};
+
+/**
+ * Storage class of a primitive or standard library type (int32_t, size_t,
+ * bool, ...) on the given data model; undefined for every other type
+ */
+function getPrimitiveKind(
+  type: string,
+  dataModel: DataModelId,
+): PrimitiveKind | "void" | undefined {
+  if (Object.hasOwn(PRIMITIVE_KINDS, type)) return PRIMITIVE_KINDS[type];
+  return getStandardTypeKind(type, dataModel);
+}
 
 /**
  * Simple C struct parser for beginners
@@ -9,39 +66,63 @@ import type { CStruct, CField } from "../types";
  *   char* name;
  *   float salary;
  * };
+ *
+ * Unions use the same syntax with the `union` keyword; all of their
+ * members share the same storage at offset 0. Array sizes may use
+ * #define constants declared above the struct.
+ *
+ * Layout attributes are kept on the struct: __attribute__((packed)),
+ * #pragma pack(n) and __attribute__((aligned(n))) on the struct, and
+ * _Alignas(n) or __attribute__((aligned(n))) on members. defaultPack is
+ * the #pragma pack in effect where the code starts (header import).
  */
 
-export function parseStruct(structCode: string): CStruct | null {
+export function parseStruct(
+  structCode: string,
+  constants: Map<string, number> = parseDefines(structCode),
+  defaultPack?: number,
+): CStruct | null {
   try {
     // Remove comments
-    const cleaned = structCode
+    const uncommented = structCode
       .replace(/\/\/.*$/gm, "")
       .replace(/\/\*[\s\S]*?\*\//g, "");
+    const attributes = extractStructAttributes(
+      uncommented,
+      constants,
+      defaultPack,
+    );
+    const cleaned = attributes.code;
 
-    // Check for typedef struct pattern: typedef struct StructName { ... } TypedefName;
+    // Check for typedef pattern: typedef struct|union Name { ... } TypedefName;
+    // The tag may be omitted (typedef struct { ... } Point;)
     const typedefMatch = cleaned.match(
-      /typedef\s+struct\s+(\w+)\s*\{([\s\S]*)\}\s*(\w+)\s*;/,
+      /typedef\s+(struct|union)\s*(\w+)?\s*\{([\s\S]*)\}\s*(\w+)\s*;/,
     );
 
+    let kind: CAggregateKind;
     let structName: string;
     let typedef: string | undefined;
     let body: string;
 
     if (typedefMatch) {
       // Has typedef
-      structName = typedefMatch[1];
-      body = typedefMatch[2];
-      typedef = typedefMatch[3];
+      kind = typedefMatch[1] as CAggregateKind;
+      // Anonymous typedef'd structs are named after their typedef
+      structName = typedefMatch[2] ?? typedefMatch[4];
+      body = typedefMatch[3];
+      typedef = typedefMatch[4];
     } else {
-      // Regular struct without typedef
-      const structMatch = cleaned.match(/struct\s+(\w+)\s*\{/);
+      // Regular struct/union without typedef
+      const structMatch = cleaned.match(/(struct|union)\s+(\w+)\s*\{/);
       if (!structMatch) {
         throw new Error(
           "Invalid struct syntax. Expected: struct StructName { ... } or typedef struct StructName { ... } TypedefName;",
         );
       }
 
-      structName = structMatch[1];
+      kind = structMatch[1] as CAggregateKind;
+      structName = structMatch[2];
 
       // Extract fields between braces
       const bodyMatch = cleaned.match(/\{([\s\S]*)\}/);
@@ -51,436 +132,2283 @@ export function parseStruct(structCode: string): CStruct | null {
       body = bodyMatch[1];
     }
 
-    const fieldLines = body
-      .split(";")
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0);
+    const pack = attributes.packed ? 1 : attributes.pack;
+    const fields = parseMembers(body, constants);
 
-    const fields: CField[] = [];
-
-    for (const line of fieldLines) {
-      const field = parseField(line);
-      if (field) {
-        fields.push(field);
-      }
-    }
-
-    return { name: structName, typedef, fields };
+    return {
+      name: structName,
+      typedef,
+      kind,
+      fields: pack ? applyPack(fields, pack) : fields,
+      ...(pack && { pack }),
+      ...(attributes.alignas && { alignas: attributes.alignas }),
+    };
   } catch (error) {
     console.error("Parse error:", error);
     return null;
   }
 }
 
-function parseField(fieldLine: string): CField | null {
-  // Handle: int age, char* name, int** ptr, int arr[10], float* ptr, int* p[10] (array of pointers)
-  // Also handle: struct Node* next, struct Node** ptr
-  // Also handle function pointers: void (*callback)(int)
-  const trimmed = fieldLine.trim();
+/**
+ * Convert a struct/union definition back into C source code (for editing)
+ */
+export function formatStructCode(struct: CStruct): string {
+  const kind = struct.kind ?? "struct";
+  const body = struct.fields
+    .map((f) => `  ${formatField(f, "  ", struct.pack)};`)
+    .join("\n");
 
-  // Check for function pointer: returnType (*name)(params)
-  const funcPtrMatch = trimmed.match(
-    /^(\w+)\s*\(\s*\*\s*(\w+)\s*\)\s*\(([^)]*)\)$/,
-  );
-  if (funcPtrMatch) {
-    return {
-      name: funcPtrMatch[2],
-      type: `${funcPtrMatch[1]}(${funcPtrMatch[3]})`, // e.g., "void(int, char*)"
-      isPointer: true,
-      isArray: false,
-      isFunctionPointer: true,
-    };
-  }
+  // packed is written as an attribute, other pack values need the pragma
+  const attributeList = [
+    struct.pack === 1 ? "packed" : "",
+    struct.alignas ? `aligned(${struct.alignas})` : "",
+  ].filter(Boolean);
+  const attributes =
+    attributeList.length > 0
+      ? ` __attribute__((${attributeList.join(", ")}))`
+      : "";
 
-  // Check for "struct TypeName* name" or "struct TypeName** name" (array of struct pointers)
-  const structArrayPtrMatch = trimmed.match(
-    /^struct\s+(\w+)\s*(\*+)\s*(\w+)\s*\[\s*(\d+)\s*\]$/,
-  );
-  if (structArrayPtrMatch) {
-    const pointerLevel = structArrayPtrMatch[2].length; // Count asterisks
-    return {
-      name: structArrayPtrMatch[3],
-      type: structArrayPtrMatch[1], // Just the struct name, not "struct Name"
-      isPointer: pointerLevel > 0,
-      isArray: true,
-      arraySize: parseInt(structArrayPtrMatch[4], 10),
-      pointerLevel,
-    };
-  }
+  const code = struct.typedef
+    ? `typedef ${kind} ${struct.name} {\n${body}\n}${attributes} ${struct.typedef};`
+    : `${kind} ${struct.name} {\n${body}\n}${attributes};`;
 
-  // Check for array of pointers: type** name[size] or type* name[size]
-  const arrayPtrMatch = trimmed.match(
-    /^(\w+)\s*(\*+)\s*(\w+)\s*\[\s*(\d+)\s*\]$/,
-  );
-  if (arrayPtrMatch) {
-    const pointerLevel = arrayPtrMatch[2].length; // Count asterisks
-    return {
-      name: arrayPtrMatch[3],
-      type: arrayPtrMatch[1],
-      isPointer: pointerLevel > 0,
-      isArray: true,
-      arraySize: parseInt(arrayPtrMatch[4], 10),
-      pointerLevel,
-    };
-  }
+  return struct.pack && struct.pack > 1
+    ? `#pragma pack(push, ${struct.pack})\n${code}\n#pragma pack(pop)`
+    : code;
+}
 
-  // Check for regular array: type name[size] or struct TypeName name[size]
-  const structArrayMatch = trimmed.match(
-    /^struct\s+(\w+)\s+(\w+)\s*\[\s*(\d+)\s*\]$/,
-  );
-  if (structArrayMatch) {
-    return {
-      name: structArrayMatch[2],
-      type: structArrayMatch[1],
-      isPointer: false,
-      isArray: true,
-      arraySize: parseInt(structArrayMatch[3], 10),
-    };
-  }
+function formatField(
+  field: CField,
+  indent: string,
+  parentPack?: number,
+): string {
+  const alignas = field.alignas ? `_Alignas(${field.alignas}) ` : "";
 
-  const arrayMatch = trimmed.match(/^(\w+)\s+(\w+)\s*\[\s*(\d+)\s*\]$/);
-  if (arrayMatch) {
-    return {
-      name: arrayMatch[2],
-      type: arrayMatch[1],
-      isPointer: false,
-      isArray: true,
-      arraySize: parseInt(arrayMatch[3], 10),
-    };
+  if (field.isFunctionPointer) {
+    // type is stored as "ret(params)"
+    const dimensions = field.isArray ? formatArrayDimensions(field) : "";
+    return `${alignas}${formatFunctionPointer(field.type, field.name + dimensions)}`;
   }
 
-  // Check for "struct TypeName* name" or "struct TypeName** name"
-  const structPtrMatch = trimmed.match(/^struct\s+(\w+)\s*(\*+)\s*(\w+)$/);
-  if (structPtrMatch) {
-    const pointerLevel = structPtrMatch[2].length; // Count asterisks
-    return {
-      name: structPtrMatch[3],
-      type: structPtrMatch[1], // Just the struct name, not "struct Name"
-      isPointer: pointerLevel > 0,
-      isArray: false,
-      pointerLevel,
-    };
+  let baseType = field.type;
+  if (field.nestedFields) {
+    // Inline definition, indented one level deeper than the member
+    const members = field.nestedFields
+      .map(
+        (f) => `${indent}  ${formatField(f, `${indent}  `, field.nestedPack)};`,
+      )
+      .join("\n");
+    const tag = field.type ? ` ${field.type}` : "";
+    // A pack inherited from the enclosing struct is not repeated
+    const packed =
+      field.nestedPack === 1 && parentPack !== 1
+        ? " __attribute__((packed))"
+        : "";
+    baseType = `${field.nestedKind ?? "struct"}${tag} {\n${members}\n${indent}}${packed}`;
   }
 
-  // Check for multi-level pointers or regular field: type*** name, type** name, type* name, or type name
-  const regularMatch = trimmed.match(/^(\w+)\s*(\**)\s*(\w+)$/);
-  if (regularMatch) {
-    const pointerLevel = regularMatch[2].length; // Count asterisks
-    return {
-      name: regularMatch[3],
-      type: regularMatch[1],
-      isPointer: pointerLevel > 0,
-      isArray: false,
-      pointerLevel,
-    };
+  let fieldDef = alignas + [...(field.qualifiers ?? []), baseType].join(" ");
+  if (field.isPointer) {
+    fieldDef += "*".repeat(field.pointerLevel || 1);
+    if (field.pointerQualifiers?.length) {
+      fieldDef += ` ${field.pointerQualifiers.join(" ")}`;
+    }
   }
+  if (field.name) fieldDef += ` ${field.name}`;
+  if (field.isArray) fieldDef += formatArrayDimensions(field);
+  if (field.bitWidth !== undefined) fieldDef += ` : ${field.bitWidth}`;
+  return fieldDef;
+}
+
+// __attribute__((packed, aligned(8))) - GCC/Clang attribute syntax
+const ATTRIBUTE_PATTERN = /__attribute__\s*\(\(((?:[^()]|\([^()]*\))*)\)\)/g;
+// _Alignas(16) (C11) or alignas(16) (C23)
+const ALIGNAS_PATTERN = /\b(?:_Alignas|alignas)\s*\(((?:[^()]|\([^()]*\))*)\)/g;
+const PRAGMA_PACK_PATTERN = /^[ \t]*#[ \t]*pragma[ \t]+pack\b[^\n]*/gm;
+// Alignment of __attribute__((aligned)) without a value (largest scalar)
+const DEFAULT_ATTRIBUTE_ALIGNMENT = 16;
+
+interface LayoutAttributes {
+  code: string; // Input with the attributes blanked out (lines preserved)
+  packed: boolean;
+  alignas?: number; // Largest requested alignment
+  invalidAlignment?: string; // First alignment that is not a constant
+}
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
 
-  return null;
+function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
 }
 
 /**
- * Validate if a type exists (primitive or user-defined)
+ * Pull packed/aligned attributes and alignment specifiers out of a
+ * declaration. Other attributes (unused, deprecated, ...) do not change
+ * the layout and are simply dropped.
  */
-export function isValidType(type: string, customStructs: CStruct[]): boolean {
-  const primitives = [
-    "int",
-    "char",
-    "float",
-    "double",
-    "long",
-    "short",
-    "void",
-    "bool",
-  ];
-
-  if (primitives.includes(type)) {
-    return true;
-  }
+function extractLayoutAttributes(
+  text: string,
+  constants: Map<string, number>,
+): LayoutAttributes {
+  const result: LayoutAttributes = { code: text, packed: false };
+
+  const requestAlignment = (expr: string) => {
+    const value = evaluateConstantExpression(expr, constants);
+    if (value === null) {
+      result.invalidAlignment ??= expr.trim();
+    } else {
+      result.alignas = Math.max(result.alignas ?? 0, value);
+    }
+  };
+
+  result.code = result.code.replace(ATTRIBUTE_PATTERN, (match, list) => {
+    for (const attribute of splitTopLevel(list)) {
+      const [, name, args] =
+        attribute.trim().match(/^(\w+)\s*(?:\(([\s\S]*)\))?$/) ?? [];
+      if (name === "packed" || name === "__packed__") {
+        result.packed = true;
+      } else if (name === "aligned" || name === "__aligned__") {
+        if (args === undefined) {
+          result.alignas = Math.max(
+            result.alignas ?? 0,
+            DEFAULT_ATTRIBUTE_ALIGNMENT,
+          );
+        } else {
+          requestAlignment(args);
+        }
+      }
+    }
+    return blank(match);
+  });
+
+  result.code = result.code.replace(ALIGNAS_PATTERN, (match, expr) => {
+    requestAlignment(expr);
+    return blank(match);
+  });
 
-  // Check both struct name and typedef name
-  return customStructs.some((s) => s.name === type || s.typedef === type);
+  return result;
+}
+
+function splitTopLevel(list: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < list.length; i++) {
+    if (list[i] === "(") depth++;
+    else if (list[i] === ")") depth--;
+    else if (list[i] === "," && depth === 0) {
+      items.push(list.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(list.slice(start));
+  return items.filter((item) => item.trim().length > 0);
 }
 
 /**
- * Validate struct code and return detailed errors
+ * #pragma pack directives in source order, with the pack value in effect
+ * after each one (undefined = natural alignment)
+ *
+ * #pragma pack(push, 1)   #pragma pack(2)   #pragma pack(pop)   #pragma pack()
  */
-export interface ValidationError {
+export interface PragmaPack {
   line: number;
-  message: string;
-  type: "error" | "warning";
+  pack: number | undefined;
+  error?: string;
 }
 
-export function validateStructCode(
+export function collectPragmaPacks(
   code: string,
-  existingStructs: CStruct[],
-  isEditing: boolean,
-  editingStructName?: string,
-): ValidationError[] {
-  const errors: ValidationError[] = [];
-  const lines = code.split("\n");
+  initialPack?: number,
+): PragmaPack[] {
+  const directives: PragmaPack[] = [];
+  const stack: Array<number | undefined> = [];
+  let pack = initialPack;
 
-  // Check for typedef struct pattern
-  const typedefMatch = code.match(
-    /typedef\s+struct\s+(\w+)\s*\{([\s\S]*)\}\s*(\w+)\s*;/,
-  );
-  const regularMatch = code.match(/struct\s+(\w+)\s*\{([\s\S]*)\}\s*;/);
+  for (const match of code.matchAll(PRAGMA_PACK_PATTERN)) {
+    const line = countLines(code.slice(0, match.index));
+    const args = match[0].match(/\(([^)]*)\)/)?.[1];
+    let error: string | undefined;
 
-  if (!typedefMatch && !regularMatch) {
-    errors.push({
-      line: 1,
-      message:
-        "Invalid struct syntax. Use 'struct Name { ... };' or 'typedef struct Name { ... } TypedefName;'",
-      type: "error",
-    });
-    return errors;
+    const items = (args ?? "")
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+    if (args === undefined) {
+      error =
+        "Expected '#pragma pack(n)', '#pragma pack(push, n)' or '#pragma pack(pop)'.";
+    } else if (items[0] === "pop") {
+      pack = stack.pop();
+    } else {
+      if (items[0] === "push") {
+        stack.push(pack);
+        items.shift();
+      }
+      if (items.length === 0) {
+        if (args.trim() === "") pack = undefined;
+      } else {
+        const value = Number(items[0]);
+        if ([1, 2, 4, 8, 16].includes(value)) {
+          pack = value;
+        } else {
+          error = `#pragma pack value must be 1, 2, 4, 8 or 16 (got '${items[0]}').`;
+        }
+      }
+    }
+
+    directives.push({ line, pack, error });
   }
 
-  let structName: string;
-  let typedef: string | undefined;
-  let bodyStartLine = 0;
+  return directives;
+}
 
-  if (typedefMatch) {
-    structName = typedefMatch[1];
-    typedef = typedefMatch[3];
-
-    // Find which line the struct body starts
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].includes("{")) {
-        bodyStartLine = i + 1;
-        break;
-      }
+/**
+ * Pack value in effect at a line, given the directives before it
+ */
+export function getPackAtLine(
+  directives: PragmaPack[],
+  line: number,
+  initialPack?: number,
+): number | undefined {
+  let pack = initialPack;
+  for (const directive of directives) {
+    if (directive.line >= line) break;
+    pack = directive.pack;
+  }
+  return pack;
+}
+
+/**
+ * Struct-level layout attributes: #pragma pack before the body and
+ * attributes around it (struct __attribute__((packed)) S { ... } or
+ * struct S { ... } __attribute__((aligned(8)));). Member attributes inside
+ * the braces are left in place.
+ */
+function extractStructAttributes(
+  code: string,
+  constants: Map<string, number>,
+  defaultPack?: number,
+): LayoutAttributes & { pack?: number } {
+  const bodyStart = code.indexOf("{");
+  const bodyEnd = code.lastIndexOf("}");
+  if (bodyStart === -1 || bodyEnd < bodyStart) {
+    return { code, packed: false, pack: defaultPack };
+  }
+
+  const directives = collectPragmaPacks(code, defaultPack);
+  const pack = getPackAtLine(
+    directives,
+    countLines(code.slice(0, bodyStart)),
+    defaultPack,
+  );
+
+  const outside = (text: string) => text.replace(PRAGMA_PACK_PATTERN, blank);
+  const head = extractLayoutAttributes(
+    outside(code.slice(0, bodyStart)),
+    constants,
+  );
+  const tail = extractLayoutAttributes(
+    outside(code.slice(bodyEnd + 1)),
+    constants,
+  );
+  const alignas = Math.max(head.alignas ?? 0, tail.alignas ?? 0);
+
+  return {
+    code: head.code + code.slice(bodyStart, bodyEnd + 1) + tail.code,
+    packed: head.packed || tail.packed,
+    alignas: alignas || undefined,
+    invalidAlignment: head.invalidAlignment ?? tail.invalidAlignment,
+    pack,
+  };
+}
+
+/**
+ * #pragma pack and packed apply to inline struct/union members as well
+ */
+function applyPack(fields: CField[], pack: number): CField[] {
+  return fields.map((field) => {
+    if (!field.nestedFields) return field;
+    const nestedPack = Math.min(field.nestedPack ?? pack, pack);
+    return {
+      ...field,
+      nestedPack,
+      nestedFields: applyPack(field.nestedFields, nestedPack),
+    };
+  });
+}
+
+const FIELD_TOKEN_PATTERN = /[A-Za-z_]\w*|\d+|\[[^\]]*\]|\S/g;
+// returnType (*name[dims])(params) - the return type cannot contain parens
+const FUNCTION_POINTER_PATTERN =
+  /^([^()]+?)\(\s*\*\s*([A-Za-z_]\w*)\s*((?:\[[^\]]*\]\s*)*)\)\s*\(([\s\S]*)\)$/;
+// [qualifiers] struct|union [Tag] { members } [declarators]
+// (the prefix may also hold _Alignas/__attribute__, checked when parsing)
+const INLINE_AGGREGATE_PATTERN =
+  /^([^{};]*?)\b(struct|union)\s*(\w+)?\s*\{([\s\S]*)\}([\s\S]*)$/;
+
+/**
+ * Split a struct body into member declarations at top-level semicolons,
+ * keeping inline struct/union definitions (which contain ';') intact
+ */
+function splitMemberDeclarations(
+  body: string,
+): Array<{ text: string; offset: number }> {
+  const declarations: Array<{ text: string; offset: number }> = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === "{" || ch === "(") depth++;
+    else if (ch === "}" || ch === ")") depth--;
+    else if (ch === ";" && depth === 0) {
+      declarations.push({ text: body.slice(start, i), offset: start });
+      start = i + 1;
     }
+  }
 
-    // Check if typedef name already exists
-    if (!isEditing || editingStructName !== structName) {
-      const typedefExists = existingStructs.some((s) => s.typedef === typedef);
-      if (typedefExists) {
-        errors.push({
-          line: lines.length,
-          message: `Typedef name '${typedef}' already exists!`,
-          type: "error",
-        });
-      }
+  // A last member missing its ';' is still parsed (and validated)
+  declarations.push({ text: body.slice(start), offset: start });
+  return declarations.filter((d) => d.text.trim().length > 0);
+}
+
+function parseMembers(body: string, constants: Map<string, number>): CField[] {
+  return splitMemberDeclarations(body).flatMap(
+    (declaration) => parseField(declaration.text, constants) ?? [],
+  );
+}
+
+// Qualifiers are kept on the field; they never change its size or layout
+const TYPE_QUALIFIERS = ["const", "volatile", "restrict"];
+const TYPE_SPECIFIERS = [
+  "void",
+  "char",
+  "short",
+  "int",
+  "long",
+  "float",
+  "double",
+  "signed",
+  "unsigned",
+  "bool",
+  "_Bool",
+];
+
+/**
+ * Parse one member declaration (the text between two semicolons)
+ * A declaration may declare several members sharing the same base type:
+ *
+ *   const unsigned char *name, tag[8];
+ *   volatile long long ticks;
+ *   char* const label;
+ *   int grid[ROWS][ROWS * 2];
+ *
+ * Function pointers (void (*callback)(int), char *(*dup[4])(const char *))
+ * declare a single member whose type is the signature "ret(params)".
+ * Inline struct/union definitions (struct { int x, y; } pos;) become
+ * fields with nestedFields; without a declarator they are anonymous
+ * members whose fields are accessed as if they belonged to the parent.
+ *
+ * _Alignas(n) and __attribute__((aligned(n))) apply to every declared
+ * member; packed after an inline definition packs that definition.
+ */
+export function parseField(
+  fieldLine: string,
+  constants: Map<string, number>,
+): CField[] | null {
+  const nestedMatch = fieldLine.trim().match(INLINE_AGGREGATE_PATTERN);
+  if (nestedMatch) {
+    const [, prefix, kind, tag, body, declarators] = nestedMatch;
+    const prefixAttributes = extractLayoutAttributes(prefix, constants);
+    const declaratorAttributes = extractLayoutAttributes(
+      declarators,
+      constants,
+    );
+    if (
+      prefixAttributes.invalidAlignment !== undefined ||
+      declaratorAttributes.invalidAlignment !== undefined
+    ) {
+      return null;
     }
-  } else if (regularMatch) {
-    structName = regularMatch[1];
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].includes("{")) {
-        bodyStartLine = i + 1;
-        break;
-      }
+
+    const qualifiers = prefixAttributes.code.split(/\s+/).filter(Boolean);
+    if (qualifiers.some((q) => q !== "const" && q !== "volatile")) {
+      return null;
     }
-  } else {
-    return errors;
-  }
 
-  // Check if struct name already exists
-  if (!isEditing || editingStructName !== structName) {
-    const nameExists = existingStructs.some((s) => s.name === structName);
-    if (nameExists) {
-      errors.push({
-        line: 1,
-        message: `Struct name '${structName}' already exists!`,
-        type: "error",
-      });
+    const packed = prefixAttributes.packed || declaratorAttributes.packed;
+    const members = parseMembers(body, constants);
+    const nested = {
+      nestedKind: kind as CAggregateKind,
+      nestedFields: packed ? applyPack(members, 1) : members,
+      ...(packed && { nestedPack: 1 }),
+    };
+    const alignas = Math.max(
+      prefixAttributes.alignas ?? 0,
+      declaratorAttributes.alignas ?? 0,
+    );
+    const declaratorTokens =
+      declaratorAttributes.code.match(FIELD_TOKEN_PATTERN);
+
+    if (!declaratorTokens) {
+      // A tagged definition without a declarator declares no member
+      if (tag) return [];
+      return [
+        {
+          name: "",
+          type: "",
+          isPointer: false,
+          isArray: false,
+          qualifiers: qualifiers.length > 0 ? qualifiers : undefined,
+          ...nested,
+          ...(alignas && { alignas }),
+        },
+      ];
     }
+
+    const fields = parseDeclaratorList(
+      declaratorTokens,
+      tag ?? "",
+      qualifiers,
+      constants,
+    );
+    return (
+      fields?.map((field) => ({
+        ...field,
+        ...nested,
+        ...(alignas && { alignas }),
+      })) ?? null
+    );
   }
 
-  // Parse and validate each field
-  const bodyMatch = code.match(/\{([\s\S]*)\}/);
-  if (bodyMatch) {
-    const body = bodyMatch[1];
-    const fieldLines = body
-      .split(";")
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0);
+  const attributes = extractLayoutAttributes(fieldLine, constants);
+  if (attributes.invalidAlignment !== undefined) return null;
+  const trimmed = attributes.code.trim();
+  const withAlignment = (fields: CField[] | null) =>
+    attributes.alignas
+      ? (fields?.map((field) => ({ ...field, alignas: attributes.alignas })) ??
+        null)
+      : fields;
 
-    let currentLine = bodyStartLine;
-    for (const fieldLine of fieldLines) {
-      // Count lines in this field
-      const fieldLineCount = fieldLine.split("\n").length;
+  // Function pointer: returnType (*name)(params) or an array of them,
+  // returnType (*name[N])(params)
+  const funcPtrMatch = trimmed.match(FUNCTION_POINTER_PATTERN);
+  if (funcPtrMatch) {
+    const [, returnText, name, dimensionText, paramText] = funcPtrMatch;
+    const parsed = parseSignature(returnText, paramText, constants);
+    const dimensions: number[] = [];
+    for (const [, sizeExpr] of dimensionText.matchAll(/\[([^\]]*)\]/g)) {
+      const size = evaluateConstantExpression(sizeExpr, constants);
+      if (size === null || size <= 0) return null;
+      dimensions.push(size);
+    }
+    if (!parsed) return null;
 
-      // Try to parse the field
-      const field = parseField(fieldLine);
-      if (!field) {
-        errors.push({
-          line: currentLine,
-          message: `Invalid field syntax: ${fieldLine.substring(0, 30)}...`,
-          type: "error",
-        });
-      } else {
-        // Check if field type is valid
-        // C Rule: You CANNOT use the struct's OWN typedef name inside its definition
-        // But you CAN use OTHER struct typedef names that are already defined
-        if (typedef && field.type === typedef) {
-          errors.push({
-            line: currentLine,
-            message: `Cannot use typedef name '${typedef}' inside its own struct definition. Use 'struct ${structName}*' instead for self-reference.`,
-            type: "error",
-          });
-        }
+    return withAlignment([
+      {
+        name,
+        type: parsed.signature, // e.g., "char*(const char*, int)"
+        isPointer: true,
+        isArray: dimensions.length > 0,
+        arraySize:
+          dimensions.length > 0
+            ? dimensions.reduce((total, size) => total * size, 1)
+            : undefined,
+        arrayDimensions: dimensions.length > 1 ? dimensions : undefined,
+        isFunctionPointer: true,
+      },
+    ]);
+  }
 
-        // Check if the type is valid
-        // C Rule: Pointers to incomplete types (forward declarations) are allowed!
-        // For pointers: can point to ANY type name (even undefined structs)
-        // For non-pointers: must be a known primitive or defined type
-        const isKnownType = isValidType(field.type, existingStructs);
-        const isSelfReference = field.type === structName;
-
-        if (field.isPointer) {
-          // Pointers can point to incomplete types (forward declarations)
-          // This is valid C: struct UndefinedStruct* ptr;
-          // No error needed - pointers to undefined structs are allowed
-
-          // Warning: For self-referential pointers, recommend using 'struct Name*' syntax
-          // But only if they're NOT already using it (check if fieldLine contains "struct")
-          if (isSelfReference && !fieldLine.includes("struct")) {
-            errors.push({
-              line: currentLine,
-              message: `Hint: Use 'struct ${structName}*' syntax for self-referential pointers (current: '${field.type}*').`,
-              type: "warning",
-            });
-          }
-        } else {
-          // Non-pointer fields must be known types
-          // You cannot have: struct UndefinedStruct field; (incomplete type)
-          // You can only have: struct UndefinedStruct* ptr; (pointer to incomplete type)
-          if (!isKnownType && !isSelfReference) {
-            errors.push({
-              line: currentLine,
-              message: `Unknown type '${field.type}'. Non-pointer fields must use defined types. Use a pointer ('${field.type}*') if this is a forward declaration.`,
-              type: "error",
-            });
-          }
-        }
-      }
+  const tokens = trimmed.match(FIELD_TOKEN_PATTERN);
+  if (!tokens) return null;
+
+  // Specifier-qualifier list: everything up to the first declarator
+  const qualifiers: string[] = [];
+  const specifiers: string[] = [];
+  let typeName: string | undefined; // struct/union/enum tag or typedef name
+  let index = 0;
 
-      currentLine += fieldLineCount;
+  for (; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (TYPE_QUALIFIERS.includes(token)) {
+      if (!qualifiers.includes(token)) qualifiers.push(token);
+    } else if (TYPE_SPECIFIERS.includes(token)) {
+      specifiers.push(token);
+    } else if (/^(struct|union|enum)$/.test(token)) {
+      // "struct Node" - store just the tag, not "struct Node"
+      const tag = tokens[++index];
+      if (typeName || !tag || !/^[A-Za-z_]\w*$/.test(tag)) return null;
+      typeName = tag;
+    } else if (
+      /^[A-Za-z_]\w*$/.test(token) &&
+      !typeName &&
+      specifiers.length === 0
+    ) {
+      typeName = token;
+    } else {
+      break;
     }
   }
 
-  return errors;
+  if (typeName && specifiers.length > 0) return null;
+  const type = typeName ?? normalizeTypeSpecifiers(specifiers);
+  if (!type) return null;
+
+  return withAlignment(
+    parseDeclaratorList(tokens.slice(index), type, qualifiers, constants),
+  );
 }
 
 /**
- * Check if pointer connection is type-safe
- * Takes typedef into account - need the struct definitions to resolve typedef
+ * Function signature in the canonical "ret(params)" form used for function
+ * pointer members and workspace functions, with parameter names dropped:
+ *
+ *   char *(*dup)(const char *s)       -> "char*(const char*)"
+ *   void (*sort)(int a[], int n)      -> "void(int*, int)"
+ *   int (*cmp)(void)                  -> "int(void)"
+ *
+ * parameters keeps each declared parameter (name "" when omitted).
  */
-export function canConnectPointer(
-  pointerType: string,
-  targetStructName: string,
-): boolean {
-  // void* can point to anything
-  if (pointerType === "void") {
-    return true;
+export interface ParsedSignature {
+  signature: string;
+  returnField: CField;
+  parameters: CField[];
+}
+
+export function parseSignature(
+  returnText: string,
+  paramText: string,
+  constants: Map<string, number>,
+): ParsedSignature | null {
+  const returnField = parseParameter(returnText, constants);
+  if (!returnField || returnField.isArray || returnField.type === "...") {
+    return null;
+  }
+  const returnType = formatParameterType(returnField);
+
+  let parameters: CField[] = [];
+  for (const text of splitTopLevel(paramText)) {
+    const parameter = parseParameter(text, constants);
+    if (!parameter) return null;
+    parameters.push(parameter);
+  }
+  // (void) declares no parameters
+  if (
+    parameters.length === 1 &&
+    formatParameterType(parameters[0]) === "void"
+  ) {
+    parameters = [];
   }
 
-  // Type must match exactly (struct name)
-  return pointerType === targetStructName;
+  const paramTypes = parameters.map((p) => formatParameterType(p));
+  if (!returnType || paramTypes.some((type) => type === null)) return null;
+  if (paramTypes.slice(0, -1).includes("...")) return null;
+
+  return {
+    signature: formatSignature(returnType, paramTypes as string[]),
+    returnField,
+    parameters,
+  };
 }
 
 /**
- * Resolve a type name to struct name (handles typedef)
+ * Parse one parameter (or a return type) with or without a name:
+ * "const char *s", "int", "void (*)(int)"
  */
-export function resolveTypeName(typeName: string, structs: CStruct[]): string {
-  // Check if typeName is a typedef, if so return the struct name
-  const structWithTypedef = structs.find((s) => s.typedef === typeName);
-  if (structWithTypedef) {
-    return structWithTypedef.name;
+export function parseParameter(
+  text: string,
+  constants: Map<string, number>,
+): CField | null {
+  const declaration = text.trim();
+  if (declaration === "...") {
+    return { name: "", type: "...", isPointer: false, isArray: false };
   }
-  // Otherwise return as-is (it's already a struct name or primitive)
-  return typeName;
+
+  // An abstract declarator has no name, so parse it with a placeholder
+  const named = parseField(declaration, constants);
+  const fields =
+    named ??
+    parseField(
+      /\(\s*\*\s*\)/.test(declaration)
+        ? declaration.replace(/\(\s*\*\s*\)/, "(*_)")
+        : `${declaration} _`,
+      constants,
+    );
+  if (fields?.length !== 1) return null;
+
+  const [field] = fields;
+  if (field.nestedFields || field.bitWidth !== undefined || field.alignas) {
+    return null;
+  }
+  return named ? field : { ...field, name: "" };
 }
 
 /**
- * Get size in bytes for a C primitive type (typical on 64-bit systems)
+ * Type of a parameter as it takes part in the function's type: the name
+ * and qualifiers on the parameter itself are dropped and an array
+ * parameter decays to a pointer (int a[] -> int*)
  */
-export function getTypeSize(type: string, structs: CStruct[]): number {
-  // Remove any array notation or pointer for base type
-  const baseType = type
-    .replace(/\[.*\]/, "")
-    .replace(/\*+$/, "")
-    .trim();
-
-  // Pointers are 8 bytes on 64-bit systems
-  if (type.includes("*")) {
-    return 8;
-  }
-
-  // Primitive type sizes (typical on 64-bit systems)
-  const primitiveSizes: Record<string, number> = {
-    char: 1,
-    "signed char": 1,
-    "unsigned char": 1,
-    short: 2,
-    "short int": 2,
-    "signed short": 2,
-    "unsigned short": 2,
-    int: 4,
-    "signed int": 4,
-    unsigned: 4,
-    "unsigned int": 4,
-    long: 8,
-    "long int": 8,
-    "signed long": 8,
-    "unsigned long": 8,
-    "long long": 8,
-    "long long int": 8,
-    float: 4,
-    double: 8,
-    "long double": 16,
-    void: 0,
-  };
+export function formatParameterType(
+  field: CField,
+  typedefs: CTypedef[] = [],
+): string | null {
+  if (field.type === "...") return "...";
 
-  if (primitiveSizes[baseType] !== undefined) {
-    return primitiveSizes[baseType];
+  const resolved = resolveFieldType(field, typedefs);
+  if (resolved.isFunctionPointer) {
+    if (resolved.isArray) return null;
+    return formatFunctionPointer(
+      typedefs.length > 0
+        ? normalizeSignature(resolved.type, typedefs)
+        : resolved.type,
+    );
   }
+  if (resolved.arrayDimensions) return null;
 
-  // Check if it's a struct type
-  const struct = structs.find(
-    (s) => s.name === baseType || s.typedef === baseType,
-  );
-  if (struct) {
-    return calculateStructSize(struct, structs);
-  }
+  const pointerLevel =
+    (resolved.isPointer ? resolved.pointerLevel || 1 : 0) +
+    (resolved.isArray ? 1 : 0);
+  return `${[...(resolved.qualifiers ?? []), resolved.type].join(" ")}${"*".repeat(pointerLevel)}`;
+}
 
-  return 0; // Unknown type
+export function formatSignature(returnType: string, params: string[]): string {
+  const isVoid =
+    params.length === 0 || (params.length === 1 && params[0] === "void");
+  return `${returnType}(${isVoid ? "void" : params.join(", ")})`;
 }
 
 /**
- * Calculate total size of a struct in bytes (with padding for alignment)
+ * Split a "ret(params)" signature into its return type and parameter types
  */
-export function calculateStructSize(
-  struct: CStruct,
-  structs: CStruct[],
-): number {
-  let totalSize = 0;
-  let maxAlignment = 1;
+export function splitSignature(signature: string): {
+  returnType: string;
+  params: string[];
+} {
+  const paren = signature.indexOf("(");
+  if (paren === -1) return { returnType: signature, params: [] };
+  return {
+    returnType: signature.slice(0, paren).trim(),
+    params: splitTopLevel(
+      signature.slice(paren + 1, signature.lastIndexOf(")")),
+    ).map((param) => param.trim()),
+  };
+}
 
-  for (const field of struct.fields) {
-    const fieldSize = getTypeSize(field.type, structs);
-    const alignment = Math.min(fieldSize, 8); // Max alignment is typically 8 bytes
+/**
+ * C spelling of a function pointer with the given declarator:
+ * ("int(void*)", "handlers[4]") -> "int (*handlers[4])(void*)"
+ */
+export function formatFunctionPointer(
+  signature: string,
+  declarator = "",
+): string {
+  const { returnType, params } = splitSignature(signature);
+  return `${returnType} (*${declarator})(${params.join(", ")})`;
+}
 
-    // Track maximum alignment requirement
-    maxAlignment = Math.max(maxAlignment, alignment);
+// Signature with typedefs expanded, so that equal types compare equal
+function normalizeSignature(signature: string, typedefs: CTypedef[]): string {
+  const { returnType, params } = splitSignature(signature);
+  const normalize = (type: string) => {
+    const field = parseParameter(type, new Map());
+    return (
+      (field && formatParameterType(field, typedefs)) ??
+      type.replace(/\s+/g, " ")
+    );
+  };
+  return formatSignature(normalize(returnType), params.map(normalize));
+}
 
-    // Add padding before this field if needed
-    if (totalSize % alignment !== 0) {
-      totalSize += alignment - (totalSize % alignment);
+// Declarator list: *name, name[size][size], name : width separated by commas
+function parseDeclaratorList(
+  tokens: string[],
+  type: string,
+  qualifiers: string[],
+  constants: Map<string, number>,
+): CField[] | null {
+  const fields: CField[] = [];
+  let declarator: string[] = [];
+  for (const token of [...tokens, ","]) {
+    if (token !== ",") {
+      declarator.push(token);
+      continue;
     }
+    const field = parseDeclarator(declarator, type, qualifiers, constants);
+    if (!field) return null;
+    fields.push(field);
+    declarator = [];
+  }
+  return fields;
+}
+
+function parseDeclarator(
+  tokens: string[],
+  type: string,
+  qualifiers: string[],
+  constants: Map<string, number>,
+): CField | null {
+  let pointerLevel = 0;
+  let pointerQualifiers: string[] = [];
+  let index = 0;
 
-    // Add field size (considering arrays)
-    if (field.arraySize && field.arraySize > 0) {
-      totalSize += fieldSize * field.arraySize;
+  // Qualifiers after a '*' apply to that pointer (char* const p);
+  // only the outermost pointer's qualifiers are kept
+  for (; index < tokens.length; index++) {
+    if (tokens[index] === "*") {
+      pointerLevel++;
+      pointerQualifiers = [];
+    } else if (pointerLevel > 0 && TYPE_QUALIFIERS.includes(tokens[index])) {
+      if (!pointerQualifiers.includes(tokens[index])) {
+        pointerQualifiers.push(tokens[index]);
+      }
     } else {
-      totalSize += fieldSize;
+      break;
     }
   }
 
-  // Add padding at the end to align the struct to its maximum alignment
-  if (totalSize % maxAlignment !== 0) {
-    totalSize += maxAlignment - (totalSize % maxAlignment);
+  // The name may be omitted only for padding bit-fields (unsigned : 4)
+  let name = "";
+  const nameToken = tokens[index];
+  if (
+    nameToken &&
+    /^[A-Za-z_]\w*$/.test(nameToken) &&
+    !TYPE_QUALIFIERS.includes(nameToken) &&
+    !TYPE_SPECIFIERS.includes(nameToken)
+  ) {
+    name = nameToken;
+    index++;
   }
 
-  return totalSize;
+  // A flexible array member (char data[]) has no size of its own; its
+  // element count is chosen per allocation
+  if (tokens[index] === "[]" && index === tokens.length - 1 && name) {
+    return {
+      name,
+      type,
+      isPointer: pointerLevel > 0,
+      isArray: true,
+      isFlexibleArray: true,
+      pointerLevel,
+      qualifiers: qualifiers.length > 0 ? [...qualifiers] : undefined,
+      pointerQualifiers:
+        pointerQualifiers.length > 0 ? pointerQualifiers : undefined,
+    };
+  }
+
+  // One or more dimensions; each size is an integer constant expression
+  const dimensions: number[] = [];
+  while (tokens[index]?.startsWith("[")) {
+    const size = evaluateConstantExpression(
+      tokens[index].slice(1, -1),
+      constants,
+    );
+    if (size === null || size <= 0) return null;
+    dimensions.push(size);
+    index++;
+  }
+
+  let bitWidth: number | undefined;
+  if (tokens[index] === ":" && /^\d+$/.test(tokens[index + 1] ?? "")) {
+    bitWidth = parseInt(tokens[index + 1], 10);
+    index += 2;
+  }
+
+  if (index !== tokens.length || (!name && bitWidth === undefined)) {
+    return null;
+  }
+
+  return {
+    name,
+    type,
+    isPointer: pointerLevel > 0,
+    isArray: dimensions.length > 0,
+    // Total element count; multi-dimensional arrays are stored row-major
+    arraySize:
+      dimensions.length > 0
+        ? dimensions.reduce((total, size) => total * size, 1)
+        : undefined,
+    arrayDimensions: dimensions.length > 1 ? dimensions : undefined,
+    pointerLevel,
+    qualifiers: qualifiers.length > 0 ? [...qualifiers] : undefined,
+    pointerQualifiers:
+      pointerQualifiers.length > 0 ? pointerQualifiers : undefined,
+    bitWidth,
+  };
+}
+
+/**
+ * Combine multi-word primitive specifiers into one canonical type name
+ * (e.g., "long unsigned int" -> "unsigned long", "signed" -> "int").
+ * Returns null for invalid combinations such as "unsigned float".
+ */
+function normalizeTypeSpecifiers(specifiers: string[]): string | null {
+  const count = (word: string) => specifiers.filter((s) => s === word).length;
+  const signed = count("signed");
+  const unsigned = count("unsigned");
+  const shorts = count("short");
+  const longs = count("long");
+  const ints = count("int");
+  const others = specifiers.filter(
+    (s) => !["signed", "unsigned", "short", "long", "int"].includes(s),
+  );
+
+  if (specifiers.length === 0 || signed + unsigned > 1) return null;
+  if (shorts > 1 || longs > 2 || ints > 1 || (shorts && longs)) return null;
+
+  if (others.length > 1) return null;
+  if (others.length === 1) {
+    const base = others[0];
+    const modifiers = specifiers.length - 1;
+    if (base === "char" && !shorts && !longs && !ints) {
+      if (unsigned) return "unsigned char";
+      return signed ? "signed char" : "char";
+    }
+    if (base === "double" && modifiers === longs && longs <= 1) {
+      return longs ? "long double" : "double";
+    }
+    return modifiers === 0 ? base : null;
+  }
+
+  const width = shorts ? "short" : ["int", "long", "long long"][longs];
+  if (unsigned) return `unsigned ${width}`;
+  return width;
+}
+
+/**
+ * Readable C type of a field without its name, including qualifiers,
+ * array size and bit-field width (e.g., "const char* const", "int[4]")
+ */
+export function formatFieldType(field: CField): string {
+  if (field.isFunctionPointer) {
+    return formatFunctionPointer(
+      field.type,
+      field.isArray ? formatArrayDimensions(field) : "",
+    );
+  }
+  const baseType = field.nestedFields
+    ? `${field.nestedKind ?? "struct"}${field.type ? ` ${field.type}` : ""} {…}`
+    : field.type;
+  let typeStr = [...(field.qualifiers ?? []), baseType].join(" ");
+  if (field.isPointer) {
+    typeStr += "*".repeat(field.pointerLevel || 1);
+    if (field.pointerQualifiers?.length) {
+      typeStr += ` ${field.pointerQualifiers.join(" ")}`;
+    }
+  }
+  if (field.isArray) typeStr += formatArrayDimensions(field);
+  if (field.bitWidth !== undefined) typeStr += ` : ${field.bitWidth}`;
+  return typeStr;
+}
+
+/**
+ * Size of every dimension of an array field (a single entry for 1-D arrays)
+ */
+export function getArrayDimensions(field: CField): number[] {
+  return field.arrayDimensions ?? [field.arraySize ?? 0];
+}
+
+function formatArrayDimensions(field: CField): string {
+  if (field.isFlexibleArray) return "[]";
+  return getArrayDimensions(field)
+    .map((size) => `[${size}]`)
+    .join("");
+}
+
+/**
+ * Whether values of this type are entered as numbers (char stays text)
+ */
+export function isNumericType(type: string): boolean {
+  if (isStandardType(type)) return !STANDARD_TYPES[type].isBoolean;
+  return (
+    Object.hasOwn(PRIMITIVE_KINDS, type) &&
+    !["void", "char", "signed char", "unsigned char"].includes(type)
+  );
+}
+
+/**
+ * Whether values of this type are true/false (bool, _Bool)
+ */
+export function isBooleanType(type: string): boolean {
+  return !!(isStandardType(type) && STANDARD_TYPES[type].isBoolean);
+}
+
+/**
+ * Validate if a type exists (primitive or user-defined)
+ */
+export function isValidType(
+  type: string,
+  customStructs: CStruct[],
+  customEnums: CEnum[] = [],
+  customTypedefs: CTypedef[] = [],
+): boolean {
+  // Keywords plus the stdint.h/stddef.h/stdbool.h catalogue
+  if (Object.hasOwn(PRIMITIVE_KINDS, type) || isStandardType(type)) {
+    return true;
+  }
+
+  // Check both struct/enum name and typedef name
+  return (
+    customStructs.some((s) => s.name === type || s.typedef === type) ||
+    customEnums.some((e) => e.name === type || e.typedef === type) ||
+    customTypedefs.some((t) => t.name === type)
+  );
+}
+
+/**
+ * Validate struct code and return detailed errors
+ */
+export interface ValidationError {
+  line: number;
+  message: string;
+  type: "error" | "warning";
+}
+
+export function validateStructCode(
+  code: string,
+  existingStructs: CStruct[],
+  isEditing: boolean,
+  editingStructName?: string,
+  existingEnums: CEnum[] = [],
+  constants: Map<string, number> = parseDefines(code),
+  dataModel: DataModelId = DEFAULT_DATA_MODEL,
+  defaultPack?: number,
+  existingTypedefs: CTypedef[] = [],
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const lines = code.split("\n");
+
+  // Comments are blanked out (keeping line numbers intact) so they cannot
+  // hide or break a declaration; so are attributes around the body
+  const blanked = code
+    .replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, " "))
+    .replace(/\/\/.*$/gm, "");
+  const attributes = extractStructAttributes(blanked, constants, defaultPack);
+  const declaration = attributes.code;
+
+  // Check for typedef struct/union pattern
+  const typedefMatch = declaration.match(
+    /typedef\s+(struct|union)\s*(\w+)?\s*\{([\s\S]*)\}\s*(\w+)\s*;/,
+  );
+  const regularMatch = declaration.match(
+    /(struct|union)\s+(\w+)\s*\{([\s\S]*)\}\s*;/,
+  );
+
+  if (!typedefMatch && !regularMatch) {
+    errors.push({
+      line: 1,
+      message:
+        "Invalid struct syntax. Use 'struct Name { ... };', 'union Name { ... };' or 'typedef struct Name { ... } TypedefName;'",
+      type: "error",
+    });
+    return errors;
+  }
+
+  let kind: CAggregateKind;
+  let structName: string;
+  let typedef: string | undefined;
+
+  if (typedefMatch) {
+    kind = typedefMatch[1] as CAggregateKind;
+    structName = typedefMatch[2] ?? typedefMatch[4];
+    typedef = typedefMatch[4];
+
+    // Check if typedef name already exists
+    if (!isEditing || editingStructName !== structName) {
+      const typedefExists =
+        existingStructs.some((s) => s.typedef === typedef) ||
+        existingTypedefs.some((t) => t.name === typedef);
+      if (typedefExists) {
+        errors.push({
+          line: lines.length,
+          message: `Typedef name '${typedef}' already exists!`,
+          type: "error",
+        });
+      }
+    }
+  } else if (regularMatch) {
+    kind = regularMatch[1] as CAggregateKind;
+    structName = regularMatch[2];
+  } else {
+    return errors;
+  }
+
+  // Check if struct name already exists
+  if (!isEditing || editingStructName !== structName) {
+    // Struct, union and enum tags share a single namespace in C
+    const nameExists =
+      existingStructs.some((s) => s.name === structName) ||
+      existingEnums.some((e) => e.name === structName);
+    if (nameExists) {
+      errors.push({
+        line: 1,
+        message: `${kind === "union" ? "Union" : "Struct"} name '${structName}' already exists!`,
+        type: "error",
+      });
+    }
+  }
+
+  for (const directive of collectPragmaPacks(blanked, defaultPack)) {
+    if (directive.error) {
+      errors.push({
+        line: directive.line,
+        message: directive.error,
+        type: "error",
+      });
+    }
+  }
+  errors.push(
+    ...validateAlignment(
+      attributes,
+      `'${structName}'`,
+      countLines(blanked.slice(0, blanked.indexOf("{"))),
+    ),
+  );
+
+  // Parse and validate each member
+  const bodyStart = blanked.indexOf("{");
+  const bodyEnd = blanked.lastIndexOf("}");
+  if (bodyStart !== -1 && bodyEnd > bodyStart) {
+    const fieldLines: number[] = [];
+    validateMembers(
+      blanked.slice(bodyStart + 1, bodyEnd),
+      countLines(blanked.slice(0, bodyStart + 1)),
+      kind,
+      {
+        structName,
+        typedef,
+        structs: existingStructs,
+        enums: existingEnums,
+        typedefs: existingTypedefs,
+        constants,
+        dataModel,
+      },
+      new Set(),
+      errors,
+      fieldLines,
+    );
+
+    const struct = errors.some((e) => e.type === "error")
+      ? null
+      : parseStruct(code, constants, defaultPack);
+    if (struct?.pack) {
+      errors.push(
+        ...findMisalignedFields(
+          struct,
+          existingStructs,
+          existingEnums,
+          dataModel,
+          existingTypedefs,
+        ).map(({ index, message }) => ({
+          line: fieldLines[index] ?? 1,
+          message,
+          type: "warning" as const,
+        })),
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Errors for alignment requests that are not constants or powers of two
+ */
+function validateAlignment(
+  attributes: LayoutAttributes,
+  label: string,
+  line: number,
+): ValidationError[] {
+  if (attributes.invalidAlignment !== undefined) {
+    return [
+      {
+        line,
+        message: `Cannot evaluate alignment '${attributes.invalidAlignment}' of ${label}. Use an integer constant expression.`,
+        type: "error",
+      },
+    ];
+  }
+  if (attributes.alignas !== undefined && !isPowerOfTwo(attributes.alignas)) {
+    return [
+      {
+        line,
+        message: `Alignment of ${label} must be a power of two (got ${attributes.alignas}).`,
+        type: "error",
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Members of a packed struct that do not sit on their natural alignment
+ * Reading them through a pointer to the member type can fault (or be very
+ * slow) on strict-alignment CPUs such as ARM Cortex-M0 or SPARC.
+ */
+function findMisalignedFields(
+  struct: CStruct,
+  structs: CStruct[],
+  enums: CEnum[],
+  dataModel: DataModelId,
+  typedefs: CTypedef[],
+): Array<{ index: number; message: string }> {
+  const packed = computeStructLayout(
+    struct,
+    structs,
+    enums,
+    dataModel,
+    typedefs,
+  );
+  const natural = computeStructLayout(
+    { ...struct, pack: undefined },
+    structs,
+    enums,
+    dataModel,
+    typedefs,
+  );
+
+  return packed.fields.flatMap((fieldLayout, index) => {
+    const required = natural.fields[index].alignment;
+    const { field, offset } = fieldLayout;
+    if (field.bitWidth !== undefined || offset % required === 0) return [];
+    return [
+      {
+        index,
+        message: `Member '${field.name || "(anonymous)"}' is at offset ${offset}, which is not a multiple of its natural ${required}-byte alignment. Copy it with memcpy instead of reading it through a '${formatFieldType(field)}*' pointer.`,
+      },
+    ];
+  });
+}
+
+interface MemberValidationContext {
+  structName: string;
+  typedef?: string;
+  structs: CStruct[];
+  enums: CEnum[];
+  typedefs: CTypedef[];
+  constants: Map<string, number>;
+  dataModel: DataModelId;
+}
+
+function countLines(text: string): number {
+  return text.split("\n").length;
+}
+
+/**
+ * Validate the member declarations of a struct body, descending into
+ * inline struct/union definitions. firstLine is the line the body starts on.
+ */
+function validateMembers(
+  body: string,
+  firstLine: number,
+  kind: CAggregateKind,
+  context: MemberValidationContext,
+  memberNames: Set<string>,
+  errors: ValidationError[],
+  fieldLines?: number[],
+): void {
+  const members: Array<{ field: CField; line: number }> = [];
+
+  for (const declaration of splitMemberDeclarations(body)) {
+    const fieldLine = declaration.text.trim();
+    const leading =
+      declaration.text.length - declaration.text.trimStart().length;
+    const line =
+      firstLine + countLines(body.slice(0, declaration.offset + leading)) - 1;
+
+    // Try to parse the declaration (it may declare several fields)
+    const declared = parseField(fieldLine, context.constants);
+    if (!declared) {
+      errors.push({
+        line,
+        message: describeFieldSyntaxError(fieldLine, context.constants),
+        type: "error",
+      });
+      continue;
+    }
+
+    const nestedMatch = fieldLine.match(INLINE_AGGREGATE_PATTERN);
+    if (nestedMatch) {
+      // Members of an anonymous struct/union belong to the enclosing scope
+      const isAnonymous = declared.length === 1 && !declared[0].name;
+      validateMembers(
+        nestedMatch[4],
+        line + countLines(fieldLine.slice(0, fieldLine.indexOf("{"))) - 1,
+        nestedMatch[2] as CAggregateKind,
+        context,
+        isAnonymous ? memberNames : new Set(),
+        errors,
+      );
+
+      if (declared.length === 0) {
+        errors.push({
+          line,
+          message: `'${nestedMatch[2]} ${nestedMatch[3]}' declares no member and will be ignored. Add a member name after '}'.`,
+          type: "warning",
+        });
+      }
+    }
+
+    for (const field of declared) {
+      validateMember(field, fieldLine, line, context, memberNames, errors);
+      fieldLines?.push(line);
+      members.push({ field, line });
+    }
+  }
+
+  // A flexible array member must come last, after at least one other member,
+  // and only in a struct: a union has no "last" member to grow from
+  members.forEach(({ field, line }, index) => {
+    if (!field.isFlexibleArray) return;
+    if (kind === "union") {
+      errors.push({
+        line,
+        message: `Flexible array member '${field.name}' is not allowed in a union. Give it a size or move it into a struct.`,
+        type: "error",
+      });
+    } else if (index !== members.length - 1) {
+      errors.push({
+        line,
+        message: `Flexible array member '${field.name}' must be the last member.`,
+        type: "error",
+      });
+    } else if (members.length === 1) {
+      errors.push({
+        line,
+        message: `Flexible array member '${field.name}' cannot be the only member. Declare at least one other member before it.`,
+        type: "error",
+      });
+    }
+  });
+}
+
+function validateMember(
+  field: CField,
+  fieldLine: string,
+  line: number,
+  context: MemberValidationContext,
+  memberNames: Set<string>,
+  errors: ValidationError[],
+): void {
+  if (field.name && memberNames.has(field.name)) {
+    errors.push({
+      line,
+      message: `Duplicate member '${field.name}'.`,
+      type: "error",
+    });
+  }
+  memberNames.add(field.name);
+
+  if (field.qualifiers?.includes("restrict")) {
+    errors.push({
+      line,
+      message: `'restrict' can only qualify a pointer (write '${field.type}* restrict ${field.name}').`,
+      type: "error",
+    });
+  }
+
+  if (field.alignas !== undefined) {
+    const natural = getFieldAlignment(
+      field,
+      context.structs,
+      context.enums,
+      context.dataModel,
+      context.typedefs,
+    );
+    if (!isPowerOfTwo(field.alignas)) {
+      errors.push({
+        line,
+        message: `Alignment of '${field.name || "(anonymous)"}' must be a power of two (got ${field.alignas}).`,
+        type: "error",
+      });
+    } else if (field.alignas < natural) {
+      errors.push({
+        line,
+        message: `Alignment ${field.alignas} is weaker than the natural ${natural}-byte alignment of '${field.name || "(anonymous)"}' and has no effect.`,
+        type: "warning",
+      });
+    }
+  }
+
+  // Inline definitions were validated member by member
+  if (field.nestedFields) return;
+
+  // Check if field type is valid
+  // C Rule: You CANNOT use the struct's OWN typedef name inside its definition
+  // But you CAN use OTHER struct typedef names that are already defined
+  if (context.typedef && field.type === context.typedef) {
+    errors.push({
+      line,
+      message: `Cannot use typedef name '${context.typedef}' inside its own struct definition. Use 'struct ${context.structName}*' instead for self-reference.`,
+      type: "error",
+    });
+  }
+
+  // Check if the type is valid
+  // C Rule: Pointers to incomplete types (forward declarations) are allowed!
+  // For pointers: can point to ANY type name (even undefined structs)
+  // For non-pointers: must be a known primitive or defined type
+  // Typedefs are resolved so that 'NodePtr next' counts as a pointer
+  const resolved = resolveFieldType(field, context.typedefs);
+  const isKnownType = isValidType(
+    field.type,
+    context.structs,
+    context.enums,
+    context.typedefs,
+  );
+  const isSelfReference = resolved.type === context.structName;
+
+  if (resolved.isPointer) {
+    // Pointers can point to incomplete types (forward declarations)
+    // This is valid C: struct UndefinedStruct* ptr;
+    // No error needed - pointers to undefined structs are allowed
+
+    // Warning: For self-referential pointers, recommend using 'struct Name*' syntax
+    // But only if they're NOT already using it (check if fieldLine contains "struct")
+    if (field.isPointer && isSelfReference && !fieldLine.includes("struct")) {
+      errors.push({
+        line,
+        message: `Hint: Use 'struct ${context.structName}*' syntax for self-referential pointers (current: '${field.type}*').`,
+        type: "warning",
+      });
+    }
+  } else {
+    // Non-pointer fields must be known types
+    // You cannot have: struct UndefinedStruct field; (incomplete type)
+    // You can only have: struct UndefinedStruct* ptr; (pointer to incomplete type)
+    if (!isKnownType && !isSelfReference) {
+      errors.push({
+        line,
+        message: `Unknown type '${field.type}'. Non-pointer fields must use defined types. Use a pointer ('${field.type}*') if this is a forward declaration.`,
+        type: "error",
+      });
+    } else if (isSelfReference) {
+      errors.push({
+        line,
+        message: `'${context.structName}' cannot contain itself by value (its size would be infinite). Use a pointer ('${field.type}*') instead.`,
+        type: "error",
+      });
+    } else {
+      const embedded = getNestedStruct(resolved, context.structs);
+      if (
+        embedded &&
+        embedsByValue(
+          embedded,
+          context.structName,
+          context.structs,
+          context.typedefs,
+        )
+      ) {
+        errors.push({
+          line,
+          message: `'${field.type}' already contains '${context.structName}' by value, so embedding it here would make the size infinite. Use a pointer ('${field.type}*') instead.`,
+          type: "error",
+        });
+      } else if (embedded?.fields.some((f) => f.isFlexibleArray)) {
+        errors.push({
+          line,
+          message: `'${field.type}' ends in a flexible array member, so a copy embedded by value has no room for its elements. Use a pointer ('${field.type}*') instead.`,
+          type: "warning",
+        });
+      }
+    }
+  }
+
+  if (field.bitWidth !== undefined) {
+    errors.push(
+      ...validateBitField(
+        resolved,
+        context.structs,
+        context.enums,
+        context.dataModel,
+      ).map((message) => ({
+        line,
+        message,
+        type: "error" as const,
+      })),
+    );
+  }
+}
+
+/**
+ * Whether a struct embeds the struct named target by value, directly or
+ * through any of its by-value members
+ */
+function embedsByValue(
+  struct: CStruct,
+  target: string,
+  structs: CStruct[],
+  typedefs: CTypedef[],
+  visited: Set<string> = new Set(),
+): boolean {
+  if (visited.has(struct.name)) return false;
+  visited.add(struct.name);
+
+  return struct.fields.some((field) => {
+    const embedded = getNestedStruct(
+      resolveFieldType(field, typedefs),
+      structs,
+    );
+    if (!embedded) return false;
+    if (!field.nestedFields && embedded.name === target) return true;
+    return embedsByValue(embedded, target, structs, typedefs, visited);
+  });
+}
+
+/**
+ * Explain why a declaration failed to parse, pointing at array sizes
+ * that are not positive integer constants
+ */
+function describeFieldSyntaxError(
+  fieldLine: string,
+  constants: Map<string, number>,
+): string {
+  const { invalidAlignment } = extractLayoutAttributes(fieldLine, constants);
+  if (invalidAlignment !== undefined) {
+    return `Cannot evaluate alignment '${invalidAlignment}'. Use an integer constant expression or a name from '#define NAME value'.`;
+  }
+  for (const [, sizeExpr] of fieldLine.matchAll(/\[([^\]]*)\]/g)) {
+    if (sizeExpr.trim() === "") {
+      return "Only a one-dimensional flexible array member ('type name[]') may leave out its size.";
+    }
+    const size = evaluateConstantExpression(sizeExpr, constants);
+    if (size === null) {
+      return `Cannot evaluate array size '${sizeExpr.trim()}'. Use an integer constant expression or a name from '#define NAME value'.`;
+    }
+    if (size <= 0) {
+      return `Array size '${sizeExpr.trim()}' must be greater than zero (got ${size}).`;
+    }
+  }
+  return `Invalid field syntax: ${fieldLine.substring(0, 30)}...`;
+}
+
+/**
+ * Check bit-field rules: integer type, width within the type, and
+ * zero-width bit-fields must be unnamed
+ */
+function validateBitField(
+  field: CField,
+  structs: CStruct[],
+  enums: CEnum[],
+  dataModel: DataModelId,
+): string[] {
+  const label = field.name ? `'${field.name}'` : "(unnamed)";
+  const isEnum = enums.some(
+    (e) => e.name === field.type || e.typedef === field.type,
+  );
+  const isInteger =
+    !field.isPointer &&
+    !field.isArray &&
+    (isEnum ||
+      isStandardType(field.type) ||
+      /^((signed|unsigned)\s+)?(char|short|int|long|long\s+long)(\s+int)?$|^(signed|unsigned)$/.test(
+        field.type,
+      ));
+
+  if (!isInteger) {
+    return [
+      `Bit-field ${label} must have an integer or enum type (got '${field.type}').`,
+    ];
+  }
+
+  // A _Bool bit-field holds a single bit however wide its storage is
+  const typeBits = isBooleanType(field.type)
+    ? 1
+    : getTypeSize(field.type, structs, enums, dataModel) * 8;
+  const width = field.bitWidth ?? 0;
+  if (width > typeBits) {
+    return [
+      `Width of bit-field ${label} (${width} bits) exceeds its type '${field.type}' (${typeBits} bits).`,
+    ];
+  }
+  if (width === 0 && field.name) {
+    return [`Zero-width bit-field ${label} must be unnamed.`];
+  }
+  return [];
+}
+
+/**
+ * Check if pointer connection is type-safe
+ * Takes typedef into account - need the struct definitions to resolve typedef
+ */
+export function canConnectPointer(
+  pointerType: string,
+  targetStructName: string,
+  typedefs: CTypedef[] = [],
+): boolean {
+  const resolvedPointerType = resolveTypedef(pointerType, typedefs);
+
+  // void* can point to anything
+  if (resolvedPointerType.type === "void") {
+    return true;
+  }
+
+  // Type must match exactly (struct name); a pointer typedef is not the
+  // struct itself
+  return (
+    resolvedPointerType.pointerLevel === 0 &&
+    resolvedPointerType.type === resolveTypedef(targetStructName, typedefs).type
+  );
+}
+
+/**
+ * Check if a function pointer can point to a function
+ * The signatures must match once typedefs are expanded and parameter names
+ * dropped; "()" and "(void)" both mean no parameters.
+ */
+export function canConnectFunctionPointer(
+  pointerSignature: string,
+  functionSignature: string,
+  typedefs: CTypedef[] = [],
+): boolean {
+  return (
+    normalizeSignature(pointerSignature, typedefs) ===
+    normalizeSignature(functionSignature, typedefs)
+  );
+}
+
+/**
+ * Check if a pointer member can point to a value of the given type
+ * Unlike canConnectPointer this compares pointer levels too: an int* points
+ * to an int, a double** to a double* and a char** to a block of char*.
+ * The target is a value cell or a member inside an instance (see
+ * findAddressableField); the pointer is expected with its typedefs expanded
+ * (see resolveFieldType).
+ */
+export function canPointToValue(
+  pointer: CField,
+  target: {
+    type: string;
+    pointerLevel?: number;
+    isPointer?: boolean;
+    isFunctionPointer?: boolean;
+  },
+  structs: CStruct[],
+  typedefs: CTypedef[] = [],
+): boolean {
+  if (!pointer.isPointer || pointer.isFunctionPointer) return false;
+  const pointeeLevel = (pointer.pointerLevel || 1) - 1;
+
+  // void* can point to anything
+  if (pointer.type === "void" && pointeeLevel === 0) return true;
+
+  const resolvedTarget = resolveTypedef(target.type, typedefs);
+  if (target.isFunctionPointer || resolvedTarget.isFunctionPointer) {
+    return false;
+  }
+  const ownLevel = target.isPointer
+    ? target.pointerLevel || 1
+    : (target.pointerLevel ?? 0);
+  const targetLevel = ownLevel + resolvedTarget.pointerLevel;
+
+  return (
+    pointeeLevel === targetLevel &&
+    resolveTypeName(pointer.type, structs, typedefs) ===
+      resolveTypeName(resolvedTarget.type, structs, typedefs)
+  );
+}
+
+/**
+ * Resolve a type name to struct name (handles typedef)
+ * Standalone typedefs are followed through chains (typedef Node Item;
+ * typedef Item Entry;) as long as they do not add a pointer.
+ */
+export function resolveTypeName(
+  typeName: string,
+  structs: CStruct[],
+  typedefs: CTypedef[] = [],
+): string {
+  const alias = resolveTypedef(typeName, typedefs);
+  const name = alias.pointerLevel === 0 ? alias.type : typeName;
+
+  // Check if typeName is a typedef, if so return the struct name
+  const structWithTypedef = structs.find((s) => s.typedef === name);
+  if (structWithTypedef) {
+    return structWithTypedef.name;
+  }
+  // Otherwise return as-is (it's already a struct name or primitive)
+  return name;
+}
+
+/**
+ * Follow a chain of standalone typedefs down to the underlying type,
+ * collecting the pointer levels and qualifiers they add on the way
+ */
+export function resolveTypedef(
+  typeName: string,
+  typedefs: CTypedef[],
+): {
+  type: string;
+  pointerLevel: number;
+  qualifiers: string[];
+  isFunctionPointer: boolean;
+} {
+  const resolved = {
+    type: typeName,
+    pointerLevel: 0,
+    qualifiers: [] as string[],
+    isFunctionPointer: false,
+  };
+  const visited = new Set<string>();
+
+  let alias = typedefs.find((t) => t.name === resolved.type);
+  while (alias && !visited.has(alias.name)) {
+    visited.add(alias.name);
+    resolved.type = alias.type;
+    resolved.pointerLevel += alias.pointerLevel ?? 0;
+    resolved.isFunctionPointer ||= !!alias.isFunctionPointer;
+    for (const qualifier of alias.qualifiers ?? []) {
+      if (!resolved.qualifiers.includes(qualifier)) {
+        resolved.qualifiers.push(qualifier);
+      }
+    }
+    alias = alias.isFunctionPointer
+      ? undefined
+      : typedefs.find((t) => t.name === resolved.type);
+  }
+
+  return resolved;
+}
+
+/**
+ * The field as the compiler sees it once typedefs are expanded:
+ * 'NodePtr next' becomes a pointer to Node, 'u32 flags' an unsigned int
+ */
+export function resolveFieldType(
+  field: CField,
+  typedefs: CTypedef[] = [],
+): CField {
+  if (field.nestedFields || field.isFunctionPointer || typedefs.length === 0) {
+    return field;
+  }
+
+  const alias = resolveTypedef(field.type, typedefs);
+  if (alias.type === field.type) return field;
+
+  const ownLevel = field.isPointer ? field.pointerLevel || 1 : 0;
+  const pointerLevel = ownLevel + alias.pointerLevel;
+  const qualifiers = [...alias.qualifiers, ...(field.qualifiers ?? [])];
+  return {
+    ...field,
+    type: alias.type,
+    isPointer: pointerLevel > 0,
+    pointerLevel: pointerLevel > 0 ? pointerLevel : undefined,
+    isFunctionPointer: alias.isFunctionPointer || undefined,
+    qualifiers: qualifiers.length > 0 ? [...new Set(qualifiers)] : undefined,
+  };
+}
+
+/**
+ * Get size in bytes for a type under the given data model
+ */
+export function getTypeSize(
+  type: string,
+  structs: CStruct[],
+  enums: CEnum[] = [],
+  dataModel: DataModelId = DEFAULT_DATA_MODEL,
+  typedefs: CTypedef[] = [],
+): number {
+  const model = getDataModel(dataModel);
+
+  // Remove any array notation or pointer for base type
+  const alias = resolveTypedef(
+    type
+      .replace(/\[.*\]/, "")
+      .replace(/\*+$/, "")
+      .trim(),
+    typedefs,
+  );
+  const baseType = alias.type;
+
+  if (type.includes("*") || alias.pointerLevel > 0) {
+    return model.sizes.pointer;
+  }
+
+  const kind = getPrimitiveKind(baseType, dataModel);
+  if (kind) {
+    return kind === "void" ? 0 : model.sizes[kind];
+  }
+
+  // Check if it's a struct type
+  const struct = structs.find(
+    (s) => s.name === baseType || s.typedef === baseType,
+  );
+  if (struct) {
+    return calculateStructSize(struct, structs, enums, dataModel, typedefs);
+  }
+
+  // Enums are stored as int
+  if (enums.some((e) => e.name === baseType || e.typedef === baseType)) {
+    return model.sizes.int;
+  }
+
+  return 0; // Unknown type
+}
+
+/**
+ * Get size in bytes occupied by a single field element
+ */
+function getFieldElementSize(
+  field: CField,
+  structs: CStruct[],
+  enums: CEnum[],
+  dataModel: DataModelId,
+  typedefs: CTypedef[],
+): number {
+  if (field.isPointer) return getDataModel(dataModel).sizes.pointer;
+
+  const nested = getNestedStruct(field);
+  if (nested) {
+    return calculateStructSize(nested, structs, enums, dataModel, typedefs);
+  }
+
+  return getTypeSize(field.type, structs, enums, dataModel, typedefs);
+}
+
+/**
+ * Get alignment requirement in bytes for a field
+ * Embedded structs/unions align to their strictest member, not their size
+ */
+function getFieldAlignment(
+  declaredField: CField,
+  structs: CStruct[],
+  enums: CEnum[],
+  dataModel: DataModelId,
+  typedefs: CTypedef[],
+): number {
+  const model = getDataModel(dataModel);
+  const field = resolveFieldType(declaredField, typedefs);
+  if (field.isPointer) {
+    return model.alignments.pointer;
+  }
+
+  const struct = getNestedStruct(field, structs);
+  if (struct) {
+    return computeStructLayout(struct, structs, enums, dataModel, typedefs)
+      .alignment;
+  }
+
+  const kind = getPrimitiveKind(field.type, dataModel);
+  if (kind && kind !== "void") {
+    return model.alignments[kind];
+  }
+  if (enums.some((e) => e.name === field.type || e.typedef === field.type)) {
+    return model.alignments.int;
+  }
+  return 1;
+}
+
+/**
+ * Find the field a member path refers to, e.g. "next", "edges[2]" or
+ * "pos.link". Members of anonymous structs/unions are found directly,
+ * just like C lets you access them.
+ */
+export function findFieldByPath(
+  fields: CField[],
+  path: string,
+  structs: CStruct[] = [],
+  typedefs: CTypedef[] = [],
+): CField | undefined {
+  let field: CField | undefined;
+  let scope = fields;
+
+  for (const name of path.replace(/\[\d+\]/g, "").split(".")) {
+    const member = findMember(scope, name);
+    if (!member) return undefined;
+    // Typedefs are expanded, so a 'NodePtr next' member reports a pointer
+    field = resolveFieldType(member, typedefs);
+    scope = getNestedStruct(field, structs)?.fields ?? [];
+  }
+
+  return field;
+}
+
+/**
+ * The union members a write to the member at path makes active, by union:
+ * "" for an instance of a union, the member path of a named union ("u",
+ * "items[2].u") and the key of the enclosing object plus "#<index>" for an
+ * anonymous one ("#1", "u#0"). Anonymous members are "#<index>" as well.
+ * Writing "u.f" where u is 'union { int i; float f; } u' gives { u: "f" }.
+ */
+export function getActiveUnionMembers(
+  struct: CStruct,
+  path: string,
+  structs: CStruct[] = [],
+  typedefs: CTypedef[] = [],
+): Record<string, string> {
+  const active: Record<string, string> = {};
+  let container: CStruct | undefined = struct;
+  let objectPath = "";
+
+  for (const segment of path.split(".")) {
+    const chain =
+      container &&
+      findMemberChain(container.fields, segment.replace(/\[\d+\]/g, ""));
+    if (!container || !chain) break;
+
+    // Down through the anonymous members that hold it, each of which is
+    // the member written in its enclosing union
+    let key = objectPath;
+    let scope: Pick<CStruct, "kind" | "fields"> = container;
+    let member: CField | undefined;
+    for (const index of chain) {
+      member = scope.fields[index];
+      if (scope.kind === "union") active[key] = member.name || `#${index}`;
+      if (!member.name && member.nestedFields) {
+        key = `${key}#${index}`;
+        scope = { kind: member.nestedKind, fields: member.nestedFields };
+      }
+    }
+
+    objectPath = objectPath ? `${objectPath}.${segment}` : segment;
+    container = getNestedStruct(resolveFieldType(member!, typedefs), structs);
+  }
+
+  return active;
+}
+
+/**
+ * The object an interior pointer points at: a member ("data", "pos.x") or
+ * one element of an array member ("items[3]", "nodes[1].next").
+ * Elements come back without their array part. Returns undefined for paths
+ * that do not name a single object: bit-fields (which have no address),
+ * whole arrays and out-of-range indices.
+ */
+export function findAddressableField(
+  fields: CField[],
+  path: string,
+  structs: CStruct[] = [],
+  typedefs: CTypedef[] = [],
+  flexibleLength = 0,
+): CField | undefined {
+  let field: CField | undefined;
+  let scope = fields;
+
+  for (const segment of path.split(".")) {
+    const match = segment.match(/^(\w+)(?:\[(\d+)\])?$/);
+    const member = match && findMember(scope, match[1]);
+    if (!member) return undefined;
+    field = resolveFieldType(member, typedefs);
+
+    if (match[2] !== undefined) {
+      const length = field.isFlexibleArray
+        ? flexibleLength
+        : (field.arraySize ?? 0);
+      if (!field.isArray || parseInt(match[2], 10) >= length) return undefined;
+      field = {
+        ...field,
+        isArray: false,
+        arraySize: undefined,
+        arrayDimensions: undefined,
+        isFlexibleArray: undefined,
+      };
+    } else if (field.isArray) {
+      return undefined;
+    }
+    scope = getNestedStruct(field, structs)?.fields ?? [];
+  }
+
+  return field && field.bitWidth === undefined ? field : undefined;
+}
+
+/**
+ * offsetof() for a member path such as "pos.x" or "items[3]", descending
+ * into embedded structs and anonymous members. Array elements are indexed
+ * row-major, the same way their paths are built.
+ */
+export function getMemberOffset(
+  struct: CStruct,
+  path: string,
+  structs: CStruct[],
+  enums: CEnum[] = [],
+  dataModel: DataModelId = DEFAULT_DATA_MODEL,
+  typedefs: CTypedef[] = [],
+): number | undefined {
+  let offset = 0;
+  let scope: CStruct | undefined = struct;
+
+  for (const segment of path.split(".")) {
+    const match = segment.match(/^(\w+)(?:\[(\d+)\])?$/);
+    if (!match || !scope) return undefined;
+    const member = findMemberLayout(
+      computeStructLayout(scope, structs, enums, dataModel, typedefs),
+      match[1],
+      structs,
+      enums,
+      dataModel,
+      typedefs,
+    );
+    if (!member) return undefined;
+    offset += member.offset;
+
+    const field = resolveFieldType(member.layout.field, typedefs);
+    if (match[2] !== undefined) {
+      const elementSize =
+        member.layout.elementSize ??
+        member.layout.size / (field.arraySize || 1);
+      offset += parseInt(match[2], 10) * elementSize;
+    }
+    scope = getNestedStruct(field, structs);
+  }
+
+  return offset;
+}
+
+// Layout of a named member, looking through anonymous struct/union members
+function findMemberLayout(
+  layout: StructLayout,
+  name: string,
+  structs: CStruct[],
+  enums: CEnum[],
+  dataModel: DataModelId,
+  typedefs: CTypedef[],
+): { offset: number; layout: FieldLayout } | undefined {
+  for (const fieldLayout of layout.fields) {
+    if (fieldLayout.field.name === name) {
+      return { offset: fieldLayout.offset, layout: fieldLayout };
+    }
+    if (!fieldLayout.field.name && fieldLayout.field.nestedFields) {
+      const nested = computeStructLayout(
+        getNestedStruct(fieldLayout.field, structs)!,
+        structs,
+        enums,
+        dataModel,
+        typedefs,
+      );
+      const member = findMemberLayout(
+        nested,
+        name,
+        structs,
+        enums,
+        dataModel,
+        typedefs,
+      );
+      if (member) {
+        return {
+          offset: fieldLayout.offset + member.offset,
+          layout: member.layout,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+// Indices from fields down to the member called name, through the
+// anonymous members that hold it
+function findMemberChain(fields: CField[], name: string): number[] | undefined {
+  for (const [index, field] of fields.entries()) {
+    if (field.name === name) return [index];
+    if (!field.name && field.nestedFields) {
+      const chain = findMemberChain(field.nestedFields, name);
+      if (chain) return [index, ...chain];
+    }
+  }
+  return undefined;
+}
+
+function findMember(fields: CField[], name: string): CField | undefined {
+  for (const field of fields) {
+    if (field.name === name) return field;
+    if (!field.name && field.nestedFields) {
+      const member = findMember(field.nestedFields, name);
+      if (member) return member;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Struct stored by value inside a field: either an inline definition
+ * (struct { int x, y; } pos) or an embedded struct (struct Point origin).
+ * Returns undefined for pointers and non-struct types.
+ */
+export function getNestedStruct(
+  field: CField,
+  structs: CStruct[] = [],
+): CStruct | undefined {
+  if (field.isPointer) return undefined;
+  if (field.nestedFields) {
+    return {
+      name: field.type || field.name || "(anonymous)",
+      kind: field.nestedKind,
+      pack: field.nestedPack,
+      fields: field.nestedFields,
+    };
+  }
+  return structs.find((s) => s.name === field.type || s.typedef === field.type);
+}
+
+function roundUp(value: number, multiple: number): number {
+  return Math.ceil(value / multiple) * multiple;
+}
+
+/**
+ * Placement of a single field inside a struct
+ */
+export interface FieldLayout {
+  field: CField;
+  offset: number; // offsetof() in bytes (storage unit start for bit-fields)
+  size: number; // Bytes occupied (whole array, or the storage unit for bit-fields)
+  alignment: number;
+  bitOffset?: number; // For bit-fields: first bit inside the storage unit
+  elementSize?: number; // For flexible array members: bytes per element
+}
+
+export interface StructLayout {
+  size: number; // sizeof() including tail padding
+  alignment: number;
+  fields: FieldLayout[];
+}
+
+/**
+ * Compute field offsets, padding and total size of a struct or union
+ * Bit-fields are packed using the GCC/Clang (System V) rules: consecutive
+ * bit-fields share a storage unit of their declared type, a bit-field never
+ * straddles a boundary of that unit, and a zero-width bit-field forces the
+ * next field onto a new unit. Unnamed bit-fields do not affect alignment.
+ *
+ * A pack value caps every member's alignment (packed = 1, in which case
+ * bit-fields are laid out back to back with no storage units at all);
+ * _Alignas/aligned raise a member's or the whole struct's alignment.
+ */
+export function computeStructLayout(
+  struct: CStruct,
+  structs: CStruct[],
+  enums: CEnum[] = [],
+  dataModel: DataModelId = DEFAULT_DATA_MODEL,
+  typedefs: CTypedef[] = [],
+): StructLayout {
+  const isUnion = struct.kind === "union";
+  const fields: FieldLayout[] = [];
+  let bitPosition = 0; // End of the last field, in bits (structs only)
+  let unionSize = 0;
+  let maxAlignment = 1;
+
+  for (const field of struct.fields) {
+    const elementSize = getFieldElementSize(
+      resolveFieldType(field, typedefs),
+      structs,
+      enums,
+      dataModel,
+      typedefs,
+    );
+    const naturalAlignment = getFieldAlignment(
+      field,
+      structs,
+      enums,
+      dataModel,
+      typedefs,
+    );
+    const alignment = Math.max(
+      struct.pack ? Math.min(naturalAlignment, struct.pack) : naturalAlignment,
+      field.alignas ?? 1,
+    );
+
+    if (field.bitWidth !== undefined) {
+      const width = field.bitWidth;
+      if (field.name) {
+        maxAlignment = Math.max(maxAlignment, alignment);
+      }
+
+      if (isUnion) {
+        fields.push({
+          field,
+          offset: 0,
+          size: elementSize,
+          alignment,
+          bitOffset: 0,
+        });
+        unionSize = Math.max(unionSize, Math.ceil(width / 8));
+        continue;
+      }
+
+      if (width === 0) {
+        bitPosition = roundUp(bitPosition, alignment * 8);
+        fields.push({
+          field,
+          offset: bitPosition / 8,
+          size: 0,
+          alignment,
+          bitOffset: 0,
+        });
+        continue;
+      }
+
+      let unitStart = Math.floor(bitPosition / (alignment * 8)) * alignment;
+      if (
+        struct.pack !== 1 &&
+        bitPosition + width > (unitStart + elementSize) * 8
+      ) {
+        // Would straddle the storage unit - start a new one
+        bitPosition = roundUp(bitPosition, alignment * 8);
+        unitStart = bitPosition / 8;
+      }
+
+      fields.push({
+        field,
+        offset: unitStart,
+        size: elementSize,
+        alignment,
+        bitOffset: bitPosition - unitStart * 8,
+      });
+      bitPosition += width;
+      continue;
+    }
+
+    // Track maximum alignment requirement
+    maxAlignment = Math.max(maxAlignment, alignment);
+
+    if (field.isFlexibleArray) {
+      // Adds no storage of its own: sizeof() only grows by the padding
+      // needed to align the elements that follow the struct
+      const offset = isUnion
+        ? 0
+        : roundUp(Math.ceil(bitPosition / 8), alignment);
+      fields.push({ field, offset, size: 0, alignment, elementSize });
+      bitPosition = isUnion ? bitPosition : offset * 8;
+      continue;
+    }
+
+    // Consider arrays
+    const size =
+      field.arraySize && field.arraySize > 0
+        ? elementSize * field.arraySize
+        : elementSize;
+
+    if (isUnion) {
+      // Members overlap - the union is as large as its largest member
+      fields.push({ field, offset: 0, size, alignment });
+      unionSize = Math.max(unionSize, size);
+      continue;
+    }
+
+    // Add padding before this field if needed
+    const offset = roundUp(Math.ceil(bitPosition / 8), alignment);
+    fields.push({ field, offset, size, alignment });
+    bitPosition = (offset + size) * 8;
+  }
+
+  maxAlignment = Math.max(maxAlignment, struct.alignas ?? 1);
+
+  // Add padding at the end to align the struct to its maximum alignment
+  const unpaddedSize = isUnion ? unionSize : Math.ceil(bitPosition / 8);
+  return {
+    size: roundUp(unpaddedSize, maxAlignment),
+    alignment: maxAlignment,
+    fields,
+  };
+}
+
+/**
+ * Calculate total size of a struct in bytes (with padding for alignment)
+ * For unions this is the size of the largest member, rounded up to the
+ * union's alignment, since every member starts at offset 0.
+ */
+export function calculateStructSize(
+  struct: CStruct,
+  structs: CStruct[],
+  enums: CEnum[] = [],
+  dataModel: DataModelId = DEFAULT_DATA_MODEL,
+  typedefs: CTypedef[] = [],
+): number {
+  return computeStructLayout(struct, structs, enums, dataModel, typedefs).size;
+}
+
+/**
+ * Bytes to allocate for an instance whose flexible array member holds
+ * flexibleLength elements: the elements start at the member's offset,
+ * and the allocation is never smaller than sizeof() itself
+ */
+export function getAllocatedSize(
+  layout: StructLayout,
+  flexibleLength: number = 0,
+): number {
+  const flexible = layout.fields.find((f) => f.field.isFlexibleArray);
+  if (!flexible) return layout.size;
+  return Math.max(
+    layout.size,
+    flexible.offset + (flexible.elementSize ?? 0) * flexibleLength,
+  );
+}
+
+/**
+ * Bytes a field actually occupies: [start, end) relative to the struct
+ * Bit-fields only occupy the bytes their bits touch, not the whole unit.
+ */
+export function getFieldByteSpan(fieldLayout: FieldLayout): {
+  start: number;
+  end: number;
+} {
+  const { field, offset, size, bitOffset } = fieldLayout;
+  if (field.bitWidth === undefined || bitOffset === undefined) {
+    return { start: offset, end: offset + size };
+  }
+  const firstBit = offset * 8 + bitOffset;
+  return {
+    start: Math.floor(firstBit / 8),
+    end: Math.ceil((firstBit + field.bitWidth) / 8),
+  };
+}
+
+/**
+ * A run of padding bytes that no member uses
+ */
+export interface PaddingHole {
+  offset: number;
+  size: number;
+}
+
+/**
+ * Find the padding holes of a layout (between members and at the tail)
+ * Unnamed bit-fields are padding too - they only exist to skip bits.
+ */
+export function findPaddingHoles(layout: StructLayout): PaddingHole[] {
+  const used = new Array<boolean>(layout.size).fill(false);
+  for (const fieldLayout of layout.fields) {
+    if (fieldLayout.field.bitWidth !== undefined && !fieldLayout.field.name) {
+      continue;
+    }
+    const { start, end } = getFieldByteSpan(fieldLayout);
+    for (let byte = start; byte < end && byte < layout.size; byte++) {
+      used[byte] = true;
+    }
+  }
+
+  const holes: PaddingHole[] = [];
+  for (let byte = 0; byte < layout.size; byte++) {
+    if (used[byte]) continue;
+    const last = holes[holes.length - 1];
+    if (last && last.offset + last.size === byte) {
+      last.size++;
+    } else {
+      holes.push({ offset: byte, size: 1 });
+    }
+  }
+  return holes;
+}
+
+/**
+ * Valid value range for a bit-field, based on its width and signedness
+ * Plain int bit-fields are signed (as with GCC/Clang); enums are unsigned.
+ */
+export function getBitFieldRange(
+  field: CField,
+  enums: CEnum[] = [],
+): { min: number; max: number } | null {
+  if (field.bitWidth === undefined) return null;
+
+  const isUnsigned =
+    /\bunsigned\b/.test(field.type) ||
+    (isStandardType(field.type) && STANDARD_TYPES[field.type].unsigned) ||
+    enums.some((e) => e.name === field.type || e.typedef === field.type);
+
+  return isUnsigned
+    ? { min: 0, max: 2 ** field.bitWidth - 1 }
+    : {
+        min: -(2 ** (field.bitWidth - 1)),
+        max: 2 ** (field.bitWidth - 1) - 1,
+      };
 }
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatAliasedType,
+  formatTypedefCode,
+  isTypedefCode,
+  parseTypedef,
+  validateTypedefCode,
+} from "./typedefParser";
+import { parseStruct } from "./structParser";
+import type { CTypedef } from "../types";
+
+const node = parseStruct("struct Node { int data; struct Node* next; };")!;
+
+describe("isTypedefCode", () => {
+  it("matches typedefs without a body", () => {
+    expect(isTypedefCode("typedef unsigned int u32;")).toBe(true);
+    expect(isTypedefCode("#define N 4\ntypedef int Cell;")).toBe(true);
+    expect(isTypedefCode("typedef struct P { int x; } P;")).toBe(false);
+    expect(isTypedefCode("struct P { int x; };")).toBe(false);
+  });
+});
+
+describe("parseTypedef", () => {
+  it("keeps the aliased type, pointer level and qualifiers", () => {
+    expect(parseTypedef("typedef unsigned int u32;")).toEqual({
+      name: "u32",
+      type: "unsigned int",
+    });
+    expect(parseTypedef("typedef struct Node* NodePtr;")).toEqual({
+      name: "NodePtr",
+      type: "Node",
+      pointerLevel: 1,
+    });
+    expect(parseTypedef("typedef const char* cstr;")).toEqual({
+      name: "cstr",
+      type: "char",
+      pointerLevel: 1,
+      qualifiers: ["const"],
+    });
+  });
+
+  it("parses function pointer typedefs", () => {
+    expect(parseTypedef("typedef void (*Callback)(int);")).toMatchObject({
+      name: "Callback",
+      isFunctionPointer: true,
+    });
+  });
+
+  it("rejects arrays and multiple names", () => {
+    expect(parseTypedef("typedef int Row[4];")).toBeNull();
+    expect(parseTypedef("typedef int a, b;")).toBeNull();
+  });
+});
+
+describe("formatTypedefCode", () => {
+  it("gives struct tags their keyword back", () => {
+    const typedef: CTypedef = {
+      name: "NodePtr",
+      type: "Node",
+      pointerLevel: 1,
+    };
+    expect(formatAliasedType(typedef, [node])).toBe("struct Node*");
+    expect(formatTypedefCode(typedef, [node])).toBe(
+      "typedef struct Node* NodePtr;",
+    );
+  });
+
+  it("round-trips function pointer typedefs", () => {
+    const code = "typedef void (*Callback)(int);";
+    expect(formatTypedefCode(parseTypedef(code)!)).toBe(code);
+  });
+});
+
+describe("validateTypedefCode", () => {
+  const messages = (code: string, typedefs: CTypedef[] = []) =>
+    validateTypedefCode(code, [node], [], typedefs, false).map((e) => [
+      e.type,
+      e.message,
+    ]);
+
+  it("accepts aliases of known types", () => {
+    expect(messages("typedef struct Node* NodePtr;")).toEqual([]);
+    expect(messages("typedef struct Node Node;")).toEqual([]);
+  });
+
+  it("rejects duplicate names and cycles", () => {
+    expect(
+      messages("typedef int u32;", [{ name: "u32", type: "int" }]),
+    ).toEqual([["error", "Typedef name 'u32' already exists!"]]);
+    expect(messages("typedef B A;", [{ name: "B", type: "A" }])).toEqual([
+      ["error", "Typedef 'A' would form a cycle through 'B'."],
+    ]);
+  });
+
+  it("only warns about pointers to types that are not defined yet", () => {
+    expect(messages("typedef struct Tree* TreePtr;")).toEqual([
+      [
+        "warning",
+        "Type 'Tree' is not defined yet. 'TreePtr' can only point to it once it is.",
+      ],
+    ]);
+    expect(messages("typedef Tree TreeAlias;")).toEqual([
+      ["error", "Unknown type 'Tree'. Define it before the typedef."],
+    ]);
+  });
+
+  it("rejects array typedefs", () => {
+    expect(messages("typedef int Row[4];")).toEqual([
+      [
+        "error",
+        "Array typedef 'Row' is not supported. Use the array directly in a struct member.",
+      ],
+    ]);
+  });
+});
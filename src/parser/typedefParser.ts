@@ -0,0 +1,244 @@
+import type { CEnum, CStruct, CTypedef } from "../types";
+import {
+  formatFunctionPointer,
+  isValidType,
+  parseField,
+  resolveTypedef,
+  type ValidationError,
+} from "./structParser";
+import { parseDefines } from "./constantExpression";
+
+/**
+ * Standalone typedef parser
+ * Parses typedef declarations that do not define a struct, union or enum:
+ *
+ * typedef unsigned int u32;
+ * typedef struct Node* NodePtr;
+ * typedef const char* cstr;
+ * typedef void (*Callback)(int);
+ *
+ * The alias keeps the type it names plus the pointer levels it adds, so a
+ * 'NodePtr next;' member can be treated exactly like 'struct Node* next;'.
+ */
+
+const TYPEDEF_PATTERN = /^\s*typedef\s+([^{};]+);\s*$/;
+
+/**
+ * Check whether a code snippet is a standalone typedef (no braces)
+ */
+export function isTypedefCode(code: string): boolean {
+  // Skip any #define lines in front of the declaration
+  const cleaned = stripComments(code).replace(/^[ \t]*#.*$/gm, "");
+  return /^\s*typedef\b/.test(cleaned) && !cleaned.includes("{");
+}
+
+export function parseTypedef(
+  typedefCode: string,
+  constants: Map<string, number> = parseDefines(typedefCode),
+): CTypedef | null {
+  try {
+    const declaration = matchTypedefDeclaration(stripComments(typedefCode));
+    if (!declaration) {
+      throw new Error(
+        "Invalid typedef syntax. Expected: typedef unsigned int u32; or typedef struct Node* NodePtr;",
+      );
+    }
+
+    const fields = parseField(declaration, constants);
+    if (!fields || fields.length !== 1) {
+      throw new Error("A typedef must declare exactly one name.");
+    }
+
+    const [field] = fields;
+    if (field.isArray || field.bitWidth !== undefined) {
+      throw new Error("Array and bit-field typedefs are not supported.");
+    }
+
+    return {
+      name: field.name,
+      type: field.type,
+      ...(field.isPointer && { pointerLevel: field.pointerLevel || 1 }),
+      ...(field.qualifiers && { qualifiers: field.qualifiers }),
+      ...(field.isFunctionPointer && { isFunctionPointer: true }),
+    };
+  } catch (error) {
+    console.error("Parse error:", error);
+    return null;
+  }
+}
+
+/**
+ * Convert a typedef back into C source code (for editing)
+ */
+export function formatTypedefCode(
+  typedef: CTypedef,
+  structs: CStruct[] = [],
+  enums: CEnum[] = [],
+): string {
+  if (typedef.isFunctionPointer) {
+    return `typedef ${formatFunctionPointer(typedef.type, typedef.name)};`;
+  }
+  return `typedef ${formatAliasedType(typedef, structs, enums)} ${typedef.name};`;
+}
+
+/**
+ * Readable C type a typedef stands for (e.g., "struct Node*", "const char*")
+ * Struct, union and enum tags get their keyword back; typedef names don't.
+ */
+export function formatAliasedType(
+  typedef: CTypedef,
+  structs: CStruct[] = [],
+  enums: CEnum[] = [],
+): string {
+  if (typedef.isFunctionPointer) {
+    return formatFunctionPointer(typedef.type);
+  }
+
+  const struct = structs.find((s) => s.name === typedef.type);
+  const keyword = struct
+    ? (struct.kind ?? "struct")
+    : enums.some((e) => e.name === typedef.type)
+      ? "enum"
+      : null;
+  const baseType = [
+    ...(typedef.qualifiers ?? []),
+    ...(keyword ? [keyword] : []),
+    typedef.type,
+  ].join(" ");
+
+  return `${baseType}${"*".repeat(typedef.pointerLevel ?? 0)}`;
+}
+
+/**
+ * Validate typedef code and return detailed errors
+ */
+export function validateTypedefCode(
+  code: string,
+  existingStructs: CStruct[],
+  existingEnums: CEnum[],
+  existingTypedefs: CTypedef[],
+  isEditing: boolean,
+  editingTypedefName?: string,
+  constants: Map<string, number> = parseDefines(code),
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const cleaned = stripComments(code);
+  const declaration = matchTypedefDeclaration(cleaned);
+  const line = Math.max(
+    1,
+    cleaned.slice(0, cleaned.indexOf("typedef")).split("\n").length,
+  );
+
+  if (!declaration) {
+    errors.push({
+      line,
+      message:
+        "Invalid typedef syntax. Use 'typedef unsigned int u32;' or 'typedef struct Node* NodePtr;'",
+      type: "error",
+    });
+    return errors;
+  }
+
+  const fields = parseField(declaration, constants);
+  if (!fields || fields.length === 0) {
+    errors.push({
+      line,
+      message: `Invalid typedef declaration: ${declaration.trim().substring(0, 40)}`,
+      type: "error",
+    });
+    return errors;
+  }
+  if (fields.length > 1) {
+    errors.push({
+      line,
+      message:
+        "Declare one typedef name per statement (e.g., 'typedef int a; typedef int b;').",
+      type: "error",
+    });
+    return errors;
+  }
+
+  const [field] = fields;
+  if (field.isArray) {
+    errors.push({
+      line,
+      message: `Array typedef '${field.name}' is not supported. Use the array directly in a struct member.`,
+      type: "error",
+    });
+  }
+  if (field.bitWidth !== undefined) {
+    errors.push({
+      line,
+      message: "A typedef cannot have a bit-field width.",
+      type: "error",
+    });
+  }
+
+  // Typedef names share the ordinary identifier namespace
+  const otherTypedefs = existingTypedefs.filter(
+    (t) => !isEditing || t.name !== editingTypedefName,
+  );
+  if (
+    otherTypedefs.some((t) => t.name === field.name) ||
+    existingStructs.some((s) => s.typedef === field.name) ||
+    existingEnums.some((e) => e.typedef === field.name)
+  ) {
+    errors.push({
+      line,
+      message: `Typedef name '${field.name}' already exists!`,
+      type: "error",
+    });
+  }
+
+  if (field.isFunctionPointer) return errors;
+
+  if (field.type === field.name) {
+    // typedef struct Node Node; is fine - the tag lives in its own namespace
+    if (!existingStructs.some((s) => s.name === field.type)) {
+      errors.push({
+        line,
+        message: `Typedef '${field.name}' cannot refer to itself.`,
+        type: "error",
+      });
+    }
+    return errors;
+  }
+
+  if (resolveTypedef(field.type, otherTypedefs).type === field.name) {
+    errors.push({
+      line,
+      message: `Typedef '${field.name}' would form a cycle through '${field.type}'.`,
+      type: "error",
+    });
+    return errors;
+  }
+
+  if (!isValidType(field.type, existingStructs, existingEnums, otherTypedefs)) {
+    // A pointer to an incomplete struct is legal C (opaque handle)
+    errors.push(
+      field.isPointer
+        ? {
+            line,
+            message: `Type '${field.type}' is not defined yet. '${field.name}' can only point to it once it is.`,
+            type: "warning",
+          }
+        : {
+            line,
+            message: `Unknown type '${field.type}'. Define it before the typedef.`,
+            type: "error",
+          },
+    );
+  }
+
+  return errors;
+}
+
+function stripComments(code: string): string {
+  return code.replace(/\/\/.*$/gm, "").replace(/\/\*[\s\S]*?\*\//g, "");
+}
+
+// Declaration after the typedef keyword, without the trailing semicolon
+function matchTypedefDeclaration(cleaned: string): string | null {
+  const withoutDefines = cleaned.replace(/^[ \t]*#.*$/gm, "");
+  return withoutDefines.match(TYPEDEF_PATTERN)?.[1] ?? null;
+}
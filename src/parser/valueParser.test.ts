@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import { parseValueDeclaration, validateValueDeclaration } from "./valueParser";
+import { parseStruct } from "./structParser";
+import { parseEnum } from "./enumParser";
+
+const node = parseStruct("struct Node { int data; struct Node* next; };")!;
+const color = parseEnum("enum Color { RED, GREEN, BLUE };")!;
+
+describe("parseValueDeclaration", () => {
+  it("parses scalars, pointers and arrays", () => {
+    expect(parseValueDeclaration("int count = 3;")).toEqual({
+      name: "count",
+      type: "int",
+      value: "3",
+    });
+    expect(parseValueDeclaration("double* row")).toEqual({
+      name: "row",
+      type: "double",
+      pointerLevel: 1,
+    });
+    expect(parseValueDeclaration("int primes[4] = {2, 3, 5, 7};")).toEqual({
+      name: "primes",
+      type: "int",
+      length: 4,
+      value: ["2", "3", "5", "7"],
+    });
+  });
+
+  it("normalises literals", () => {
+    expect(parseValueDeclaration("int x = 0x1F;")?.value).toBe("31");
+    expect(parseValueDeclaration("float f = 2.5f;")?.value).toBe("2.5");
+    expect(parseValueDeclaration("char c = 'a';")?.value).toBe("a");
+    expect(parseValueDeclaration('char s[8] = "hi";')?.value).toBe("hi");
+  });
+
+  it("stores chars as characters and other integers as numbers", () => {
+    expect(parseValueDeclaration("char c = 65;")?.value).toBe("A");
+    expect(parseValueDeclaration("char nl = '\\n';")?.value).toBe("\n");
+    expect(parseValueDeclaration("char z = 0;")?.value).toBe("");
+    expect(parseValueDeclaration("int x = 'A';")?.value).toBe("65");
+    expect(parseValueDeclaration('char s[8] = "a\\tb";')?.value).toBe("a\tb");
+    expect(parseValueDeclaration("char s[4] = {'h', 'i', 0};")?.value).toBe(
+      "hi",
+    );
+    expect(parseValueDeclaration('uint8_t b[] = "ok";')).toMatchObject({
+      length: 3,
+      value: ["111", "107"],
+    });
+  });
+
+  it("sizes arrays with #define constants", () => {
+    const constants = new Map([["N", 6]]);
+    expect(parseValueDeclaration("int a[N];", constants)?.length).toBe(6);
+  });
+
+  it("takes the length of an unsized array from its initializer", () => {
+    expect(parseValueDeclaration("int a[] = {1, 2, 3};")?.length).toBe(3);
+    expect(parseValueDeclaration('char s[] = "abc";')?.length).toBe(4);
+    expect(parseValueDeclaration("int a[];")).toBeNull();
+  });
+
+  it("rejects what is not a single variable", () => {
+    expect(parseValueDeclaration("int a, b;")).toBeNull();
+    expect(parseValueDeclaration("int grid[2][2];")).toBeNull();
+    expect(parseValueDeclaration('int x = "text";')).toBeNull();
+    expect(parseValueDeclaration("int x = {1, 2};")).toBeNull();
+    expect(parseValueDeclaration("int a[2] = 5;")).toBeNull();
+    expect(parseValueDeclaration("")).toBeNull();
+  });
+});
+
+describe("validateValueDeclaration", () => {
+  const messages = (code: string) =>
+    validateValueDeclaration(code, [node], [color], []).map((e) => [
+      e.type,
+      e.message,
+    ]);
+
+  it("accepts primitives, enums and pointers to structs", () => {
+    expect(messages("int count = 3;")).toEqual([]);
+    expect(messages("enum Color c = GREEN;")).toEqual([]);
+    expect(messages("struct Node* head;")).toEqual([]);
+  });
+
+  it("rejects structs, void and unknown types", () => {
+    expect(messages("struct Node n;")).toEqual([
+      [
+        "error",
+        "'Node' is a struct. Add an instance of it to the canvas instead.",
+      ],
+    ]);
+    expect(messages("void v;")).toEqual([
+      ["error", "A value cannot have type 'void'."],
+    ]);
+    expect(messages("Widget w;")).toEqual([
+      ["error", "Unknown type 'Widget'."],
+    ]);
+  });
+
+  it("rejects initializers that do not fit", () => {
+    expect(messages('char s[2] = "abc";')).toEqual([
+      ["error", "String of 3 characters does not fit in s[2]."],
+    ]);
+    expect(messages('char s[2] = "ab";')).toEqual([
+      [
+        "warning",
+        "No room for the terminating '\\0' in s[2]; the array is not a valid C string.",
+      ],
+    ]);
+    expect(messages("int a[2] = {1, 2, 3};")).toEqual([
+      ["error", "Too many initializers for a[2]."],
+    ]);
+    expect(messages("enum Color c = PURPLE;")).toEqual([
+      ["error", "'PURPLE' is not an enumerator of 'Color'."],
+    ]);
+  });
+
+  it("rejects initializers that are not literals", () => {
+    expect(messages("int x = y + 1;")).toEqual([
+      [
+        "error",
+        "'y + 1' is not a literal. Initialize with a number, a character, a string or a {...} list of them.",
+      ],
+    ]);
+    expect(messages("int a[2] = {1, n};")).toEqual([
+      [
+        "error",
+        "'n' is not a literal. Initialize with a number, a character, a string or a {...} list of them.",
+      ],
+    ]);
+    expect(messages("int a[];")).toEqual([
+      [
+        "error",
+        "An array without a length needs a string or a non-empty {...} list to take it from.",
+      ],
+    ]);
+  });
+
+  it("sizes arrays with the #define constants it is given", () => {
+    const constants = new Map([["N", 3]]);
+    expect(
+      validateValueDeclaration("int a[N] = {1, 2};", [], [], [], constants),
+    ).toEqual([]);
+    expect(
+      validateValueDeclaration(
+        "int a[N] = {1, 2, 3, 4};",
+        [],
+        [],
+        [],
+        constants,
+      ),
+    ).toMatchObject([{ message: "Too many initializers for a[3]." }]);
+    expect(messages("int a[N];")[0][0]).toBe("error");
+  });
+
+  it("rejects literals of the wrong kind for the type", () => {
+    expect(messages('int a[] = "ab";')).toEqual([
+      ["error", "A string can only initialize a char array, not 'int a[]'."],
+    ]);
+    expect(messages('char c = "a";')).toEqual([
+      ["error", "A string can only initialize a char array, not 'char c'."],
+    ]);
+    expect(messages("int x = 3.7;")).toEqual([
+      ["error", "'3.7' is not an integer, but 'x' has integer type 'int'."],
+    ]);
+    expect(messages("short a[2] = {1, 2.5f};")).toEqual([
+      ["error", "'2.5f' is not an integer, but 'a' has integer type 'short'."],
+    ]);
+    expect(messages("double d = 3.7;")).toEqual([]);
+    expect(messages("int x = 0xFF;")).toEqual([]);
+  });
+
+  it("resolves typedefs before checking the literals", () => {
+    const typedefs = [{ name: "byte", type: "unsigned char" }];
+    expect(
+      validateValueDeclaration('byte s[] = "ok";', [], [], typedefs),
+    ).toEqual([]);
+    expect(
+      parseValueDeclaration("byte b = 1.5;", undefined, typedefs),
+    ).toBeNull();
+  });
+
+  it("leaves pointer targets to the canvas", () => {
+    expect(messages("int* p = 0;")).toEqual([
+      [
+        "error",
+        "Pointers get their target by connecting them on the canvas; leave out the initializer.",
+      ],
+    ]);
+  });
+});
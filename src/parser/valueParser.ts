@@ -0,0 +1,390 @@
+import type { CEnum, CField, CStruct, CTypedef, ValueCell } from "../types";
+import {
+  getNestedStruct,
+  isNumericType,
+  isValidType,
+  parseField,
+  resolveFieldType,
+  type ValidationError,
+} from "./structParser";
+import { findEnum } from "./enumParser";
+import { decodeEscapes } from "./statementParser";
+
+/**
+ * Value cell declarations
+ * A value cell is a single object or an array that is not a struct,
+ * declared like a C variable with an optional initializer:
+ *
+ * int count = 3;
+ * double* row;
+ * char name[16] = "hello";
+ * int primes[4] = {2, 3, 5, 7};
+ * char word[] = "abc";        (length taken from the initializer)
+ *
+ * Values are kept as strings, the same way struct members store them. A
+ * char is stored as the character itself ("A" for both 'A' and 65, "" for
+ * '\0') and a char array as one string of its characters up to the last
+ * one that is not '\0'. Other integer types store the number, so 'A' in
+ * an int is "65".
+ */
+
+export type ValueDeclaration = Omit<ValueCell, "id" | "position">;
+
+const STRING_LITERAL = /^"((?:[^"\\]|\\.)*)"$/;
+const CHAR_LITERAL = /^'((?:[^'\\]|\\.))'$/;
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+// char, signed char, unsigned char and the 8-bit stdint types
+const CHAR_TYPE = /^(?:(?:un)?signed\s+)?char$|^u?int(?:_least)?8_t$/;
+// Types whose values are stored as characters rather than numbers
+const TEXT_TYPE = /^(?:(?:un)?signed\s+)?char$/;
+const NUMBER_LITERAL =
+  /^[-+]?(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)[uUlLfF]*$/;
+
+export function parseValueDeclaration(
+  code: string,
+  constants: Map<string, number> = new Map(),
+  typedefs: CTypedef[] = [],
+): ValueDeclaration | null {
+  const declaration = splitInitializer(code);
+  if (!declaration) return null;
+
+  const fields = parseField(declaration.declarator, constants);
+  if (!fields || fields.length !== 1) return null;
+
+  const [field] = fields;
+  if (
+    !field.name ||
+    field.nestedFields ||
+    field.isFunctionPointer ||
+    field.bitWidth !== undefined ||
+    field.arrayDimensions ||
+    (field.isFlexibleArray && declaration.initializer === undefined)
+  ) {
+    return null;
+  }
+
+  const { initializer } = declaration;
+  let value: string | string[] | undefined;
+  if (initializer !== undefined) {
+    if (findTypeMismatch(field, initializer, typedefs)) return null;
+    const element = resolveFieldType({ ...field, isArray: false }, typedefs);
+    const parsed = parseInitializer(
+      initializer,
+      field.isArray,
+      !element.isPointer && TEXT_TYPE.test(element.type),
+    );
+    if (parsed === null) return null;
+    value = parsed;
+  }
+
+  // int a[] = {1, 2, 3}; has 3 elements, char s[] = "abc"; has 4 with the '\0'
+  let length = field.arraySize;
+  if (field.isFlexibleArray) {
+    const string = initializer?.match(STRING_LITERAL);
+    length = string
+      ? decodeEscapes(string[1]).length + 1
+      : splitItems(initializer ?? "").length;
+    if (length === 0) return null;
+  }
+
+  return {
+    name: field.name,
+    type: field.type,
+    ...(field.isPointer && { pointerLevel: field.pointerLevel || 1 }),
+    ...(field.isArray && { length }),
+    ...(value !== undefined && { value }),
+  };
+}
+
+/**
+ * Validate a value cell declaration and return detailed errors
+ */
+export function validateValueDeclaration(
+  code: string,
+  existingStructs: CStruct[],
+  existingEnums: CEnum[],
+  existingTypedefs: CTypedef[],
+  constants: Map<string, number> = new Map(),
+): ValidationError[] {
+  const declaration = parseValueDeclaration(code, constants, existingTypedefs);
+  if (!declaration) {
+    const parts = splitInitializer(code);
+    const field = parts && parseField(parts.declarator, constants)?.[0];
+    const mismatch =
+      field &&
+      parts.initializer !== undefined &&
+      findTypeMismatch(field, parts.initializer, existingTypedefs);
+    if (mismatch) {
+      return [{ line: 1, message: mismatch, type: "error" }];
+    }
+    // The declarator is fine, so it is the initializer that is not a literal
+    if (
+      parts?.initializer !== undefined &&
+      parseValueDeclaration(parts.declarator, constants)
+    ) {
+      return [
+        {
+          line: 1,
+          message: `'${parts.initializer}' is not a literal. Initialize with a number, a character, a string or a {...} list of them.`,
+          type: "error",
+        },
+      ];
+    }
+    if (parts && /\[\s*\]$/.test(parts.declarator)) {
+      return [
+        {
+          line: 1,
+          message:
+            "An array without a length needs a string or a non-empty {...} list to take it from.",
+          type: "error",
+        },
+      ];
+    }
+    return [
+      {
+        line: 1,
+        message:
+          "Declare one variable, e.g. 'int count = 3', 'double* row' or 'char name[16] = \"hi\"'.",
+        type: "error",
+      },
+    ];
+  }
+
+  const errors: ValidationError[] = [];
+  const element = resolveFieldType(
+    {
+      name: declaration.name,
+      type: declaration.type,
+      isPointer: !!declaration.pointerLevel,
+      isArray: false,
+      pointerLevel: declaration.pointerLevel,
+    },
+    existingTypedefs,
+  );
+
+  if (element.isFunctionPointer) {
+    errors.push({
+      line: 1,
+      message:
+        "Function pointers point to functions; declare the function in the editor instead.",
+      type: "error",
+    });
+  } else if (!element.isPointer) {
+    if (element.type === "void") {
+      errors.push({
+        line: 1,
+        message: "A value cannot have type 'void'.",
+        type: "error",
+      });
+    } else if (getNestedStruct(element, existingStructs)) {
+      errors.push({
+        line: 1,
+        message: `'${declaration.type}' is a struct. Add an instance of it to the canvas instead.`,
+        type: "error",
+      });
+    } else if (
+      !isValidType(
+        declaration.type,
+        existingStructs,
+        existingEnums,
+        existingTypedefs,
+      )
+    ) {
+      errors.push({
+        line: 1,
+        message: `Unknown type '${declaration.type}'.`,
+        type: "error",
+      });
+    }
+  }
+
+  if (declaration.value === undefined) return errors;
+
+  const initializer = splitInitializer(code)?.initializer ?? "";
+  const string = initializer.match(STRING_LITERAL);
+  const items = string ? [] : splitItems(initializer);
+
+  if (element.isPointer) {
+    errors.push({
+      line: 1,
+      message:
+        "Pointers get their target by connecting them on the canvas; leave out the initializer.",
+      type: "error",
+    });
+  } else if (string && declaration.length) {
+    // char name[16] = "hello"; needs room for the terminating '\0'
+    const { length } = decodeEscapes(string[1]);
+    if (length > declaration.length) {
+      errors.push({
+        line: 1,
+        message: `String of ${length} characters does not fit in ${declaration.name}[${declaration.length}].`,
+        type: "error",
+      });
+    } else if (length === declaration.length) {
+      errors.push({
+        line: 1,
+        message: `No room for the terminating '\\0' in ${declaration.name}[${declaration.length}]; the array is not a valid C string.`,
+        type: "warning",
+      });
+    }
+  } else if (
+    declaration.length !== undefined &&
+    items.length > declaration.length
+  ) {
+    errors.push({
+      line: 1,
+      message: `Too many initializers for ${declaration.name}[${declaration.length}].`,
+      type: "error",
+    });
+  }
+
+  // Names are only literals as true/false or enumerators of the cell's enum
+  const enumDef = findEnum(declaration.type, existingEnums);
+  for (const item of items) {
+    if (!IDENTIFIER.test(item) || item === "true" || item === "false") {
+      continue;
+    }
+    if (!enumDef) {
+      errors.push({
+        line: 1,
+        message: `'${item}' is not a literal. Initialize with a number, a character, a string or a {...} list of them.`,
+        type: "error",
+      });
+    } else if (!enumDef.enumerators.some((e) => e.name === item)) {
+      errors.push({
+        line: 1,
+        message: `'${item}' is not an enumerator of '${enumDef.name}'.`,
+        type: "error",
+      });
+    }
+  }
+
+  return errors;
+}
+
+// "char name[16] = "hi"" -> declarator and initializer
+function splitInitializer(
+  code: string,
+): { declarator: string; initializer?: string } | null {
+  const text = code
+    .replace(/\/\/.*$/gm, "")
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .trim()
+    .replace(/;$/, "")
+    .trim();
+  if (!text) return null;
+
+  const equals = text.indexOf("=");
+  if (equals === -1) return { declarator: text };
+  return {
+    declarator: text.slice(0, equals).trim(),
+    initializer: text.slice(equals + 1).trim(),
+  };
+}
+
+/**
+ * Why the initializer's literals cannot initialize this type, if they can't:
+ * a string only initializes a char array, and integer types take no
+ * fractions
+ */
+function findTypeMismatch(
+  field: CField,
+  initializer: string,
+  typedefs: CTypedef[],
+): string | undefined {
+  const element = resolveFieldType({ ...field, isArray: false }, typedefs);
+  if (element.isPointer) return undefined;
+
+  if (STRING_LITERAL.test(initializer)) {
+    return field.isArray && CHAR_TYPE.test(element.type)
+      ? undefined
+      : `A string can only initialize a char array, not '${field.type} ${field.name}${field.isArray ? "[]" : ""}'.`;
+  }
+
+  const isInteger =
+    CHAR_TYPE.test(element.type) ||
+    (isNumericType(element.type) &&
+      !/^(?:float|double|long double)$/.test(element.type));
+  if (!isInteger) return undefined;
+  const fraction = splitItems(initializer).find(
+    (item) =>
+      NUMBER_LITERAL.test(item) &&
+      !/^[-+]?0[xX]/.test(item) &&
+      /[.eEfF]/.test(item.replace(/[uUlL]+$/, "")),
+  );
+  return fraction
+    ? `'${fraction}' is not an integer, but '${field.name}' has integer type '${field.type}'.`
+    : undefined;
+}
+
+// Literals as stored: 42, 3.5, "text" or {1, 2, 3}; characters for char
+// types and numbers for the rest
+function parseInitializer(
+  initializer: string,
+  isArray: boolean,
+  isText: boolean,
+): string | string[] | null {
+  const string = initializer.match(STRING_LITERAL);
+  if (string) {
+    if (!isArray) return null;
+    const text = decodeEscapes(string[1]);
+    // uint8_t bytes[] = "ok"; holds the codes
+    return isText
+      ? text.replace(/\0+$/, "")
+      : [...text].map((c) => String(c.charCodeAt(0)));
+  }
+
+  if (initializer.startsWith("{") && initializer.endsWith("}")) {
+    if (!isArray) return null;
+    const values = splitItems(initializer).map((item) =>
+      parseScalar(item, isText),
+    );
+    if (values.some((v) => v === null)) return null;
+    // {'h', 'i', 0} is the string "hi"
+    return isText
+      ? values
+          .map((v) => v || "\0")
+          .join("")
+          .replace(/\0+$/, "")
+      : (values as string[]);
+  }
+
+  return isArray ? null : parseScalar(initializer, isText);
+}
+
+// "{1, 2, 3}" -> ["1", "2", "3"]; a single literal is one item
+function splitItems(initializer: string): string[] {
+  if (!initializer.startsWith("{") || !initializer.endsWith("}")) {
+    return [initializer];
+  }
+  return initializer
+    .slice(1, -1)
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseScalar(literal: string, isText: boolean): string | null {
+  const char = literal.match(CHAR_LITERAL);
+  if (char) {
+    const code = decodeEscapes(char[1]).charCodeAt(0);
+    return isText ? formatChar(code) : String(code);
+  }
+  if (NUMBER_LITERAL.test(literal)) {
+    // 0x1F -> 31; suffixes (10u, 2.5f) do not change the value
+    const isHex = /^[-+]?0[xX]/.test(literal);
+    const digits = literal.replace(isHex ? /[uUlL]+$/ : /[uUlLfF]+$/, "");
+    const magnitude = Number(digits.replace(/^[-+]/, ""));
+    const number = digits.startsWith("-") ? -magnitude : magnitude;
+    return isText ? formatChar(number) : String(number);
+  }
+  // true/false and enumerator names
+  if (IDENTIFIER.test(literal)) return literal;
+  return null;
+}
+
+// The character with this code, wrapped to a byte; '\0' is ""
+function formatChar(code: number): string {
+  const byte = ((Math.trunc(code) % 256) + 256) % 256;
+  return byte === 0 ? "" : String.fromCharCode(byte);
+}
@@ -1,27 +1,105 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import type { CStruct, StructInstance, PointerConnection } from "../types";
-import { canConnectPointer, resolveTypeName } from "../parser/structParser";
+import type {
+  CField,
+  CStruct,
+  CEnum,
+  CTypedef,
+  CFunction,
+  StructInstance,
+  ValueCell,
+  PointerConnection,
+  StackFrame,
+  StorageClass,
+  UnsetPointerState,
+} from "../types";
+import {
+  canConnectFunctionPointer,
+  canConnectPointer,
+  canPointToValue,
+  computeStructLayout,
+  findAddressableField,
+  findFieldByPath,
+  getActiveUnionMembers,
+  getAllocatedSize,
+  getMemberOffset,
+  resolveTypeName,
+} from "../parser/structParser";
+import { DEFAULT_DATA_MODEL, type DataModelId } from "../parser/dataModels";
+import {
+  assignAddresses,
+  getFunctionBlock,
+  type AddressBlock,
+} from "../utils/addresses";
+import { setValueAtPath } from "../utils/fieldPath";
+import { clearPointerState } from "../utils/pointerStates";
+import { getStorageClass } from "../utils/storage";
+import {
+  getValueCellElement,
+  getValueCellSize,
+  isValueCellPath,
+  VALUE_CELL_FIELD,
+} from "../utils/valueCells";
 
 interface HistoryState {
   structDefinitions: CStruct[];
+  enumDefinitions: CEnum[];
+  typedefDefinitions: CTypedef[];
+  functionDefinitions: CFunction[];
   instances: StructInstance[];
+  valueCells: ValueCell[];
   connections: PointerConnection[];
+  stackFrames: StackFrame[];
 }
 
-interface CanvasState {
+export interface CanvasState {
   // Struct definitions
   structDefinitions: CStruct[];
   addStructDefinition: (struct: CStruct) => void;
   updateStructDefinition: (oldName: string, newStruct: CStruct) => void;
   deleteStructDefinition: (structName: string) => void;
 
+  // Enum definitions
+  enumDefinitions: CEnum[];
+  addEnumDefinition: (enumDef: CEnum) => void;
+  updateEnumDefinition: (oldName: string, newEnum: CEnum) => void;
+  deleteEnumDefinition: (enumName: string) => void;
+
+  // Standalone typedefs (typedef unsigned int u32; typedef struct Node* NodePtr;)
+  typedefDefinitions: CTypedef[];
+  addTypedefDefinition: (typedef: CTypedef) => void;
+  updateTypedefDefinition: (oldName: string, newTypedef: CTypedef) => void;
+  deleteTypedefDefinition: (typedefName: string) => void;
+
+  // #define constants of the code submitted so far, usable in later code
+  constantDefinitions: Record<string, number>;
+  addConstantDefinitions: (constants: Map<string, number>) => void;
+
+  // Functions that function pointer members can point to (int add(int, int);)
+  functionDefinitions: CFunction[];
+  addFunctionDefinition: (fn: CFunction) => void;
+  updateFunctionDefinition: (oldName: string, newFunction: CFunction) => void;
+  deleteFunctionDefinition: (functionName: string) => void;
+  updateFunctionPosition: (
+    name: string,
+    position: { x: number; y: number },
+  ) => void;
+
+  // Add many definitions at once (header import) as a single undo step
+  importDefinitions: (
+    structs: CStruct[],
+    enums: CEnum[],
+    typedefs?: CTypedef[],
+    functions?: CFunction[],
+  ) => void;
+
   // Instances on canvas
   instances: StructInstance[];
   addInstance: (
     struct: CStruct,
     position: { x: number; y: number },
     customName?: string,
+    placement?: Pick<StructInstance, "storage" | "frameId">, // Heap by default
   ) => void;
   updateInstancePosition: (
     id: string,
@@ -33,13 +111,61 @@ interface CanvasState {
     fieldName: string,
     value: unknown,
   ) => void;
+  // Element count of the instance's flexible array member (char data[])
+  setFlexibleLength: (instanceId: string, length: number) => void;
   removeInstance: (id: string) => void;
   removeInstances: (ids: string[]) => void;
 
+  // Standalone values and arrays that pointers to primitives point at
+  // (int count, double* row, char name[16])
+  valueCells: ValueCell[];
+  addValueCell: (cell: Omit<ValueCell, "id">) => void;
+  updateValueCellPosition: (
+    id: string,
+    position: { x: number; y: number },
+  ) => void;
+  // path is "value" or "value[2]"; a char array takes its whole string at "value"
+  updateValueCellValue: (id: string, path: string, value: unknown) => void;
+  removeValueCell: (id: string) => void;
+
   // Pointer connections
   connections: PointerConnection[];
   addConnection: (connection: Omit<PointerConnection, "id">) => void;
   removeConnection: (id: string) => void;
+  // Mark an unconnected pointer NULL or uninitialised (wild); a connection
+  // from it is removed, like assigning p = NULL
+  setPointerState: (
+    nodeId: string,
+    path: string,
+    state: UnsetPointerState,
+  ) => void;
+
+  // Call stack, bottom frame first; locals point at their frame by frameId
+  stackFrames: StackFrame[];
+  pushStackFrame: (
+    functionName: string,
+    position: { x: number; y: number },
+  ) => void;
+  // Return from the innermost active call: its locals die, and pointers
+  // to them dangle
+  popStackFrame: () => void;
+  // Delete a frame together with its locals
+  removeStackFrame: (id: string) => void;
+  // Move instances or value cells to the heap, static storage or a frame
+  setStorage: (ids: string[], storage: StorageClass, frameId?: string) => void;
+  // free() a heap block: it stays on the canvas as a tombstone and the
+  // pointers still aimed at it dangle
+  freeNode: (id: string) => void;
+
+  // Target ABI used for sizes, alignment and padding
+  dataModel: DataModelId;
+  setDataModel: (dataModel: DataModelId) => void;
+
+  // Simulated addresses: shown on nodes and as pointer values when enabled
+  showAddresses: boolean;
+  setShowAddresses: (show: boolean) => void;
+  // Give new objects an address and move the ones that no longer fit
+  syncAddresses: () => void;
 
   // UI state
   selectedInstanceId: string | null;
@@ -51,6 +177,14 @@ interface CanvasState {
   undo: () => void;
   redo: () => void;
   saveHistory: () => void;
+  // Group the actions of a console run or a step of a call into one undo
+  // step: history is saved around the batch, not by the actions in it.
+  // Batches with the same key in a row share one entry, so the steps of a
+  // call undo together unless something else was saved between them.
+  batchHistory: <T>(run: () => T, key?: string) => T;
+  isBatchingHistory: boolean;
+  // Key of the batch that made the current entry
+  historyBatchKey: string | null;
 
   // Persistence
   clearAll: () => void;
@@ -62,22 +196,356 @@ let instanceCounter = 0;
 
 const MAX_HISTORY_SIZE = 50;
 
+// Whether the current history entry already holds the canvas as it is
+function isCurrentHistoryEntry(state: CanvasState): boolean {
+  const entry = state.history[state.historyIndex];
+  return (
+    !!entry && JSON.stringify(entry) === JSON.stringify(takeSnapshot(state))
+  );
+}
+
+function takeSnapshot(state: CanvasState): HistoryState {
+  return {
+    structDefinitions: JSON.parse(JSON.stringify(state.structDefinitions)),
+    enumDefinitions: JSON.parse(JSON.stringify(state.enumDefinitions)),
+    typedefDefinitions: JSON.parse(JSON.stringify(state.typedefDefinitions)),
+    functionDefinitions: JSON.parse(JSON.stringify(state.functionDefinitions)),
+    instances: JSON.parse(JSON.stringify(state.instances)),
+    valueCells: JSON.parse(JSON.stringify(state.valueCells)),
+    connections: JSON.parse(JSON.stringify(state.connections)),
+    stackFrames: JSON.parse(JSON.stringify(state.stackFrames)),
+  };
+}
+
+/**
+ * Canvas node id of a function; connections from function pointer members
+ * use it as their targetInstanceId
+ */
+export function getFunctionNodeId(functionName: string): string {
+  return `function-${functionName}`;
+}
+
+// New function nodes are stacked in a column left of the default canvas area
+function defaultFunctionPosition(functions: CFunction[]): {
+  x: number;
+  y: number;
+} {
+  return { x: -320, y: 100 + functions.length * 120 };
+}
+
+// Struct instances and value cells both record the state of their
+// unconnected pointers
+type PointerStateHolder = {
+  id: string;
+  pointerStates?: Record<string, UnsetPointerState>;
+};
+
+// NULL is the default, so only uninitialised pointers are stored
+function withPointerState<T extends PointerStateHolder>(
+  node: T,
+  nodeId: string,
+  path: string,
+  pointerState: UnsetPointerState | undefined,
+): T {
+  if (node.id !== nodeId) return node;
+  const pointerStates =
+    pointerState === "uninitialized"
+      ? { ...node.pointerStates, [path]: pointerState }
+      : clearPointerState(node.pointerStates, path);
+  return { ...node, pointerStates };
+}
+
+// Writing a member of a union reinterprets the other members, so every
+// union on the path remembers which of its members owns the storage
+function withActiveMembers(
+  instance: StructInstance,
+  path: string,
+  state: Pick<CanvasState, "structDefinitions" | "typedefDefinitions">,
+): StructInstance {
+  const struct = state.structDefinitions.find(
+    (s) => s.name === instance.structName,
+  );
+  if (!struct) return instance;
+  const active = getActiveUnionMembers(
+    struct,
+    path,
+    state.structDefinitions,
+    state.typedefDefinitions,
+  );
+  if (Object.keys(active).length === 0) return instance;
+  return {
+    ...instance,
+    activeMembers: { ...instance.activeMembers, ...active },
+  };
+}
+
+// Objects are placed in the region of their storage class; functions live
+// in the text segment
+const ADDRESS_REGIONS: Record<StorageClass, AddressBlock["region"]> = {
+  heap: "heap",
+  stack: "stack",
+  static: "data",
+};
+
+function getAddressBlocks(
+  state: Pick<
+    CanvasState,
+    | "instances"
+    | "valueCells"
+    | "functionDefinitions"
+    | "structDefinitions"
+    | "enumDefinitions"
+    | "typedefDefinitions"
+    | "dataModel"
+  >,
+): AddressBlock[] {
+  const instanceBlocks = state.instances.map((inst): AddressBlock => {
+    const structDef = state.structDefinitions.find(
+      (s) => s.name === inst.structName,
+    );
+    const layout = structDef
+      ? computeStructLayout(
+          structDef,
+          state.structDefinitions,
+          state.enumDefinitions,
+          state.dataModel,
+          state.typedefDefinitions,
+        )
+      : undefined;
+    return {
+      id: inst.id,
+      region: ADDRESS_REGIONS[getStorageClass(inst)],
+      size: layout ? getAllocatedSize(layout, inst.flexibleLength) : 0,
+      alignment: layout?.alignment ?? 1,
+      address: inst.address,
+    };
+  });
+
+  const cellBlocks = state.valueCells.map((cell): AddressBlock => {
+    const size = getValueCellSize(
+      cell,
+      state.structDefinitions,
+      state.enumDefinitions,
+      state.dataModel,
+      state.typedefDefinitions,
+    );
+    // Primitives are aligned to their own size (largest power of two in it)
+    const elementSize = size / (cell.length || 1);
+    return {
+      id: cell.id,
+      region: ADDRESS_REGIONS[getStorageClass(cell)],
+      size,
+      alignment: Math.min(elementSize & -elementSize || 1, 16),
+      address: cell.address,
+    };
+  });
+
+  const functionBlocks = state.functionDefinitions.map((fn) =>
+    getFunctionBlock(getFunctionNodeId(fn.name), fn.address),
+  );
+
+  return [...instanceBlocks, ...cellBlocks, ...functionBlocks];
+}
+
+/**
+ * Address a connected pointer holds: the target's simulated address plus
+ * the offset of the member or element it points at
+ */
+export function getConnectionAddress(
+  conn: PointerConnection,
+  state: Pick<
+    CanvasState,
+    | "instances"
+    | "valueCells"
+    | "functionDefinitions"
+    | "structDefinitions"
+    | "enumDefinitions"
+    | "typedefDefinitions"
+    | "dataModel"
+  >,
+): number | undefined {
+  const fn = state.functionDefinitions.find(
+    (f) => getFunctionNodeId(f.name) === conn.targetInstanceId,
+  );
+  if (fn) return fn.address;
+
+  const cell = state.valueCells.find((c) => c.id === conn.targetInstanceId);
+  if (cell) {
+    if (cell.address === undefined) return undefined;
+    const index = conn.targetFieldName?.match(/\[(\d+)\]$/);
+    if (!index) return cell.address;
+    const elementSize =
+      getValueCellSize(
+        cell,
+        state.structDefinitions,
+        state.enumDefinitions,
+        state.dataModel,
+        state.typedefDefinitions,
+      ) / (cell.length || 1);
+    return cell.address + parseInt(index[1], 10) * elementSize;
+  }
+
+  const target = state.instances.find((i) => i.id === conn.targetInstanceId);
+  if (target?.address === undefined) return undefined;
+  if (!conn.targetFieldName) return target.address;
+  const structDef = state.structDefinitions.find(
+    (s) => s.name === target.structName,
+  );
+  const offset = structDef
+    ? getMemberOffset(
+        structDef,
+        conn.targetFieldName,
+        state.structDefinitions,
+        state.enumDefinitions,
+        state.dataModel,
+        state.typedefDefinitions,
+      )
+    : undefined;
+  return offset === undefined ? undefined : target.address + offset;
+}
+
+/**
+ * Drop connections that are no longer valid after a definition changed
+ * A connection is invalid if:
+ * 1. The source field no longer exists in the updated struct
+ * 2. The source field is no longer a pointer
+ * 3. The pointer type no longer matches the target struct or value cell (or
+ *    the function pointer signature no longer matches the target function)
+ * 4. An interior pointer's target member or element no longer exists
+ */
+export function filterValidConnections(
+  connections: PointerConnection[],
+  instances: StructInstance[],
+  structs: CStruct[],
+  typedefs: CTypedef[],
+  functions: CFunction[],
+  valueCells: ValueCell[],
+): PointerConnection[] {
+  return connections.filter((conn) => {
+    const targetInstance = instances.find(
+      (i) => i.id === conn.targetInstanceId,
+    );
+    const targetCell = valueCells.find((c) => c.id === conn.targetInstanceId);
+    const targetFunction = functions.find(
+      (f) => getFunctionNodeId(f.name) === conn.targetInstanceId,
+    );
+
+    if (!targetInstance && !targetCell && !targetFunction) return false;
+
+    const sourceField = findConnectionSource(
+      conn,
+      instances,
+      valueCells,
+      structs,
+      typedefs,
+    );
+
+    // Connection is invalid if field doesn't exist or is no longer a pointer
+    if (!sourceField || !sourceField.isPointer) return false;
+
+    if (targetFunction || sourceField.isFunctionPointer) {
+      return (
+        !!targetFunction &&
+        !conn.targetFieldName &&
+        !!sourceField.isFunctionPointer &&
+        canConnectFunctionPointer(
+          sourceField.type,
+          targetFunction.signature,
+          typedefs,
+        )
+      );
+    }
+
+    if (targetCell) {
+      return (
+        (!conn.targetFieldName ||
+          isValueCellPath(targetCell, conn.targetFieldName)) &&
+        canPointToValue(sourceField, targetCell, structs, typedefs)
+      );
+    }
+
+    // Interior pointer: the member or element must still exist and have the
+    // pointer's pointee type
+    if (conn.targetFieldName) {
+      const targetStruct = structs.find(
+        (s) => s.name === targetInstance!.structName,
+      );
+      const targetField =
+        targetStruct &&
+        findAddressableField(
+          targetStruct.fields,
+          conn.targetFieldName,
+          structs,
+          typedefs,
+          targetInstance!.flexibleLength,
+        );
+      return (
+        !!targetField &&
+        canPointToValue(sourceField, targetField, structs, typedefs)
+      );
+    }
+
+    // Check if the pointer type still matches the target struct
+    const resolvedPointerType = resolveTypeName(
+      sourceField.type,
+      structs,
+      typedefs,
+    );
+    const resolvedTargetType = resolveTypeName(
+      targetInstance!.structName,
+      structs,
+      typedefs,
+    );
+
+    return canConnectPointer(resolvedPointerType, resolvedTargetType, typedefs);
+  });
+}
+
+// The pointer a connection starts from: a struct member or a value cell
+// element, with typedefs expanded
+function findConnectionSource(
+  conn: PointerConnection,
+  instances: StructInstance[],
+  valueCells: ValueCell[],
+  structs: CStruct[],
+  typedefs: CTypedef[],
+): CField | undefined {
+  const sourceCell = valueCells.find((c) => c.id === conn.sourceInstanceId);
+  if (sourceCell) {
+    return isValueCellPath(sourceCell, conn.sourceFieldName)
+      ? getValueCellElement(sourceCell, typedefs)
+      : undefined;
+  }
+
+  const sourceInstance = instances.find((i) => i.id === conn.sourceInstanceId);
+  const sourceStruct = structs.find(
+    (s) => s.name === sourceInstance?.structName,
+  );
+  if (!sourceStruct) return undefined;
+
+  // Check if the field still exists in the updated struct
+  // (handles array notation like "next[0]" and nested "pos.next")
+  return findFieldByPath(
+    sourceStruct.fields,
+    conn.sourceFieldName,
+    structs,
+    typedefs,
+  );
+}
+
 export const useCanvasStore = create<CanvasState>()(
   persist<CanvasState>(
     (set, get) => ({
       structDefinitions: [],
       history: [],
       historyIndex: -1,
+      isBatchingHistory: false,
+      historyBatchKey: null,
 
       saveHistory: () => {
+        if (get().isBatchingHistory) return;
         const state = get();
-        const newHistoryState: HistoryState = {
-          structDefinitions: JSON.parse(
-            JSON.stringify(state.structDefinitions),
-          ),
-          instances: JSON.parse(JSON.stringify(state.instances)),
-          connections: JSON.parse(JSON.stringify(state.connections)),
-        };
+        const newHistoryState = takeSnapshot(state);
 
         // Remove any redo history after current index
         const newHistory = state.history.slice(0, state.historyIndex + 1);
@@ -89,15 +557,51 @@ export const useCanvasStore = create<CanvasState>()(
           set({
             history: newHistory,
             historyIndex: newHistory.length - 1,
+            historyBatchKey: null,
           });
         } else {
           set({
             history: newHistory,
             historyIndex: newHistory.length - 1,
+            historyBatchKey: null,
           });
         }
       },
 
+      // Undo restores the entry before the current one, so a batch saves
+      // the state both before and after it; back-to-back batches share the
+      // entry between them, and a batch that changed nothing leaves none.
+      // A batch runs to the end before returning, so none is left open.
+      batchHistory: (run, key) => {
+        if (get().isBatchingHistory) return run();
+        const extend = key !== undefined && key === get().historyBatchKey;
+        const saved = !extend && !isCurrentHistoryEntry(get());
+        if (saved) get().saveHistory();
+
+        set({ isBatchingHistory: true });
+        try {
+          return run();
+        } finally {
+          set({ isBatchingHistory: false });
+          const { history, historyIndex } = get();
+          if (isCurrentHistoryEntry(get())) {
+            if (saved) {
+              set({
+                history: history.slice(0, historyIndex),
+                historyIndex: historyIndex - 1,
+              });
+            }
+          } else if (extend) {
+            set({
+              history: [...history.slice(0, historyIndex), takeSnapshot(get())],
+            });
+          } else {
+            get().saveHistory();
+            set({ historyBatchKey: key ?? null });
+          }
+        }
+      },
+
       undo: () => {
         const state = get();
         if (state.historyIndex > 0) {
@@ -107,9 +611,25 @@ export const useCanvasStore = create<CanvasState>()(
             structDefinitions: JSON.parse(
               JSON.stringify(historyState.structDefinitions),
             ),
+            enumDefinitions: JSON.parse(
+              JSON.stringify(historyState.enumDefinitions ?? []),
+            ),
+            typedefDefinitions: JSON.parse(
+              JSON.stringify(historyState.typedefDefinitions ?? []),
+            ),
+            functionDefinitions: JSON.parse(
+              JSON.stringify(historyState.functionDefinitions ?? []),
+            ),
             instances: JSON.parse(JSON.stringify(historyState.instances)),
+            valueCells: JSON.parse(
+              JSON.stringify(historyState.valueCells ?? []),
+            ),
             connections: JSON.parse(JSON.stringify(historyState.connections)),
+            stackFrames: JSON.parse(
+              JSON.stringify(historyState.stackFrames ?? []),
+            ),
             historyIndex: newIndex,
+            historyBatchKey: null,
           });
         }
       },
@@ -123,9 +643,25 @@ export const useCanvasStore = create<CanvasState>()(
             structDefinitions: JSON.parse(
               JSON.stringify(historyState.structDefinitions),
             ),
+            enumDefinitions: JSON.parse(
+              JSON.stringify(historyState.enumDefinitions ?? []),
+            ),
+            typedefDefinitions: JSON.parse(
+              JSON.stringify(historyState.typedefDefinitions ?? []),
+            ),
+            functionDefinitions: JSON.parse(
+              JSON.stringify(historyState.functionDefinitions ?? []),
+            ),
             instances: JSON.parse(JSON.stringify(historyState.instances)),
+            valueCells: JSON.parse(
+              JSON.stringify(historyState.valueCells ?? []),
+            ),
             connections: JSON.parse(JSON.stringify(historyState.connections)),
+            stackFrames: JSON.parse(
+              JSON.stringify(historyState.stackFrames ?? []),
+            ),
             historyIndex: newIndex,
+            historyBatchKey: null,
           });
         }
       },
@@ -152,55 +688,17 @@ export const useCanvasStore = create<CanvasState>()(
           );
 
           // Validate and remove invalid connections
-          // A connection is invalid if:
-          // 1. The source field no longer exists in the updated struct
-          // 2. The source field is no longer a pointer
-          // 3. The pointer type no longer matches the target struct
-          const validConnections = state.connections.filter((conn) => {
-            const sourceInstance = updatedInstances.find(
-              (i) => i.id === conn.sourceInstanceId,
-            );
-            const targetInstance = updatedInstances.find(
-              (i) => i.id === conn.targetInstanceId,
-            );
-
-            if (!sourceInstance || !targetInstance) return false;
-
-            // Find the struct definition for the source instance
-            const sourceStruct = updatedStructDefinitions.find(
-              (s) => s.name === sourceInstance.structName,
-            );
-
-            if (!sourceStruct) return false;
-
-            // Extract base field name (handle array notation like "next[0]")
-            const baseFieldName = conn.sourceFieldName.split("[")[0];
-
-            // Check if the field still exists in the updated struct
-            const sourceField = sourceStruct.fields.find(
-              (f) => f.name === baseFieldName,
-            );
-
-            // Connection is invalid if field doesn't exist or is no longer a pointer
-            if (!sourceField || !sourceField.isPointer) return false;
-
-            // Check if the pointer type still matches the target struct
-            const resolvedPointerType = resolveTypeName(
-              sourceField.type,
-              updatedStructDefinitions,
-            );
-            const resolvedTargetType = resolveTypeName(
-              targetInstance.structName,
-              updatedStructDefinitions,
-            );
-
-            return canConnectPointer(resolvedPointerType, resolvedTargetType);
-          });
-
           return {
             structDefinitions: updatedStructDefinitions,
             instances: updatedInstances,
-            connections: validConnections,
+            connections: filterValidConnections(
+              state.connections,
+              updatedInstances,
+              updatedStructDefinitions,
+              state.typedefDefinitions,
+              state.functionDefinitions,
+              state.valueCells,
+            ),
           };
         });
       },
@@ -231,9 +729,197 @@ export const useCanvasStore = create<CanvasState>()(
         }));
       },
 
+      enumDefinitions: [],
+
+      addEnumDefinition: (enumDef) => {
+        get().saveHistory();
+        set((state) => ({
+          enumDefinitions: [...state.enumDefinitions, enumDef],
+        }));
+      },
+
+      updateEnumDefinition: (oldName, newEnum) => {
+        get().saveHistory();
+        set((state) => ({
+          enumDefinitions: state.enumDefinitions.map((e) =>
+            e.name === oldName ? newEnum : e,
+          ),
+        }));
+      },
+
+      deleteEnumDefinition: (enumName) => {
+        get().saveHistory();
+        set((state) => ({
+          enumDefinitions: state.enumDefinitions.filter(
+            (e) => e.name !== enumName,
+          ),
+        }));
+      },
+
+      typedefDefinitions: [],
+
+      addTypedefDefinition: (typedef) => {
+        get().saveHistory();
+        set((state) => ({
+          typedefDefinitions: [...state.typedefDefinitions, typedef],
+        }));
+      },
+
+      updateTypedefDefinition: (oldName, newTypedef) => {
+        get().saveHistory();
+        set((state) => {
+          const updatedTypedefs = state.typedefDefinitions.map((t) =>
+            t.name === oldName ? newTypedef : t,
+          );
+          // Members declared with the typedef may no longer be pointers
+          return {
+            typedefDefinitions: updatedTypedefs,
+            connections: filterValidConnections(
+              state.connections,
+              state.instances,
+              state.structDefinitions,
+              updatedTypedefs,
+              state.functionDefinitions,
+              state.valueCells,
+            ),
+          };
+        });
+      },
+
+      deleteTypedefDefinition: (typedefName) => {
+        get().saveHistory();
+        set((state) => {
+          const updatedTypedefs = state.typedefDefinitions.filter(
+            (t) => t.name !== typedefName,
+          );
+          return {
+            typedefDefinitions: updatedTypedefs,
+            connections: filterValidConnections(
+              state.connections,
+              state.instances,
+              state.structDefinitions,
+              updatedTypedefs,
+              state.functionDefinitions,
+              state.valueCells,
+            ),
+          };
+        });
+      },
+
+      // Like the data model, defines only feed the parsers and are not undone
+      constantDefinitions: {},
+
+      addConstantDefinitions: (constants) =>
+        set((state) => ({
+          constantDefinitions: {
+            ...state.constantDefinitions,
+            ...Object.fromEntries(constants),
+          },
+        })),
+
+      functionDefinitions: [],
+
+      addFunctionDefinition: (fn) => {
+        get().saveHistory();
+        set((state) => ({
+          functionDefinitions: [
+            ...state.functionDefinitions,
+            {
+              ...fn,
+              position:
+                fn.position ??
+                defaultFunctionPosition(state.functionDefinitions),
+            },
+          ],
+        }));
+      },
+
+      updateFunctionDefinition: (oldName, newFunction) => {
+        get().saveHistory();
+        set((state) => {
+          const oldFunction = state.functionDefinitions.find(
+            (f) => f.name === oldName,
+          );
+          const updatedFunctions = state.functionDefinitions.map((f) =>
+            f.name === oldName
+              ? {
+                  ...newFunction,
+                  position: oldFunction?.position,
+                  address: oldFunction?.address,
+                }
+              : f,
+          );
+
+          // Pointers follow a renamed function, then drop any whose
+          // signature no longer matches
+          const oldNodeId = getFunctionNodeId(oldName);
+          const renamedConnections = state.connections.map((conn) =>
+            conn.targetInstanceId === oldNodeId
+              ? {
+                  ...conn,
+                  targetInstanceId: getFunctionNodeId(newFunction.name),
+                }
+              : conn,
+          );
+
+          return {
+            functionDefinitions: updatedFunctions,
+            connections: filterValidConnections(
+              renamedConnections,
+              state.instances,
+              state.structDefinitions,
+              state.typedefDefinitions,
+              updatedFunctions,
+              state.valueCells,
+            ),
+          };
+        });
+      },
+
+      deleteFunctionDefinition: (functionName) => {
+        get().saveHistory();
+        set((state) => ({
+          functionDefinitions: state.functionDefinitions.filter(
+            (f) => f.name !== functionName,
+          ),
+          connections: state.connections.filter(
+            (conn) => conn.targetInstanceId !== getFunctionNodeId(functionName),
+          ),
+        }));
+      },
+
+      updateFunctionPosition: (name, position) => {
+        // Like instances, history is saved once the drag stops
+        set((state) => ({
+          functionDefinitions: state.functionDefinitions.map((f) =>
+            f.name === name ? { ...f, position } : f,
+          ),
+        }));
+      },
+
+      importDefinitions: (structs, enums, typedefs = [], functions = []) => {
+        get().saveHistory();
+        set((state) => {
+          const functionDefinitions = [...state.functionDefinitions];
+          for (const fn of functions) {
+            functionDefinitions.push({
+              ...fn,
+              position:
+                fn.position ?? defaultFunctionPosition(functionDefinitions),
+            });
+          }
+          return {
+            structDefinitions: [...state.structDefinitions, ...structs],
+            enumDefinitions: [...state.enumDefinitions, ...enums],
+            typedefDefinitions: [...state.typedefDefinitions, ...typedefs],
+            functionDefinitions,
+          };
+        });
+      },
+
       instances: [], // Always start with clean canvas
 
-      addInstance: (struct, position, customName) => {
+      addInstance: (struct, position, customName, placement) => {
         get().saveHistory();
         set((state) => {
           const instanceName =
@@ -244,6 +930,7 @@ export const useCanvasStore = create<CanvasState>()(
             instanceName,
             position,
             fieldValues: {},
+            ...placement,
           };
           return { instances: [...state.instances, newInstance] };
         });
@@ -273,22 +960,89 @@ export const useCanvasStore = create<CanvasState>()(
           instances: state.instances.map((inst) =>
             inst.id === instanceId
               ? {
-                  ...inst,
-                  fieldValues: { ...inst.fieldValues, [fieldName]: value },
+                  ...withActiveMembers(inst, fieldName, state),
+                  // fieldName may be a member path into a nested struct ("pos.x")
+                  fieldValues: setValueAtPath(
+                    inst.fieldValues,
+                    fieldName,
+                    value,
+                  ),
                 }
               : inst,
           ),
         }));
       },
 
+      setFlexibleLength: (instanceId, length) => {
+        get().saveHistory();
+        set((state) => {
+          const instance = state.instances.find((i) => i.id === instanceId);
+          const struct = state.structDefinitions.find(
+            (s) => s.name === instance?.structName,
+          );
+          const flexible = struct?.fields.find((f) => f.isFlexibleArray);
+          if (!instance || !flexible) return {};
+
+          // Shrinking the allocation drops the values and pointers stored
+          // in the elements that no longer exist, and pointers into them
+          const values = instance.fieldValues[flexible.name];
+          const isRemovedElement = (fieldName: string) => {
+            const match = fieldName.match(/^(\w+)\[(\d+)\]/);
+            return (
+              !!match &&
+              match[1] === flexible.name &&
+              parseInt(match[2], 10) >= length
+            );
+          };
+
+          return {
+            instances: state.instances.map((inst) =>
+              inst.id === instanceId
+                ? {
+                    ...inst,
+                    flexibleLength: length,
+                    fieldValues: Array.isArray(values)
+                      ? {
+                          ...inst.fieldValues,
+                          [flexible.name]: values.slice(0, length),
+                        }
+                      : inst.fieldValues,
+                  }
+                : inst,
+            ),
+            connections: state.connections.filter(
+              (conn) =>
+                !(
+                  conn.sourceInstanceId === instanceId &&
+                  isRemovedElement(conn.sourceFieldName)
+                ) &&
+                !(
+                  conn.targetInstanceId === instanceId &&
+                  conn.targetFieldName &&
+                  isRemovedElement(conn.targetFieldName)
+                ),
+            ),
+          };
+        });
+      },
+
       removeInstance: (id) => {
         set((state) => {
           const newHistoryState: HistoryState = {
             structDefinitions: JSON.parse(
               JSON.stringify(state.structDefinitions),
             ),
+            enumDefinitions: JSON.parse(JSON.stringify(state.enumDefinitions)),
+            typedefDefinitions: JSON.parse(
+              JSON.stringify(state.typedefDefinitions),
+            ),
+            functionDefinitions: JSON.parse(
+              JSON.stringify(state.functionDefinitions),
+            ),
             instances: JSON.parse(JSON.stringify(state.instances)),
+            valueCells: JSON.parse(JSON.stringify(state.valueCells)),
             connections: JSON.parse(JSON.stringify(state.connections)),
+            stackFrames: JSON.parse(JSON.stringify(state.stackFrames)),
           };
           const newHistory = state.history.slice(0, state.historyIndex + 1);
           newHistory.push(newHistoryState);
@@ -314,8 +1068,17 @@ export const useCanvasStore = create<CanvasState>()(
             structDefinitions: JSON.parse(
               JSON.stringify(state.structDefinitions),
             ),
+            enumDefinitions: JSON.parse(JSON.stringify(state.enumDefinitions)),
+            typedefDefinitions: JSON.parse(
+              JSON.stringify(state.typedefDefinitions),
+            ),
+            functionDefinitions: JSON.parse(
+              JSON.stringify(state.functionDefinitions),
+            ),
             instances: JSON.parse(JSON.stringify(state.instances)),
+            valueCells: JSON.parse(JSON.stringify(state.valueCells)),
             connections: JSON.parse(JSON.stringify(state.connections)),
+            stackFrames: JSON.parse(JSON.stringify(state.stackFrames)),
           };
           const newHistory = state.history.slice(0, state.historyIndex + 1);
           newHistory.push(newHistoryState);
@@ -325,6 +1088,10 @@ export const useCanvasStore = create<CanvasState>()(
 
           return {
             instances: state.instances.filter((inst) => !ids.includes(inst.id)),
+            // Selections on the canvas mix instances and value cells
+            valueCells: state.valueCells.filter(
+              (cell) => !ids.includes(cell.id),
+            ),
             connections: state.connections.filter(
               (conn) =>
                 !ids.includes(conn.sourceInstanceId) &&
@@ -336,18 +1103,91 @@ export const useCanvasStore = create<CanvasState>()(
         });
       },
 
-      connections: [],
+      valueCells: [],
 
-      addConnection: (connection) => {
+      addValueCell: (cell) => {
         get().saveHistory();
         set((state) => ({
-          connections: [
-            ...state.connections,
-            { ...connection, id: `conn-${Date.now()}-${Math.random()}` },
+          valueCells: [
+            ...state.valueCells,
+            { ...cell, id: `cell-${Date.now()}-${Math.random()}` },
           ],
         }));
       },
 
+      updateValueCellPosition: (id, position) => {
+        // Like instances, history is saved once the drag stops
+        set((state) => ({
+          valueCells: state.valueCells.map((cell) =>
+            cell.id === id ? { ...cell, position } : cell,
+          ),
+        }));
+      },
+
+      updateValueCellValue: (id, path, value) => {
+        get().saveHistory();
+        set((state) => ({
+          valueCells: state.valueCells.map((cell) =>
+            cell.id === id
+              ? {
+                  ...cell,
+                  value: setValueAtPath(
+                    { [VALUE_CELL_FIELD]: cell.value },
+                    path,
+                    value,
+                  )[VALUE_CELL_FIELD],
+                }
+              : cell,
+          ),
+        }));
+      },
+
+      removeValueCell: (id) => {
+        get().saveHistory();
+        set((state) => ({
+          valueCells: state.valueCells.filter((cell) => cell.id !== id),
+          connections: state.connections.filter(
+            (conn) =>
+              conn.sourceInstanceId !== id && conn.targetInstanceId !== id,
+          ),
+        }));
+      },
+
+      connections: [],
+
+      addConnection: (connection) => {
+        get().saveHistory();
+        set((state) => {
+          // A connected pointer drops its NULL/uninitialised state, so it
+          // reads NULL again if the connection is removed
+          const { sourceInstanceId, sourceFieldName } = connection;
+          return {
+            instances: state.instances.map((inst) =>
+              withPointerState(
+                inst.id === sourceInstanceId
+                  ? withActiveMembers(inst, sourceFieldName, state)
+                  : inst,
+                sourceInstanceId,
+                sourceFieldName,
+                undefined,
+              ),
+            ),
+            valueCells: state.valueCells.map((cell) =>
+              withPointerState(
+                cell,
+                sourceInstanceId,
+                sourceFieldName,
+                undefined,
+              ),
+            ),
+            connections: [
+              ...state.connections,
+              { ...connection, id: `conn-${Date.now()}-${Math.random()}` },
+            ],
+          };
+        });
+      },
+
       removeConnection: (id) => {
         get().saveHistory();
         set((state) => ({
@@ -355,6 +1195,155 @@ export const useCanvasStore = create<CanvasState>()(
         }));
       },
 
+      setPointerState: (nodeId, path, pointerState) => {
+        get().saveHistory();
+        set((state) => ({
+          instances: state.instances.map((inst) =>
+            withPointerState(
+              inst.id === nodeId ? withActiveMembers(inst, path, state) : inst,
+              nodeId,
+              path,
+              pointerState,
+            ),
+          ),
+          valueCells: state.valueCells.map((cell) =>
+            withPointerState(cell, nodeId, path, pointerState),
+          ),
+          connections: state.connections.filter(
+            (conn) =>
+              conn.sourceInstanceId !== nodeId || conn.sourceFieldName !== path,
+          ),
+        }));
+      },
+
+      stackFrames: [],
+
+      pushStackFrame: (functionName, position) => {
+        get().saveHistory();
+        set((state) => ({
+          stackFrames: [
+            ...state.stackFrames,
+            {
+              id: `frame-${Date.now()}-${Math.random()}`,
+              functionName,
+              position,
+            },
+          ],
+        }));
+      },
+
+      popStackFrame: () => {
+        const top = get()
+          .stackFrames.filter((frame) => !frame.popped)
+          .pop();
+        if (!top) return;
+        get().saveHistory();
+        set((state) => ({
+          stackFrames: state.stackFrames.map((frame) =>
+            frame.id === top.id ? { ...frame, popped: true } : frame,
+          ),
+        }));
+      },
+
+      removeStackFrame: (id) => {
+        get().saveHistory();
+        set((state) => {
+          const localIds = new Set(
+            [...state.instances, ...state.valueCells]
+              .filter((node) => node.frameId === id)
+              .map((node) => node.id),
+          );
+          return {
+            stackFrames: state.stackFrames.filter((frame) => frame.id !== id),
+            instances: state.instances.filter((inst) => !localIds.has(inst.id)),
+            valueCells: state.valueCells.filter(
+              (cell) => !localIds.has(cell.id),
+            ),
+            connections: state.connections.filter(
+              (conn) =>
+                !localIds.has(conn.sourceInstanceId) &&
+                !localIds.has(conn.targetInstanceId),
+            ),
+          };
+        });
+      },
+
+      setStorage: (ids, storage, frameId) => {
+        get().saveHistory();
+        const move = <T extends StructInstance | ValueCell>(node: T): T =>
+          ids.includes(node.id)
+            ? {
+                ...node,
+                storage,
+                frameId: storage === "stack" ? frameId : undefined,
+              }
+            : node;
+        set((state) => ({
+          instances: state.instances.map(move),
+          valueCells: state.valueCells.map(move),
+        }));
+      },
+
+      freeNode: (id) => {
+        get().saveHistory();
+        const free = <T extends StructInstance | ValueCell>(node: T): T =>
+          node.id === id ? { ...node, freed: true } : node;
+        set((state) => ({
+          instances: state.instances.map(free),
+          valueCells: state.valueCells.map(free),
+        }));
+      },
+
+      dataModel: DEFAULT_DATA_MODEL,
+
+      setDataModel: (dataModel) => set({ dataModel }),
+
+      showAddresses: false,
+
+      setShowAddresses: (showAddresses) => set({ showAddresses }),
+
+      syncAddresses: () => {
+        const state = get();
+        const addresses = assignAddresses(
+          getAddressBlocks(state),
+          state.dataModel,
+        );
+        const withAddress = <T extends { address?: number }>(
+          item: T,
+          id: string,
+        ): T =>
+          addresses.get(id) === item.address
+            ? item
+            : { ...item, address: addresses.get(id) };
+
+        const instances = state.instances.map((inst) =>
+          withAddress(inst, inst.id),
+        );
+        const valueCells = state.valueCells.map((cell) =>
+          withAddress(cell, cell.id),
+        );
+        const functionDefinitions = state.functionDefinitions.map((fn) =>
+          withAddress(fn, getFunctionNodeId(fn.name)),
+        );
+        const changed =
+          instances.some((inst, i) => inst !== state.instances[i]) ||
+          valueCells.some((cell, i) => cell !== state.valueCells[i]) ||
+          functionDefinitions.some(
+            (fn, i) => fn !== state.functionDefinitions[i],
+          );
+        if (!changed) return;
+
+        // Addresses follow from the canvas, so assigning them is not an undo
+        // step of its own: the entry that held the canvas takes them along
+        const wasCurrentEntry = isCurrentHistoryEntry(state);
+        set({ instances, valueCells, functionDefinitions });
+        if (wasCurrentEntry) {
+          const history = [...state.history];
+          history[state.historyIndex] = takeSnapshot(get());
+          set({ history });
+        }
+      },
+
       selectedInstanceId: null,
 
       setSelectedInstance: (id) => set({ selectedInstanceId: id }),
@@ -362,7 +1351,9 @@ export const useCanvasStore = create<CanvasState>()(
       clearAll: () =>
         set((state) => ({
           instances: [],
+          valueCells: [],
           connections: [],
+          stackFrames: [],
           selectedInstanceId: null,
           // Keep struct definitions, only clear workspace
           structDefinitions: state.structDefinitions,
@@ -373,8 +1364,15 @@ export const useCanvasStore = create<CanvasState>()(
         return JSON.stringify(
           {
             structDefinitions: state.structDefinitions,
+            enumDefinitions: state.enumDefinitions,
+            typedefDefinitions: state.typedefDefinitions,
+            functionDefinitions: state.functionDefinitions,
+            constantDefinitions: state.constantDefinitions,
             instances: state.instances,
+            valueCells: state.valueCells,
             connections: state.connections,
+            stackFrames: state.stackFrames,
+            dataModel: state.dataModel,
             version: "1.0",
           },
           null,
@@ -387,8 +1385,15 @@ export const useCanvasStore = create<CanvasState>()(
           const parsed = JSON.parse(data);
           set({
             structDefinitions: parsed.structDefinitions || [],
+            enumDefinitions: parsed.enumDefinitions || [],
+            typedefDefinitions: parsed.typedefDefinitions || [],
+            functionDefinitions: parsed.functionDefinitions || [],
+            constantDefinitions: parsed.constantDefinitions || {},
             instances: parsed.instances || [],
+            valueCells: parsed.valueCells || [],
             connections: parsed.connections || [],
+            stackFrames: parsed.stackFrames || [],
+            dataModel: parsed.dataModel || DEFAULT_DATA_MODEL,
             selectedInstanceId: null,
           });
         } catch (error) {
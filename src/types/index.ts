@@ -14,29 +14,115 @@ export interface CField {
   type: string;
   isPointer: boolean;
   isArray: boolean;
-  arraySize?: number;
+  arraySize?: number; // Total number of elements (product of all dimensions)
+  arrayDimensions?: number[]; // Multi-dimensional arrays only (e.g., [4, 4] for "int grid[4][4]")
   pointerLevel?: number; // Number of * (e.g., 1 for *, 2 for **, 3 for ***)
   isFunctionPointer?: boolean; // True if this is a function pointer
+  isFlexibleArray?: boolean; // Flexible array member "char data[]" (arraySize left unset)
+  bitWidth?: number; // Bit-field width (e.g., 3 for "unsigned flags : 3")
+  qualifiers?: string[]; // Qualifiers on the base type (e.g., ["const"] for "const char* s")
+  pointerQualifiers?: string[]; // Qualifiers on the pointer itself (e.g., ["const"] for "char* const s")
+  nestedKind?: CAggregateKind; // Inline definition: "struct { int x, y; } pos" (type holds the tag, if any)
+  nestedFields?: CField[]; // Members of the inline definition; an unnamed field is an anonymous member
+  nestedPack?: number; // Inline definition only: maximum member alignment (packed or #pragma pack)
+  alignas?: number; // Minimum alignment from _Alignas(n) or __attribute__((aligned(n)))
 }
 
+export type CAggregateKind = "struct" | "union";
+
 export interface CStruct {
   name: string;
   typedef?: string;
+  kind?: CAggregateKind; // Defaults to "struct" when omitted
   fields: CField[];
+  pack?: number; // Maximum member alignment: 1 for __attribute__((packed)), n for #pragma pack(n)
+  alignas?: number; // Minimum alignment from __attribute__((aligned(n)))
   color?: string; // Pastel color assigned to this struct type
 }
 
+// Standalone typedef: "typedef unsigned int u32;", "typedef struct Node* NodePtr;"
+export interface CTypedef {
+  name: string;
+  type: string; // Aliased type: primitive, struct/union/enum tag or another typedef
+  pointerLevel?: number; // Number of * added by the typedef (0 or omitted for plain aliases)
+  qualifiers?: string[]; // e.g., ["const"] for "typedef const char* cstr"
+  isFunctionPointer?: boolean; // "typedef void (*Callback)(int)" - type holds "void(int)"
+}
+
+// Function declared in the workspace ("int add(int a, int b);"); it is drawn
+// as a node that function pointer members can point to
+export interface CFunction {
+  name: string;
+  signature: string; // "ret(params)", the same form as a function pointer member's type
+  paramNames?: string[]; // Declared parameter names ("" where omitted)
+  position?: { x: number; y: number }; // Canvas position of the function's node
+  address?: number; // Simulated address in the text segment
+}
+
+export interface CEnumerator {
+  name: string;
+  value: number;
+}
+
+export interface CEnum {
+  name: string;
+  typedef?: string;
+  enumerators: CEnumerator[];
+}
+
+// A pointer is connected when it has a PointerConnection; otherwise it is
+// NULL (the default) or uninitialised garbage ("wild")
+export type PointerState = "connected" | "null" | "uninitialized";
+export type UnsetPointerState = Exclude<PointerState, "connected">;
+
+// Where an object lives: malloc'ed, a local in a stack frame, or a global
+export type StorageClass = "heap" | "stack" | "static";
+
+// Call on the simulated stack. Its locals are the instances and value cells
+// with its id as frameId; once popped they are dead and pointers to them dangle
+export interface StackFrame {
+  id: string;
+  functionName: string;
+  position: { x: number; y: number }; // Where the frame is drawn while it has no locals
+  popped?: boolean; // The function returned
+}
+
 export interface StructInstance {
   id: string;
   structName: string;
   instanceName: string;
   position: { x: number; y: number };
   fieldValues: Record<string, unknown>;
+  activeMembers?: Record<string, string>; // For unions: the member most recently written, by union ("" for the instance, "u" for a member union)
+  flexibleLength?: number; // Elements allocated for a flexible array member (default 0)
+  pointerStates?: Record<string, UnsetPointerState>; // Unconnected pointers by member path ("next", "edges[2]"); omitted means NULL
+  address?: number; // Simulated address, assigned when the instance is placed
+  storage?: StorageClass; // Defaults to "heap"
+  frameId?: string; // Stack frame of a local (storage "stack")
+  freed?: boolean; // free()d: kept as a tombstone so pointers to it dangle
+}
+
+// Standalone object that is not a struct, drawn as its own node so pointers
+// to primitives have a target: "int count", "double* row", "char name[16]"
+export interface ValueCell {
+  id: string;
+  name: string;
+  type: string; // Element type without its pointers: "int", "char", "Node"
+  pointerLevel?: number; // Elements are pointers: 1 for "double* row"
+  length?: number; // Array block with this many elements; omitted for a single value
+  value?: unknown; // Single value, array of element values, or a string for char arrays
+  pointerStates?: Record<string, UnsetPointerState>; // Unconnected pointer elements by path ("value", "value[2]"); omitted means NULL
+  address?: number; // Simulated address, assigned when the cell is placed
+  storage?: StorageClass; // Defaults to "static" (a global)
+  frameId?: string; // Stack frame of a local (storage "stack")
+  freed?: boolean; // free()d: kept as a tombstone so pointers to it dangle
+  position: { x: number; y: number };
 }
 
 export interface PointerConnection {
   id: string;
-  sourceInstanceId: string;
-  sourceFieldName: string;
-  targetInstanceId: string;
+  sourceInstanceId: string; // Struct instance or value cell id
+  sourceFieldName: string; // Member path: "next", "edges[2]", or "origin.next" inside an embedded struct; "value" or "value[2]" in a value cell
+  targetInstanceId: string; // Struct instance, value cell, or a function's node id (function pointers)
+  targetFieldName?: string; // Interior pointer (&node->data, &arr[3]): "data", "items[3]" or "value[3]"; omitted for the whole object
 }
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignAddresses,
+  formatAddress,
+  getFunctionBlock,
+  type AddressBlock,
+} from "./addresses";
+
+const heap = (id: string, size: number, address?: number): AddressBlock => ({
+  id,
+  region: "heap",
+  size,
+  alignment: 8,
+  address,
+});
+
+describe("assignAddresses", () => {
+  it("places heap blocks upwards after a chunk header", () => {
+    const addresses = assignAddresses([heap("a", 16), heap("b", 24)], "LP64");
+    expect(addresses.get("a")).toBe(0x5555555592b0);
+    // a ends at ...c0, b needs its own 16-byte header before it
+    expect(addresses.get("b")).toBe(0x5555555592d0);
+  });
+
+  it("grows the stack down from its top", () => {
+    const addresses = assignAddresses(
+      [
+        { id: "frame", region: "stack", size: 16, alignment: 8 },
+        { id: "i", region: "stack", size: 4, alignment: 4 },
+      ],
+      "LP64",
+    );
+    expect(addresses.get("frame")).toBe(0x7fffffffeff0);
+    expect(addresses.get("i")).toBe(0x7fffffffefec);
+  });
+
+  it("gives every function a slot in the text segment", () => {
+    const addresses = assignAddresses(
+      [getFunctionBlock("f"), getFunctionBlock("g")],
+      "LP64",
+    );
+    expect(addresses.get("f")).toBe(0x555555555000);
+    expect(addresses.get("g")).toBe(0x555555555010);
+  });
+
+  it("keeps addresses that still fit and moves blocks that do not", () => {
+    const first = assignAddresses([heap("a", 16), heap("b", 16)], "LP64");
+    const a = first.get("a")!;
+    const b = first.get("b")!;
+
+    // b is placed again where it was, even with a new block in front of it
+    const again = assignAddresses(
+      [heap("new", 16), heap("b", 16, b), heap("a", 16, a)],
+      "LP64",
+    );
+    expect(again.get("a")).toBe(a);
+    expect(again.get("b")).toBe(b);
+    expect(again.get("new")).toBeGreaterThan(b);
+
+    // a grew into b, so it has to move
+    const grown = assignAddresses([heap("b", 16, b), heap("a", 64, a)], "LP64");
+    expect(grown.get("b")).toBe(b);
+    expect(grown.get("a")).not.toBe(a);
+  });
+
+  it("uses a narrower address space for smaller pointers", () => {
+    expect(assignAddresses([heap("a", 4)], "ILP32").get("a")).toBe(0x0804d1a8);
+    expect(assignAddresses([heap("a", 4)], "AVR").get("a")).toBe(0x0208);
+  });
+});
+
+describe("formatAddress", () => {
+  it("zero-pads addresses on narrow targets only", () => {
+    expect(formatAddress(0x5555555592b0, "LP64")).toBe("0x5555555592b0");
+    expect(formatAddress(0x804d1a8, "ILP32")).toBe("0x0804d1a8");
+    expect(formatAddress(0x208, "AVR")).toBe("0x0208");
+  });
+});
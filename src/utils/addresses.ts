@@ -0,0 +1,197 @@
+import { getDataModel, type DataModelId } from "../parser/dataModels";
+
+/**
+ * Simulated addresses
+ * Instances, value cells and functions get an address in a made-up process
+ * image so pointers can be shown as the hex value they hold. Addresses are
+ * stored on the objects themselves, so they survive reloads and exports;
+ * a block only moves when it no longer fits where it was (it grew, or the
+ * data model changed the address width).
+ */
+
+export type AddressRegion = "text" | "data" | "heap" | "stack";
+
+export interface AddressBlock {
+  id: string;
+  region: AddressRegion;
+  size: number;
+  alignment: number;
+  address?: number; // Address it had so far, kept while it still fits
+}
+
+interface AddressSpace {
+  text: number; // First function
+  data: number; // Globals (static storage)
+  heap: number; // Start of the heap, growing up
+  stack: number; // Top of the stack, growing down
+  stackSize: number;
+}
+
+// Typical images by pointer width: x86-64 Linux (PIE), i386 Linux, ATmega328P
+const ADDRESS_SPACES: Record<number, AddressSpace> = {
+  8: {
+    text: 0x555555555000,
+    data: 0x555555558010,
+    heap: 0x5555555592a0,
+    stack: 0x7ffffffff000,
+    stackSize: 0x800000,
+  },
+  4: {
+    text: 0x08049000,
+    data: 0x0804c018,
+    heap: 0x0804d1a0,
+    stack: 0xbffff000,
+    stackSize: 0x800000,
+  },
+  2: {
+    text: 0x0068,
+    data: 0x0100,
+    heap: 0x0200,
+    stack: 0x0900,
+    stackSize: 0x0200,
+  },
+};
+
+// Every function takes one slot of the text segment
+const FUNCTION_SLOT = 16;
+
+function getAddressSpace(dataModel?: DataModelId): AddressSpace {
+  return (
+    ADDRESS_SPACES[getDataModel(dataModel).sizes.pointer] ?? ADDRESS_SPACES[8]
+  );
+}
+
+// [start, end) of the addresses a region hands out
+function getRegionBounds(
+  region: AddressRegion,
+  space: AddressSpace,
+): [number, number] {
+  switch (region) {
+    case "text":
+      return [space.text, space.data];
+    case "data":
+      return [space.data, space.heap];
+    case "heap":
+      return [space.heap, space.stack - space.stackSize];
+    case "stack":
+      return [space.stack - space.stackSize, space.stack];
+  }
+}
+
+/**
+ * Size and alignment of a function's block in the text segment
+ */
+export function getFunctionBlock(id: string, address?: number): AddressBlock {
+  return {
+    id,
+    region: "text",
+    size: FUNCTION_SLOT,
+    alignment: FUNCTION_SLOT,
+    address,
+  };
+}
+
+/**
+ * Give every block an address. Blocks keep their previous address when it
+ * is still inside their region, aligned and not overlapping an earlier
+ * block; the others are placed first-fit, upwards from the region start
+ * except on the stack, which grows down from its top. Heap blocks are
+ * aligned like malloc (two pointers) and preceded by a chunk header.
+ */
+export function assignAddresses(
+  blocks: AddressBlock[],
+  dataModel?: DataModelId,
+): Map<string, number> {
+  const space = getAddressSpace(dataModel);
+  const pointerSize = getDataModel(dataModel).sizes.pointer;
+  const chunkHeader = 2 * pointerSize;
+
+  // Bytes a block occupies: [start, end)
+  const span = (block: AddressBlock, address: number): [number, number] =>
+    block.region === "heap"
+      ? [address - chunkHeader, address + Math.max(block.size, 1)]
+      : [address, address + Math.max(block.size, 1)];
+  const alignmentOf = (block: AddressBlock) =>
+    block.region === "heap"
+      ? Math.max(block.alignment, 2 * pointerSize)
+      : Math.max(block.alignment, 1);
+
+  const placed = new Map<string, number>();
+  const taken: Record<AddressRegion, [number, number][]> = {
+    text: [],
+    data: [],
+    heap: [],
+    stack: [],
+  };
+  const overlaps = (region: AddressRegion, [start, end]: [number, number]) =>
+    taken[region].some(([s, e]) => start < e && s < end);
+  const place = (block: AddressBlock, address: number) => {
+    placed.set(block.id, address);
+    taken[block.region].push(span(block, address));
+  };
+
+  // Keep the blocks that still fit where they were
+  blocks.forEach((block) => {
+    if (block.address === undefined) return;
+    const [low, high] = getRegionBounds(block.region, space);
+    const [start, end] = span(block, block.address);
+    if (
+      start >= low &&
+      end <= high &&
+      block.address % alignmentOf(block) === 0 &&
+      !overlaps(block.region, [start, end])
+    ) {
+      place(block, block.address);
+    }
+  });
+
+  // First fit for new and displaced blocks
+  blocks.forEach((block) => {
+    if (placed.has(block.id)) return;
+    const [low, high] = getRegionBounds(block.region, space);
+    const alignment = alignmentOf(block);
+    const size = Math.max(block.size, 1);
+    const occupied = [...taken[block.region]].sort((a, b) => a[0] - b[0]);
+
+    if (block.region === "stack") {
+      let top = high;
+      for (const [start, end] of occupied.reverse()) {
+        const address = alignDown(top - size, alignment);
+        if (address >= end) break;
+        top = Math.min(top, start);
+      }
+      place(block, alignDown(top - size, alignment));
+      return;
+    }
+
+    const header = block.region === "heap" ? chunkHeader : 0;
+    let address = alignUp(low + header, alignment);
+    for (const [start, end] of occupied) {
+      if (address + size <= start) break;
+      if (address - header < end) address = alignUp(end + header, alignment);
+    }
+    place(block, address);
+  });
+
+  return placed;
+}
+
+function alignUp(value: number, alignment: number): number {
+  return Math.ceil(value / alignment) * alignment;
+}
+
+function alignDown(value: number, alignment: number): number {
+  return Math.floor(value / alignment) * alignment;
+}
+
+/**
+ * Address as printf("%p") shows it, zero-padded on narrow targets
+ */
+export function formatAddress(
+  address: number,
+  dataModel?: DataModelId,
+): string {
+  const pointerSize = getDataModel(dataModel).sizes.pointer;
+  const digits = address.toString(16);
+  return `0x${pointerSize < 8 ? digits.padStart(pointerSize * 2, "0") : digits}`;
+}
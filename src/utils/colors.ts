@@ -79,6 +79,11 @@ export function getStructColor(
   return PASTEL_COLORS[colorIndex];
 }
 
+// Color for the n-th member of a struct (memory layout view)
+export function getFieldColor(index: number): string {
+  return PASTEL_COLORS[index % PASTEL_COLORS.length];
+}
+
 // Get a random pastel color
 export function getRandomPastelColor(): string {
   return PASTEL_COLORS[Math.floor(Math.random() * PASTEL_COLORS.length)];
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { getValueAtPath, parseFieldPath, setValueAtPath } from "./fieldPath";
+
+describe("parseFieldPath", () => {
+  it("splits members and array indices", () => {
+    expect(parseFieldPath("items[2].next")).toEqual(["items", 2, "next"]);
+    expect(parseFieldPath("grid[1][3]")).toEqual(["grid", 1, 3]);
+    expect(parseFieldPath("pos.x")).toEqual(["pos", "x"]);
+  });
+});
+
+describe("getValueAtPath", () => {
+  const values = { pos: { x: "1" }, items: [{ id: "7" }], count: "3" };
+
+  it("reads nested members and elements", () => {
+    expect(getValueAtPath(values, "pos.x")).toBe("1");
+    expect(getValueAtPath(values, "items[0].id")).toBe("7");
+    expect(getValueAtPath(values, "count")).toBe("3");
+  });
+
+  it("returns undefined for paths that do not exist", () => {
+    expect(getValueAtPath(values, "pos.y")).toBeUndefined();
+    expect(getValueAtPath(values, "count.x")).toBeUndefined();
+    expect(getValueAtPath(values, "items[4].id")).toBeUndefined();
+  });
+});
+
+describe("setValueAtPath", () => {
+  it("creates intermediate objects and arrays", () => {
+    expect(setValueAtPath({}, "items[1].pos.x", "5")).toEqual({
+      items: [undefined, { pos: { x: "5" } }],
+    });
+  });
+
+  it("copies instead of mutating", () => {
+    const values = { pos: { x: "1", y: "2" }, other: { z: "3" } };
+    const updated = setValueAtPath(values, "pos.x", "9");
+    expect(updated).toEqual({ pos: { x: "9", y: "2" }, other: { z: "3" } });
+    expect(values.pos.x).toBe("1");
+    expect(updated.other).toBe(values.other);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Helpers for member paths such as "pos.x", "items[2].next" or "grid"
+ * Values of nested structs are stored as nested objects inside
+ * StructInstance.fieldValues and array elements as arrays.
+ */
+
+type PathSegment = string | number;
+
+export function parseFieldPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  for (const match of path.matchAll(/([^.[\]]+)|\[(\d+)\]/g)) {
+    segments.push(match[2] !== undefined ? parseInt(match[2], 10) : match[1]);
+  }
+  return segments;
+}
+
+export function getValueAtPath(
+  values: Record<string, unknown>,
+  path: string,
+): unknown {
+  let current: unknown = values;
+  for (const segment of parseFieldPath(path)) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<PathSegment, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Return a copy of values with the value at path replaced, creating
+ * intermediate objects/arrays as needed (the input is not mutated)
+ */
+export function setValueAtPath(
+  values: Record<string, unknown>,
+  path: string,
+  value: unknown,
+): Record<string, unknown> {
+  const setIn = (container: unknown, segments: PathSegment[]): unknown => {
+    if (segments.length === 0) return value;
+    const [segment, ...rest] = segments;
+
+    if (typeof segment === "number") {
+      const array = Array.isArray(container) ? [...container] : [];
+      array[segment] = setIn(array[segment], rest);
+      return array;
+    }
+
+    const object =
+      container !== null &&
+      typeof container === "object" &&
+      !Array.isArray(container)
+        ? { ...(container as Record<string, unknown>) }
+        : {};
+    object[segment] = setIn(object[segment], rest);
+    return object;
+  };
+
+  return setIn(values, parseFieldPath(path)) as Record<string, unknown>;
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { analyzeGraph, findLeaks, findWildPointers } from "./graphAnalysis";
+import { parseStruct } from "../parser/structParser";
+import type {
+  PointerConnection,
+  StackFrame,
+  StructInstance,
+  ValueCell,
+} from "../types";
+
+const node = parseStruct(
+  "typedef struct Node { int data; struct Node* next; } Node;",
+)!;
+
+const instance = (
+  id: string,
+  props: Partial<StructInstance> = {},
+): StructInstance => ({
+  id,
+  structName: "Node",
+  instanceName: id,
+  position: { x: 0, y: 0 },
+  fieldValues: {},
+  ...props,
+});
+
+// Node* head, a global unless stored elsewhere
+const pointer = (id: string, props: Partial<ValueCell> = {}): ValueCell => ({
+  id,
+  name: id,
+  type: "Node",
+  pointerLevel: 1,
+  position: { x: 0, y: 0 },
+  ...props,
+});
+
+const link = (
+  from: string,
+  to: string,
+  sourceFieldName = "next",
+): PointerConnection => ({
+  id: `${from}->${to}`,
+  sourceInstanceId: from,
+  sourceFieldName,
+  targetInstanceId: to,
+});
+
+// head -> n1 -> n2 -> n3
+const list = () => ({
+  instances: [instance("n1"), instance("n2"), instance("n3")],
+  connections: [
+    link("head", "n1", "value"),
+    link("n1", "n2"),
+    link("n2", "n3"),
+  ],
+});
+
+function leaks(
+  instances: StructInstance[],
+  connections: PointerConnection[],
+  valueCells: ValueCell[],
+  stackFrames: StackFrame[] = [],
+) {
+  const report = findLeaks(instances, connections, valueCells, stackFrames, [
+    node,
+  ]);
+  return { ...report, leakedIds: [...report.leakedIds].sort() };
+}
+
+describe("findLeaks", () => {
+  it("reports nothing while every block is reachable from a global", () => {
+    const { instances, connections } = list();
+    const report = leaks(instances, connections, [pointer("head")]);
+    expect(report.rootIds).toEqual(["head"]);
+    expect(report.leakedIds).toEqual([]);
+    expect(report.leakedBytes).toBe(0);
+  });
+
+  it("leaks the rest of a list cut off from its head", () => {
+    const { instances, connections } = list();
+    const report = leaks(instances, connections.slice(0, 2), [pointer("head")]);
+    expect(report.leakedIds).toEqual(["n3"]);
+    expect(report.leakedBytes).toBe(16);
+  });
+
+  it("leaks the tail when the head is freed before next is saved", () => {
+    // free(head); with head->next still only stored inside the freed block
+    const { instances, connections } = list();
+    instances[0].freed = true;
+    const report = leaks(instances, connections, [pointer("head")]);
+    expect(report.leakedIds).toEqual(["n2", "n3"]);
+    expect(report.leakedBytes).toBe(32);
+  });
+
+  it("does not count freed blocks as leaks", () => {
+    const { instances } = list();
+    instances.forEach((inst) => (inst.freed = true));
+    expect(leaks(instances, [], [pointer("head")]).leakedIds).toEqual([]);
+  });
+
+  it("leaks what only the locals of a returned call pointed to", () => {
+    const frames: StackFrame[] = [
+      { id: "main", functionName: "main", position: { x: 0, y: 0 } },
+      {
+        id: "insert",
+        functionName: "insert",
+        position: { x: 0, y: 0 },
+        popped: true,
+      },
+    ];
+    const report = leaks(
+      [instance("kept"), instance("lost")],
+      [link("head", "kept", "value"), link("tmp", "lost", "value")],
+      [
+        pointer("head", { storage: "stack", frameId: "main" }),
+        pointer("tmp", { storage: "stack", frameId: "insert" }),
+      ],
+      frames,
+    );
+    expect(report.rootIds).toEqual(["head"]);
+    expect(report.leakedIds).toEqual(["lost"]);
+  });
+
+  it("keeps heap value cells alive only through live pointers", () => {
+    const report = leaks(
+      [],
+      [link("p", "block", "value"), link("q", "lost", "value")],
+      [
+        pointer("p"),
+        pointer("q", { freed: true, storage: "heap" }),
+        {
+          id: "block",
+          name: "block",
+          type: "int",
+          length: 4,
+          storage: "heap",
+          position: { x: 0, y: 0 },
+        },
+        {
+          id: "lost",
+          name: "lost",
+          type: "int",
+          length: 4,
+          storage: "heap",
+          position: { x: 0, y: 0 },
+        },
+      ],
+    );
+    expect(report.leakedIds).toEqual(["lost"]);
+    expect(report.leakedBytes).toBe(16);
+  });
+
+  it("has no roots on a canvas of heap blocks only", () => {
+    const { instances, connections } = list();
+    const report = leaks(instances, connections.slice(1), []);
+    expect(report.rootIds).toEqual([]);
+    expect(report.leakedIds).toEqual(["n1", "n2", "n3"]);
+  });
+});
+
+describe("findWildPointers", () => {
+  it("flags unconnected uninitialised pointers and list tails", () => {
+    const wild = findWildPointers(
+      [
+        instance("n1", { pointerStates: { next: "uninitialized" } }),
+        instance("n2", { pointerStates: { next: "uninitialized" } }),
+        instance("n3", { pointerStates: { next: "null" } }),
+      ],
+      [link("n2", "n3")],
+      [node],
+      [],
+      [pointer("p", { pointerStates: { value: "uninitialized" } })],
+    );
+    expect(wild).toEqual([
+      { instanceId: "n1", fieldName: "next", isListTail: true },
+      { instanceId: "p", fieldName: "value", isListTail: false },
+    ]);
+  });
+});
+
+describe("analyzeGraph", () => {
+  it("finds a cycle and the nodes outside it", () => {
+    const metrics = analyzeGraph(
+      [instance("a"), instance("b"), instance("c")],
+      [link("a", "b"), link("b", "a"), link("b", "c")],
+    );
+    expect(metrics.hasCycles).toBe(true);
+    expect([...metrics.acyclicNodes]).toEqual(["c"]);
+  });
+});
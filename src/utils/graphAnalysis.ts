@@ -1,4 +1,21 @@
-import type { StructInstance, PointerConnection } from "../types";
+import type {
+  CEnum,
+  CStruct,
+  CTypedef,
+  StackFrame,
+  StructInstance,
+  PointerConnection,
+  ValueCell,
+} from "../types";
+import {
+  computeStructLayout,
+  findFieldByPath,
+  getAllocatedSize,
+  resolveTypeName,
+} from "../parser/structParser";
+import type { DataModelId } from "../parser/dataModels";
+import { findDeadNodeIds, getStorageClass } from "./storage";
+import { getValueCellSize } from "./valueCells";
 
 /**
  * Circular pattern types detected in the graph
@@ -32,18 +49,39 @@ export interface GraphMetrics {
   hasCycles: boolean; // Whether graph has any cycles
 }
 
+/**
+ * An uninitialised pointer: following it is undefined behaviour
+ */
+export interface WildPointer {
+  instanceId: string; // Struct instance or value cell id
+  fieldName: string; // Member path: "next", "edges[2]", "value[1]"
+  isListTail: boolean; // Self-referential link (Node* next) ending a list
+}
+
+/**
+ * Heap blocks that no root (global or live local) reaches any more: the
+ * program has lost every pointer it could free them through
+ */
+export interface LeakReport {
+  rootIds: string[]; // Globals and live locals the search starts from
+  leakedIds: Set<string>; // Unreachable heap instances and value cells
+  leakedBytes: number;
+}
+
 /**
  * Build adjacency list representation of the graph
+ * Value cells are nodes too when given (pointer variables such as head)
  */
 export function buildAdjacencyList(
   instances: StructInstance[],
   connections: PointerConnection[],
+  valueCells: ValueCell[] = [],
 ): Map<string, Set<string>> {
   const adjacencyList = new Map<string, Set<string>>();
 
   // Initialize all nodes
-  instances.forEach((instance) => {
-    adjacencyList.set(instance.id, new Set());
+  [...instances, ...valueCells].forEach((node) => {
+    adjacencyList.set(node.id, new Set());
   });
 
   // Add edges
@@ -384,3 +422,127 @@ export function getSCCEdges(
       scc.ids.has(conn.sourceInstanceId) && scc.ids.has(conn.targetInstanceId),
   );
 }
+
+/**
+ * Find pointers marked uninitialised that have no connection. A wild
+ * self-referential link is a list whose tail was never set to NULL.
+ */
+export function findWildPointers(
+  instances: StructInstance[],
+  connections: PointerConnection[],
+  structs: CStruct[],
+  typedefs: CTypedef[] = [],
+  valueCells: ValueCell[] = [],
+): WildPointer[] {
+  const isConnected = (nodeId: string, path: string) =>
+    connections.some(
+      (conn) =>
+        conn.sourceInstanceId === nodeId && conn.sourceFieldName === path,
+    );
+  const wildPaths = (node: StructInstance | ValueCell) =>
+    Object.entries(node.pointerStates ?? {})
+      .filter(
+        ([path, state]) =>
+          state === "uninitialized" && !isConnected(node.id, path),
+      )
+      .map(([path]) => path);
+
+  const wildPointers: WildPointer[] = [];
+
+  instances.forEach((instance) => {
+    const structDef = structs.find((s) => s.name === instance.structName);
+    wildPaths(instance).forEach((path) => {
+      const field = structDef
+        ? findFieldByPath(structDef.fields, path, structs, typedefs)
+        : undefined;
+      // States left behind by a member that was removed or retyped
+      if (!field?.isPointer) return;
+      const isListTail =
+        (field.pointerLevel || 1) === 1 &&
+        resolveTypeName(field.type, structs, typedefs) === instance.structName;
+      wildPointers.push({
+        instanceId: instance.id,
+        fieldName: path,
+        isListTail,
+      });
+    });
+  });
+
+  valueCells.forEach((cell) => {
+    wildPaths(cell).forEach((path) => {
+      wildPointers.push({
+        instanceId: cell.id,
+        fieldName: path,
+        isListTail: false,
+      });
+    });
+  });
+
+  return wildPointers;
+}
+
+/**
+ * Mark every heap object that cannot be reached from a root as leaked.
+ * Roots are everything outside the heap that is still alive: globals and
+ * the locals of active stack frames. Sizes follow the struct layout for
+ * the data model, including flexible array elements.
+ */
+export function findLeaks(
+  instances: StructInstance[],
+  connections: PointerConnection[],
+  valueCells: ValueCell[],
+  stackFrames: StackFrame[],
+  structs: CStruct[],
+  enums: CEnum[] = [],
+  dataModel?: DataModelId,
+  typedefs: CTypedef[] = [],
+): LeakReport {
+  const deadIds = findDeadNodeIds(instances, valueCells, stackFrames);
+  const objects = [...instances, ...valueCells];
+  const rootIds = objects
+    .filter((node) => getStorageClass(node) !== "heap" && !deadIds.has(node.id))
+    .map((node) => node.id);
+
+  // Depth-first search from every root. Pointers inside freed blocks and
+  // dead locals can no longer be read, so they keep nothing alive.
+  const adjacencyList = buildAdjacencyList(instances, connections, valueCells);
+  const reachable = new Set<string>();
+  const pending = [...rootIds];
+  while (pending.length > 0) {
+    const nodeId = pending.pop()!;
+    if (reachable.has(nodeId)) continue;
+    reachable.add(nodeId);
+    adjacencyList.get(nodeId)?.forEach((neighbor) => {
+      if (!deadIds.has(neighbor)) pending.push(neighbor);
+    });
+  }
+
+  // Freed blocks are tombstones, not leaks
+  const isLeaked = (node: StructInstance | ValueCell) =>
+    getStorageClass(node) === "heap" && !node.freed && !reachable.has(node.id);
+
+  const leakedIds = new Set<string>();
+  let leakedBytes = 0;
+  instances.forEach((instance) => {
+    if (!isLeaked(instance)) return;
+    leakedIds.add(instance.id);
+    const structDef = structs.find((s) => s.name === instance.structName);
+    if (structDef) {
+      const layout = computeStructLayout(
+        structDef,
+        structs,
+        enums,
+        dataModel,
+        typedefs,
+      );
+      leakedBytes += getAllocatedSize(layout, instance.flexibleLength);
+    }
+  });
+  valueCells.forEach((cell) => {
+    if (!isLeaked(cell)) return;
+    leakedIds.add(cell.id);
+    leakedBytes += getValueCellSize(cell, structs, enums, dataModel, typedefs);
+  });
+
+  return { rootIds, leakedIds, leakedBytes };
+}
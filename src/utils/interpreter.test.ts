@@ -0,0 +1,237 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { useCanvasStore } from "../store/canvasStore";
+import { parseStruct } from "../parser/structParser";
+import { parseValueDeclaration } from "../parser/valueParser";
+import { runStatements } from "./stepper";
+
+const options = {
+  getState: useCanvasStore.getState,
+  getPosition: () => ({ x: 0, y: 0 }),
+};
+const run = (code: string) => runStatements(code, options);
+const state = () => useCanvasStore.getState();
+const cell = (name: string) => state().valueCells.find((c) => c.name === name);
+
+beforeEach(() => {
+  useCanvasStore.setState(useCanvasStore.getInitialState(), true);
+  state().addStructDefinition(
+    parseStruct("typedef struct Node { int data; struct Node* next; } Node;")!,
+  );
+});
+
+describe("expressions", () => {
+  it("prints the value of expression statements", () => {
+    expect(run("int x = 3; x * 2 + 1; 7 / 2; -7 % 3;")).toEqual({
+      output: ["(x * 2) + 1 → 7", "7 / 2 → 3", "-7 % 3 → -1"],
+    });
+  });
+
+  it("shows characters next to their code", () => {
+    expect(run("char c = 'a'; c;").output).toEqual(["c → 97 'a'"]);
+  });
+
+  it("sizes types with the data model", () => {
+    expect(run("sizeof(Node);").output).toEqual(["sizeof(Node) → 16"]);
+    state().setDataModel("ILP32");
+    expect(run("sizeof(Node);").output).toEqual(["sizeof(Node) → 8"]);
+  });
+
+  it("stops at division by zero", () => {
+    expect(run("1 / 0;").error).toBe("Line 1: Division by zero in '1 / 0'.");
+  });
+});
+
+describe("integer types", () => {
+  it("wraps signed overflow to the width of the type", () => {
+    expect(run("int x = 2147483647; x + 1; x << 40;").output).toEqual([
+      "x + 1 → -2147483648",
+      "x << 40 → 0",
+    ]);
+    run("x += 1;");
+    expect(cell("x")?.value).toBe("-2147483648");
+  });
+
+  it("wraps unsigned underflow around to the maximum", () => {
+    expect(run("unsigned int u = 0; u - 1; u--; u;").output).toEqual([
+      "u - 1 → 4294967295",
+      "u → 4294967295",
+    ]);
+    expect(run("-1 < u; (unsigned char)-1;").output).toEqual([
+      "-1 < u → 0",
+      "(unsigned char)-1 → 255",
+    ]);
+  });
+
+  it("truncates assignments to narrower types", () => {
+    run("char c = 300; short s = 70000; unsigned char b = 255; b++;");
+    expect(run("c; s; b;").output).toEqual(["c → 44 ','", "s → 4464", "b → 0"]);
+  });
+
+  it("follows the data model", () => {
+    state().setDataModel("AVR");
+    expect(run("int i = 32767; i + 1; 32768;").output).toEqual([
+      "i + 1 → -32768",
+      "32768 → 32768",
+    ]);
+  });
+});
+
+describe("chars", () => {
+  const addCell = (code: string) =>
+    state().addValueCell({
+      ...parseValueDeclaration(code)!,
+      position: { x: 0, y: 0 },
+    });
+
+  it("reads chars declared in the dialog", () => {
+    addCell("char c = 65;");
+    addCell("char nl = '\\n';");
+    expect(run("c; nl;").output).toEqual(["c → 65 'A'", "nl → 10"]);
+  });
+
+  it("indexes into the string of a char array cell", () => {
+    addCell('char s[6] = "hi";');
+    expect(run("s[0]; s[2];").output).toEqual(["s[0] → 104 'h'", "s[2] → 0"]);
+    run("s[1] = 'o'; s[4] = 'x';");
+    expect(cell("s")?.value).toBe("ho\0\0x");
+    run("s[4] = 0;");
+    expect(cell("s")?.value).toBe("ho");
+  });
+});
+
+describe("variables", () => {
+  it("declares globals as value cells", () => {
+    run("int count = 3; int primes[3]; primes[1] = 5;");
+    expect(cell("count")).toMatchObject({ type: "int", value: "3" });
+    expect(cell("primes")).toMatchObject({ type: "int", length: 3 });
+    expect(run("primes[1]; primes[2];").output).toEqual([
+      "primes[1] → 5",
+      "primes[2] → 0",
+    ]);
+  });
+
+  it("rejects undeclared names and redeclarations", () => {
+    expect(run("y = 2;").error).toBe("Line 1: 'y' is not declared.");
+    expect(run("int x; int x;").error).toBe("Line 1: Redeclaration of 'x'.");
+  });
+
+  it("keeps the statements before an error", () => {
+    const result = run("int a = 1;\na = 2;\nb = 3;\na = 4;");
+    expect(result.error).toBe("Line 3: 'b' is not declared.");
+    expect(cell("a")?.value).toBe("2");
+  });
+  it("runs loops and compound assignments", () => {
+    expect(
+      run("int i; int sum = 0; for (i = 0; i < 4; i++) sum += i; sum;").output,
+    ).toEqual(["sum → 6"]);
+    expect(run("while (i > 0) i--; i;").output).toEqual(["i → 0"]);
+  });
+
+  it("runs compound assignments and increments", () => {
+    expect(run("int x = 1; x += 4; x *= 2; x++; x;").output).toEqual([
+      "x → 11",
+    ]);
+  });
+});
+
+describe("pointers and the heap", () => {
+  it("mallocs blocks and links them with pointer assignments", () => {
+    run(`
+      Node* head = malloc(sizeof(Node));
+      head->data = 1;
+      head->next = malloc(sizeof(Node));
+      head->next->data = 2;
+      head->next->next = NULL;
+    `);
+    const [first, second] = state().instances;
+    expect(first.fieldValues).toEqual({ data: "1" });
+    expect(second.fieldValues).toEqual({ data: "2" });
+    expect(
+      state().connections.map((c) => [
+        c.sourceInstanceId,
+        c.sourceFieldName,
+        c.targetInstanceId,
+      ]),
+    ).toEqual([
+      [cell("head")!.id, "value", first.id],
+      [first.id, "next", second.id],
+    ]);
+    expect(run("head->next->data;").output).toEqual(["head->next->data → 2"]);
+  });
+
+  it("stops at NULL dereferences", () => {
+    expect(run("Node* p = NULL; p->data;").error).toBe(
+      "Line 1: NULL pointer dereference: 'p' is NULL.",
+    );
+  });
+
+  it("frees blocks and catches use after free and double free", () => {
+    run("Node* head = malloc(sizeof(Node)); free(head);");
+    const [block] = state().instances;
+    expect(block.freed).toBe(true);
+    expect(run("head->data;").error).toBe(
+      `Line 1: Use after free: 'head' points to '${block.instanceName}', which was freed.`,
+    );
+    expect(run("free(head);").error).toBe(
+      `Line 1: Double free: '${block.instanceName}' (via 'head') was already freed.`,
+    );
+  });
+
+  it("rejects free() of a global", () => {
+    expect(run("int x; free(&x);").error).toMatch(/^Line 1: Invalid free/);
+  });
+});
+
+describe("unions", () => {
+  it("tracks the member written last in every union on the path", () => {
+    state().addStructDefinition(
+      parseStruct(`typedef struct Tagged {
+        int kind;
+        union { int i; struct Tagged* next; };
+        union { float f; struct { short lo, hi; }; } parts;
+      } Tagged;`)!,
+    );
+    run("Tagged* t = malloc(sizeof(Tagged)); t->i = 3; t->parts.hi = 1;");
+    const active = () => state().instances[0].activeMembers;
+    expect(active()).toEqual({ "#1": "i", parts: "#1" });
+
+    run("t->next = t;");
+    expect(active()).toMatchObject({ "#1": "next" });
+    run("t->i = 4; t->next = NULL;");
+    expect(active()).toMatchObject({ "#1": "next" });
+  });
+});
+
+describe("undo", () => {
+  it("takes back a whole run in one step", () => {
+    run("Node* head = NULL;");
+    run("head = malloc(sizeof(Node)); head->data = 5; head->next = NULL;");
+    expect(state().instances).toHaveLength(1);
+
+    state().undo();
+    expect(state().instances).toHaveLength(0);
+    expect(cell("head")).toBeDefined();
+
+    state().undo();
+    expect(cell("head")).toBeUndefined();
+  });
+
+  it("adds no history for a run that changes nothing", () => {
+    run("int x = 1;");
+    const { history } = state();
+    run("x;");
+    expect(state().history).toHaveLength(history.length);
+  });
+
+  it("does not make assigning addresses an undo step", () => {
+    run("Node* head = malloc(sizeof(Node));");
+    state().syncAddresses();
+    expect(state().instances[0].address).toBeDefined();
+
+    run("head->data = 5;");
+    state().undo();
+    expect(state().instances[0].fieldValues).toEqual({});
+    state().undo();
+    expect(state().instances).toHaveLength(0);
+  });
+});
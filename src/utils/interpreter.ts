@@ -0,0 +1,1568 @@
+import type { CField, CStruct, StructInstance, ValueCell } from "../types";
+import type { CanvasState } from "../store/canvasStore";
+import {
+  calculateStructSize,
+  findFieldByPath,
+  getNestedStruct,
+  getTypeSize,
+  isValidType,
+  resolveTypeName,
+  resolveTypedef,
+} from "../parser/structParser";
+import { getDataModel } from "../parser/dataModels";
+import { findEnum } from "../parser/enumParser";
+import { STANDARD_TYPES, isStandardType } from "../parser/standardTypes";
+import {
+  formatExpression,
+  formatTypeName,
+  type Declarator,
+  type Expression,
+  type Parameter,
+  type SimpleStatement,
+  type Statement,
+  type TypeName,
+} from "../parser/statementParser";
+import { getValueAtPath } from "./fieldPath";
+import { getPointerState } from "./pointerStates";
+import { findDeadNodeIds, getFreeError, getStorageClass } from "./storage";
+import { VALUE_CELL_FIELD, isStringCell } from "./valueCells";
+
+/**
+ * Statement interpreter
+ * Runs C statements against the canvas through the store's actions:
+ * declarations add value cells (or instances for struct variables), malloc
+ * adds heap blocks, assignments write members or connect pointers and
+ * free() leaves a tombstone. Variables are the canvas objects themselves,
+ * found by name: the locals of the innermost active frame first, then
+ * globals and named heap instances. Every dereference is checked, so NULL,
+ * wild, freed and dangling pointers stop the program with an error.
+ */
+
+type Placement = Pick<StructInstance, "storage" | "frameId">;
+
+export interface InterpreterOptions {
+  getState: () => CanvasState;
+  // Where to draw a new variable or heap block
+  getPosition: (placement: Placement) => { x: number; y: number };
+  // Calls anything but malloc, calloc and free; undefined when there is no
+  // such function
+  callFunction?: (name: string, args: Expression[]) => Value | undefined;
+}
+
+// Type with typedefs expanded; struct types carry their definition
+interface ValueType {
+  type: string; // Struct name, enum name or primitive
+  pointerLevel: number;
+  length?: number; // Array of this many elements
+  struct?: CStruct; // Struct or union objects (pointerLevel 0)
+  isFunctionPointer?: boolean;
+}
+
+// What a pointer points at: a whole object, or a member or element of it
+interface Target {
+  nodeId: string;
+  path?: string; // "data", "items[3]", "value[2]"; omitted for the whole object
+}
+
+// Object an expression designates: a member path of an instance ("" for
+// the whole instance) or "value"/"value[2]" of a value cell
+interface Lvalue {
+  nodeId: string;
+  path: string;
+  type: ValueType;
+  text: string; // Source, for messages
+}
+
+export type Value =
+  | { kind: "number"; value: number; type: ValueType }
+  | { kind: "pointer"; target: Target | null | "wild"; type: ValueType }
+  | { kind: "object"; object: Lvalue } // A struct used as a value
+  // malloc's result until it is given a pointer type
+  | {
+      kind: "allocation";
+      bytes: number;
+      elementType?: ValueType;
+      zeroed: boolean;
+    };
+
+type PointerValue = Extract<Value, { kind: "pointer" }>;
+
+const INT_TYPE: ValueType = { type: "int", pointerLevel: 0 };
+const DOUBLE_TYPE: ValueType = { type: "double", pointerLevel: 0 };
+const VOID_POINTER: ValueType = { type: "void", pointerLevel: 1 };
+const VOID_TYPE: ValueType = { type: "void", pointerLevel: 0 };
+
+// Members of big arrays are not marked one by one
+const MAX_ELEMENTS = 256;
+
+export function createInterpreter({
+  getState,
+  getPosition,
+  callFunction,
+}: InterpreterOptions) {
+  const fail = (message: string): never => {
+    throw new Error(message);
+  };
+
+  const nameOf = (node: StructInstance | ValueCell) =>
+    "structName" in node ? node.instanceName : node.name;
+
+  const findNodeById = (id: string) => {
+    const state = getState();
+    return (
+      state.instances.find((i) => i.id === id) ??
+      state.valueCells.find((c) => c.id === id)
+    );
+  };
+
+  const activeFrame = () =>
+    getState()
+      .stackFrames.filter((frame) => !frame.popped)
+      .at(-1);
+
+  // Block scopes, keyed by frame id ("" for globals): the names declared in
+  // each open block, innermost last, and the names of blocks that closed.
+  // A variable whose block closed stays on the canvas but cannot be named.
+  const openScopes = new Map<string, Set<string>[]>();
+  const closedNames = new Map<string, Set<string>>();
+
+  const scopeKeyOf = (node: StructInstance | ValueCell) =>
+    getStorageClass(node) === "stack" ? (node.frameId ?? "") : "";
+
+  const isOutOfScope = (node: StructInstance | ValueCell) =>
+    getStorageClass(node) !== "heap" &&
+    !!closedNames.get(scopeKeyOf(node))?.has(nameOf(node));
+
+  const pushScope = () => {
+    const key = activeFrame()?.id ?? "";
+    openScopes.set(key, [...(openScopes.get(key) ?? []), new Set()]);
+  };
+
+  const popScope = () => {
+    const key = activeFrame()?.id ?? "";
+    const scopes = openScopes.get(key) ?? [];
+    const closed = closedNames.get(key) ?? new Set<string>();
+    scopes.at(-1)?.forEach((name) => closed.add(name));
+    closedNames.set(key, closed);
+    openScopes.set(key, scopes.slice(0, -1));
+  };
+
+  const enterScope = (node: StructInstance | ValueCell) => {
+    const key = scopeKeyOf(node);
+    openScopes.get(key)?.at(-1)?.add(nameOf(node));
+    closedNames.get(key)?.delete(nameOf(node));
+  };
+
+  // Locals of the innermost active frame hide globals with the same name
+  const findVariable = (name: string) => {
+    const state = getState();
+    const frame = activeFrame();
+    const nodes = [...state.valueCells, ...state.instances].filter(
+      (node) => nameOf(node) === name && !isOutOfScope(node),
+    );
+    return (
+      nodes.find(
+        (node) =>
+          getStorageClass(node) === "stack" && node.frameId === frame?.id,
+      ) ?? nodes.find((node) => getStorageClass(node) !== "stack")
+    );
+  };
+
+  const isTypeName = (name: string) => {
+    const state = getState();
+    return isValidType(
+      name,
+      state.structDefinitions,
+      state.enumDefinitions,
+      state.typedefDefinitions,
+    );
+  };
+
+  const resolveType = (
+    type: string,
+    pointerLevel: number,
+    length?: number,
+  ): ValueType => {
+    const { structDefinitions, enumDefinitions, typedefDefinitions } =
+      getState();
+    const alias = resolveTypedef(type, typedefDefinitions);
+    const name = resolveTypeName(
+      alias.type,
+      structDefinitions,
+      typedefDefinitions,
+    );
+    const level = pointerLevel + alias.pointerLevel;
+    const enumDef = findEnum(name, enumDefinitions);
+    const struct = structDefinitions.find((s) => s.name === name);
+    return {
+      type: enumDef?.name ?? name,
+      pointerLevel: level,
+      ...(length !== undefined && { length }),
+      ...(level === 0 && struct && { struct }),
+      ...(alias.isFunctionPointer && { isFunctionPointer: true }),
+    };
+  };
+
+  const fieldType = (field: CField, flexibleLength = 0): ValueType => {
+    const length = field.isArray
+      ? field.isFlexibleArray
+        ? flexibleLength
+        : field.arraySize
+      : undefined;
+    if (field.isFunctionPointer) {
+      return { type: field.type, pointerLevel: 1, isFunctionPointer: true };
+    }
+    if (field.nestedFields) {
+      return {
+        type: field.type || "(anonymous)",
+        pointerLevel: 0,
+        length,
+        struct: getNestedStruct(field),
+      };
+    }
+    return resolveType(
+      field.type,
+      field.isPointer ? field.pointerLevel || 1 : 0,
+      length,
+    );
+  };
+
+  const formatType = (type: ValueType) =>
+    `${type.struct ? `${type.struct.kind ?? "struct"} ` : ""}${type.type}${"*".repeat(type.pointerLevel)}${type.length !== undefined ? `[${type.length}]` : ""}`;
+
+  const isStructType = (type: ValueType) =>
+    !!type.struct && type.pointerLevel === 0 && type.length === undefined;
+
+  const isFloatType = (type: ValueType) =>
+    type.pointerLevel === 0 && /^(?:float|double|long double)$/.test(type.type);
+
+  const isCharType = (type: ValueType) =>
+    type.pointerLevel === 0 && /^(?:(?:un)?signed )?char$/.test(type.type);
+
+  const isBoolType = (type: ValueType) =>
+    type.pointerLevel === 0 && /^(?:bool|_Bool)$/.test(type.type);
+
+  const isUnsignedType = (type: ValueType) =>
+    type.pointerLevel === 0 &&
+    (/^unsigned\b/.test(type.type) ||
+      (isStandardType(type.type) && STANDARD_TYPES[type.type].unsigned));
+
+  const sizeOf = (type: ValueType): number => {
+    const state = getState();
+    const elementSize =
+      type.pointerLevel > 0
+        ? getDataModel(state.dataModel).sizes.pointer
+        : type.struct
+          ? calculateStructSize(
+              type.struct,
+              state.structDefinitions,
+              state.enumDefinitions,
+              state.dataModel,
+              state.typedefDefinitions,
+            )
+          : getTypeSize(
+              type.type,
+              state.structDefinitions,
+              state.enumDefinitions,
+              state.dataModel,
+              state.typedefDefinitions,
+            );
+    return elementSize * (type.length ?? 1);
+  };
+
+  // Integer as an object of this type holds it: truncated to the type's
+  // width in the active data model and wrapped around by its signedness
+  const wrapInteger = (value: number, type: ValueType): number => {
+    if (isFloatType(type) || type.pointerLevel > 0) return value;
+    if (isBoolType(type)) return value ? 1 : 0;
+    if (!Number.isFinite(value)) return 0;
+    const bits = sizeOf({ ...type, length: undefined }) * 8;
+    const integer = BigInt(Math.trunc(value));
+    return Number(
+      isUnsignedType(type)
+        ? BigInt.asUintN(bits, integer)
+        : BigInt.asIntN(bits, integer),
+    );
+  };
+
+  // Integer promotion: bool, char, short and enums compute as int
+  const promote = (type: ValueType): ValueType =>
+    isFloatType(type) ||
+    (!findEnum(type.type, getState().enumDefinitions) &&
+      sizeOf(type) >= sizeOf(INT_TYPE))
+      ? type
+      : INT_TYPE;
+
+  // Usual arithmetic conversions: the wider operand type wins, and on a tie
+  // the unsigned one does
+  const commonType = (left: ValueType, right: ValueType): ValueType => {
+    if (isFloatType(left) || isFloatType(right)) return DOUBLE_TYPE;
+    const a = promote(left);
+    const b = promote(right);
+    if (sizeOf(a) !== sizeOf(b)) return sizeOf(a) > sizeOf(b) ? a : b;
+    return isUnsignedType(b) && !isUnsignedType(a) ? b : a;
+  };
+
+  // Integer literals take the first of int, long and long long they fit
+  const literalType = (value: number): ValueType =>
+    ["int", "long"]
+      .map((type): ValueType => ({ type, pointerLevel: 0 }))
+      .find((type) => wrapInteger(value, type) === value) ?? {
+      type: "long long",
+      pointerLevel: 0,
+    };
+
+  // Member paths of every pointer in a struct: "next", "kids[2]", "pos.link"
+  const pointerPaths = (fields: CField[], prefix = ""): string[] =>
+    fields.flatMap((field) => {
+      const path = field.name
+        ? prefix
+          ? `${prefix}.${field.name}`
+          : field.name
+        : prefix;
+      const elements =
+        field.isArray && !field.isFlexibleArray
+          ? Array.from(
+              { length: Math.min(field.arraySize ?? 0, MAX_ELEMENTS) },
+              (_, index) => `${path}[${index}]`,
+            )
+          : [path];
+      if (field.isPointer || field.isFunctionPointer) return elements;
+      const nested = getNestedStruct(field, getState().structDefinitions);
+      return nested
+        ? elements.flatMap((element) => pointerPaths(nested.fields, element))
+        : [];
+    });
+
+  const markWild = (nodeId: string, paths: string[]) =>
+    paths.forEach((path) =>
+      getState().setPointerState(nodeId, path, "uninitialized"),
+    );
+
+  // Pointers of a value cell, one per element of an array cell
+  const cellPointerPaths = (length?: number) =>
+    length !== undefined
+      ? Array.from(
+          { length: Math.min(length, MAX_ELEMENTS) },
+          (_, i) => `${VALUE_CELL_FIELD}[${i}]`,
+        )
+      : [VALUE_CELL_FIELD];
+
+  // Every object name a new variable or block can take: Node_3, int_1
+  const uniqueName = (base: string) => {
+    const { instances, valueCells } = getState();
+    const taken = new Set([
+      ...instances.map((i) => i.instanceName),
+      ...valueCells.map((c) => c.name),
+    ]);
+    let index = 1;
+    while (taken.has(`${base}_${index}`)) index++;
+    return `${base}_${index}`;
+  };
+
+  const checkAlive = (node: StructInstance | ValueCell, text: string) => {
+    const state = getState();
+    if (
+      !findDeadNodeIds(
+        state.instances,
+        state.valueCells,
+        state.stackFrames,
+      ).has(node.id)
+    ) {
+      return;
+    }
+    if (node.freed) {
+      fail(
+        text === nameOf(node)
+          ? `Use after free: '${text}' was freed.`
+          : `Use after free: '${text}' points to '${nameOf(node)}', which was freed.`,
+      );
+    }
+    const frame = state.stackFrames.find((f) => f.id === node.frameId);
+    fail(
+      `Dangling pointer: '${text}' points to a local of ${frame?.functionName ?? "a function"}() after it returned.`,
+    );
+  };
+
+  const nodeLvalue = (
+    node: StructInstance | ValueCell,
+    text: string,
+  ): Lvalue =>
+    "structName" in node
+      ? {
+          nodeId: node.id,
+          path: "",
+          type: resolveType(node.structName, 0),
+          text,
+        }
+      : {
+          nodeId: node.id,
+          path: VALUE_CELL_FIELD,
+          type: resolveType(node.type, node.pointerLevel ?? 0, node.length),
+          text,
+        };
+
+  // Whole objects and first elements share one address; connections use
+  // the whole-object handle for both
+  const normalizeTarget = (target: Target): Target => {
+    const node = findNodeById(target.nodeId);
+    const isStart =
+      !target.path ||
+      (node &&
+        !("structName" in node) &&
+        (target.path === VALUE_CELL_FIELD ||
+          target.path === `${VALUE_CELL_FIELD}[0]`));
+    return isStart ? { nodeId: target.nodeId } : target;
+  };
+
+  const sameTarget = (a: PointerValue, b: PointerValue) => {
+    if (a.target === null || b.target === null) return a.target === b.target;
+    if (a.target === "wild" || b.target === "wild") {
+      return fail("Comparing an uninitialised (wild) pointer.");
+    }
+    const left = normalizeTarget(a.target);
+    const right = normalizeTarget(b.target);
+    return left.nodeId === right.nodeId && left.path === right.path;
+  };
+
+  const describeTarget = (target: Target) => {
+    const node = findNodeById(target.nodeId);
+    if (!node) return "(deleted object)";
+    const { path } = normalizeTarget(target);
+    if (!path) return nameOf(node);
+    return "structName" in node
+      ? `${nameOf(node)}.${path}`
+      : `${nameOf(node)}${path.slice(VALUE_CELL_FIELD.length)}`;
+  };
+
+  const formatValue = (value: Value): string => {
+    switch (value.kind) {
+      case "number":
+        return isCharType(value.type) && value.value >= 32 && value.value < 127
+          ? `${value.value} '${String.fromCharCode(value.value)}'`
+          : String(value.value);
+      case "pointer":
+        return value.target === null
+          ? "NULL"
+          : value.target === "wild"
+            ? "(uninitialised)"
+            : `&${describeTarget(value.target)}`;
+      case "object":
+        return `{ ${formatType(value.object.type)} ${value.object.text} }`;
+      case "allocation":
+        return `malloc(${value.bytes})`;
+    }
+  };
+
+  // ---- Dereferencing ----
+
+  const dereference = (value: Value, text: string): Lvalue => {
+    if (value.kind !== "pointer") {
+      return fail(
+        value.kind === "number"
+          ? `Invalid dereference: '${text}' is ${formatType(value.type)}, not a pointer.`
+          : `Invalid dereference: '${text}' is not a pointer.`,
+      );
+    }
+    if (value.type.isFunctionPointer) {
+      return fail("Function pointers cannot be called from the console.");
+    }
+    if (value.target === null) {
+      return fail(`NULL pointer dereference: '${text}' is NULL.`);
+    }
+    if (value.target === "wild") {
+      return fail(
+        `Invalid dereference: '${text}' is uninitialised (wild); it holds a garbage address.`,
+      );
+    }
+    if (value.type.type === "void" && value.type.pointerLevel === 1) {
+      return fail(
+        `Cannot dereference '${text}': it is a void*. Cast it to a typed pointer first.`,
+      );
+    }
+
+    const node = findNodeById(value.target.nodeId);
+    if (!node) {
+      return fail(
+        `Invalid dereference: '${text}' points to an object that no longer exists.`,
+      );
+    }
+    checkAlive(node, text);
+
+    const pointee = resolveType(value.type.type, value.type.pointerLevel - 1);
+    const path =
+      value.target.path ??
+      ("structName" in node
+        ? ""
+        : node.length !== undefined
+          ? `${VALUE_CELL_FIELD}[0]`
+          : VALUE_CELL_FIELD);
+    return { nodeId: node.id, path, type: pointee, text: `*${text}` };
+  };
+
+  // Pointer moved by whole elements inside the array it points into
+  const offsetPointer = (
+    value: PointerValue,
+    offset: number,
+    text: string,
+  ): Value => {
+    if (offset === 0) return value;
+    if (value.target === null || value.target === "wild") {
+      return fail(
+        `Pointer arithmetic on '${text}', which is ${value.target === null ? "NULL" : "uninitialised"}.`,
+      );
+    }
+    const node = findNodeById(value.target.nodeId);
+    const path =
+      value.target.path ??
+      (node && !("structName" in node) ? `${VALUE_CELL_FIELD}[0]` : "");
+    const match = path.match(/^(.*)\[(\d+)\]$/);
+    if (!node || !match) {
+      return fail(
+        `'${text}' does not point into an array, so it cannot be offset by ${offset}.`,
+      );
+    }
+
+    const index = parseInt(match[2], 10) + offset;
+    const length =
+      "structName" in node ? arrayLength(node, match[1]) : (node.length ?? 1);
+    if (index < 0 || index >= length) {
+      return fail(
+        `Out of bounds: index ${index} is outside '${text}', which has ${length} element${length === 1 ? "" : "s"}.`,
+      );
+    }
+    return {
+      ...value,
+      target: { nodeId: node.id, path: `${match[1]}[${index}]` },
+    };
+  };
+
+  const arrayLength = (instance: StructInstance, path: string) => {
+    const state = getState();
+    const struct = state.structDefinitions.find(
+      (s) => s.name === instance.structName,
+    );
+    const field = struct
+      ? findFieldByPath(
+          struct.fields,
+          path,
+          state.structDefinitions,
+          state.typedefDefinitions,
+        )
+      : undefined;
+    return field ? (fieldType(field, instance.flexibleLength).length ?? 1) : 1;
+  };
+
+  // ---- Reading and writing objects ----
+
+  const load = (lvalue: Lvalue): Value => {
+    const { type } = lvalue;
+    // Arrays decay to a pointer to their first element
+    if (type.length !== undefined) {
+      const element = { ...type, length: undefined };
+      return {
+        kind: "pointer",
+        target: { nodeId: lvalue.nodeId, path: `${lvalue.path}[0]` },
+        type: {
+          ...element,
+          pointerLevel: element.pointerLevel + 1,
+          struct: undefined,
+        },
+      };
+    }
+    if (type.isFunctionPointer) {
+      return fail("Function pointers are not supported by the console.");
+    }
+    if (type.pointerLevel > 0) return readPointer(lvalue);
+    if (type.struct) return { kind: "object", object: lvalue };
+    return { kind: "number", value: readNumber(lvalue), type };
+  };
+
+  const readPointer = (lvalue: Lvalue): Value => {
+    const { connections } = getState();
+    const conn = connections.find(
+      (c) =>
+        c.sourceInstanceId === lvalue.nodeId &&
+        c.sourceFieldName === lvalue.path,
+    );
+    if (conn) {
+      return {
+        kind: "pointer",
+        target: { nodeId: conn.targetInstanceId, path: conn.targetFieldName },
+        type: lvalue.type,
+      };
+    }
+    const node = findNodeById(lvalue.nodeId);
+    const state = getPointerState(
+      lvalue.nodeId,
+      lvalue.path,
+      node?.pointerStates,
+      connections,
+    );
+    return {
+      kind: "pointer",
+      target: state === "uninitialized" ? "wild" : null,
+      type: lvalue.type,
+    };
+  };
+
+  // A char array cell keeps its characters as one string, up to the last
+  // one that is not '\0': "hi" for {'h', 'i', '\0', '\0'}
+  const findStringElement = (lvalue: Lvalue) => {
+    const node = findNodeById(lvalue.nodeId);
+    if (
+      !node ||
+      "structName" in node ||
+      !isStringCell(node, getState().typedefDefinitions)
+    ) {
+      return undefined;
+    }
+    const index = lvalue.path.match(/^value\[(\d+)\]$/)?.[1];
+    if (index === undefined) return undefined;
+    return {
+      text: typeof node.value === "string" ? node.value : "",
+      index: Number(index),
+    };
+  };
+
+  const readNumber = (lvalue: Lvalue): number => {
+    const node = findNodeById(lvalue.nodeId);
+    const string = findStringElement(lvalue);
+    const raw = string
+      ? (string.text[string.index] ?? "")
+      : node && "structName" in node
+        ? getValueAtPath(node.fieldValues, lvalue.path)
+        : getValueAtPath({ [VALUE_CELL_FIELD]: node?.value }, lvalue.path);
+
+    if (typeof raw === "number") return raw;
+    if (typeof raw !== "string") return 0;
+    // Chars hold the character itself, and "" is '\0'
+    if (isCharType(lvalue.type)) {
+      return raw === "" ? 0 : wrapInteger(raw.charCodeAt(0), lvalue.type);
+    }
+    if (raw.trim() === "") return 0;
+    if (raw === "true" || raw === "false") return raw === "true" ? 1 : 0;
+    const enumerator = findEnum(
+      lvalue.type.type,
+      getState().enumDefinitions,
+    )?.enumerators.find((e) => e.name === raw);
+    if (enumerator) return enumerator.value;
+    const value = Number(raw);
+    return Number.isNaN(value) ? 0 : wrapInteger(value, lvalue.type);
+  };
+
+  // Values are stored as strings, the way the inputs on the nodes keep them
+  const formatStoredNumber = (value: number, type: ValueType): string => {
+    const stored = wrapInteger(value, type);
+    if (isBoolType(type)) return stored ? "true" : "false";
+    // The byte itself, so a signed char of -1 is stored as 0xFF
+    if (isCharType(type)) {
+      return stored & 0xff ? String.fromCharCode(stored & 0xff) : "";
+    }
+    const enumerator = findEnum(
+      type.type,
+      getState().enumDefinitions,
+    )?.enumerators.find((e) => e.value === stored);
+    if (enumerator) return enumerator.name;
+    return String(stored);
+  };
+
+  const writeNumber = (lvalue: Lvalue, value: number) => {
+    const state = getState();
+    const text = formatStoredNumber(value, lvalue.type);
+    const string = findStringElement(lvalue);
+    if (string) {
+      const chars = [...string.text.padEnd(string.index, "\0")];
+      chars[string.index] = text || "\0";
+      state.updateValueCellValue(
+        lvalue.nodeId,
+        VALUE_CELL_FIELD,
+        chars.join("").replace(/\0+$/, ""),
+      );
+    } else if (state.instances.some((i) => i.id === lvalue.nodeId)) {
+      state.updateFieldValue(lvalue.nodeId, lvalue.path, text);
+    } else {
+      state.updateValueCellValue(lvalue.nodeId, lvalue.path, text);
+    }
+  };
+
+  const writePointer = (lvalue: Lvalue, target: Target | null | "wild") => {
+    const state = getState();
+    if (target === null || target === "wild") {
+      state.setPointerState(
+        lvalue.nodeId,
+        lvalue.path,
+        target === null ? "null" : "uninitialized",
+      );
+      return;
+    }
+
+    const { nodeId, path } = normalizeTarget(target);
+    const existing = state.connections.find(
+      (c) =>
+        c.sourceInstanceId === lvalue.nodeId &&
+        c.sourceFieldName === lvalue.path,
+    );
+    if (existing) {
+      if (
+        existing.targetInstanceId === nodeId &&
+        existing.targetFieldName === path
+      ) {
+        return;
+      }
+      state.removeConnection(existing.id);
+    }
+    getState().addConnection({
+      sourceInstanceId: lvalue.nodeId,
+      sourceFieldName: lvalue.path,
+      targetInstanceId: nodeId,
+      ...(path && { targetFieldName: path }),
+    });
+  };
+
+  // ---- Conversions ----
+
+  const isCompatible = (from: ValueType, to: ValueType) =>
+    (from.type === to.type && from.pointerLevel === to.pointerLevel) ||
+    (from.type === "void" && from.pointerLevel === 1) ||
+    (to.type === "void" && to.pointerLevel === 1);
+
+  // Value given to a pointer of this type; a cast skips the type check
+  const toPointer = (
+    value: Value,
+    type: ValueType,
+    text: string,
+    isCast = false,
+  ): PointerValue => {
+    switch (value.kind) {
+      case "allocation":
+        return allocate(value, {
+          ...type,
+          pointerLevel: type.pointerLevel - 1,
+        });
+      case "number":
+        if (isVoid(value)) {
+          return fail(`'${text}' is void and has no value.`);
+        }
+        if (value.value === 0) return { kind: "pointer", target: null, type };
+        return fail(
+          `Cannot store ${value.value} in a ${formatType(type)}: use NULL or the address of an object.`,
+        );
+      case "object":
+        return fail(
+          `'${text}' is a ${formatType(value.object.type)}, not a pointer. Take its address with '&${text}'.`,
+        );
+      case "pointer":
+        if (
+          !isCast &&
+          value.target !== null &&
+          !isCompatible(value.type, type)
+        ) {
+          return fail(
+            `Type mismatch: '${text}' is ${formatType(value.type)}, but ${formatType(type)} was expected.`,
+          );
+        }
+        return { ...value, type };
+    }
+  };
+
+  const isVoid = (value: Value) =>
+    value.kind === "number" &&
+    value.type.type === "void" &&
+    value.type.pointerLevel === 0;
+
+  const toNumber = (value: Value, text: string): number => {
+    if (isVoid(value)) return fail(`'${text}' is void and has no value.`);
+    if (value.kind === "number") return value.value;
+    if (value.kind === "pointer") {
+      return fail(`'${text}' is a pointer, but a number was expected.`);
+    }
+    return fail(`'${text}' is not a number.`);
+  };
+
+  const store = (lvalue: Lvalue, value: Value, valueText: string) => {
+    const { type } = lvalue;
+    if (type.length !== undefined) {
+      fail(`Cannot assign to the array '${lvalue.text}'; assign its elements.`);
+    }
+    if (type.pointerLevel > 0) {
+      if (type.isFunctionPointer) {
+        fail("Function pointers are not supported by the console.");
+      }
+      writePointer(lvalue, toPointer(value, type, valueText).target);
+    } else if (type.struct) {
+      fail(
+        `Cannot assign a whole ${formatType(type)}; assign its members one by one.`,
+      );
+    } else {
+      writeNumber(lvalue, toNumber(value, valueText));
+    }
+  };
+
+  const truthy = (value: Value, text: string): boolean => {
+    if (value.kind === "number") return value.value !== 0;
+    if (value.kind === "pointer") {
+      if (value.target === "wild") {
+        return fail(
+          `'${text}' is uninitialised (wild), so it is neither NULL nor valid.`,
+        );
+      }
+      return value.target !== null;
+    }
+    return fail(`'${text}' cannot be used as a condition.`);
+  };
+
+  // ---- malloc and free ----
+
+  const allocate = (
+    allocation: Extract<Value, { kind: "allocation" }>,
+    pointee: ValueType,
+  ): PointerValue => {
+    const isVoid = pointee.type === "void" && pointee.pointerLevel === 0;
+    const element = isVoid
+      ? allocation.elementType
+      : resolveType(pointee.type, pointee.pointerLevel);
+    if (!element) {
+      return fail(
+        "Cannot tell what malloc allocates: cast the result or assign it to a typed pointer.",
+      );
+    }
+    const elementSize = sizeOf(element);
+    if (elementSize === 0 || allocation.bytes < elementSize) {
+      return fail(
+        `malloc(${allocation.bytes}) is too small for a ${formatType(element)} (${elementSize} bytes).`,
+      );
+    }
+    const count = Math.floor(allocation.bytes / elementSize);
+    const placement: Placement = { storage: "heap" };
+
+    let nodeId: string;
+    if (element.struct) {
+      if (count > 1) {
+        return fail(
+          `Arrays of structs are not supported: allocate one ${element.type} at a time.`,
+        );
+      }
+      getState().addInstance(
+        element.struct,
+        getPosition(placement),
+        undefined,
+        placement,
+      );
+      nodeId = getState().instances.at(-1)!.id;
+      // malloc'd memory holds garbage; calloc zeroes it (NULL pointers)
+      if (!allocation.zeroed)
+        markWild(nodeId, pointerPaths(element.struct.fields));
+    } else {
+      const length = count > 1 ? count : undefined;
+      getState().addValueCell({
+        name: uniqueName(element.type.replace(/\s+/g, "_")),
+        type: element.type,
+        ...(element.pointerLevel > 0 && { pointerLevel: element.pointerLevel }),
+        ...(length !== undefined && { length }),
+        ...(allocation.zeroed &&
+          element.pointerLevel === 0 && {
+            value: length !== undefined ? Array(length).fill("0") : "0",
+          }),
+        ...placement,
+        position: getPosition(placement),
+      });
+      const cell = getState().valueCells.at(-1)!;
+      nodeId = cell.id;
+      if (element.pointerLevel > 0 && !allocation.zeroed) {
+        markWild(nodeId, cellPointerPaths(length));
+      }
+    }
+
+    return {
+      kind: "pointer",
+      target: { nodeId },
+      type: {
+        ...element,
+        pointerLevel: element.pointerLevel + 1,
+        struct: undefined,
+      },
+    };
+  };
+
+  // malloc(sizeof(T)) and malloc(n * sizeof(T)) know their element type
+  const sizeofType = (expression: Expression): ValueType | undefined => {
+    if (expression.kind === "sizeof") {
+      return expression.type
+        ? resolveType(expression.type.type, expression.type.pointerLevel)
+        : undefined;
+    }
+    if (expression.kind === "binary" && expression.operator === "*") {
+      return sizeofType(expression.left) ?? sizeofType(expression.right);
+    }
+    return undefined;
+  };
+
+  const callFree = (args: Expression[]): Value => {
+    if (args.length !== 1) fail("free() takes one pointer.");
+    const text = formatExpression(args[0]);
+    const value = evaluate(args[0]);
+    if (value.kind !== "pointer") {
+      return fail(`free() needs a pointer, but '${text}' is not one.`);
+    }
+    const none: Value = { kind: "pointer", target: null, type: VOID_POINTER };
+    // free(NULL) does nothing
+    if (value.target === null) return none;
+    if (value.target === "wild") {
+      return fail(`Invalid free: '${text}' is uninitialised (wild).`);
+    }
+
+    const node = findNodeById(value.target.nodeId);
+    if (!node) return fail(`Invalid free: '${text}' points to nothing.`);
+    if (normalizeTarget(value.target).path) {
+      return fail(
+        `Invalid free: '${text}' points inside '${nameOf(node)}', not to the start of a block.`,
+      );
+    }
+    const error = getFreeError(node);
+    if (error === "double-free") {
+      return fail(
+        `Double free: '${nameOf(node)}' (via '${text}') was already freed.`,
+      );
+    }
+    if (error === "invalid-free") {
+      return fail(
+        `Invalid free: '${nameOf(node)}' is a ${getStorageClass(node) === "stack" ? "local" : "global"}, not a malloc'd block.`,
+      );
+    }
+    getState().freeNode(node.id);
+    return none;
+  };
+
+  const call = (callee: string, args: Expression[]): Value => {
+    switch (callee) {
+      case "malloc":
+      case "calloc": {
+        const expected = callee === "malloc" ? 1 : 2;
+        if (args.length !== expected) {
+          fail(
+            `${callee}() takes ${expected === 1 ? "one argument" : "two arguments"}.`,
+          );
+        }
+        const bytes = args
+          .map((arg) => toNumber(evaluate(arg), formatExpression(arg)))
+          .reduce((product, n) => product * n, 1);
+        return {
+          kind: "allocation",
+          bytes,
+          elementType: sizeofType(args.at(-1)!),
+          zeroed: callee === "calloc",
+        };
+      }
+      case "free":
+        return callFree(args);
+      default:
+        return (
+          callFunction?.(callee, args) ??
+          fail(
+            `Unknown function '${callee}'. Only malloc, calloc, free${callFunction ? " and the functions being stepped through" : ""} can be called.`,
+          )
+        );
+    }
+  };
+
+  // Results of calls the stepper already made, so that stepping into a
+  // call and then evaluating the expression around it runs it once
+  const callResults = new Map<Expression, Value>();
+
+  const setCallResult = (expression: Expression, value: Value) =>
+    callResults.set(expression, value);
+
+  // ---- Expressions ----
+
+  const evaluateLvalue = (expression: Expression): Lvalue => {
+    const text = formatExpression(expression);
+    switch (expression.kind) {
+      case "name": {
+        const node = findVariable(expression.name);
+        if (!node) return fail(`'${expression.name}' is not declared.`);
+        checkAlive(node, text);
+        return nodeLvalue(node, text);
+      }
+      case "member": {
+        const objectText = formatExpression(expression.object);
+        let object: Lvalue;
+        if (expression.arrow) {
+          const pointer = evaluate(expression.object);
+          object = dereference(pointer, objectText);
+          if (!isStructType(object.type)) {
+            return fail(
+              `'${objectText}' is ${pointer.kind === "pointer" ? formatType(pointer.type) : "not a pointer"}, not a pointer to a struct.`,
+            );
+          }
+        } else {
+          object = evaluateLvalue(expression.object);
+          if (
+            object.type.pointerLevel === 1 &&
+            resolveType(object.type.type, 0).struct
+          ) {
+            return fail(
+              `'${objectText}' is a pointer; use '${objectText}->${expression.member}' instead of '.'.`,
+            );
+          }
+          if (!isStructType(object.type)) {
+            return fail(
+              `'${objectText}' is ${formatType(object.type)}, not a struct.`,
+            );
+          }
+        }
+
+        const state = getState();
+        const field = findFieldByPath(
+          object.type.struct!.fields,
+          expression.member,
+          state.structDefinitions,
+          state.typedefDefinitions,
+        );
+        if (!field) {
+          return fail(
+            `${formatType(object.type)} has no member named '${expression.member}'.`,
+          );
+        }
+        const node = findNodeById(object.nodeId);
+        return {
+          nodeId: object.nodeId,
+          path: object.path
+            ? `${object.path}.${expression.member}`
+            : expression.member,
+          type: fieldType(
+            field,
+            node && "structName" in node ? node.flexibleLength : 0,
+          ),
+          text,
+        };
+      }
+      case "index": {
+        const objectText = formatExpression(expression.object);
+        const base = evaluate(expression.object);
+        if (base.kind !== "pointer") {
+          return fail(`'${objectText}' is not an array or a pointer.`);
+        }
+        const index = toNumber(
+          evaluate(expression.index),
+          formatExpression(expression.index),
+        );
+        return dereference(offsetPointer(base, index, objectText), text);
+      }
+      case "unary":
+        if (expression.operator === "*") {
+          return dereference(
+            evaluate(expression.operand),
+            formatExpression(expression.operand),
+          );
+        }
+        break;
+    }
+    return fail(`'${text}' is not an object that can be assigned.`);
+  };
+
+  const isLvalueExpression = (expression: Expression) =>
+    ["name", "member", "index"].includes(expression.kind) ||
+    (expression.kind === "unary" && expression.operator === "*");
+
+  const arithmetic = (
+    operator: string,
+    left: Value,
+    right: Value,
+    leftText: string,
+    rightText: string,
+  ): Value => {
+    // Pointer arithmetic moves by whole elements
+    if (left.kind === "pointer" && (operator === "+" || operator === "-")) {
+      if (right.kind === "pointer" && operator === "-") {
+        const a =
+          left.target && left.target !== "wild"
+            ? normalizeTarget(left.target)
+            : undefined;
+        const b =
+          right.target && right.target !== "wild"
+            ? normalizeTarget(right.target)
+            : undefined;
+        if (!a || !b || a.nodeId !== b.nodeId) {
+          return fail(
+            `'${leftText}' and '${rightText}' do not point into the same array.`,
+          );
+        }
+        const indexOf = (t: Target) =>
+          parseInt(t.path?.match(/\[(\d+)\]$/)?.[1] ?? "0", 10);
+        return {
+          kind: "number",
+          value: indexOf(a) - indexOf(b),
+          type: INT_TYPE,
+        };
+      }
+      const offset = toNumber(right, rightText);
+      return offsetPointer(left, operator === "+" ? offset : -offset, leftText);
+    }
+    if (right.kind === "pointer" && operator === "+") {
+      return offsetPointer(right, toNumber(left, leftText), rightText);
+    }
+
+    const leftType = left.kind === "number" ? left.type : INT_TYPE;
+    const rightType = right.kind === "number" ? right.type : INT_TYPE;
+    const isShift = operator === "<<" || operator === ">>";
+    // A shift has the type of its left operand, the rest convert both sides
+    // to a common type first, so -1 < 0u compares 0xFFFFFFFF with 0
+    const type = isShift ? promote(leftType) : commonType(leftType, rightType);
+    const a = wrapInteger(toNumber(left, leftText), type);
+    // Shifting by the width or more is undefined; it clears the bits here
+    const b = isShift
+      ? Math.min(Math.max(toNumber(right, rightText), 0), sizeOf(type) * 8)
+      : wrapInteger(toNumber(right, rightText), type);
+    const number = (value: number): Value => ({
+      kind: "number",
+      value: wrapInteger(value, type),
+      type,
+    });
+    const truth = (value: boolean): Value => ({
+      kind: "number",
+      value: value ? 1 : 0,
+      type: INT_TYPE,
+    });
+    // Bitwise operators work on the whole width, past JavaScript's 32 bits
+    const bitwise = (apply: (x: bigint, y: bigint) => bigint): Value => {
+      if (isFloatType(type) || isFloatType(rightType)) {
+        return fail(
+          `'${leftText} ${operator} ${rightText}' needs integer operands.`,
+        );
+      }
+      return number(Number(apply(BigInt(a), BigInt(b))));
+    };
+
+    switch (operator) {
+      case "+":
+        return number(a + b);
+      case "-":
+        return number(a - b);
+      case "*":
+        return number(a * b);
+      case "/":
+      case "%":
+        if (b === 0)
+          return fail(
+            `Division by zero in '${leftText} ${operator} ${rightText}'.`,
+          );
+        return number(operator === "/" ? a / b : a % b);
+      case "<<":
+        return bitwise((x, y) => x << y);
+      case ">>":
+        return bitwise((x, y) => x >> y);
+      case "&":
+        return bitwise((x, y) => x & y);
+      case "|":
+        return bitwise((x, y) => x | y);
+      case "^":
+        return bitwise((x, y) => x ^ y);
+      case "<":
+        return truth(a < b);
+      case ">":
+        return truth(a > b);
+      case "<=":
+        return truth(a <= b);
+      case ">=":
+        return truth(a >= b);
+      case "==":
+        return truth(a === b);
+      case "!=":
+        return truth(a !== b);
+    }
+    return fail(`Unsupported operator '${operator}'.`);
+  };
+
+  const evaluate = (expression: Expression): Value => {
+    const text = formatExpression(expression);
+    switch (expression.kind) {
+      case "number":
+        return {
+          kind: "number",
+          value: expression.value,
+          type: expression.isFloat
+            ? DOUBLE_TYPE
+            : literalType(expression.value),
+        };
+      case "string":
+        return fail("String literals are not supported by the console.");
+      case "null":
+        return { kind: "pointer", target: null, type: VOID_POINTER };
+      case "name": {
+        if (findVariable(expression.name)) {
+          return load(evaluateLvalue(expression));
+        }
+        const enumerator = getState()
+          .enumDefinitions.flatMap((e) => e.enumerators)
+          .find((e) => e.name === expression.name);
+        if (enumerator) {
+          return { kind: "number", value: enumerator.value, type: INT_TYPE };
+        }
+        return fail(`'${expression.name}' is not declared.`);
+      }
+      case "member":
+      case "index":
+        return load(evaluateLvalue(expression));
+      case "call": {
+        const result = callResults.get(expression);
+        if (result) {
+          callResults.delete(expression);
+          return result;
+        }
+        return call(expression.callee, expression.args);
+      }
+      case "sizeof": {
+        if (expression.type) {
+          if (!isTypeName(expression.type.type)) {
+            fail(`Unknown type '${expression.type.type}'.`);
+          }
+          const type = resolveType(
+            expression.type.type,
+            expression.type.pointerLevel,
+          );
+          return { kind: "number", value: sizeOf(type), type: INT_TYPE };
+        }
+        const operand = expression.operand!;
+        const type = isLvalueExpression(operand)
+          ? evaluateLvalue(operand).type
+          : (() => {
+              const value = evaluate(operand);
+              return value.kind === "number" || value.kind === "pointer"
+                ? value.type
+                : value.kind === "object"
+                  ? value.object.type
+                  : VOID_POINTER;
+            })();
+        return { kind: "number", value: sizeOf(type), type: INT_TYPE };
+      }
+      case "cast": {
+        const { type: name, pointerLevel } = expression.type;
+        if (!isTypeName(name)) fail(`Unknown type '${name}'.`);
+        const type = resolveType(name, pointerLevel);
+        const value = evaluate(expression.operand);
+        const operandText = formatExpression(expression.operand);
+        if (type.pointerLevel > 0) {
+          if (value.kind === "allocation") {
+            return allocate(value, {
+              ...type,
+              pointerLevel: type.pointerLevel - 1,
+            });
+          }
+          return toPointer(value, type, operandText, true);
+        }
+        const number = toNumber(value, operandText);
+        return {
+          kind: "number",
+          value: wrapInteger(number, type),
+          type,
+        };
+      }
+      case "unary": {
+        const { operator, operand } = expression;
+        const operandText = formatExpression(operand);
+        if (operator === "&") {
+          const lvalue = evaluateLvalue(operand);
+          const element = {
+            ...lvalue.type,
+            length: undefined,
+            struct: undefined,
+          };
+          return {
+            kind: "pointer",
+            target: { nodeId: lvalue.nodeId, path: lvalue.path || undefined },
+            type: { ...element, pointerLevel: element.pointerLevel + 1 },
+          };
+        }
+        if (operator === "*") return load(evaluateLvalue(expression));
+        if (operator === "++" || operator === "--") {
+          return increment(operand, operator, true);
+        }
+        const value = evaluate(operand);
+        if (operator === "!") {
+          return {
+            kind: "number",
+            value: truthy(value, operandText) ? 0 : 1,
+            type: INT_TYPE,
+          };
+        }
+        const number = toNumber(value, operandText);
+        const type = promote(value.kind === "number" ? value.type : INT_TYPE);
+        if (operator === "~" && isFloatType(type)) {
+          fail(
+            `'${operandText}' is not an integer, so '~' cannot flip its bits.`,
+          );
+        }
+        return {
+          kind: "number",
+          value: wrapInteger(
+            operator === "-"
+              ? -number
+              : operator === "~"
+                ? -number - 1
+                : number,
+            type,
+          ),
+          type,
+        };
+      }
+      case "postfix":
+        return increment(expression.operand, expression.operator, false);
+      case "binary": {
+        const { operator, left, right } = expression;
+        const leftText = formatExpression(left);
+        const rightText = formatExpression(right);
+        if (operator === "&&" || operator === "||") {
+          const a = truthy(evaluate(left), leftText);
+          const result =
+            operator === "&&"
+              ? a && truthy(evaluate(right), rightText)
+              : a || truthy(evaluate(right), rightText);
+          return { kind: "number", value: result ? 1 : 0, type: INT_TYPE };
+        }
+        const a = evaluate(left);
+        const b = evaluate(right);
+        if (
+          (operator === "==" || operator === "!=") &&
+          (a.kind === "pointer" || b.kind === "pointer")
+        ) {
+          const equal = sameTarget(
+            toPointer(a, VOID_POINTER, leftText),
+            toPointer(b, VOID_POINTER, rightText),
+          );
+          return {
+            kind: "number",
+            value: equal === (operator === "==") ? 1 : 0,
+            type: INT_TYPE,
+          };
+        }
+        return arithmetic(operator, a, b, leftText, rightText);
+      }
+      case "assign": {
+        const target = evaluateLvalue(expression.target);
+        const valueText = formatExpression(expression.value);
+        let value = evaluate(expression.value);
+        if (expression.operator !== "=") {
+          value = arithmetic(
+            expression.operator.slice(0, -1),
+            load(target),
+            value,
+            target.text,
+            valueText,
+          );
+        }
+        store(target, value, valueText);
+        return load(target);
+      }
+    }
+    return fail(`Cannot evaluate '${text}'.`);
+  };
+
+  const increment = (
+    operand: Expression,
+    operator: "++" | "--",
+    isPrefix: boolean,
+  ): Value => {
+    const target = evaluateLvalue(operand);
+    const before = load(target);
+    const after = arithmetic(
+      operator[0],
+      before,
+      { kind: "number", value: 1, type: INT_TYPE },
+      target.text,
+      "1",
+    );
+    store(target, after, target.text);
+    return isPrefix ? load(target) : before;
+  };
+
+  // ---- Statements ----
+
+  // A block entered again (the body of a loop) declares its variables
+  // again; they take the place of the ones left from the last time around
+  const findStaleVariable = (name: string, placement: Placement) => {
+    const { instances, valueCells } = getState();
+    return [...valueCells, ...instances].find(
+      (node) =>
+        nameOf(node) === name &&
+        getStorageClass(node) === placement.storage &&
+        node.frameId === placement.frameId &&
+        isOutOfScope(node),
+    );
+  };
+
+  const declareVariable = (
+    typeName: TypeName,
+    declarator: Omit<Declarator, "init">,
+    init?: { value: Value; text: string },
+  ) => {
+    const { name } = declarator;
+    const frame = activeFrame();
+    const placement: Placement = frame
+      ? { storage: "stack", frameId: frame.id }
+      : { storage: "static" };
+    const existing = findVariable(name);
+    if (
+      existing &&
+      getStorageClass(existing) === placement.storage &&
+      existing.frameId === placement.frameId
+    ) {
+      fail(`Redeclaration of '${name}'.`);
+    }
+
+    const pointerLevel = typeName.pointerLevel + declarator.pointerLevel;
+    const type = resolveType(typeName.type, pointerLevel, declarator.length);
+    if (type.type === "void" && type.pointerLevel === 0) {
+      fail(`'${name}' cannot have type void.`);
+    }
+    if (type.isFunctionPointer) {
+      fail("Function pointers are not supported by the console.");
+    }
+    if (type.struct && declarator.length !== undefined) {
+      fail("Arrays of structs are not supported by the console.");
+    }
+    if (type.struct && init) {
+      fail(
+        `Struct initializers are not supported; assign the members of '${name}' one by one.`,
+      );
+    }
+    const isLocal = placement.storage === "stack";
+
+    const state = getState();
+    const stale = findStaleVariable(name, placement);
+    let node: StructInstance | ValueCell;
+    if (stale) {
+      const staleType = nodeLvalue(stale, name).type;
+      if (
+        staleType.type !== type.type ||
+        staleType.pointerLevel !== type.pointerLevel ||
+        staleType.length !== type.length
+      ) {
+        fail(
+          `'${name}' was already declared as ${formatType(staleType)} in another block; give the ${formatType(type)} a different name.`,
+        );
+      }
+      node = stale;
+      // The old value stays behind, like in a reused stack slot, except
+      // that pointers go back to garbage
+      if (isLocal && !init) {
+        markWild(
+          node.id,
+          type.struct
+            ? pointerPaths(type.struct.fields)
+            : pointerLevel > 0
+              ? cellPointerPaths(declarator.length)
+              : [],
+        );
+      }
+    } else if (type.struct) {
+      state.addInstance(type.struct, getPosition(placement), name, placement);
+      node = getState().instances.at(-1)!;
+      // Locals hold garbage until they are assigned; globals start zeroed
+      if (isLocal) markWild(node.id, pointerPaths(type.struct.fields));
+    } else {
+      state.addValueCell({
+        name,
+        type: typeName.type,
+        ...(pointerLevel > 0 && { pointerLevel }),
+        ...(declarator.length !== undefined && { length: declarator.length }),
+        ...placement,
+        position: getPosition(placement),
+      });
+      node = getState().valueCells.at(-1)!;
+      if (isLocal && pointerLevel > 0 && !init) {
+        markWild(node.id, cellPointerPaths(declarator.length));
+      }
+    }
+    enterScope(node);
+
+    if (init) store(nodeLvalue(node, name), init.value, init.text);
+  };
+
+  const declare = (statement: Statement & { kind: "declaration" }) => {
+    const { type: typeName } = statement;
+    if (!isTypeName(typeName.type)) {
+      fail(`Unknown type '${typeName.type}'.`);
+    }
+
+    for (const declarator of statement.declarators) {
+      // Evaluated before the variable exists, so a failing initializer
+      // only leaves the variables declared before it
+      const init = declarator.init && {
+        value: evaluate(declarator.init),
+        text: formatExpression(declarator.init),
+      };
+      declareVariable(typeName, declarator, init);
+    }
+  };
+
+  // Parameters are locals of the new frame, initialised with the arguments
+  const declareParameter = (parameter: Parameter, value: Value) => {
+    if (!isTypeName(parameter.type.type)) {
+      fail(`Unknown type '${parameter.type.type}'.`);
+    }
+    const type = resolveType(parameter.type.type, parameter.type.pointerLevel);
+    if (isStructType(type)) {
+      fail(
+        `Struct parameters are not supported; pass a pointer to '${parameter.name}' instead.`,
+      );
+    }
+    declareVariable(
+      { type: parameter.type.type, pointerLevel: 0 },
+      { name: parameter.name, pointerLevel: parameter.type.pointerLevel },
+      { value, text: parameter.name },
+    );
+  };
+
+  // Value converted to the return type of a function
+  const convert = (value: Value, typeName: TypeName, text: string): Value => {
+    const type = resolveType(typeName.type, typeName.pointerLevel);
+    if (type.type === "void" && type.pointerLevel === 0) {
+      return { kind: "number", value: 0, type: VOID_TYPE };
+    }
+    if (type.pointerLevel > 0) return toPointer(value, type, text);
+    if (type.struct) {
+      return fail(
+        `Returning a ${formatTypeName(typeName)} by value is not supported; return a pointer instead.`,
+      );
+    }
+    const number = toNumber(value, text);
+    return {
+      kind: "number",
+      value: wrapInteger(number, type),
+      type,
+    };
+  };
+
+  // Runs one statement; expression statements without side effects return
+  // their value for the console to print
+  const execute = (statement: SimpleStatement): string | undefined => {
+    if (statement.kind === "declaration") {
+      declare(statement);
+      return undefined;
+    }
+
+    const { expression } = statement;
+    const value = evaluate(expression);
+    const hasEffect =
+      ["assign", "call", "postfix"].includes(expression.kind) ||
+      (expression.kind === "unary" &&
+        (expression.operator === "++" || expression.operator === "--"));
+    return hasEffect
+      ? undefined
+      : `${formatExpression(expression)} → ${formatValue(value)}`;
+  };
+
+  return {
+    isTypeName,
+    execute,
+    evaluate,
+    truthy,
+    formatValue,
+    declareParameter,
+    convert,
+    setCallResult,
+    pushScope,
+    popScope,
+  };
+}
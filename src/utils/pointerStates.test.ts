@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { clearPointerState, getPointerState } from "./pointerStates";
+
+const link = {
+  id: "c1",
+  sourceInstanceId: "n1",
+  sourceFieldName: "next",
+  targetInstanceId: "n2",
+};
+
+describe("getPointerState", () => {
+  it("prefers a connection over the recorded state", () => {
+    expect(
+      getPointerState("n1", "next", { next: "uninitialized" }, [link]),
+    ).toBe("connected");
+    expect(
+      getPointerState("n1", "prev", { prev: "uninitialized" }, [link]),
+    ).toBe("uninitialized");
+  });
+
+  it("defaults to NULL", () => {
+    expect(getPointerState("n2", "next", undefined, [link])).toBe("null");
+  });
+});
+
+describe("clearPointerState", () => {
+  it("drops the entry and the record once it is empty", () => {
+    const states = { next: "uninitialized", prev: "null" } as const;
+    expect(clearPointerState(states, "next")).toEqual({ prev: "null" });
+    expect(clearPointerState({ next: "null" }, "next")).toBeUndefined();
+    expect(clearPointerState(states, "other")).toBe(states);
+  });
+});
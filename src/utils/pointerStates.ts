@@ -0,0 +1,35 @@
+import type {
+  PointerConnection,
+  PointerState,
+  UnsetPointerState,
+} from "../types";
+
+/**
+ * State of the pointer at path inside a struct instance or value cell:
+ * a connection wins, otherwise the recorded state, which defaults to NULL
+ */
+export function getPointerState(
+  nodeId: string,
+  path: string,
+  pointerStates: Record<string, UnsetPointerState> | undefined,
+  connections: PointerConnection[],
+): PointerState {
+  const isConnected = connections.some(
+    (conn) => conn.sourceInstanceId === nodeId && conn.sourceFieldName === path,
+  );
+  if (isConnected) return "connected";
+  return pointerStates?.[path] ?? "null";
+}
+
+/**
+ * Copy of pointerStates without the entry for path (undefined once empty)
+ */
+export function clearPointerState(
+  pointerStates: Record<string, UnsetPointerState> | undefined,
+  path: string,
+): Record<string, UnsetPointerState> | undefined {
+  if (!pointerStates || !(path in pointerStates)) return pointerStates;
+  const rest = { ...pointerStates };
+  delete rest[path];
+  return Object.keys(rest).length > 0 ? rest : undefined;
+}
@@ -531,7 +531,8 @@ function layoutHorizontalTree(
     const structDef = structDefinitions.find((s) => s.name === instance.structName);
     if (!structDef) return 999;
 
-    const baseFieldName = fieldName.split("[")[0];
+    // Order by the top-level member ("pos" for "pos.next", "p" for "p[0]")
+    const baseFieldName = fieldName.split(/[.[]/)[0];
     const fieldIndex = structDef.fields.findIndex((f) => f.name === baseFieldName);
 
     if (fieldIndex === -1) return 999;
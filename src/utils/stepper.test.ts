@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { useCanvasStore } from "../store/canvasStore";
+import { parseStruct } from "../parser/structParser";
+import { createStepper, runStatements, type StepResult } from "./stepper";
+
+const options = {
+  getState: useCanvasStore.getState,
+  getPosition: () => ({ x: 0, y: 0 }),
+  getFramePosition: () => ({ x: 0, y: 0 }),
+};
+const state = () => useCanvasStore.getState();
+const activeFrames = () =>
+  state()
+    .stackFrames.filter((f) => !f.popped)
+    .map((f) => f.functionName);
+
+const INSERT = `void insert(Node** head, int v) {
+    Node* n = malloc(sizeof(Node));
+    n->data = v;
+    n->next = *head;
+    *head = n;
+}`;
+
+// Lines the call pauses on, then how it ended
+function stepAll(stepper: ReturnType<typeof createStepper>) {
+  const lines: number[] = [];
+  let result: StepResult = stepper.step();
+  while (result.status === "paused") {
+    lines.push(result.line);
+    result = stepper.step();
+  }
+  return { lines, result };
+}
+
+beforeEach(() => {
+  useCanvasStore.setState(useCanvasStore.getInitialState(), true);
+  state().addStructDefinition(
+    parseStruct("typedef struct Node { int data; struct Node* next; } Node;")!,
+  );
+  runStatements("Node* head = NULL;", options);
+});
+
+describe("createStepper", () => {
+  it("pauses on each statement and the closing brace", () => {
+    const stepper = createStepper(INSERT, "insert(&head, 5)", options);
+    expect(stepper.functions.map((f) => f.name)).toEqual(["insert"]);
+
+    const first = stepper.step();
+    expect(first).toEqual({ status: "paused", line: 2 });
+    expect(activeFrames()).toEqual(["insert"]);
+
+    const { lines, result } = stepAll(stepper);
+    expect(lines).toEqual([3, 4, 5, 6]);
+    expect(result).toEqual({ status: "done", output: ["insert() returned"] });
+    expect(activeFrames()).toEqual([]);
+    expect(state().instances[0].fieldValues).toEqual({ data: "5" });
+  });
+
+  it("steps into nested calls", () => {
+    const code = `int twice(int x) {
+    return x * 2;
+}
+int quad(int x) {
+    int y = twice(x);
+    return twice(y);
+}`;
+    const stepper = createStepper(code, "quad(3)", options);
+    const { lines, result } = stepAll(stepper);
+    expect(lines).toEqual([5, 2, 6, 2]);
+    expect(result).toEqual({ status: "done", output: ["quad() returned 12"] });
+  });
+
+  it("reports the line of a crash and keeps its frame", () => {
+    const code = `void broken(void) {
+    Node* p = NULL;
+    p->data = 1;
+}`;
+    const { result } = stepAll(createStepper(code, "broken()", options));
+    expect(result).toMatchObject({
+      status: "error",
+      line: 3,
+      message: "NULL pointer dereference: 'p' is NULL.",
+    });
+    expect(activeFrames()).toEqual(["broken"]);
+  });
+
+  it("treats uninitialised locals as wild", () => {
+    const code = `void wild(void) {
+    Node* p;
+    p->data = 1;
+}`;
+    const { result } = stepAll(createStepper(code, "wild()", options));
+    expect(result).toMatchObject({ status: "error", line: 3 });
+  });
+
+  it("runs to the end with finish()", () => {
+    const stepper = createStepper(INSERT, "insert(&head, 5)", options);
+    stepper.step();
+    expect(stepper.finish()).toEqual({
+      status: "done",
+      output: ["insert() returned"],
+    });
+  });
+
+  it("pauses a call that never ends", () => {
+    const code = `void spin(void) {
+    while (1) {
+    }
+}`;
+    const stepper = createStepper(code, "spin()", options);
+    stepper.step();
+    expect(stepper.finish()).toMatchObject({
+      status: "paused",
+      message: expect.stringMatching(/^Paused after \d+ steps/),
+    });
+    stepper.stop();
+  });
+
+  it("pops the frames of a stopped call", () => {
+    const stepper = createStepper(INSERT, "insert(&head, 5)", options);
+    stepper.step();
+    stepper.step();
+    stepper.stop();
+    stepper.stop();
+    expect(activeFrames()).toEqual([]);
+    expect(state().stackFrames).toHaveLength(1);
+  });
+
+  it("throws when the code or the call does not parse", () => {
+    expect(() => createStepper("void f( {", "f()", options)).toThrow();
+    expect(() => createStepper(INSERT, "insert(&head,", options)).toThrow(
+      /^In the call: /,
+    );
+  });
+});
+
+describe("undo", () => {
+  it("takes back a whole stepped call in one step", () => {
+    stepAll(createStepper(INSERT, "insert(&head, 5)", options));
+    expect(state().instances).toHaveLength(1);
+
+    state().undo();
+    expect(state().instances).toHaveLength(0);
+    expect(state().stackFrames).toHaveLength(0);
+    expect(state().valueCells.map((c) => c.name)).toEqual(["head"]);
+  });
+
+  it("closes the history batch while the call is paused", () => {
+    const stepper = createStepper(INSERT, "insert(&head, 5)", options);
+    stepper.step();
+    expect(state().isBatchingHistory).toBe(false);
+
+    // An edit between steps gets its own undo step
+    stepper.step();
+    runStatements("int x = 1;", options);
+    stepAll(stepper);
+    expect(state().instances).toHaveLength(1);
+
+    const names = () => state().valueCells.map((c) => c.name);
+    state().undo();
+    expect(names()).toContain("x");
+    expect(activeFrames()).toEqual(["insert"]);
+    state().undo();
+    expect(names()).not.toContain("x");
+    expect(activeFrames()).toEqual(["insert"]);
+    state().undo();
+    expect(names()).toEqual(["head"]);
+  });
+
+  it("takes back a stopped call in one step", () => {
+    const stepper = createStepper(INSERT, "insert(&head, 5)", options);
+    stepper.step();
+    stepper.step();
+    stepper.stop();
+
+    state().undo();
+    expect(state().instances).toHaveLength(0);
+    expect(state().stackFrames).toHaveLength(0);
+    expect(state().valueCells.map((c) => c.name)).toEqual(["head"]);
+  });
+});
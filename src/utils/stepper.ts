@@ -0,0 +1,450 @@
+import {
+  formatExpression,
+  formatTypeName,
+  parseFunctions,
+  parseStatements,
+  type Expression,
+  type FunctionDefinition,
+  type SimpleStatement,
+  type Statement,
+} from "../parser/statementParser";
+import {
+  createInterpreter,
+  type InterpreterOptions,
+  type Value,
+} from "./interpreter";
+
+/**
+ * Stepper
+ * Runs control flow and calls to pasted functions on top of the statement
+ * interpreter. Execution is a generator that stops before each statement
+ * of a function with the line it is on, so the code pane can step through
+ * it while the canvas shows every change: a call pushes a stack frame that
+ * holds the parameters and locals, and a return pops it.
+ *
+ * Calls that are always made are stepped into, innermost first. Calls on
+ * the right of && and || may not happen, so they run in one step.
+ */
+
+export interface RunResult {
+  output: string[]; // Values of expression statements, one line each
+  error?: string;
+}
+
+export interface StepperOptions extends Omit<
+  InterpreterOptions,
+  "callFunction"
+> {
+  // Where to draw the frame of a new call
+  getFramePosition: () => { x: number; y: number };
+}
+
+export type StepResult =
+  | { status: "paused"; line: number; message?: string }
+  | { status: "done"; output: string[] }
+  | { status: "error"; line?: number; message: string; output: string[] };
+
+// How a statement finished: normally, or by jumping out of its block
+type Completion =
+  | { kind: "normal" }
+  | { kind: "break" | "continue" }
+  | { kind: "return"; value?: Value; text: string };
+
+type CallExpression = Extract<Expression, { kind: "call" }>;
+
+const NORMAL: Completion = { kind: "normal" };
+
+// Steps run at once before giving up on a loop (console, run to end)
+export const MAX_STEPS = 10000;
+// Calls deep before the stack overflows
+const MAX_DEPTH = 64;
+
+let stepperCounter = 0;
+
+function createExecutor(
+  options: InterpreterOptions &
+    Partial<Pick<StepperOptions, "getFramePosition">>,
+  functions: FunctionDefinition[] = [],
+) {
+  const output: string[] = [];
+  let line = 0; // Line of the statement being run
+  let depth = 0; // Frames of calls that have not returned yet
+
+  // Only the stepper can call functions; the console cannot define them
+  const interpreter = createInterpreter({
+    ...options,
+    ...(options.getFramePosition && {
+      callFunction: (name, args) => {
+        const fn = functions.find((f) => f.name === name);
+        return fn && finish(invoke(fn, args));
+      },
+    }),
+  });
+
+  const findFunction = (name: string) => functions.find((f) => f.name === name);
+
+  // Runs a generator to the end without stopping
+  const finish = <T>(generator: Generator<number, T>): T => {
+    for (let steps = 0; ; steps++) {
+      const next = generator.next();
+      if (next.done) return next.value;
+      if (steps === MAX_STEPS) {
+        throw new Error(
+          `Stopped after ${MAX_STEPS} steps. Does a loop never end?`,
+        );
+      }
+    }
+  };
+
+  function* stop(statementLine: number): Generator<number, void> {
+    line = statementLine;
+    yield line;
+  }
+
+  const steppableCalls = (expression: Expression): CallExpression[] => {
+    switch (expression.kind) {
+      case "call":
+        return [
+          ...expression.args.flatMap(steppableCalls),
+          ...(findFunction(expression.callee) ? [expression] : []),
+        ];
+      case "member":
+        return steppableCalls(expression.object);
+      case "index":
+        return [
+          ...steppableCalls(expression.object),
+          ...steppableCalls(expression.index),
+        ];
+      case "unary":
+      case "postfix":
+      case "cast":
+        return steppableCalls(expression.operand);
+      case "binary":
+        return expression.operator === "&&" || expression.operator === "||"
+          ? steppableCalls(expression.left)
+          : [
+              ...steppableCalls(expression.left),
+              ...steppableCalls(expression.right),
+            ];
+      case "assign":
+        return [
+          ...steppableCalls(expression.target),
+          ...steppableCalls(expression.value),
+        ];
+      default:
+        // sizeof does not evaluate its operand
+        return [];
+    }
+  };
+
+  // Steps into the calls of an expression before it is evaluated
+  function* prepareCalls(expression: Expression): Generator<number, void> {
+    for (const call of steppableCalls(expression)) {
+      const value = yield* invoke(findFunction(call.callee)!, call.args);
+      interpreter.setCallResult(call, value);
+    }
+  }
+
+  function* invoke(
+    fn: FunctionDefinition,
+    args: Expression[],
+  ): Generator<number, Value> {
+    if (args.length !== fn.parameters.length) {
+      throw new Error(
+        `${fn.name}() takes ${fn.parameters.length} argument${fn.parameters.length === 1 ? "" : "s"}, but ${args.length} ${args.length === 1 ? "was" : "were"} given.`,
+      );
+    }
+    if (depth === MAX_DEPTH) {
+      throw new Error(
+        `Stack overflow: more than ${MAX_DEPTH} nested calls. Is a base case missing?`,
+      );
+    }
+    const values = args.map((arg) => interpreter.evaluate(arg));
+    const callerLine = line;
+
+    const { getState, getFramePosition } = options;
+    getState().pushStackFrame(fn.name, getFramePosition!());
+    depth++;
+    interpreter.pushScope();
+    line = fn.line;
+    fn.parameters.forEach((parameter, index) =>
+      interpreter.declareParameter(parameter, values[index]),
+    );
+
+    const completion = yield* runStatement({
+      kind: "block",
+      line: fn.line,
+      body: fn.body,
+    });
+    // Stop on the closing brace with the locals still alive
+    if (completion.kind !== "return") yield* stop(fn.endLine);
+
+    const isVoid =
+      fn.returnType.type === "void" && fn.returnType.pointerLevel === 0;
+    const returned = completion.kind === "return" ? completion : undefined;
+    if (isVoid && returned?.value) {
+      throw new Error(`${fn.name}() is void and cannot return a value.`);
+    }
+    if (!isVoid && !returned?.value) {
+      throw new Error(
+        `${fn.name}() ended without returning its ${formatTypeName(fn.returnType)}.`,
+      );
+    }
+    const result = interpreter.convert(
+      returned?.value ?? {
+        kind: "number",
+        value: 0,
+        type: { type: "void", pointerLevel: 0 },
+      },
+      fn.returnType,
+      returned?.text ?? "",
+    );
+
+    interpreter.popScope();
+    getState().popStackFrame();
+    depth--;
+    line = callerLine;
+    if (depth === 0) {
+      output.push(
+        isVoid
+          ? `${fn.name}() returned`
+          : `${fn.name}() returned ${interpreter.formatValue(result)}`,
+      );
+    }
+    return result;
+  }
+
+  function* runSimple(statement: SimpleStatement): Generator<number, void> {
+    if (statement.kind === "expression") {
+      yield* prepareCalls(statement.expression);
+      const result = interpreter.execute(statement);
+      if (result !== undefined) output.push(result);
+      return;
+    }
+    // One declarator at a time, so a call in an initializer can use the
+    // variables declared before it
+    for (const declarator of statement.declarators) {
+      if (declarator.init) yield* prepareCalls(declarator.init);
+      interpreter.execute({ ...statement, declarators: [declarator] });
+    }
+  }
+
+  function* test(condition: Expression): Generator<number, boolean> {
+    yield* prepareCalls(condition);
+    return interpreter.truthy(
+      interpreter.evaluate(condition),
+      formatExpression(condition),
+    );
+  }
+
+  function* runStatement(statement: Statement): Generator<number, Completion> {
+    switch (statement.kind) {
+      case "declaration":
+      case "expression":
+        yield* stop(statement.line);
+        yield* runSimple(statement);
+        return NORMAL;
+      case "block":
+        interpreter.pushScope();
+        try {
+          for (const child of statement.body) {
+            const completion = yield* runStatement(child);
+            if (completion.kind !== "normal") return completion;
+          }
+          return NORMAL;
+        } finally {
+          interpreter.popScope();
+        }
+      case "if":
+        yield* stop(statement.line);
+        if (yield* test(statement.condition)) {
+          return yield* runStatement(statement.then);
+        }
+        return statement.else ? yield* runStatement(statement.else) : NORMAL;
+      case "while":
+        for (;;) {
+          yield* stop(statement.line);
+          if (!(yield* test(statement.condition))) return NORMAL;
+          const completion = yield* runStatement(statement.body);
+          if (completion.kind === "break") return NORMAL;
+          if (completion.kind === "return") return completion;
+        }
+      case "for":
+        // The loop variable lives in a scope of its own around the body
+        interpreter.pushScope();
+        try {
+          yield* stop(statement.line);
+          if (statement.init) yield* runSimple(statement.init);
+          for (;;) {
+            if (statement.condition && !(yield* test(statement.condition))) {
+              return NORMAL;
+            }
+            const completion = yield* runStatement(statement.body);
+            if (completion.kind === "break") return NORMAL;
+            if (completion.kind === "return") return completion;
+            yield* stop(statement.line);
+            if (statement.update) {
+              yield* prepareCalls(statement.update);
+              interpreter.evaluate(statement.update);
+            }
+          }
+        } finally {
+          interpreter.popScope();
+        }
+      case "return":
+        yield* stop(statement.line);
+        if (!statement.value) return { kind: "return", text: "" };
+        yield* prepareCalls(statement.value);
+        return {
+          kind: "return",
+          value: interpreter.evaluate(statement.value),
+          text: formatExpression(statement.value),
+        };
+      case "break":
+      case "continue":
+        yield* stop(statement.line);
+        return { kind: statement.kind };
+    }
+  }
+
+  return {
+    interpreter,
+    output,
+    finish,
+    runStatement,
+    currentLine: () => line,
+    depth: () => depth,
+  };
+}
+
+/**
+ * Run the statements typed into the console, stopping at the first error.
+ * Statements before it stay applied, like in a real program.
+ */
+export function runStatements(
+  code: string,
+  options: InterpreterOptions,
+): RunResult {
+  const executor = createExecutor(options);
+
+  let statements: Statement[];
+  try {
+    statements = parseStatements(code, executor.interpreter.isTypeName);
+  } catch (error) {
+    return { output: executor.output, error: (error as Error).message };
+  }
+
+  // One undo takes back the whole run
+  try {
+    options.getState().batchHistory(() => {
+      for (const statement of statements) {
+        executor.finish(executor.runStatement(statement));
+      }
+    });
+  } catch (error) {
+    return {
+      output: executor.output,
+      error: `Line ${executor.currentLine()}: ${(error as Error).message}`,
+    };
+  }
+  return { output: executor.output };
+}
+
+/**
+ * Step through a call to pasted functions: "insert(&head, 5)" runs
+ * insert() from the code, one statement per step. Throws when the code or
+ * the call does not parse.
+ */
+export function createStepper(
+  code: string,
+  callText: string,
+  options: StepperOptions,
+) {
+  const functions: FunctionDefinition[] = [];
+  const executor = createExecutor(options, functions);
+  const { isTypeName } = executor.interpreter;
+  functions.push(...parseFunctions(code, isTypeName));
+
+  let entry: Statement[];
+  try {
+    entry = parseStatements(
+      callText.trim().endsWith(";") ? callText : `${callText};`,
+      isTypeName,
+    );
+  } catch (error) {
+    throw new Error(
+      `In the call: ${(error as Error).message.replace(/^Line \d+: /, "")}`,
+    );
+  }
+
+  const program = (function* () {
+    for (const statement of entry) yield* executor.runStatement(statement);
+  })();
+  let result: StepResult | undefined;
+
+  // Every step is a history batch that ends before the step returns, so
+  // the canvas can be edited and undone while the call is paused. The
+  // steps share their key: the whole call is one undo step unless
+  // something else was saved between two of them.
+  const historyKey = `stepper-${++stepperCounter}`;
+
+  // Runs up to the next statement of a function; the statements of the
+  // call itself are not stepped through
+  const runStep = (): StepResult => {
+    try {
+      result = undefined;
+      for (let steps = 0; !result; steps++) {
+        if (steps === MAX_STEPS) {
+          throw new Error(
+            `Stopped after ${MAX_STEPS} steps. Does a loop never end?`,
+          );
+        }
+        const next = program.next();
+        if (next.done) result = { status: "done", output: executor.output };
+        else if (executor.depth() > 0) {
+          result = { status: "paused", line: next.value };
+        }
+      }
+    } catch (error) {
+      result = {
+        status: "error",
+        ...(executor.depth() > 0 && { line: executor.currentLine() }),
+        message: (error as Error).message,
+        output: executor.output,
+      };
+    }
+    return result;
+  };
+
+  const step = (): StepResult => {
+    if (result && result.status !== "paused") return result;
+    return options.getState().batchHistory(runStep, historyKey);
+  };
+
+  // Runs to the end of the call, or until a loop seems not to end
+  const finish = (): StepResult => {
+    for (let steps = 0; steps < MAX_STEPS; steps++) {
+      const next = step();
+      if (next.status !== "paused") return next;
+    }
+    return {
+      status: "paused",
+      line: executor.currentLine(),
+      message: `Paused after ${MAX_STEPS} steps. Does a loop never end?`,
+    };
+  };
+
+  // Abandons the call: the frames it left on the stack return
+  let isStopped = false;
+  const stop = () => {
+    if (isStopped) return;
+    isStopped = true;
+    options.getState().batchHistory(() => {
+      for (let i = executor.depth(); i > 0; i--) {
+        options.getState().popStackFrame();
+      }
+    }, historyKey);
+  };
+
+  return { functions, step, finish, stop };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  findDanglingConnections,
+  findDeadNodeIds,
+  getFreeError,
+  getStorageClass,
+} from "./storage";
+import type {
+  PointerConnection,
+  StackFrame,
+  StructInstance,
+  ValueCell,
+} from "../types";
+
+const instance = (
+  id: string,
+  props: Partial<StructInstance> = {},
+): StructInstance => ({
+  id,
+  structName: "Node",
+  instanceName: id,
+  position: { x: 0, y: 0 },
+  fieldValues: {},
+  ...props,
+});
+
+const cell = (id: string, props: Partial<ValueCell> = {}): ValueCell => ({
+  id,
+  name: id,
+  type: "int",
+  position: { x: 0, y: 0 },
+  ...props,
+});
+
+const frame = (id: string, popped = false): StackFrame => ({
+  id,
+  functionName: id,
+  position: { x: 0, y: 0 },
+  popped,
+});
+
+const link = (from: string, to: string): PointerConnection => ({
+  id: `${from}->${to}`,
+  sourceInstanceId: from,
+  sourceFieldName: "next",
+  targetInstanceId: to,
+});
+
+describe("getStorageClass", () => {
+  it("puts instances on the heap and value cells in static storage", () => {
+    expect(getStorageClass(instance("a"))).toBe("heap");
+    expect(getStorageClass(cell("x"))).toBe("static");
+    expect(getStorageClass(cell("x", { storage: "heap" }))).toBe("heap");
+    expect(getStorageClass(instance("a", { storage: "stack" }))).toBe("stack");
+  });
+});
+
+describe("getFreeError", () => {
+  it("allows free() of a live heap block", () => {
+    expect(getFreeError(instance("a"))).toBeUndefined();
+    expect(getFreeError(cell("x", { storage: "heap" }))).toBeUndefined();
+  });
+
+  it("reports a double free", () => {
+    expect(getFreeError(instance("a", { freed: true }))).toBe("double-free");
+  });
+
+  it("reports free() of globals and locals", () => {
+    expect(getFreeError(cell("x"))).toBe("invalid-free");
+    expect(
+      getFreeError(instance("a", { storage: "stack", frameId: "f" })),
+    ).toBe("invalid-free");
+  });
+});
+
+describe("findDeadNodeIds", () => {
+  it("finds freed blocks and the locals of popped frames", () => {
+    const dead = findDeadNodeIds(
+      [instance("freed", { freed: true }), instance("live")],
+      [
+        cell("global"),
+        cell("active", { storage: "stack", frameId: "main" }),
+        cell("returned", { storage: "stack", frameId: "insert" }),
+        cell("orphan", { storage: "stack", frameId: "missing" }),
+      ],
+      [frame("main"), frame("insert", true)],
+    );
+    expect([...dead].sort()).toEqual(["freed", "orphan", "returned"]);
+  });
+});
+
+describe("findDanglingConnections", () => {
+  it("keeps only pointers from live objects to dead ones", () => {
+    const connections = [
+      link("live", "freed"),
+      link("freed", "other"),
+      link("freed", "alsoFreed"),
+      link("live", "other"),
+    ];
+    const dangling = findDanglingConnections(
+      connections,
+      new Set(["freed", "alsoFreed"]),
+    );
+    expect(dangling.map((c) => c.id)).toEqual(["live->freed"]);
+  });
+});
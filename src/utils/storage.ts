@@ -0,0 +1,67 @@
+import type {
+  PointerConnection,
+  StackFrame,
+  StorageClass,
+  StructInstance,
+  ValueCell,
+} from "../types";
+
+/**
+ * Storage helpers: which region an object lives in and whether it is still
+ * alive. Struct instances default to the heap and value cells to static
+ * storage (globals) until they are moved into a stack frame or region.
+ */
+
+export function getStorageClass(
+  node: StructInstance | ValueCell,
+): StorageClass {
+  return node.storage ?? ("structName" in node ? "heap" : "static");
+}
+
+/**
+ * Why free() on this object is undefined behaviour, if it is
+ */
+export type FreeError = "double-free" | "invalid-free";
+
+export function getFreeError(
+  node: StructInstance | ValueCell,
+): FreeError | undefined {
+  if (node.freed) return "double-free";
+  if (getStorageClass(node) !== "heap") return "invalid-free";
+  return undefined;
+}
+
+/**
+ * Ids of objects that no longer exist: the locals of popped frames and
+ * freed heap blocks
+ */
+export function findDeadNodeIds(
+  instances: StructInstance[],
+  valueCells: ValueCell[],
+  stackFrames: StackFrame[],
+): Set<string> {
+  const isDead = (node: StructInstance | ValueCell) => {
+    if (node.freed) return true;
+    if (getStorageClass(node) !== "stack") return false;
+    const frame = stackFrames.find((f) => f.id === node.frameId);
+    return !frame || !!frame.popped;
+  };
+
+  return new Set(
+    [...instances, ...valueCells].filter(isDead).map((node) => node.id),
+  );
+}
+
+/**
+ * Connections from a live object to a dead one: the pointer still holds the
+ * old address, and following it is undefined behaviour
+ */
+export function findDanglingConnections(
+  connections: PointerConnection[],
+  deadIds: Set<string>,
+): PointerConnection[] {
+  return connections.filter(
+    (conn) =>
+      deadIds.has(conn.targetInstanceId) && !deadIds.has(conn.sourceInstanceId),
+  );
+}
@@ -0,0 +1,96 @@
+import type { CEnum, CField, CStruct, CTypedef, ValueCell } from "../types";
+import { getTypeSize, resolveFieldType } from "../parser/structParser";
+import { getDataModel, type DataModelId } from "../parser/dataModels";
+
+/**
+ * Helpers for value cells: standalone ints, doubles, pointers and arrays of
+ * them that live on the canvas next to struct instances.
+ * A cell's elements are addressed like members: "value" for a single value,
+ * "value[2]" for an element of an array block.
+ */
+
+export const VALUE_CELL_FIELD = "value";
+
+/**
+ * Canvas node id prefix; cells and instances share the node id namespace
+ */
+export function isValueCellId(id: string): boolean {
+  return id.startsWith("cell-");
+}
+
+/**
+ * One element of the cell as a field, with typedefs expanded
+ */
+export function getValueCellElement(
+  cell: ValueCell,
+  typedefs: CTypedef[] = [],
+): CField {
+  return resolveFieldType(
+    {
+      name: cell.name,
+      type: cell.type,
+      isPointer: !!cell.pointerLevel,
+      isArray: false,
+      pointerLevel: cell.pointerLevel || undefined,
+    },
+    typedefs,
+  );
+}
+
+/**
+ * Paths of the cell's elements: ["value"] or ["value[0]", "value[1]", ...]
+ */
+export function getValueCellPaths(cell: ValueCell): string[] {
+  if (cell.length === undefined) return [VALUE_CELL_FIELD];
+  return Array.from(
+    { length: cell.length },
+    (_, index) => `${VALUE_CELL_FIELD}[${index}]`,
+  );
+}
+
+export function isValueCellPath(cell: ValueCell, path: string): boolean {
+  return getValueCellPaths(cell).includes(path);
+}
+
+/**
+ * Declared type of the cell as C writes it: "int", "double*", "char[16]"
+ */
+export function formatValueCellType(
+  cell: Pick<ValueCell, "type" | "pointerLevel" | "length">,
+): string {
+  const stars = "*".repeat(cell.pointerLevel ?? 0);
+  const length = cell.length !== undefined ? `[${cell.length}]` : "";
+  return `${cell.type}${stars}${length}`;
+}
+
+/**
+ * Size in bytes of the whole cell under the given data model
+ */
+export function getValueCellSize(
+  cell: ValueCell,
+  structs: CStruct[],
+  enums: CEnum[] = [],
+  dataModel?: DataModelId,
+  typedefs: CTypedef[] = [],
+): number {
+  const element = getValueCellElement(cell, typedefs);
+  const elementSize = element.isPointer
+    ? getDataModel(dataModel).sizes.pointer
+    : getTypeSize(element.type, structs, enums, dataModel, typedefs);
+  return elementSize * (cell.length ?? 1);
+}
+
+/**
+ * A char array holds its contents as one string, like "char name[16] = "hi""
+ */
+export function isStringCell(
+  cell: ValueCell,
+  typedefs: CTypedef[] = [],
+): boolean {
+  const element = getValueCellElement(cell, typedefs);
+  return (
+    cell.length !== undefined &&
+    !element.isPointer &&
+    /^(?:(?:un)?signed\s+)?char$/.test(element.type)
+  );
+}